@@ -0,0 +1,40 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { addDays, matchesRule, RecurrenceRule } from "./recurrence";
+
+// Mirrors withNonTeachingDates in src/utils/academicCalendar.ts
+
+export interface NonTeachingPeriod {
+  kind: "holiday" | "readingWeek" | "examPeriod";
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export const loadNonTeachingPeriods = async (): Promise<
+  NonTeachingPeriod[]
+> => {
+  const snapshot = await getFirestore().collection("academicYears").get();
+  return snapshot.docs.flatMap((doc) => doc.data().nonTeachingPeriods || []);
+};
+
+// Occurrences of `rule` on non-teaching days, which the rule then skips.
+// Manual exceptions are left alone, so they survive calendar changes.
+export const withNonTeachingDates = (
+  rule: RecurrenceRule,
+  periods: NonTeachingPeriod[]
+): RecurrenceRule => {
+  const teachingRule = { ...rule, nonTeachingDates: [] };
+  const dates = new Set<string>();
+
+  periods.forEach((period) => {
+    for (
+      let date = period.startDate;
+      date <= period.endDate;
+      date = addDays(date, 1)
+    ) {
+      if (matchesRule(teachingRule, date)) dates.add(date);
+    }
+  });
+
+  return { ...rule, nonTeachingDates: Array.from(dates).sort() };
+};
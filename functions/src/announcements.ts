@@ -0,0 +1,107 @@
+import { DocumentData, Timestamp } from "firebase-admin/firestore";
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { notifyRecipient, Recipient } from "./notifications/notifyUser";
+import {
+  allUsers,
+  audienceForBranches,
+  studentsInCourses,
+  usersByRole,
+} from "./reminders/audiences";
+
+// Mirrors AnnouncementAudience in src/interfaces/Announcement.ts
+interface AnnouncementAudience {
+  roles?: string[];
+  departments?: string[];
+  courseIds?: string[];
+  branches?: string[];
+}
+
+// Push and inbox messages carry a shortened body; the dashboard shows it in full
+const MAX_MESSAGE_LENGTH = 280;
+
+const PRIORITY_PREFIXES: Record<string, string> = {
+  important: "Important: ",
+  urgent: "Urgent: ",
+};
+
+const truncate = (text: string): string =>
+  text.length > MAX_MESSAGE_LENGTH
+    ? `${text.slice(0, MAX_MESSAGE_LENGTH - 1).trimEnd()}…`
+    : text;
+
+// Values within a dimension are alternatives; dimensions narrow each other
+const resolveAudience = async (
+  audience: AnnouncementAudience
+): Promise<Recipient[]> => {
+  const roles = audience.roles || [];
+  const departments = audience.departments || [];
+  const courseIds = audience.courseIds || [];
+  const branches = audience.branches || [];
+
+  let recipients = roles.length
+    ? (await Promise.all(roles.map(usersByRole))).flat()
+    : await allUsers();
+
+  if (departments.length) {
+    recipients = recipients.filter((r) =>
+      departments.includes(r.data.department)
+    );
+  }
+  if (courseIds.length) {
+    const enrolled = new Set(
+      (await studentsInCourses(courseIds)).map((r) => r.id)
+    );
+    recipients = recipients.filter((r) => enrolled.has(r.id));
+  }
+  if (branches.length) {
+    const atBranches = new Set(
+      (await audienceForBranches(branches)).map((r) => r.id)
+    );
+    recipients = recipients.filter((r) => atBranches.has(r.id));
+  }
+
+  return recipients;
+};
+
+// Deliver a new announcement to its audience and record delivery statistics
+export const onAnnouncementCreated = onDocumentCreated(
+  "announcements/{announcementId}",
+  async (event) => {
+    const announcement = event.data?.data() as DocumentData | undefined;
+    if (!announcement || announcement.status !== "sending") return;
+
+    const announcementId = event.params.announcementId;
+    const recipients = await resolveAudience(announcement.audience || {});
+    const stats = {
+      recipients: recipients.length,
+      inApp: 0,
+      email: 0,
+      push: 0,
+    };
+
+    for (const recipient of recipients) {
+      const summary = await notifyRecipient(
+        recipient,
+        {
+          title: `${PRIORITY_PREFIXES[announcement.priority] || ""}${
+            announcement.title
+          }`,
+          message: truncate(announcement.summary || ""),
+          category: "announcements",
+          link: "/dashboard",
+          announcementId,
+        },
+        `announcement-${announcementId}-${recipient.id}`
+      );
+      if (summary.inApp) stats.inApp += 1;
+      if (summary.email) stats.email += 1;
+      if (summary.push) stats.push += 1;
+    }
+
+    await event.data!.ref.update({
+      status: "sent",
+      stats,
+      sentAt: Timestamp.now(),
+    });
+  }
+);
@@ -0,0 +1,221 @@
+import { randomUUID } from "crypto";
+import {
+  DocumentData,
+  getFirestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import {
+  CallableRequest,
+  HttpsError,
+  onCall,
+} from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import {
+  CAMPUS_TIME_ZONE,
+  campusTimeToDate,
+  toCampusTime,
+} from "../campusTime";
+import { notifyRecipient } from "../notifications/notifyUser";
+import { formatDateKey } from "../recurrence";
+import { usersByIds } from "../reminders/audiences";
+
+// Each classroom has a QR code linking to its check-in page with a secret
+// `checkInCode`, so checking in shows the person is in the room. The codes are
+// kept in `classroomSecrets/{classroomId}`, which only Cloud Functions read
+// and write, since everyone can read the classroom docs. Confirmed
+// bookings nobody checked in to by the end of the grace window are marked
+// `no-show`, which frees the room for others and for its waitlist.
+
+// Mirrors CHECK_IN_GRACE_MINUTES in src/utils/bookings.ts: check-in opens
+// this long before the start and closes this long after it
+const CHECK_IN_GRACE_MINUTES = 15;
+
+const GRACE_MS = CHECK_IN_GRACE_MINUTES * 60 * 1000;
+
+interface CheckInRequest {
+  classroomId: string;
+  code: string;
+}
+
+// Checks the caller in to their confirmed booking in the room whose check-in
+// window is open
+export const checkInToRoom = onCall<CheckInRequest>(async (call) => {
+  if (!call.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to check in");
+  }
+  const { classroomId, code } = call.data || {};
+  if (typeof classroomId !== "string" || !classroomId) {
+    throw new HttpsError("invalid-argument", "A classroom is required");
+  }
+
+  const db = getFirestore();
+  const secret = (
+    await db.collection("classroomSecrets").doc(classroomId).get()
+  ).data();
+  if (!secret?.checkInCode || secret.checkInCode !== code) {
+    throw new HttpsError(
+      "permission-denied",
+      "This QR code is no longer valid. Scan the code posted in the room."
+    );
+  }
+
+  const now = new Date();
+  const userId = call.auth.uid;
+  const sameDay = await db
+    .collection("bookings")
+    .where("classroomId", "==", classroomId)
+    .where("date", "==", toCampusTime(now).dateKey)
+    .get();
+  const bookingDoc = sameDay.docs.find((doc) => {
+    const booking = doc.data();
+    const startsAt = campusTimeToDate(booking.date, booking.startTime);
+    return (
+      booking.status === "confirmed" &&
+      (booking.bookedFor === userId || booking.bookedBy === userId) &&
+      Math.abs(now.getTime() - startsAt.getTime()) <= GRACE_MS
+    );
+  });
+  if (!bookingDoc) {
+    throw new HttpsError(
+      "not-found",
+      `You have no booking to check in to here right now. Check-in opens ${CHECK_IN_GRACE_MINUTES} minutes before a booking starts and closes ${CHECK_IN_GRACE_MINUTES} minutes after.`
+    );
+  }
+
+  const booking = bookingDoc.data();
+  if (!booking.checkedInAt) {
+    await bookingDoc.ref.update({
+      checkedInAt: now.toISOString(),
+      checkedInBy: userId,
+    });
+  }
+  return {
+    bookingId: bookingDoc.id,
+    title: booking.title,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  };
+});
+
+interface CheckInCodeRequest {
+  classroomId: string;
+}
+
+// The classroom an admin asked about; throws for anyone else
+const adminClassroomId = async (
+  call: CallableRequest<CheckInCodeRequest>
+): Promise<string> => {
+  if (!call.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to manage check-in codes");
+  }
+  const db = getFirestore();
+  const caller = await db.collection("users").doc(call.auth.uid).get();
+  if (caller.data()?.role !== "admin") {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can manage check-in codes"
+    );
+  }
+  const { classroomId } = call.data || {};
+  if (typeof classroomId !== "string" || !classroomId) {
+    throw new HttpsError("invalid-argument", "A classroom is required");
+  }
+  const classroom = await db.collection("classrooms").doc(classroomId).get();
+  if (!classroom.exists) {
+    throw new HttpsError("not-found", "This classroom no longer exists");
+  }
+  return classroomId;
+};
+
+// A classroom's current check-in code, for printing; null until one is made
+export const getCheckInCode = onCall<CheckInCodeRequest>(
+  async (call): Promise<{ code: string | null }> => {
+    const classroomId = await adminClassroomId(call);
+    const secret = await getFirestore()
+      .collection("classroomSecrets")
+      .doc(classroomId)
+      .get();
+    return { code: secret.data()?.checkInCode || null };
+  }
+);
+
+// Gives a classroom a new check-in code, which retires every printed copy of
+// the old one
+export const replaceCheckInCode = onCall<CheckInCodeRequest>(
+  async (call): Promise<{ code: string }> => {
+    const classroomId = await adminClassroomId(call);
+    const code = randomUUID();
+    await getFirestore().collection("classroomSecrets").doc(classroomId).set({
+      checkInCode: code,
+      updatedAt: Timestamp.now(),
+      updatedBy: call.auth!.uid,
+    });
+    return { code };
+  }
+);
+
+// When a booking was confirmed: approved requests record the decision, and
+// bookings made by admins are confirmed as they're created
+const confirmedAt = (booking: DocumentData): number =>
+  booking.decidedAt
+    ? Date.parse(booking.decidedAt)
+    : ((booking.createdAt as Timestamp | undefined)?.toMillis() ?? 0);
+
+// Releases today's confirmed bookings that nobody checked in to in time.
+// Bookings confirmed after their check-in window opened are left alone, since
+// nobody had the whole window to check in.
+export const releaseNoShows = onSchedule(
+  { schedule: "every 5 minutes", timeZone: CAMPUS_TIME_ZONE },
+  async () => {
+    const db = getFirestore();
+    const now = new Date();
+    const confirmed = await db
+      .collection("bookings")
+      .where("status", "==", "confirmed")
+      .where("date", "==", toCampusTime(now).dateKey)
+      .get();
+
+    for (const doc of confirmed.docs) {
+      const booking = doc.data();
+      const startsAt = campusTimeToDate(
+        booking.date,
+        booking.startTime
+      ).getTime();
+      if (booking.checkedInAt || startsAt + GRACE_MS > now.getTime()) continue;
+      if (confirmedAt(booking) > startsAt - GRACE_MS) continue;
+
+      // Someone may have checked in since the query
+      const released = await db.runTransaction(async (transaction) => {
+        const fresh = (await transaction.get(doc.ref)).data();
+        if (fresh?.status !== "confirmed" || fresh.checkedInAt) return false;
+        transaction.update(doc.ref, {
+          status: "no-show",
+          releasedAt: now.toISOString(),
+        });
+        return true;
+      });
+      if (!released) continue;
+
+      const classroom = await db
+        .collection("classrooms")
+        .doc(booking.classroomId)
+        .get();
+      const room = classroom.data()?.name || "a classroom";
+      const when = `${formatDateKey(booking.date)}, ${booking.startTime} - ${
+        booking.endTime
+      }`;
+      for (const recipient of await usersByIds([booking.bookedFor])) {
+        await notifyRecipient(
+          recipient,
+          {
+            title: "Booking released",
+            message: `Nobody checked in to "${booking.title}" in ${room} on ${when} within ${CHECK_IN_GRACE_MINUTES} minutes of the start, so the room was released.`,
+            category: "bookings",
+            link: "/dashboard",
+          },
+          `booking-no-show-${doc.id}-${recipient.id}`
+        );
+      }
+    }
+  }
+);
@@ -0,0 +1,43 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import {
+  CAMPUS_TIME_ZONE,
+  campusTimeToDate,
+  toCampusTime,
+} from "../campusTime";
+
+// Firestore caps a batch at 500 writes
+const BATCH_SIZE = 500;
+
+// Confirmed bookings that have ended are marked completed, so bookings only
+// ever leave the collection's active states through a recorded transition.
+// Today's bookings nobody checked in to are left for `releaseNoShows`.
+export const completePastBookings = onSchedule(
+  { schedule: "every 1 hours", timeZone: CAMPUS_TIME_ZONE },
+  async () => {
+    const db = getFirestore();
+    const now = new Date();
+    const todayKey = toCampusTime(now).dateKey;
+    const confirmed = await db
+      .collection("bookings")
+      .where("status", "==", "confirmed")
+      .where("date", "<=", todayKey)
+      .get();
+
+    const ended = confirmed.docs.filter(
+      (doc) =>
+        campusTimeToDate(doc.data().date, doc.data().endTime) <= now &&
+        (!!doc.data().checkedInAt || doc.data().date < todayKey)
+    );
+    for (let i = 0; i < ended.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      ended.slice(i, i + BATCH_SIZE).forEach((doc) =>
+        batch.update(doc.ref, {
+          status: "completed",
+          completedAt: now.toISOString(),
+        })
+      );
+      await batch.commit();
+    }
+  }
+);
@@ -0,0 +1,521 @@
+import {
+  DocumentData,
+  getFirestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { loadNonTeachingPeriods, NonTeachingPeriod } from "../academicCalendar";
+import { campusTimeToDate, toCampusTime } from "../campusTime";
+import {
+  equipmentClashes,
+  equipmentUnavailable,
+  MAX_EQUIPMENT_PER_BOOKING,
+  reserveEquipment,
+} from "../equipment/loans";
+import {
+  addDays,
+  formatDateKey,
+  isDateKey,
+  occurrencesOn,
+  RecurringSchedule,
+  ScheduleOccurrence,
+} from "../recurrence";
+
+// Bookings are created here rather than by the app, so two people booking
+// the same room at once can't both succeed. Every booking of a room on a day
+// writes that day's document in `bookingSlots`; Firestore retries a
+// transaction whose reads changed before it committed, so concurrent
+// bookings of the same room and day are checked one after the other. A
+// recurring booking is saved as one booking per occurrence, sharing a
+// `seriesId`, and is booked in full or not at all. Equipment requested with
+// a booking is reserved for every occurrence in the same transaction.
+
+const BOOKING_TYPES = ["class", "meeting", "event", "other"];
+
+// Bookings in these states occupy their room. Mirrored in
+// src/utils/scheduleConflicts.ts.
+export const OCCUPYING_STATUSES = ["pending", "confirmed"];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Mirrors MAX_SERIES_OCCURRENCES in src/utils/bookings.ts
+const MAX_SERIES_OCCURRENCES = 52;
+
+// Booking policy, mirrored in src/utils/bookings.ts: people who didn't check
+// in to this many bookings in the window can't book for themselves until
+// older no-shows drop out of it
+const NO_SHOW_LIMIT = 3;
+const NO_SHOW_WINDOW_DAYS = 30;
+
+// Mirrors BookingRepeat in src/interfaces/Booking.ts
+interface BookingRepeat {
+  interval: number;
+  until?: string;
+  count?: number;
+  exceptionDates: string[];
+}
+
+export interface CreateBookingRequest {
+  classroomId: string;
+  title: string;
+  description?: string;
+  bookingType: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  bookedFor?: string; // Admins only; others always book for themselves
+  repeat?: BookingRepeat; // Repeats weekly from `date`
+  equipmentIds?: string[]; // Reserved for the booking's time on every date
+  // Admins only: book despite the conflicts they were shown
+  conflictOverride?: {
+    reason: string;
+    conflicts: string[]; // Descriptions, recorded with the booking
+    acknowledged: string[]; // Keys (kind:source:id) of the conflicts shown
+  };
+}
+
+// Mirrors ScheduleConflict in src/interfaces/Conflict.ts, so the app can
+// show the conflicts that stopped a booking
+interface RoomConflict {
+  kind: "room";
+  source: "schedule" | "booking";
+  id: string;
+  title: string;
+  when: string;
+  detail: string;
+}
+
+const normalize = (value?: string | number): string =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+export type TimeRange = Pick<CreateBookingRequest, "startTime" | "endTime">;
+
+export const overlaps = (a: TimeRange, b: TimeRange): boolean =>
+  a.startTime < b.endTime && b.startTime < a.endTime;
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpsError("invalid-argument", `${field} is required`);
+  }
+  return value.trim();
+};
+
+export const validateBookingRequest = (
+  data: CreateBookingRequest
+): CreateBookingRequest => {
+  const request: CreateBookingRequest = {
+    ...data,
+    classroomId: requireString(data?.classroomId, "A classroom"),
+    title: requireString(data?.title, "A title"),
+    date: requireString(data?.date, "A date"),
+    startTime: requireString(data?.startTime, "A start time"),
+    endTime: requireString(data?.endTime, "An end time"),
+  };
+  if (!isDateKey(request.date)) {
+    throw new HttpsError("invalid-argument", "The date must be YYYY-MM-DD");
+  }
+  if (
+    !TIME_PATTERN.test(request.startTime) ||
+    !TIME_PATTERN.test(request.endTime)
+  ) {
+    throw new HttpsError("invalid-argument", "Times must be HH:MM");
+  }
+  if (request.startTime >= request.endTime) {
+    throw new HttpsError(
+      "invalid-argument",
+      "The end time must be after the start time"
+    );
+  }
+  if (!BOOKING_TYPES.includes(request.bookingType)) {
+    throw new HttpsError("invalid-argument", "Unknown booking type");
+  }
+  if (request.repeat) {
+    const { interval, until, count, exceptionDates } = request.repeat;
+    if (!Number.isInteger(interval) || interval < 1 || interval > 4) {
+      throw new HttpsError(
+        "invalid-argument",
+        "A series repeats every 1 to 4 weeks"
+      );
+    }
+    if (until ? !isDateKey(until) || until < request.date : !count) {
+      throw new HttpsError(
+        "invalid-argument",
+        "A series needs an end date on or after its first date, or a number of occurrences"
+      );
+    }
+    if (
+      count !== undefined &&
+      (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES)
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A series has 1 to ${MAX_SERIES_OCCURRENCES} occurrences`
+      );
+    }
+    if (
+      exceptionDates !== undefined &&
+      (!Array.isArray(exceptionDates) ||
+        exceptionDates.length > MAX_SERIES_OCCURRENCES ||
+        !exceptionDates.every(isDateKey))
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Dates left out of a series must be YYYY-MM-DD"
+      );
+    }
+  }
+  if (request.equipmentIds !== undefined) {
+    const ids = request.equipmentIds;
+    if (
+      !Array.isArray(ids) ||
+      ids.some((id) => typeof id !== "string" || !id) ||
+      new Set(ids).size !== ids.length
+    ) {
+      throw new HttpsError("invalid-argument", "Unknown equipment");
+    }
+    if (ids.length > MAX_EQUIPMENT_PER_BOOKING) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A booking can reserve up to ${MAX_EQUIPMENT_PER_BOOKING} items`
+      );
+    }
+  }
+  return request;
+};
+
+// Mirrors bookingSeriesDates in src/utils/bookings.ts: the first date's
+// weekday every `interval` weeks. Non-teaching days are skipped and don't
+// count towards `count`; dates the user left out do.
+const seriesDates = (
+  date: string,
+  repeat: BookingRepeat,
+  periods: NonTeachingPeriod[]
+): string[] => {
+  const dates: string[] = [];
+  let counted = 0;
+  for (
+    let day = date, steps = 0;
+    steps < MAX_SERIES_OCCURRENCES * 2;
+    day = addDays(day, 7 * repeat.interval), steps++
+  ) {
+    if (repeat.until ? day > repeat.until : counted >= (repeat.count || 1)) {
+      break;
+    }
+    if (
+      periods.some((period) => period.startDate <= day && day <= period.endDate)
+    ) {
+      continue;
+    }
+    counted++;
+    if (!(repeat.exceptionDates || []).includes(day)) dates.push(day);
+    if (counted >= MAX_SERIES_OCCURRENCES) break;
+  }
+  return dates;
+};
+
+// Classes in the room on those days, wherever the schedule normally meets: a
+// single class can be moved into or out of the room. Schedules linked to a
+// classroom are matched by its ID; room numbers repeat across branches, so
+// they're only compared for legacy schedules and for classes moved for the
+// day, which record just the room they moved to.
+export const scheduleConflicts = async (
+  classroomId: string,
+  classroom: DocumentData,
+  request: TimeRange,
+  dates: string[]
+): Promise<RoomConflict[]> => {
+  const snapshot = await getFirestore().collection("schedules").get();
+  const sameRoomNumber = (occurrence: ScheduleOccurrence) =>
+    normalize(occurrence.classroomNumber) === normalize(classroom.roomNumber) &&
+    normalize(occurrence.floorNumber) === normalize(classroom.floor) &&
+    (!occurrence.branch ||
+      !classroom.branch ||
+      normalize(occurrence.branch) === normalize(classroom.branch));
+
+  return snapshot.docs.flatMap((doc) => {
+    const schedule = { id: doc.id, ...doc.data() } as RecurringSchedule &
+      DocumentData;
+    const inRoom = (occurrence: ScheduleOccurrence) => {
+      const moved = (schedule.overrides || []).some(
+        (override) =>
+          override.date === occurrence.originalDate && override.classroomNumber
+      );
+      return schedule.classroomId && !moved
+        ? schedule.classroomId === classroomId
+        : sameRoomNumber(occurrence);
+    };
+    return dates.flatMap((date) => {
+      const clash = occurrencesOn(schedule, date).find(
+        (occurrence) => inRoom(occurrence) && overlaps(occurrence, request)
+      );
+      return clash
+        ? [
+            {
+              kind: "room" as const,
+              source: "schedule" as const,
+              id: doc.id,
+              title: schedule.moduleTitle || "Class",
+              when: `${formatDateKey(date)}, ${clash.startTime} - ${
+                clash.endTime
+              }`,
+              detail: `Room ${clash.classroomNumber} (floor ${
+                clash.floorNumber
+              }${clash.branch ? `, ${clash.branch}` : ""}) is in use`,
+            },
+          ]
+        : [];
+    });
+  });
+};
+
+// Refuses people over the no-show limit, saying when they can book again
+const enforceNoShowPolicy = async (userId: string): Promise<void> => {
+  const since = addDays(toCampusTime(new Date()).dateKey, -NO_SHOW_WINDOW_DAYS);
+  const noShows = await getFirestore()
+    .collection("bookings")
+    .where("bookedFor", "==", userId)
+    .where("status", "==", "no-show")
+    .get();
+  const dates = noShows.docs
+    .map((doc) => doc.data().date as string)
+    .filter((date) => date >= since)
+    .sort();
+  if (dates.length < NO_SHOW_LIMIT) return;
+
+  // Bookable again once enough of the oldest have left the window
+  const until = addDays(
+    dates[dates.length - NO_SHOW_LIMIT],
+    NO_SHOW_WINDOW_DAYS + 1
+  );
+  throw new HttpsError(
+    "permission-denied",
+    `You didn't check in to ${dates.length} bookings in the last ${NO_SHOW_WINDOW_DAYS} days, so you can book rooms again from ${formatDateKey(
+      until
+    )}. An admin can still book one for you.`
+  );
+};
+
+// Books a validated request for `userId`: a booking, or every occurrence of
+// a recurring one, if its room is free. Admins' bookings are confirmed;
+// everyone else's are requests for an admin to approve. Conflicts are
+// reported as a `failed-precondition` error with the conflicts, on whichever
+// dates, as details. Accepting a waitlist offer books the room it holds and
+// closes the offer in the same transaction.
+export const bookClassroom = async (
+  userId: string,
+  request: CreateBookingRequest,
+  waitlistEntryId?: string
+) => {
+  const db = getFirestore();
+
+  const [caller, classroomDoc] = await Promise.all([
+    db.collection("users").doc(userId).get(),
+    db.collection("classrooms").doc(request.classroomId).get(),
+  ]);
+  const isAdmin = caller.data()?.role === "admin";
+  const override =
+    isAdmin && request.conflictOverride?.reason?.trim()
+      ? request.conflictOverride
+      : undefined;
+  const classroom = classroomDoc.data();
+  if (!classroom || classroom.isActive === false) {
+    throw new HttpsError("not-found", "This classroom can't be booked");
+  }
+  if (!isAdmin) await enforceNoShowPolicy(userId);
+
+  const dates = request.repeat
+    ? seriesDates(request.date, request.repeat, await loadNonTeachingPeriods())
+    : [request.date];
+  if (dates.length === 0) {
+    throw new HttpsError(
+      "invalid-argument",
+      "None of the series' dates can be booked"
+    );
+  }
+
+  // Schedules are read outside the transaction: they change rarely, and
+  // their own conflict check covers bookings when they do
+  const classConflicts = await scheduleConflicts(
+    request.classroomId,
+    classroom,
+    request,
+    dates
+  );
+
+  return db.runTransaction(async (transaction) => {
+    // Every read comes before the first write
+    const slotRefs = dates.map((date) =>
+      db.collection("bookingSlots").doc(`${request.classroomId}_${date}`)
+    );
+    await Promise.all(slotRefs.map((slotRef) => transaction.get(slotRef)));
+    const sameDays = await Promise.all(
+      dates.map((date) =>
+        transaction.get(
+          db
+            .collection("bookings")
+            .where("classroomId", "==", request.classroomId)
+            .where("date", "==", date)
+        )
+      )
+    );
+    // Waitlist offers hold their room until they're answered or expire
+    const offers = await transaction.get(
+      db
+        .collection("bookingWaitlist")
+        .where("classroomId", "==", request.classroomId)
+        .where("status", "==", "offered")
+    );
+    const entryRef = waitlistEntryId
+      ? db.collection("bookingWaitlist").doc(waitlistEntryId)
+      : null;
+    if (entryRef) {
+      const entry = await transaction.get(entryRef);
+      if (entry.data()?.status !== "offered") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This offer is no longer open"
+        );
+      }
+    }
+    const nowIso = new Date().toISOString();
+    const equipmentIds = request.equipmentIds || [];
+    const windows = dates.map((date) => ({
+      startAt: campusTimeToDate(date, request.startTime).toISOString(),
+      dueAt: campusTimeToDate(date, request.endTime).toISOString(),
+    }));
+    const unavailable =
+      equipmentIds.length > 0
+        ? await equipmentClashes(transaction, equipmentIds, windows)
+        : [];
+
+    const conflicts: RoomConflict[] = [
+      ...classConflicts,
+      ...sameDays
+        .flatMap((sameDay) => sameDay.docs)
+        .filter((doc) => OCCUPYING_STATUSES.includes(doc.data().status))
+        .filter((doc) => overlaps(doc.data() as TimeRange, request))
+        .map((doc) => {
+          const booking = doc.data();
+          return {
+            kind: "room" as const,
+            source: "booking" as const,
+            id: doc.id,
+            title: booking.title,
+            when: `${formatDateKey(booking.date)}, ${booking.startTime} - ${
+              booking.endTime
+            }`,
+            detail: `Room ${classroom.roomNumber} (floor ${classroom.floor}) is ${
+              booking.status === "pending" ? "requested" : "booked"
+            }`,
+          };
+        }),
+      ...offers.docs
+        .filter(
+          (doc) =>
+            doc.id !== waitlistEntryId &&
+            dates.includes(doc.data().date) &&
+            doc.data().offerExpiresAt > nowIso &&
+            overlaps(doc.data() as TimeRange, request)
+        )
+        .map((doc) => {
+          const offer = doc.data();
+          return {
+            kind: "room" as const,
+            source: "booking" as const,
+            id: doc.id,
+            title: offer.title,
+            when: `${formatDateKey(offer.date)}, ${offer.startTime} - ${
+              offer.endTime
+            }`,
+            detail: `Room ${classroom.roomNumber} (floor ${classroom.floor}) is offered to the waitlist`,
+          };
+        }),
+    ];
+
+    const acknowledged = new Set(override?.acknowledged || []);
+    const overridden =
+      !!override &&
+      conflicts.every((conflict) =>
+        acknowledged.has(`${conflict.kind}:${conflict.source}:${conflict.id}`)
+      );
+    if (conflicts.length > 0 && !overridden) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This classroom is not available at the selected time",
+        { conflicts }
+      );
+    }
+    if (unavailable.length > 0) throw equipmentUnavailable(unavailable);
+
+    const bookingRefs = dates.map(() => db.collection("bookings").doc());
+    // A series is known by its first booking
+    const seriesId = request.repeat ? bookingRefs[0].id : undefined;
+    const status = isAdmin ? "confirmed" : "pending";
+    const now = Timestamp.now();
+    dates.forEach((date, index) => {
+      transaction.set(bookingRefs[index], {
+        classroomId: request.classroomId,
+        title: request.title,
+        description: (request.description || "").trim(),
+        bookingType: request.bookingType,
+        date,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        bookedBy: userId,
+        bookedFor: (isAdmin && request.bookedFor) || userId,
+        status,
+        createdAt: now,
+        updatedAt: now,
+        ...(seriesId && { seriesId }),
+        ...(override && {
+          conflictOverride: {
+            reason: override.reason.trim(),
+            conflicts: override.conflicts || [],
+            overriddenBy: userId,
+            overriddenAt: new Date().toISOString(),
+          },
+        }),
+      });
+      if (equipmentIds.length > 0) {
+        reserveEquipment(transaction, equipmentIds, {
+          ...windows[index],
+          bookingId: bookingRefs[index].id,
+          borrowerId: (isAdmin && request.bookedFor) || userId,
+          requestedBy: userId,
+        });
+      }
+      transaction.set(slotRefs[index], {
+        classroomId: request.classroomId,
+        date,
+        lastBookingId: bookingRefs[index].id,
+        updatedAt: now,
+      });
+    });
+    if (entryRef) {
+      transaction.update(entryRef, {
+        status: "accepted",
+        bookingId: bookingRefs[0].id,
+        respondedAt: nowIso,
+      });
+    }
+
+    return {
+      id: bookingRefs[0].id,
+      status,
+      ...(seriesId && { seriesId }),
+      occurrences: dates.map((date, index) => ({
+        id: bookingRefs[index].id,
+        date,
+      })),
+    };
+  });
+};
+
+export const createBooking = onCall<CreateBookingRequest>(async (call) => {
+  if (!call.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to book a classroom");
+  }
+  return bookClassroom(call.auth.uid, validateBookingRequest(call.data));
+});
@@ -0,0 +1,264 @@
+import {
+  DocumentData,
+  DocumentReference,
+  getFirestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { CAMPUS_TIME_ZONE, campusTimeToDate } from "../campusTime";
+import { notifyRecipient } from "../notifications/notifyUser";
+import { formatDateKey } from "../recurrence";
+import { usersByIds } from "../reminders/audiences";
+import {
+  bookClassroom,
+  OCCUPYING_STATUSES,
+  overlaps,
+  scheduleConflicts,
+  TimeRange,
+  validateBookingRequest,
+} from "./create";
+
+// People who couldn't book a room join its waitlist for that date and time
+// (`bookingWaitlist`, written by the app). When a booking in the room is
+// cancelled, rejected or deleted, the first entry in line whose time is now
+// free is offered the room. The offer holds the room until it's answered or
+// expires, and accepting it books the room like any other request.
+
+// How long an offer stays open, at most; it also closes when the slot starts
+const OFFER_HOURS = 12;
+
+const describeEntry = (entry: DocumentData, room: string): string =>
+  `${room} on ${formatDateKey(entry.date)}, ${entry.startTime} - ${
+    entry.endTime
+  }`;
+
+// Offers the room to a waiting entry if its time is free of bookings and
+// other open offers. Like a booking, the offer writes the room's day document
+// in `bookingSlots` in the same transaction as the check, so a booking made
+// at the same moment is checked after the offer, or the offer after it.
+const offerIfFree = async (
+  entryRef: DocumentReference,
+  expiresAt: Date
+): Promise<boolean> => {
+  const db = getFirestore();
+  return db.runTransaction(async (transaction) => {
+    const fresh = await transaction.get(entryRef);
+    const entry = fresh.data();
+    // Another trigger may have offered the slot in the meantime
+    if (entry?.status !== "waiting") return false;
+
+    const slotRef = db
+      .collection("bookingSlots")
+      .doc(`${entry.classroomId}_${entry.date}`);
+    const [, sameDay, sameDayEntries] = await Promise.all([
+      transaction.get(slotRef),
+      transaction.get(
+        db
+          .collection("bookings")
+          .where("classroomId", "==", entry.classroomId)
+          .where("date", "==", entry.date)
+      ),
+      transaction.get(
+        db
+          .collection("bookingWaitlist")
+          .where("classroomId", "==", entry.classroomId)
+          .where("date", "==", entry.date)
+      ),
+    ]);
+    const now = new Date();
+    const taken =
+      sameDay.docs.some(
+        (doc) =>
+          OCCUPYING_STATUSES.includes(doc.data().status) &&
+          overlaps(doc.data() as TimeRange, entry as TimeRange)
+      ) ||
+      sameDayEntries.docs.some(
+        (doc) =>
+          doc.data().status === "offered" &&
+          doc.data().offerExpiresAt > now.toISOString() &&
+          overlaps(doc.data() as TimeRange, entry as TimeRange)
+      );
+    if (taken) return false;
+
+    transaction.update(entryRef, {
+      status: "offered",
+      offeredAt: now.toISOString(),
+      offerExpiresAt: expiresAt.toISOString(),
+    });
+    transaction.set(
+      slotRef,
+      {
+        classroomId: entry.classroomId,
+        date: entry.date,
+        lastOfferId: entryRef.id,
+        updatedAt: Timestamp.now(),
+      },
+      { merge: true }
+    );
+    return true;
+  });
+};
+
+// Offers the room on `date` to each waiting entry, oldest first, whose time
+// has become free. Entries whose slot has already started are expired.
+export const offerNextInLine = async (
+  classroomId: string,
+  date: string
+): Promise<void> => {
+  const db = getFirestore();
+  const [entries, classroomDoc] = await Promise.all([
+    db
+      .collection("bookingWaitlist")
+      .where("classroomId", "==", classroomId)
+      .where("date", "==", date)
+      .get(),
+    db.collection("classrooms").doc(classroomId).get(),
+  ]);
+  const classroom = classroomDoc.data();
+  if (!classroom) return;
+
+  const now = new Date();
+  const waiting = entries.docs
+    .filter((doc) => doc.data().status === "waiting")
+    .sort(
+      (a, b) =>
+        (a.data().createdAt as Timestamp).toMillis() -
+        (b.data().createdAt as Timestamp).toMillis()
+    );
+
+  for (const doc of waiting) {
+    const entry = doc.data();
+    const startsAt = campusTimeToDate(entry.date, entry.startTime);
+    if (startsAt <= now) {
+      await doc.ref.update({ status: "expired" });
+      continue;
+    }
+    const classConflicts = await scheduleConflicts(
+      classroomId,
+      classroom,
+      entry as TimeRange,
+      [entry.date]
+    );
+    if (classConflicts.length > 0) continue;
+
+    const expiresAt = new Date(
+      Math.min(now.getTime() + OFFER_HOURS * 60 * 60 * 1000, startsAt.getTime())
+    );
+    if (!(await offerIfFree(doc.ref, expiresAt))) continue;
+
+    const expiry = expiresAt.toLocaleString("en-US", {
+      timeZone: CAMPUS_TIME_ZONE,
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    for (const recipient of await usersByIds([entry.userId])) {
+      await notifyRecipient(
+        recipient,
+        {
+          title: "Room available",
+          message: `${describeEntry(
+            entry,
+            classroom.name || "The classroom"
+          )} is free again. Accept by ${expiry} to book it.`,
+          category: "bookings",
+          link: `/waitlist/${doc.id}`,
+        },
+        `waitlist-offer-${doc.id}`
+      );
+    }
+  }
+};
+
+// A booking that stops occupying its room offers it to the waitlist. One
+// that ended and was marked completed has nothing left to offer.
+export const onBookingReleased = onDocumentWritten(
+  "bookings/{bookingId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !OCCUPYING_STATUSES.includes(before.status)) return;
+    if (after && OCCUPYING_STATUSES.includes(after.status)) return;
+    if (after?.status === "completed") return;
+
+    await offerNextInLine(before.classroomId, before.date);
+  }
+);
+
+// Offers that weren't answered in time pass to the next in line
+export const expireWaitlistOffers = onSchedule(
+  { schedule: "every 15 minutes", timeZone: CAMPUS_TIME_ZONE },
+  async () => {
+    const now = new Date().toISOString();
+    const offers = await getFirestore()
+      .collection("bookingWaitlist")
+      .where("status", "==", "offered")
+      .get();
+
+    for (const doc of offers.docs) {
+      const entry = doc.data();
+      if (entry.offerExpiresAt > now) continue;
+      await doc.ref.update({ status: "expired" });
+      await offerNextInLine(entry.classroomId, entry.date);
+    }
+  }
+);
+
+interface WaitlistResponse {
+  entryId: string;
+  accept: boolean;
+}
+
+// Accepts an offer, booking the room, or declines it so the next in line is
+// offered the room
+export const respondToWaitlistOffer = onCall<WaitlistResponse>(async (call) => {
+  if (!call.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to answer the offer");
+  }
+  if (typeof call.data?.entryId !== "string" || !call.data.entryId) {
+    throw new HttpsError("invalid-argument", "An offer is required");
+  }
+  const ref = getFirestore()
+    .collection("bookingWaitlist")
+    .doc(call.data.entryId);
+  const entry = (await ref.get()).data();
+  if (!entry || entry.userId !== call.auth.uid) {
+    throw new HttpsError("not-found", "This offer doesn't exist");
+  }
+  if (entry.status !== "offered") {
+    throw new HttpsError("failed-precondition", "This offer is no longer open");
+  }
+
+  if (entry.offerExpiresAt <= new Date().toISOString()) {
+    await ref.update({ status: "expired" });
+    await offerNextInLine(entry.classroomId, entry.date);
+    throw new HttpsError("failed-precondition", "This offer has expired");
+  }
+
+  if (!call.data.accept) {
+    await ref.update({
+      status: "declined",
+      respondedAt: new Date().toISOString(),
+    });
+    await offerNextInLine(entry.classroomId, entry.date);
+    return { status: "declined" };
+  }
+
+  const booked = await bookClassroom(
+    call.auth.uid,
+    validateBookingRequest({
+      classroomId: entry.classroomId,
+      title: entry.title,
+      description: entry.description || "",
+      bookingType: entry.bookingType,
+      date: entry.date,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+    }),
+    ref.id
+  );
+  return { status: "accepted", bookingId: booked.id };
+});
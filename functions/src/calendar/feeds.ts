@@ -0,0 +1,101 @@
+import { randomBytes } from "crypto";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { HttpsError, onCall, onRequest } from "firebase-functions/v2/https";
+import { buildCalendar } from "./ics";
+import { timetableForUser } from "./timetable";
+
+// Subscription URLs carry a random token instead of credentials, since
+// calendar apps can't sign in. Each token is a document in `calendarFeeds`
+// pointing at its user, which only Cloud Functions read; the app gets the
+// signed-in user's own token through `getCalendarFeed`. Deleting the document
+// revokes the feed.
+
+const CALENDAR_NAME = "Vertex timetable";
+
+const calendarForUser = async (userId: string): Promise<string> =>
+  buildCalendar(CALENDAR_NAME, await timetableForUser(userId));
+
+const requireUser = (auth?: { uid: string }): string => {
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "Sign in to use your calendar");
+  }
+  return auth.uid;
+};
+
+const feedsOf = (userId: string) =>
+  getFirestore()
+    .collection("calendarFeeds")
+    .where("userId", "==", userId)
+    .get();
+
+// Deletes the user's feed tokens, if any
+const revokeFeed = async (userId: string) => {
+  const feeds = await feedsOf(userId);
+  const batch = getFirestore().batch();
+  feeds.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+};
+
+// The signed-in user's timetable as an .ics file to download
+export const exportCalendar = onCall(async (request) => {
+  const userId = requireUser(request.auth);
+  return { ics: await calendarForUser(userId) };
+});
+
+// Creates a subscription token, replacing (and revoking) any previous one
+export const createCalendarFeed = onCall(async (request) => {
+  const userId = requireUser(request.auth);
+  await revokeFeed(userId);
+
+  const token = randomBytes(24).toString("base64url");
+  const createdAt = Timestamp.now();
+  await getFirestore()
+    .collection("calendarFeeds")
+    .doc(token)
+    .set({ userId, createdAt });
+
+  return { token };
+});
+
+// The signed-in user's subscription token; null when they have none
+export const getCalendarFeed = onCall(
+  async (request): Promise<{ token: string | null }> => {
+    const feeds = await feedsOf(requireUser(request.auth));
+    return { token: feeds.docs[0]?.id || null };
+  }
+);
+
+export const revokeCalendarFeed = onCall(async (request) => {
+  await revokeFeed(requireUser(request.auth));
+  return { revoked: true };
+});
+
+// GET ?token=... serves the token owner's timetable to calendar apps
+export const calendarFeed = onRequest(async (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  if (req.method !== "GET" || !token) {
+    res.status(400).send("Missing calendar token");
+    return;
+  }
+
+  const feedRef = getFirestore().collection("calendarFeeds").doc(token);
+  const feed = await feedRef.get();
+  if (!feed.exists) {
+    res.status(404).send("This calendar link is no longer valid");
+    return;
+  }
+
+  try {
+    const ics = await calendarForUser(feed.data()!.userId);
+    await feedRef.update({ lastFetchedAt: Timestamp.now() });
+
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.set("Content-Disposition", 'inline; filename="timetable.ics"');
+    res.set("Cache-Control", "private, max-age=900");
+    res.send(ics);
+  } catch (err) {
+    logger.error("Failed to build calendar feed", err);
+    res.status(500).send("Failed to build calendar");
+  }
+});
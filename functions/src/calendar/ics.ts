@@ -0,0 +1,311 @@
+import {
+  CAMPUS_TIME_ZONE,
+  campusTimeToDate,
+  campusUtcOffset,
+} from "../campusTime";
+import {
+  addDays,
+  matchesRule,
+  RecurrenceRule,
+  RecurringSchedule,
+  resolveRecurrence,
+  WEEKDAYS,
+} from "../recurrence";
+
+// RFC 5545 iCalendar output. Times are written as campus wall-clock times
+// with a TZID, so calendars show them correctly whatever their own time zone.
+
+const PRODUCT_ID = "-//Vertex//Campus Timetable//EN";
+const UID_DOMAIN = "vertex-campus";
+
+// How far ahead a rule's first occurrence is looked for
+const FIRST_OCCURRENCE_SEARCH_DAYS = 400;
+
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  date: string; // YYYY-MM-DD of the (first) occurrence
+  endDate?: string; // YYYY-MM-DD, for entries spanning several days
+  startTime?: string; // HH:MM; unset for all-day entries
+  endTime?: string;
+  rrule?: string;
+  exceptionDates?: string[]; // YYYY-MM-DD, occurrences of `rrule` to skip
+  recurrenceId?: string; // YYYY-MM-DD of the occurrence this entry replaces
+  recurrenceIdTime?: string; // HH:MM of the occurrence this entry replaces
+  cancelled?: boolean;
+}
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are folded onto continuation lines starting
+// with a space, without splitting multi-byte characters
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const formatDate = (date: string): string => date.replace(/-/g, "");
+
+const formatLocal = (date: string, time: string): string =>
+  `${formatDate(date)}T${time.replace(":", "").padEnd(4, "0")}00`;
+
+const formatUtc = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, "0")}${String(
+    absolute % 60
+  ).padStart(2, "0")}`;
+};
+
+// The campus doesn't observe daylight saving time, so a single fixed offset
+// describes it
+const timeZoneLines = (): string[] => {
+  const offset = formatOffset(campusUtcOffset(new Date()));
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${CAMPUS_TIME_ZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    `TZNAME:${offset}`,
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+};
+
+const dateTimeProperty = (name: string, date: string, time?: string) =>
+  time
+    ? `${name};TZID=${CAMPUS_TIME_ZONE}:${formatLocal(date, time)}`
+    : `${name};VALUE=DATE:${formatDate(date)}`;
+
+const eventLines = (entry: CalendarEntry, stamp: string): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${entry.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (entry.recurrenceId) {
+    lines.push(
+      dateTimeProperty(
+        "RECURRENCE-ID",
+        entry.recurrenceId,
+        entry.recurrenceIdTime || entry.startTime
+      )
+    );
+  }
+
+  lines.push(dateTimeProperty("DTSTART", entry.date, entry.startTime));
+  if (entry.startTime) {
+    lines.push(
+      dateTimeProperty(
+        "DTEND",
+        entry.endDate || entry.date,
+        entry.endTime || entry.startTime
+      )
+    );
+  } else {
+    // All-day entries end on the day after their last day
+    lines.push(
+      dateTimeProperty("DTEND", addDays(entry.endDate || entry.date, 1))
+    );
+  }
+
+  if (entry.rrule) {
+    lines.push(`RRULE:${entry.rrule}`);
+    (entry.exceptionDates || []).forEach((date) =>
+      lines.push(dateTimeProperty("EXDATE", date, entry.startTime))
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(entry.title)}`);
+  if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+  if (entry.cancelled) lines.push("STATUS:CANCELLED");
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+export const buildCalendar = (name: string, entries: CalendarEntry[]) => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${CAMPUS_TIME_ZONE}`,
+    ...timeZoneLines(),
+    ...entries.flatMap((entry) => eventLines(entry, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+// DTSTART must be the first occurrence, which for weekly rules may fall after
+// the rule's start date. Exceptions still count, as EXDATE removes them.
+const firstOccurrence = (rule: RecurrenceRule): string | null => {
+  const withoutExceptions = {
+    ...rule,
+    exceptionDates: [],
+    nonTeachingDates: [],
+  };
+  for (let i = 0; i < FIRST_OCCURRENCE_SEARCH_DAYS; i++) {
+    const date = addDays(rule.startDate, i);
+    if (rule.until && date > rule.until) return null;
+    if (matchesRule(withoutExceptions, date)) return date;
+  }
+  return null;
+};
+
+const toRrule = (rule: RecurrenceRule, startTime: string): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === "weekly" && rule.byDay?.length) {
+    const days = rule.byDay
+      .filter((day) => WEEKDAYS.includes(day))
+      .map((day) => day.slice(0, 2).toUpperCase());
+    parts.push(`BYDAY=${days.join(",")}`, "WKST=MO");
+  }
+  // UNTIL must be in UTC when DTSTART has a time zone
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUtc(campusTimeToDate(rule.until, startTime))}`);
+  }
+  return parts.join(";");
+};
+
+export interface TimetableSchedule extends RecurringSchedule {
+  moduleTitle: string;
+}
+
+export const describeLocation = (
+  classroomNumber: string,
+  floorNumber: string,
+  branch: string
+): string =>
+  [
+    classroomNumber && `Room ${classroomNumber}`,
+    floorNumber && `Floor ${floorNumber}`,
+    branch,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const withReason = (description?: string, reason?: string) =>
+  [description, reason && `Reason for the change: ${reason}`]
+    .filter(Boolean)
+    .join("\n") || undefined;
+
+// A schedule as a single event, or a recurring event plus one entry for each
+// occurrence that was changed
+export const scheduleEntries = (
+  id: string,
+  schedule: TimetableSchedule
+): CalendarEntry[] => {
+  const base = {
+    uid: `schedule-${id}`,
+    title: schedule.moduleTitle,
+    description: schedule.lecturerName
+      ? `Lecturer: ${schedule.lecturerName}`
+      : undefined,
+    location: describeLocation(
+      schedule.classroomNumber,
+      schedule.floorNumber,
+      schedule.branch
+    ),
+    startTime: schedule.startTime,
+    endTime: schedule.endTime,
+  };
+
+  const rule = resolveRecurrence(schedule);
+  if (!rule) {
+    const cancellation = (schedule.overrides || []).find(
+      (override) => override.date === schedule.date && override.cancelled
+    );
+    return schedule.date
+      ? [
+          {
+            ...base,
+            date: schedule.date,
+            ...(cancellation && {
+              description: withReason(base.description, cancellation.reason),
+              cancelled: true,
+            }),
+          },
+        ]
+      : [];
+  }
+
+  const first = firstOccurrence(rule);
+  if (!first) return [];
+
+  const entries: CalendarEntry[] = [
+    {
+      ...base,
+      date: first,
+      rrule: toRrule(rule, schedule.startTime),
+      exceptionDates: [
+        ...(rule.exceptionDates || []),
+        ...(rule.nonTeachingDates || []),
+      ].sort(),
+    },
+  ];
+
+  (schedule.overrides || [])
+    .filter((override) => matchesRule(rule, override.date))
+    .forEach((override) => {
+      const lecturerName = override.lecturerName || schedule.lecturerName;
+      entries.push({
+        ...base,
+        // Cancelled occurrences show as such on their original day
+        date: (!override.cancelled && override.newDate) || override.date,
+        startTime: override.startTime || schedule.startTime,
+        endTime: override.endTime || schedule.endTime,
+        description: withReason(
+          lecturerName ? `Lecturer: ${lecturerName}` : undefined,
+          override.reason
+        ),
+        location: describeLocation(
+          override.classroomNumber || schedule.classroomNumber,
+          override.floorNumber || schedule.floorNumber,
+          override.branch || schedule.branch
+        ),
+        recurrenceId: override.date,
+        recurrenceIdTime: schedule.startTime,
+        cancelled: override.cancelled,
+      });
+    });
+
+  return entries;
+};
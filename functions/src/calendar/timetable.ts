@@ -0,0 +1,159 @@
+import {
+  DocumentData,
+  getFirestore,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { chunk } from "../reminders/audiences";
+import { createScheduleResolver } from "../scheduleRefs";
+import {
+  CalendarEntry,
+  describeLocation,
+  scheduleEntries,
+  TimetableSchedule,
+} from "./ics";
+
+// Modules of the courses a student is actively enrolled in, which belong to
+// a course directly or through the course's `modules` array
+const moduleIdsForStudent = async (userId: string): Promise<string[]> => {
+  const db = getFirestore();
+  const enrollments = await db
+    .collection("enrollments")
+    .where("studentId", "==", userId)
+    .where("status", "==", "Active")
+    .get();
+  const courseIds = Array.from(
+    new Set(enrollments.docs.map((doc) => doc.data().courseId as string))
+  ).filter(Boolean);
+  if (courseIds.length === 0) return [];
+
+  const courses = await Promise.all(
+    courseIds.map((id) => db.collection("courses").doc(id).get())
+  );
+  const moduleIds = new Set<string>(
+    courses.flatMap((course) => course.data()?.modules || [])
+  );
+
+  for (const ids of chunk(courseIds)) {
+    const modules = await db
+      .collection("modules")
+      .where("courseId", "in", ids)
+      .get();
+    modules.docs.forEach((doc) => moduleIds.add(doc.id));
+  }
+
+  return Array.from(moduleIds).filter(Boolean);
+};
+
+const schedulesForUser = async (
+  user: DocumentData
+): Promise<CalendarEntry[]> => {
+  const db = getFirestore();
+  let docs: QueryDocumentSnapshot[] = [];
+
+  if (user.role === "lecturer") {
+    const snapshot = await db
+      .collection("schedules")
+      .where("lecturerId", "==", user.id)
+      .get();
+    docs = snapshot.docs;
+  } else if (user.role === "student") {
+    for (const ids of chunk(await moduleIdsForStudent(user.id))) {
+      const snapshot = await db
+        .collection("schedules")
+        .where("moduleId", "in", ids)
+        .get();
+      docs.push(...snapshot.docs);
+    }
+  }
+
+  const resolve = createScheduleResolver();
+  const schedules = await Promise.all(
+    docs.map((doc) => resolve(doc.data() as TimetableSchedule))
+  );
+  return schedules.flatMap((schedule, i) =>
+    scheduleEntries(docs[i].id, schedule)
+  );
+};
+
+// Bookings the user made, was booked for or attends
+const bookingsForUser = async (userId: string): Promise<CalendarEntry[]> => {
+  const db = getFirestore();
+  const bookings = db.collection("bookings");
+  const snapshots = await Promise.all([
+    bookings.where("bookedFor", "==", userId).get(),
+    bookings.where("bookedBy", "==", userId).get(),
+    bookings.where("attendees", "array-contains", userId).get(),
+  ]);
+  const docs = new Map(
+    snapshots.flatMap((snapshot) => snapshot.docs).map((doc) => [doc.id, doc])
+  );
+
+  const entries: CalendarEntry[] = [];
+  for (const doc of docs.values()) {
+    const booking = doc.data();
+    // Requests only appear once an admin has approved them
+    if (
+      ["pending", "rejected", "cancelled"].includes(booking.status) ||
+      !booking.date
+    ) {
+      continue;
+    }
+
+    const classroom = booking.classroomId
+      ? (
+          await db.collection("classrooms").doc(booking.classroomId).get()
+        ).data()
+      : undefined;
+    entries.push({
+      uid: `booking-${doc.id}`,
+      title: booking.title,
+      description: booking.description,
+      location: classroom
+        ? classroom.name ||
+          describeLocation(classroom.roomNumber, String(classroom.floor), "")
+        : undefined,
+      date: booking.date,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+    });
+  }
+  return entries;
+};
+
+// Events are campus-wide, so they're on everyone's calendar
+const campusEvents = async (): Promise<CalendarEntry[]> => {
+  const snapshot = await getFirestore().collection("events").get();
+  return snapshot.docs
+    .filter((doc) => doc.data().startDate)
+    .map((doc) => {
+      const event = doc.data();
+      return {
+        uid: `event-${doc.id}`,
+        title: event.title,
+        description: event.description,
+        location: event.location,
+        date: event.startDate,
+        endDate: event.endDate || undefined,
+        startTime: event.startTime || undefined,
+        endTime: event.endTime || undefined,
+        cancelled: event.status === "Cancelled",
+      };
+    });
+};
+
+// Everything on a user's timetable: their classes (by enrollment for
+// students), their bookings and campus events
+export const timetableForUser = async (
+  userId: string
+): Promise<CalendarEntry[]> => {
+  const userDoc = await getFirestore().collection("users").doc(userId).get();
+  if (!userDoc.exists) return [];
+  const user = { id: userDoc.id, ...userDoc.data() };
+
+  const entries = await Promise.all([
+    schedulesForUser(user),
+    bookingsForUser(userId),
+    campusEvents(),
+  ]);
+  return entries.flat();
+};
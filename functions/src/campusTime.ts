@@ -0,0 +1,58 @@
+// Schedules, events and bookings store local wall-clock times for the campus,
+// while Cloud Functions run in UTC
+export const CAMPUS_TIME_ZONE = "Asia/Colombo";
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export interface CampusTime {
+  dateKey: string; // YYYY-MM-DD
+  weekday: string; // e.g. "Monday"
+  minutes: number; // Minutes since local midnight
+}
+
+const formatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: CAMPUS_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  weekday: "long",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+export const toCampusTime = (date: Date): CampusTime => {
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || "";
+
+  return {
+    dateKey: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: part("weekday"),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+};
+
+// "HH:MM" to minutes since midnight; NaN for malformed input
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = (time || "").split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Minutes the campus clock is ahead of UTC at `date`
+export const campusUtcOffset = (date: Date): number => {
+  const local = toCampusTime(date);
+  const [year, month, day] = local.dateKey.split("-").map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, day) + local.minutes * 60 * 1000;
+  // The formatter drops seconds, so compare against the start of the minute
+  const minuteStart = date.getTime() - (date.getTime() % 60000);
+  return (localAsUtc - minuteStart) / 60000;
+};
+
+// The instant a campus wall-clock date and "HH:MM" time refer to
+export const campusTimeToDate = (dateKey: string, time: string): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const asUtc =
+    Date.UTC(year, month - 1, day) + timeToMinutes(time) * 60 * 1000;
+  return new Date(asUtc - campusUtcOffset(new Date(asUtc)) * 60 * 1000);
+};
@@ -0,0 +1,48 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import {
+  loadNonTeachingPeriods,
+  withNonTeachingDates,
+} from "../academicCalendar";
+import { RecurrenceRule } from "../recurrence";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+const sameDates = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every((date, i) => date === b[i]);
+
+// Keep recurring schedules clear of holidays, reading weeks and exam periods
+// when the academic calendar changes. Students aren't notified, as the
+// calendar itself announces those days.
+export const onAcademicYearWritten = onDocumentWritten(
+  "academicYears/{yearId}",
+  async () => {
+    const db = getFirestore();
+    const [periods, schedules] = await Promise.all([
+      loadNonTeachingPeriods(),
+      db.collection("schedules").where("recurrence", "!=", null).get(),
+    ]);
+
+    const updates = schedules.docs.flatMap((doc) => {
+      const rule = doc.data().recurrence as RecurrenceRule;
+      const updated = withNonTeachingDates(rule, periods);
+      return sameDates(rule.nonTeachingDates, updated.nonTeachingDates)
+        ? []
+        : [{ ref: doc.ref, nonTeachingDates: updated.nonTeachingDates }];
+    });
+
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+      const batch = db.batch();
+      updates
+        .slice(i, i + BATCH_SIZE)
+        .forEach(({ ref, nonTeachingDates }) =>
+          batch.update(ref, { "recurrence.nonTeachingDates": nonTeachingDates })
+        );
+      await batch.commit();
+    }
+
+    logger.info(`Updated non-teaching days on ${updates.length} schedule(s)`);
+  }
+);
@@ -0,0 +1,122 @@
+import { DocumentData, getFirestore } from "firebase-admin/firestore";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { notifyRecipient } from "../notifications/notifyUser";
+import { formatDateKey } from "../recurrence";
+import { usersByIds, usersByRole } from "../reminders/audiences";
+
+// Every occurrence of a recurring booking is written on its own, so a series
+// is described as a whole and notified about once per decision
+const describeBooking = (booking: DocumentData, room: string): string =>
+  booking.seriesId
+    ? `the recurring booking "${booking.title}" in ${room}, ${
+        booking.startTime
+      } - ${booking.endTime}`
+    : `"${booking.title}" in ${room} on ${formatDateKey(booking.date)}, ${
+        booking.startTime
+      } - ${booking.endTime}`;
+
+// Admins hear about new booking requests; the lecturer hears whether theirs
+// was approved or rejected, and when an admin cancels their booking
+export const onBookingWritten = onDocumentWritten(
+  "bookings/{bookingId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!after || after.status === before?.status) return;
+
+    const requested = !before && after.status === "pending";
+    const decided =
+      before?.status === "pending" &&
+      (after.status === "confirmed" || after.status === "rejected");
+    const cancelledByAdmin =
+      (before?.status === "pending" || before?.status === "confirmed") &&
+      after.status === "cancelled" &&
+      after.cancelledBy !== after.bookedFor;
+    if (!requested && !decided && !cancelledByAdmin) return;
+
+    const classroom = await getFirestore()
+      .collection("classrooms")
+      .doc(after.classroomId)
+      .get();
+    const room = classroom.data()?.name || "a classroom";
+    const notificationId = (recipientId: string) =>
+      after.seriesId
+        ? `booking-series-${after.seriesId}-${after.status}-${recipientId}`
+        : `booking-${event.id}-${recipientId}`;
+
+    if (requested) {
+      const [lecturer] = await usersByIds([after.bookedFor]);
+      const name = lecturer?.data.name || "A lecturer";
+      for (const admin of await usersByRole("admin")) {
+        await notifyRecipient(
+          admin,
+          {
+            title: "Booking request",
+            message: `${name} requested ${describeBooking(after, room)}.`,
+            category: "bookings",
+            link: "/dashboard",
+          },
+          notificationId(admin.id)
+        );
+      }
+      return;
+    }
+
+    if (cancelledByAdmin) {
+      const reason = after.cancellationReason
+        ? ` ${after.cancellationReason}`
+        : "";
+      for (const recipient of await usersByIds([after.bookedFor])) {
+        await notifyRecipient(
+          recipient,
+          {
+            title: "Booking cancelled",
+            message: `An admin cancelled ${describeBooking(
+              after,
+              room
+            )}.${reason}`,
+            category: "bookings",
+            link: "/dashboard",
+          },
+          notificationId(recipient.id)
+        );
+      }
+      return;
+    }
+
+    const comment = after.decisionComment ? ` ${after.decisionComment}` : "";
+    for (const recipient of await usersByIds([after.bookedFor])) {
+      await notifyRecipient(
+        recipient,
+        after.status === "confirmed"
+          ? {
+              title: "Booking approved",
+              message: `Your request for ${describeBooking(
+                after,
+                room
+              )} was approved.${comment}`,
+              category: "bookings",
+              link: "/dashboard",
+              template: "bookingConfirmation",
+              templateData: {
+                classroom: room,
+                date: formatDateKey(after.date),
+                startTime: after.startTime,
+                endTime: after.endTime,
+                purpose: after.title,
+              },
+            }
+          : {
+              title: "Booking rejected",
+              message: `Your request for ${describeBooking(
+                after,
+                room
+              )} was rejected.${comment}`,
+              category: "bookings",
+              link: "/dashboard",
+            },
+        notificationId(recipient.id)
+      );
+    }
+  }
+);
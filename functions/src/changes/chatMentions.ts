@@ -0,0 +1,52 @@
+import { getDatabase } from "firebase-admin/database";
+import { onValueCreated } from "firebase-functions/v2/database";
+import { notifyRecipient, Recipient } from "../notifications/notifyUser";
+import { studentsInCourses, usersByIds } from "../reminders/audiences";
+
+// Longest excerpt of the message included in the notification
+const EXCERPT_LENGTH = 120;
+
+// Notify course chat members mentioned as "@Full Name" in a new message
+export const onChatMessageCreated = onValueCreated(
+  "messages/{groupId}/{messageId}",
+  async (event) => {
+    const message = event.data.val();
+    if (!message?.message || !message.message.includes("@")) return;
+
+    const groupSnapshot = await getDatabase()
+      .ref(`chatGroups/${event.params.groupId}`)
+      .get();
+    const group = groupSnapshot.val();
+    if (!group) return;
+
+    const members: Recipient[] = [
+      ...(await usersByIds([group.createdBy])),
+      ...(await studentsInCourses([group.courseId])),
+    ];
+    const text = message.message.toLowerCase();
+    const mentioned = members.filter(
+      (member) =>
+        member.id !== message.senderId &&
+        member.data.name &&
+        text.includes(`@${member.data.name.toLowerCase()}`)
+    );
+
+    const excerpt =
+      message.message.length > EXCERPT_LENGTH
+        ? `${message.message.slice(0, EXCERPT_LENGTH)}…`
+        : message.message;
+
+    for (const member of mentioned) {
+      await notifyRecipient(
+        member,
+        {
+          title: `${message.senderName} mentioned you in ${group.courseName}`,
+          message: excerpt,
+          category: "chatMentions",
+          link: "/dashboard",
+        },
+        `mention-${event.params.messageId}-${member.id}`
+      );
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import {
+  onDocumentCreated,
+  onDocumentUpdated,
+} from "firebase-functions/v2/firestore";
+import { notifyRecipient } from "../notifications/notifyUser";
+import { studentsInCourses, usersByRole } from "../reminders/audiences";
+
+// Fields whose change is worth telling enrolled students about
+const NOTIFIABLE_FIELDS = ["title", "code", "description", "status"];
+
+// Let every student know a new course is available
+export const onCourseCreated = onDocumentCreated(
+  "courses/{courseId}",
+  async (event) => {
+    const course = event.data?.data();
+    if (!course) return;
+
+    for (const student of await usersByRole("student")) {
+      await notifyRecipient(
+        student,
+        {
+          title: "New course available",
+          message: `${course.title} (${course.code}) is now open.`,
+          category: "general",
+          link: "/dashboard",
+        },
+        `course-${event.id}-${student.id}`
+      );
+    }
+  }
+);
+
+// Let enrolled students know when their course details change
+export const onCourseUpdated = onDocumentUpdated(
+  "courses/{courseId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (
+      !before ||
+      !after ||
+      !NOTIFIABLE_FIELDS.some((field) => before[field] !== after[field])
+    ) {
+      return;
+    }
+
+    for (const student of await studentsInCourses([event.params.courseId])) {
+      await notifyRecipient(
+        student,
+        {
+          title: "Course updated",
+          message: `${after.title} (${after.code}) has been updated.`,
+          category: "general",
+          link: "/dashboard",
+        },
+        `course-${event.id}-${student.id}`
+      );
+    }
+  }
+);
@@ -0,0 +1,30 @@
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { notifyRecipient } from "../notifications/notifyUser";
+import { formatDateKey } from "../recurrence";
+import { usersByRole } from "../reminders/audiences";
+
+// Let admins know a lecturer can't teach a class, so they can assign cover
+export const onCoverRequestCreated = onDocumentCreated(
+  "coverRequests/{requestId}",
+  async (event) => {
+    const request = event.data?.data();
+    if (!request) return;
+
+    for (const admin of await usersByRole("admin")) {
+      await notifyRecipient(
+        admin,
+        {
+          title: "Cover needed",
+          message: `${request.lecturerName} can't teach ${
+            request.moduleTitle
+          } on ${formatDateKey(request.date)} at ${request.startTime}. Reason: ${
+            request.reason
+          }`,
+          category: "schedule",
+          link: "/dashboard",
+        },
+        `cover-${event.id}-${admin.id}`
+      );
+    }
+  }
+);
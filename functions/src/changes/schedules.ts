@@ -0,0 +1,202 @@
+import { DocumentData, getFirestore } from "firebase-admin/firestore";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { notifyRecipient } from "../notifications/notifyUser";
+import {
+  describeScheduleDates,
+  formatDateKey,
+  occurrencesOn,
+  OccurrenceOverride,
+  RecurringSchedule,
+  resolveRecurrence,
+  ScheduleOccurrence,
+} from "../recurrence";
+import { audienceForSchedule, usersByIds } from "../reminders/audiences";
+
+// Fields whose change is worth telling the lecturer and students about
+const NOTIFIABLE_FIELDS = [
+  "moduleTitle",
+  "lecturerName",
+  "classroomNumber",
+  "floorNumber",
+  "branch",
+  "startTime",
+  "endTime",
+  "date",
+];
+
+// Map fields come back from Firestore with their keys in any order
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  );
+
+// Compares the effective rule, so migrating legacy fields isn't a change.
+// Non-teaching days follow the academic calendar, which announces them.
+const teachingRule = (schedule: DocumentData) => {
+  const rule = resolveRecurrence(schedule as RecurringSchedule);
+  return rule && { ...rule, nonTeachingDates: undefined };
+};
+
+const ruleChanged = (before: DocumentData, after: DocumentData): boolean =>
+  stableStringify(teachingRule(before)) !==
+  stableStringify(teachingRule(after));
+
+const datesChanged = (before: DocumentData, after: DocumentData): boolean =>
+  ruleChanged(before, after) ||
+  stableStringify(before.overrides || []) !==
+    stableStringify(after.overrides || []);
+
+const describeWhen = (schedule: DocumentData): string =>
+  describeScheduleDates(schedule as RecurringSchedule);
+
+// The occurrence an update changed, when it only changed one (e.g. a class
+// dragged to another day on the calendar)
+const changedOccurrence = (
+  before: DocumentData,
+  after: DocumentData
+): ScheduleOccurrence | undefined => {
+  if (
+    NOTIFIABLE_FIELDS.some((field) => before[field] !== after[field]) ||
+    ruleChanged(before, after)
+  ) {
+    return undefined;
+  }
+
+  const previous: OccurrenceOverride[] = before.overrides || [];
+  const current: OccurrenceOverride[] = after.overrides || [];
+  const changed = new Set([
+    ...current
+      .filter(
+        (override) =>
+          stableStringify(override) !==
+          stableStringify(previous.find((old) => old.date === override.date))
+      )
+      .map((override) => override.date),
+    ...previous
+      .filter((old) => !current.some((override) => override.date === old.date))
+      .map((old) => old.date),
+  ]);
+  if (changed.size !== 1) return undefined;
+
+  const [date] = changed;
+  const override = current.find((item) => item.date === date);
+  return occurrencesOn(
+    after as RecurringSchedule,
+    (!override?.cancelled && override?.newDate) || date,
+    { includeCancelled: true }
+  ).find((occurrence) => occurrence.originalDate === date);
+};
+
+const describeOccurrence = (occurrence: ScheduleOccurrence): string => {
+  const cover =
+    !occurrence.isCancelled && occurrence.substituteFor
+      ? `, taught by ${occurrence.lecturerName}`
+      : "";
+  if (occurrence.isCancelled || occurrence.date === occurrence.originalDate) {
+    return `${formatDateKey(occurrence.date)} only${cover}`;
+  }
+  return `${formatDateKey(occurrence.date)}, moved from ${formatDateKey(
+    occurrence.originalDate
+  )}${cover}`;
+};
+
+// Notify the lecturer and enrolled students when a class is added, moved,
+// cancelled or removed, and record the change in the class's history
+export const onScheduleWritten = onDocumentWritten(
+  "schedules/{scheduleId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+
+    // Rescheduling "all future occurrences" ends the series and continues it
+    // in a new schedule, which announces the change
+    if (after?.continuedBy && after.continuedBy !== before?.continuedBy) {
+      return;
+    }
+
+    let change: "scheduled" | "updated" | "cancelled";
+    if (!before && after) {
+      change = after.splitFrom ? "updated" : "scheduled";
+    } else if (before && !after) {
+      change = "cancelled";
+    } else if (
+      before &&
+      after &&
+      (NOTIFIABLE_FIELDS.some((field) => before[field] !== after[field]) ||
+        datesChanged(before, after))
+    ) {
+      change = "updated";
+    } else {
+      return;
+    }
+
+    const schedule = (after || before)!;
+    const occurrence = before && after && changedOccurrence(before, after);
+    if (occurrence?.isCancelled) change = "cancelled";
+    const details = occurrence
+      ? {
+          when: describeOccurrence(occurrence),
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          classroom: occurrence.classroomNumber,
+          branch: occurrence.branch,
+          reason: occurrence.reason || "",
+        }
+      : {
+          when: describeWhen(schedule),
+          startTime: schedule.startTime,
+          endTime: schedule.endTime,
+          classroom: schedule.classroomNumber,
+          branch: schedule.branch,
+          reason: "",
+        };
+
+    // Anyone affected before an update (e.g. the previous lecturer) hears
+    // about it too, as does a substitute covering the changed class
+    const audiences = await Promise.all([
+      ...[before, after]
+        .filter((data): data is DocumentData => Boolean(data))
+        .map(audienceForSchedule),
+      usersByIds(occurrence?.lecturerId ? [occurrence.lecturerId] : []),
+    ]);
+    const recipients = new Map(audiences.flat().map((r) => [r.id, r]));
+
+    // Keyed by the event, so a retried trigger doesn't record it twice
+    await getFirestore()
+      .collection("schedules")
+      .doc(event.params.scheduleId)
+      .collection("history")
+      .doc(event.id)
+      .set({
+        change,
+        ...details,
+        ...(occurrence && { occurrenceDate: occurrence.originalDate }),
+        notified: recipients.size,
+        createdAt: new Date().toISOString(),
+      });
+
+    for (const recipient of recipients.values()) {
+      await notifyRecipient(
+        recipient,
+        {
+          title: `Class ${change}`,
+          message: `${schedule.moduleTitle} (${details.when}, ${details.startTime}-${details.endTime}, Room ${details.classroom}) has been ${change}.${details.reason ? ` Reason: ${details.reason}` : ""}`,
+          category: "schedule",
+          link: "/dashboard",
+          template: "scheduleChange",
+          templateData: {
+            change,
+            module: schedule.moduleTitle,
+            ...details,
+            reason: details.reason && `Reason: ${details.reason}`,
+          },
+        },
+        `schedule-${event.id}-${recipient.id}`
+      );
+    }
+  }
+);
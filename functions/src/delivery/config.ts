@@ -0,0 +1,34 @@
+// Delivery settings come from functions/.env (see .env.example)
+
+// The emulator always delivers to the local mail sink
+export const isDevelopmentDelivery = (): boolean =>
+  process.env.FUNCTIONS_EMULATOR === "true" ||
+  process.env.DELIVERY_MODE === "development";
+
+export const mailFrom = (): string =>
+  process.env.MAIL_FROM || "Vertex Campus <no-reply@vertexcampus.lk>";
+
+export const appUrl = (): string =>
+  process.env.APP_URL || "http://localhost:5173";
+
+export const smtpConfig = () => ({
+  host: process.env.SMTP_HOST || "",
+  port: Number(process.env.SMTP_PORT || 587),
+  user: process.env.SMTP_USER || "",
+  pass: process.env.SMTP_PASS || "",
+});
+
+// Whether emails can go out through the outbox. Without it the app falls back
+// to the verification and password reset emails Firebase Auth sends itself.
+export const isEmailConfigured = (): boolean =>
+  isDevelopmentDelivery() || !!smtpConfig().host;
+
+export const mailSinkConfig = () => ({
+  host: process.env.MAIL_SINK_HOST || "localhost",
+  port: Number(process.env.MAIL_SINK_PORT || 1025),
+});
+
+export const smsGatewayConfig = () => ({
+  url: process.env.SMS_GATEWAY_URL || "",
+  token: process.env.SMS_GATEWAY_TOKEN || "",
+});
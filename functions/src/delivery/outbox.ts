@@ -0,0 +1,200 @@
+import { getAuth } from "firebase-admin/auth";
+import {
+  DocumentReference,
+  getFirestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { appUrl } from "./config";
+import { renderTemplate } from "./templates";
+import { getTransport } from "./transports";
+import {
+  DeliveryChannel,
+  DeliveryTemplate,
+  OutboxMessage,
+  PermanentDeliveryError,
+} from "./types";
+
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 5;
+
+// First retry after a minute, doubling with every further attempt
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// A message still "sending" after this long is assumed lost and retried
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+// Messages picked up per retry sweep
+const RETRY_BATCH_SIZE = 100;
+
+interface DeliveryRequest {
+  channel: DeliveryChannel;
+  to: string;
+  template: DeliveryTemplate;
+  data?: Record<string, string>;
+  userId?: string;
+  sendAfter?: Date;
+}
+
+// Queue a message in the outbox, which only Cloud Functions write to. Pass an
+// `id` to make the message idempotent; queueing the same id twice is a no-op.
+export const queueDelivery = async (request: DeliveryRequest, id?: string) => {
+  const outbox = getFirestore().collection("outbox");
+  const ref = id ? outbox.doc(id) : outbox.doc();
+
+  try {
+    await ref.create({
+      channel: request.channel,
+      to: request.to,
+      template: request.template,
+      data: request.data || {},
+      userId: request.userId || null,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: DEFAULT_MAX_DELIVERY_ATTEMPTS,
+      lastError: null,
+      nextAttemptAt: request.sendAfter
+        ? Timestamp.fromDate(request.sendAfter)
+        : Timestamp.now(),
+      createdAt: Timestamp.now(),
+    });
+  } catch (error) {
+    // 6 = ALREADY_EXISTS
+    if ((error as { code?: number }).code !== 6) throw error;
+  }
+};
+
+// Auth emails carry a one-time link that only the Admin SDK can generate
+const withActionLink = async (
+  message: OutboxMessage
+): Promise<Record<string, string>> => {
+  const data: Record<string, string> = { ...message.data, email: message.to };
+  const actionCodeSettings = { url: `${appUrl()}/login` };
+
+  try {
+    if (message.template === "emailVerification") {
+      data.link = await getAuth().generateEmailVerificationLink(
+        message.to,
+        actionCodeSettings
+      );
+    } else if (message.template === "passwordReset") {
+      data.link = await getAuth().generatePasswordResetLink(
+        message.to,
+        actionCodeSettings
+      );
+    } else if (data.link && data.link.startsWith("/")) {
+      data.link = `${appUrl()}${data.link}`;
+    }
+  } catch (error) {
+    if ((error as { code?: string }).code === "auth/user-not-found") {
+      throw new PermanentDeliveryError("No account exists for this email");
+    }
+    throw error;
+  }
+
+  return data;
+};
+
+// Claim a pending message, send it and record the outcome on the document
+export const deliverMessage = async (ref: DocumentReference) => {
+  const message = await getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return null;
+
+    const data = snapshot.data() as OutboxMessage;
+    if (
+      data.status !== "pending" ||
+      data.nextAttemptAt.toMillis() > Date.now()
+    ) {
+      return null;
+    }
+
+    const attempts = (data.attempts || 0) + 1;
+    transaction.update(ref, {
+      status: "sending",
+      attempts,
+      claimedAt: Timestamp.now(),
+    });
+    return { ...data, attempts };
+  });
+
+  if (!message) return;
+
+  try {
+    const data = await withActionLink(message);
+    const transport = getTransport(message.channel);
+    await transport.send(
+      message.to,
+      renderTemplate(message.template, data),
+      message
+    );
+
+    await ref.update({
+      status: "sent",
+      sentAt: Timestamp.now(),
+      lastError: null,
+    });
+    logger.info(`Delivered ${ref.id} via ${transport.name}`);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const giveUp =
+      error instanceof PermanentDeliveryError ||
+      message.attempts >=
+        (message.maxAttempts || DEFAULT_MAX_DELIVERY_ATTEMPTS);
+
+    logger.warn(`Delivery of ${ref.id} failed: ${reason}`, {
+      attempts: message.attempts,
+      giveUp,
+    });
+
+    await ref.update(
+      giveUp
+        ? { status: "failed", lastError: reason }
+        : {
+            status: "pending",
+            lastError: reason,
+            nextAttemptAt: Timestamp.fromMillis(
+              Date.now() + RETRY_BASE_DELAY_MS * 2 ** (message.attempts - 1)
+            ),
+          }
+    );
+  }
+};
+
+// Deliver new messages straight away
+export const processOutbox = onDocumentCreated("outbox/{messageId}", (event) =>
+  event.data ? deliverMessage(event.data.ref) : Promise.resolve()
+);
+
+// Pick up retries, messages held for quiet hours and deliveries lost mid-send
+export const retryOutbox = onSchedule("every 5 minutes", async () => {
+  const db = getFirestore();
+  const now = Timestamp.now();
+
+  const stale = await db
+    .collection("outbox")
+    .where("status", "==", "sending")
+    .where(
+      "claimedAt",
+      "<=",
+      Timestamp.fromMillis(now.toMillis() - STALE_CLAIM_MS)
+    )
+    .limit(RETRY_BATCH_SIZE)
+    .get();
+  await Promise.all(
+    stale.docs.map((doc) => doc.ref.update({ status: "pending" }))
+  );
+
+  const due = await db
+    .collection("outbox")
+    .where("status", "==", "pending")
+    .where("nextAttemptAt", "<=", now)
+    .limit(RETRY_BATCH_SIZE)
+    .get();
+
+  // One at a time keeps transports within their rate limits
+  for (const doc of due.docs) {
+    await deliverMessage(doc.ref);
+  }
+});
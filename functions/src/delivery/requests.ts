@@ -0,0 +1,114 @@
+import { getAuth, UserRecord } from "firebase-admin/auth";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { CAMPUS_TIME_ZONE } from "../campusTime";
+import { isEmailConfigured } from "./config";
+import { queueDelivery } from "./outbox";
+
+// The outbox is written by Cloud Functions only. The app asks for the few
+// deliveries it starts itself here, and the server picks the address and
+// template, so nobody can queue messages to arbitrary addresses or URLs.
+
+// Repeated requests for the same auth email within this long send it once
+const AUTH_EMAIL_INTERVAL_MS = 5 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type AuthEmailTemplate = "emailVerification" | "passwordReset";
+
+interface AuthEmailRequest {
+  template: AuthEmailTemplate;
+  email?: string; // Password resets only; verification goes to the caller
+}
+
+const queueAuthEmail = (template: AuthEmailTemplate, user: UserRecord) =>
+  queueDelivery(
+    {
+      channel: "email",
+      to: user.email!,
+      template,
+      data: { name: user.displayName || "" },
+      userId: user.uid,
+    },
+    `${template}-${user.uid}-${Math.floor(Date.now() / AUTH_EMAIL_INTERVAL_MS)}`
+  );
+
+// Queues a verification email to the signed-in caller, or a password reset
+// email to an account. `queued` is false when no mail transport is set up, and
+// the app then has Firebase Auth send its own email instead.
+export const sendAuthEmail = onCall<AuthEmailRequest>(
+  async (call): Promise<{ queued: boolean }> => {
+    const { template, email } = call.data || {};
+    if (template !== "emailVerification" && template !== "passwordReset") {
+      throw new HttpsError("invalid-argument", "Unknown email template");
+    }
+    if (template === "emailVerification" && !call.auth) {
+      throw new HttpsError("unauthenticated", "Sign in to verify your email");
+    }
+    if (
+      template === "passwordReset" &&
+      (typeof email !== "string" || !EMAIL_PATTERN.test(email.trim()))
+    ) {
+      throw new HttpsError("invalid-argument", "Enter a valid email address");
+    }
+    if (!isEmailConfigured()) return { queued: false };
+
+    if (template === "emailVerification") {
+      const user = await getAuth().getUser(call.auth!.uid);
+      if (!user.email) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Your account has no email address"
+        );
+      }
+      if (user.emailVerified) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Your email address is already verified"
+        );
+      }
+      await queueAuthEmail(template, user);
+      return { queued: true };
+    }
+
+    try {
+      const user = await getAuth().getUserByEmail(email!.trim().toLowerCase());
+      await queueAuthEmail(template, user);
+    } catch (error) {
+      // Answer the same either way, so the form can't be used to find accounts
+      if ((error as { code?: string }).code !== "auth/user-not-found") {
+        throw error;
+      }
+    }
+    return { queued: true };
+  }
+);
+
+// Sends a push to the caller's own devices, for the push test page
+export const sendTestPush = onCall(
+  async (call): Promise<{ messageId: string }> => {
+    if (!call.auth) {
+      throw new HttpsError("unauthenticated", "Sign in to test push");
+    }
+    const userId = call.auth.uid;
+    const messageId = `push-test-${userId}-${Date.now()}`;
+    const time = new Date().toLocaleTimeString("en-GB", {
+      timeZone: CAMPUS_TIME_ZONE,
+    });
+
+    await queueDelivery(
+      {
+        channel: "push",
+        to: userId,
+        template: "notification",
+        data: {
+          title: "Test notification",
+          message: `Push notifications are working (${time}).`,
+          link: "/push-test",
+        },
+        userId,
+      },
+      messageId
+    );
+    return { messageId };
+  }
+);
@@ -0,0 +1,80 @@
+import { DeliveryTemplate, RenderedMessage } from "./types";
+
+interface Template {
+  subject: string;
+  text: string; // Plain text body; {{key}} placeholders are filled from the message data
+}
+
+const templates: Record<DeliveryTemplate, Template> = {
+  notification: {
+    subject: "{{title}}",
+    text: "Hi {{name}},\n\n{{message}}\n\n{{link}}",
+  },
+  bookingConfirmation: {
+    subject: "Booking confirmed: {{classroom}} on {{date}}",
+    text:
+      "Hi {{name}},\n\n{{classroom}} has been booked for you on {{date}} " +
+      'from {{startTime}} to {{endTime}} for "{{purpose}}".\n\n{{link}}',
+  },
+  scheduleChange: {
+    subject: "Class {{change}}: {{module}}",
+    text:
+      "Hi {{name}},\n\n{{module}} ({{when}}, {{startTime}}-{{endTime}}, " +
+      "Room {{classroom}}, {{branch}}) has been {{change}}.\n\n{{reason}}\n\n" +
+      "{{link}}",
+  },
+  feeReminder: {
+    subject: "Fee reminder: {{amount}} due {{dueDate}}",
+    text:
+      "Hi {{name}},\n\nYour semester {{semester}} fee of {{amount}} for " +
+      "{{course}} is {{status}} (due {{dueDate}}). Please settle it at the " +
+      "finance office to avoid interruptions to your enrollment.",
+  },
+  emailVerification: {
+    subject: "Verify your email address",
+    text:
+      "Hi {{name}},\n\nPlease confirm your email address by opening the " +
+      "link below:\n\n{{link}}\n\nIf you didn't create an account you can " +
+      "ignore this email.",
+  },
+  passwordReset: {
+    subject: "Reset your password",
+    text:
+      "Hi,\n\nWe received a request to reset the password for {{email}}. " +
+      "Open the link below to choose a new password:\n\n{{link}}\n\n" +
+      "If you didn't request this you can ignore this email.",
+  },
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const fill = (
+  text: string,
+  data: Record<string, string>,
+  escape: (value: string) => string
+): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => escape(data[key] ?? ""));
+
+export const renderTemplate = (
+  template: DeliveryTemplate,
+  data: Record<string, string>
+): RenderedMessage => {
+  const definition = templates[template] || templates.notification;
+  const text = fill(definition.text, data, (value) => value)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return {
+    subject: fill(definition.subject, data, (value) => value),
+    text,
+    html: fill(escapeHtml(definition.text), data, escapeHtml)
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+      .replace(/\n/g, "<br>"),
+  };
+};
@@ -0,0 +1,38 @@
+import { isDevelopmentDelivery } from "../config";
+import { DeliveryChannel, Transport } from "../types";
+import { createMailSinkTransport } from "./mailSink";
+import { createPushTransport } from "./push";
+import { createSmsTransport } from "./sms";
+import { createSmtpTransport } from "./smtp";
+import { createWebhookTransport } from "./webhook";
+
+const transports = new Map<string, Transport>();
+
+// Transports are created on first use so cold starts only build what they need
+const lazy = (name: string, create: () => Transport): Transport => {
+  if (!transports.has(name)) {
+    transports.set(name, create());
+  }
+  return transports.get(name)!;
+};
+
+export const getTransport = (channel: DeliveryChannel): Transport => {
+  // Webhooks usually point at local services, and pushes use the development
+  // VAPID keys, so only email and SMS are redirected to the mail sink
+  if (isDevelopmentDelivery() && (channel === "email" || channel === "sms")) {
+    return lazy("mailSink", createMailSinkTransport);
+  }
+
+  switch (channel) {
+    case "email":
+      return lazy("smtp", createSmtpTransport);
+    case "sms":
+      return lazy("sms", createSmsTransport);
+    case "webhook":
+      return lazy("webhook", createWebhookTransport);
+    case "push":
+      return lazy("push", createPushTransport);
+    default:
+      throw new Error(`Unknown delivery channel: ${channel}`);
+  }
+};
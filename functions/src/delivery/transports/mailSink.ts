@@ -0,0 +1,35 @@
+import nodemailer from "nodemailer";
+import { mailFrom, mailSinkConfig } from "../config";
+import { Transport } from "../types";
+
+// Development transport: hands every message to a local SMTP sink such as
+// MailHog or Mailpit (`docker run -p 1025:1025 -p 8025:8025 mailhog/mailhog`)
+// so nothing reaches real inboxes or phones. SMS messages are sent as emails
+// to <number>@sms.localhost so they show up in the same place.
+export const createMailSinkTransport = (): Transport => {
+  const config = mailSinkConfig();
+  const mailer = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: false,
+    ignoreTLS: true,
+  });
+
+  return {
+    name: "mailSink",
+    send: async (to, message, source) => {
+      const recipient =
+        source.channel === "sms"
+          ? `${to.replace(/[^\d+]/g, "")}@sms.localhost`
+          : to;
+
+      await mailer.sendMail({
+        from: mailFrom(),
+        to: recipient,
+        subject: `[${source.channel}] ${message.subject}`,
+        text: message.text,
+        html: source.channel === "sms" ? undefined : message.html,
+      });
+    },
+  };
+};
@@ -0,0 +1,88 @@
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import webpush, { WebPushError } from "web-push";
+import { PermanentDeliveryError, Transport } from "../types";
+import { getVapidKeys } from "../vapid";
+
+// Push subscriptions stored per device on the user document
+interface PushDevice {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+// Hours a push service keeps an undelivered message for an offline device
+const PUSH_TTL_SECONDS = 12 * 60 * 60;
+
+// Sends a Web Push message to every device the user (the outbox `to` field)
+// has subscribed. Devices whose subscription has expired are removed.
+export const createPushTransport = (): Transport => ({
+  name: "push",
+  send: async (to, message, source) => {
+    const userRef = getFirestore().collection("users").doc(to);
+    const user = await userRef.get();
+    const devices = (user.data()?.pushSubscriptions || {}) as Record<
+      string,
+      PushDevice
+    >;
+    const deviceIds = Object.keys(devices);
+
+    if (deviceIds.length === 0) {
+      throw new PermanentDeliveryError("User has no push subscriptions");
+    }
+
+    const vapid = await getVapidKeys();
+    const payload = JSON.stringify({
+      title: source.data.title || message.subject,
+      body: source.data.message || message.text,
+      link: source.data.link || "/",
+      tag: source.template,
+    });
+
+    const results = await Promise.allSettled(
+      deviceIds.map((deviceId) =>
+        webpush.sendNotification(devices[deviceId], payload, {
+          TTL: PUSH_TTL_SECONDS,
+          vapidDetails: {
+            subject: vapid.subject,
+            publicKey: vapid.publicKey,
+            privateKey: vapid.privateKey,
+          },
+        })
+      )
+    );
+
+    const expired: string[] = [];
+    const errors: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") return;
+
+      const error = result.reason as WebPushError;
+      if (error.statusCode === 404 || error.statusCode === 410) {
+        expired.push(deviceIds[index]);
+      } else {
+        errors.push(error.message);
+      }
+    });
+
+    if (expired.length > 0) {
+      await userRef.update(
+        Object.fromEntries(
+          expired.map((deviceId) => [
+            `pushSubscriptions.${deviceId}`,
+            FieldValue.delete(),
+          ])
+        )
+      );
+    }
+
+    // Retry only when no device received the message
+    if (
+      errors.length > 0 &&
+      errors.length + expired.length === deviceIds.length
+    ) {
+      throw new Error(errors.join("; "));
+    }
+    if (expired.length === deviceIds.length) {
+      throw new PermanentDeliveryError("All push subscriptions have expired");
+    }
+  },
+});
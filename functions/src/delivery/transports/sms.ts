@@ -0,0 +1,41 @@
+import { smsGatewayConfig } from "../config";
+import { PermanentDeliveryError, Transport } from "../types";
+
+// Longest message sent in a single SMS body; gateways split anything longer
+const MAX_SMS_LENGTH = 320;
+
+// Posts { to, message } to an HTTP SMS gateway
+export const createSmsTransport = (): Transport => {
+  const config = smsGatewayConfig();
+
+  return {
+    name: "sms",
+    send: async (to, message) => {
+      if (!config.url) {
+        throw new Error("SMS_GATEWAY_URL is not configured");
+      }
+
+      const body = `${message.subject}: ${message.text}`.slice(
+        0,
+        MAX_SMS_LENGTH
+      );
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+        },
+        body: JSON.stringify({ to, message: body }),
+      });
+
+      if (response.status >= 400 && response.status < 500) {
+        throw new PermanentDeliveryError(
+          `SMS gateway rejected message (${response.status})`
+        );
+      }
+      if (!response.ok) {
+        throw new Error(`SMS gateway error (${response.status})`);
+      }
+    },
+  };
+};
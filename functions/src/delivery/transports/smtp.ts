@@ -0,0 +1,42 @@
+import nodemailer from "nodemailer";
+import { mailFrom, smtpConfig } from "../config";
+import { PermanentDeliveryError, Transport } from "../types";
+
+export const createSmtpTransport = (): Transport => {
+  const config = smtpConfig();
+  const mailer = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    send: async (to, message) => {
+      if (!config.host) {
+        throw new Error("SMTP_HOST is not configured");
+      }
+
+      try {
+        await mailer.sendMail({
+          from: mailFrom(),
+          to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        });
+      } catch (error) {
+        // 5xx replies mean the server rejected the message for good
+        const { responseCode, message } = error as {
+          responseCode?: number;
+          message: string;
+        };
+        if (responseCode && responseCode >= 500) {
+          throw new PermanentDeliveryError(message);
+        }
+        throw error;
+      }
+    },
+  };
+};
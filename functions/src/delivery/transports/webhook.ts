@@ -0,0 +1,26 @@
+import { PermanentDeliveryError, Transport } from "../types";
+
+// Posts the rendered message as JSON to the URL in the outbox `to` field
+export const createWebhookTransport = (): Transport => ({
+  name: "webhook",
+  send: async (to, message, source) => {
+    if (!/^https?:\/\//.test(to)) {
+      throw new PermanentDeliveryError(`Invalid webhook URL: ${to}`);
+    }
+
+    const response = await fetch(to, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        template: source.template,
+        data: source.data,
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  },
+});
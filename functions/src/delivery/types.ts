@@ -0,0 +1,54 @@
+import { Timestamp } from "firebase-admin/firestore";
+
+// Mirrors src/interfaces/Outbox.ts in the web app
+export type DeliveryChannel = "email" | "sms" | "webhook" | "push";
+
+export type DeliveryTemplate =
+  | "notification"
+  | "bookingConfirmation"
+  | "scheduleChange"
+  | "feeReminder"
+  | "emailVerification"
+  | "passwordReset";
+
+export type DeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+// Document stored in the `outbox` collection
+export interface OutboxMessage {
+  channel: DeliveryChannel;
+  to: string;
+  template: DeliveryTemplate;
+  data: Record<string, string>;
+  userId?: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  nextAttemptAt: Timestamp;
+  claimedAt?: Timestamp;
+  createdAt: Timestamp;
+  sentAt?: Timestamp;
+}
+
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface Transport {
+  name: string;
+  send: (
+    to: string,
+    message: RenderedMessage,
+    source: OutboxMessage
+  ) => Promise<void>;
+}
+
+// Thrown for failures that will not succeed on retry (bad address, unknown user)
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
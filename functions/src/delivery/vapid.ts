@@ -0,0 +1,51 @@
+import { getFirestore } from "firebase-admin/firestore";
+import webpush from "web-push";
+import { isDevelopmentDelivery } from "./config";
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+let cachedKeys: VapidKeys | null = null;
+
+// Production keys come from VAPID_* in functions/.env. In development a key
+// pair is generated once and kept in `devConfig/vapid`, standing in for real
+// keys so pushes can be tested against the emulator.
+export const getVapidKeys = async (): Promise<VapidKeys> => {
+  if (cachedKeys) return cachedKeys;
+
+  const subject =
+    process.env.VAPID_SUBJECT || "mailto:no-reply@vertexcampus.lk";
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    cachedKeys = {
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY,
+      subject,
+    };
+    return cachedKeys;
+  }
+
+  if (!isDevelopmentDelivery()) {
+    throw new Error(
+      "VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not configured"
+    );
+  }
+
+  const ref = getFirestore().collection("devConfig").doc("vapid");
+  const keys = await getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (snapshot.exists) {
+      return snapshot.data() as { publicKey: string; privateKey: string };
+    }
+
+    const generated = webpush.generateVAPIDKeys();
+    transaction.create(ref, generated);
+    return generated;
+  });
+
+  cachedKeys = { ...keys, subject };
+  return cachedKeys;
+};
@@ -0,0 +1,294 @@
+import {
+  DocumentData,
+  getFirestore,
+  Timestamp,
+  Transaction,
+} from "firebase-admin/firestore";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { CAMPUS_TIME_ZONE } from "../campusTime";
+
+// Equipment is lent through `equipmentLoans`. Reserved and checked-out loans
+// hold their item, so loans are created here in a transaction that reads the
+// item and every loan of it, and writes the item back: Firestore retries a
+// transaction whose reads changed before it committed, so two loans of the
+// same item are checked one after the other and it can't be lent twice.
+
+// Mirrors MAX_EQUIPMENT_PER_BOOKING in src/utils/equipment.ts, and stays
+// under Firestore's 30 values for an `in` filter
+export const MAX_EQUIPMENT_PER_BOOKING = 10;
+
+// Loans in these states hold their item
+const HOLDING_STATUSES = ["reserved", "checked-out"];
+
+// Damaged and retired items aren't lent
+const LENDABLE_CONDITIONS = ["good", "fair"];
+
+export interface LoanWindow {
+  startAt: string; // ISO timestamp
+  dueAt: string; // ISO timestamp
+}
+
+// An item that can't be lent for a window, and why
+export interface EquipmentClash {
+  equipmentId: string;
+  name: string;
+  assetTag: string;
+  detail: string;
+}
+
+const formatCampusTime = (iso: string): string =>
+  new Date(iso).toLocaleString("en-US", {
+    timeZone: CAMPUS_TIME_ZONE,
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+
+// An overdue item is held until it comes back, whenever that is
+const heldUntil = (loan: DocumentData, nowIso: string): string =>
+  loan.status === "checked-out" && loan.dueAt < nowIso ? nowIso : loan.dueAt;
+
+const overlaps = (a: LoanWindow, b: LoanWindow): boolean =>
+  a.startAt < b.dueAt && b.startAt < a.dueAt;
+
+export const describeClash = (clash: EquipmentClash): string =>
+  `${clash.name}${clash.assetTag ? ` (${clash.assetTag})` : ""} ${
+    clash.detail
+  }`;
+
+// The items that can't be lent for any of the windows. Reads the items and
+// their loans in `transaction`, so call it before the transaction's first
+// write. `exceptLoanId` is left out, for a loan being checked out.
+export const equipmentClashes = async (
+  transaction: Transaction,
+  equipmentIds: string[],
+  windows: LoanWindow[],
+  exceptLoanId?: string
+): Promise<EquipmentClash[]> => {
+  const db = getFirestore();
+  const items = await Promise.all(
+    equipmentIds.map((id) =>
+      transaction.get(db.collection("equipment").doc(id))
+    )
+  );
+  const loans = await transaction.get(
+    db.collection("equipmentLoans").where("equipmentId", "in", equipmentIds)
+  );
+  const nowIso = new Date().toISOString();
+
+  return items.flatMap((item) => {
+    const data = item.data();
+    const clash = (detail: string): EquipmentClash[] => [
+      {
+        equipmentId: item.id,
+        name: data?.name || "Unknown equipment",
+        assetTag: data?.assetTag || "",
+        detail,
+      },
+    ];
+    if (!data) return clash("isn't in the inventory");
+    if (!LENDABLE_CONDITIONS.includes(data.condition)) {
+      return clash(`is ${data.condition} and can't be lent`);
+    }
+
+    const holding = loans.docs
+      .filter(
+        (doc) =>
+          doc.id !== exceptLoanId &&
+          doc.data().equipmentId === item.id &&
+          HOLDING_STATUSES.includes(doc.data().status)
+      )
+      .map((doc) => ({
+        startAt: doc.data().startAt as string,
+        dueAt: heldUntil(doc.data(), nowIso),
+        status: doc.data().status as string,
+      }));
+    const taken = holding.find((loan) =>
+      windows.some((window) => overlaps(window, loan))
+    );
+    if (!taken) return [];
+    return clash(
+      taken.status === "checked-out"
+        ? `is on loan until ${formatCampusTime(taken.dueAt)}`
+        : `is reserved from ${formatCampusTime(
+            taken.startAt
+          )} to ${formatCampusTime(taken.dueAt)}`
+    );
+  });
+};
+
+// The clashes as the error a caller sees, with the clashes as details
+export const equipmentUnavailable = (clashes: EquipmentClash[]): HttpsError =>
+  new HttpsError(
+    "failed-precondition",
+    `${clashes.map(describeClash).join("; ")}.`,
+    { equipment: clashes }
+  );
+
+// Reserves the items for a booking's window. Call it in the transaction that
+// checked them with `equipmentClashes`.
+export const reserveEquipment = (
+  transaction: Transaction,
+  equipmentIds: string[],
+  loan: LoanWindow & {
+    bookingId: string;
+    borrowerId: string;
+    requestedBy: string;
+  }
+): void => {
+  const db = getFirestore();
+  const now = Timestamp.now();
+  equipmentIds.forEach((equipmentId) => {
+    const loanRef = db.collection("equipmentLoans").doc();
+    transaction.set(loanRef, {
+      ...loan,
+      equipmentId,
+      status: "reserved",
+      createdAt: now,
+    });
+    transaction.update(db.collection("equipment").doc(equipmentId), {
+      lastLoanId: loanRef.id,
+      updatedAt: now,
+    });
+  });
+};
+
+interface CheckOutRequest {
+  loanId?: string; // A reservation being handed over
+  // Or an item lent at the desk
+  equipmentId?: string;
+  borrowerId?: string;
+  dueAt?: string; // ISO timestamp
+}
+
+// Admins hand equipment over: a reservation made with a booking, or an item
+// lent at the desk until `dueAt`. Either way the item must be free from now
+// until it's due.
+export const checkOutEquipment = onCall<CheckOutRequest>(async (call) => {
+  if (!call.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to lend equipment");
+  }
+  const db = getFirestore();
+  const adminId = call.auth.uid;
+  const caller = await db.collection("users").doc(adminId).get();
+  if (caller.data()?.role !== "admin") {
+    throw new HttpsError(
+      "permission-denied",
+      "Only admins can check out equipment"
+    );
+  }
+
+  const { loanId, equipmentId, borrowerId, dueAt } = call.data || {};
+  const nowIso = new Date().toISOString();
+
+  if (loanId) {
+    return db.runTransaction(async (transaction) => {
+      const loanRef = db.collection("equipmentLoans").doc(loanId);
+      const loan = (await transaction.get(loanRef)).data();
+      if (loan?.status !== "reserved") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This reservation is no longer open"
+        );
+      }
+      const window = {
+        startAt: nowIso,
+        dueAt: loan.dueAt > nowIso ? loan.dueAt : nowIso,
+      };
+      const clashes = await equipmentClashes(
+        transaction,
+        [loan.equipmentId],
+        [window],
+        loanId
+      );
+      if (clashes.length > 0) throw equipmentUnavailable(clashes);
+
+      transaction.update(loanRef, {
+        status: "checked-out",
+        checkedOutAt: nowIso,
+        checkedOutBy: adminId,
+      });
+      transaction.update(db.collection("equipment").doc(loan.equipmentId), {
+        lastLoanId: loanId,
+        updatedAt: Timestamp.now(),
+      });
+      return { id: loanId, dueAt: loan.dueAt as string };
+    });
+  }
+
+  if (typeof equipmentId !== "string" || !equipmentId) {
+    throw new HttpsError("invalid-argument", "An item is required");
+  }
+  if (typeof borrowerId !== "string" || !borrowerId) {
+    throw new HttpsError("invalid-argument", "A borrower is required");
+  }
+  if (typeof dueAt !== "string" || !(Date.parse(dueAt) > Date.now())) {
+    throw new HttpsError(
+      "invalid-argument",
+      "The due time must be in the future"
+    );
+  }
+  const due = new Date(dueAt).toISOString();
+
+  return db.runTransaction(async (transaction) => {
+    const clashes = await equipmentClashes(
+      transaction,
+      [equipmentId],
+      [{ startAt: nowIso, dueAt: due }]
+    );
+    if (clashes.length > 0) throw equipmentUnavailable(clashes);
+
+    const loanRef = db.collection("equipmentLoans").doc();
+    const now = Timestamp.now();
+    transaction.set(loanRef, {
+      equipmentId,
+      borrowerId,
+      startAt: nowIso,
+      dueAt: due,
+      status: "checked-out",
+      requestedBy: adminId,
+      checkedOutAt: nowIso,
+      checkedOutBy: adminId,
+      createdAt: now,
+    });
+    transaction.update(db.collection("equipment").doc(equipmentId), {
+      lastLoanId: loanRef.id,
+      updatedAt: now,
+    });
+    return { id: loanRef.id, dueAt: due };
+  });
+});
+
+// Bookings in these states no longer need the equipment reserved for them
+const RELEASING_STATUSES = ["cancelled", "rejected", "no-show", "completed"];
+
+// Equipment reserved for a booking that's cancelled, rejected or released
+// is free again, as is equipment nobody collected by the time it ended.
+// Checked-out items stay on loan until they're returned.
+export const onBookingEquipmentReleased = onDocumentWritten(
+  "bookings/{bookingId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || before.status === after?.status) return;
+    if (after && !RELEASING_STATUSES.includes(after.status)) return;
+
+    const db = getFirestore();
+    const reserved = await db
+      .collection("equipmentLoans")
+      .where("bookingId", "==", event.params.bookingId)
+      .where("status", "==", "reserved")
+      .get();
+    if (reserved.empty) return;
+
+    const batch = db.batch();
+    const cancelledAt = new Date().toISOString();
+    reserved.docs.forEach((doc) =>
+      batch.update(doc.ref, { status: "cancelled", cancelledAt })
+    );
+    await batch.commit();
+  }
+);
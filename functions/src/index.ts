@@ -0,0 +1,43 @@
+import { initializeApp } from "firebase-admin/app";
+
+initializeApp();
+
+export { processOutbox, retryOutbox } from "./delivery/outbox";
+export { sendAuthEmail, sendTestPush } from "./delivery/requests";
+export { sendNotification } from "./notifications/send";
+export { sendUpcomingReminders } from "./reminders/upcoming";
+export { sendFeeReminders } from "./reminders/fees";
+export { sendEquipmentReminders } from "./reminders/equipment";
+export { onScheduleWritten } from "./changes/schedules";
+export { onAcademicYearWritten } from "./changes/academicYears";
+export { onCoverRequestCreated } from "./changes/coverRequests";
+export { onBookingWritten } from "./changes/bookings";
+export { createBooking } from "./bookings/create";
+export { completePastBookings } from "./bookings/complete";
+export {
+  checkInToRoom,
+  getCheckInCode,
+  releaseNoShows,
+  replaceCheckInCode,
+} from "./bookings/checkIn";
+export {
+  expireWaitlistOffers,
+  onBookingReleased,
+  respondToWaitlistOffer,
+} from "./bookings/waitlist";
+export {
+  checkOutEquipment,
+  onBookingEquipmentReleased,
+} from "./equipment/loans";
+export { onCourseCreated, onCourseUpdated } from "./changes/courses";
+export { onChatMessageCreated } from "./changes/chatMentions";
+export { getPushConfig } from "./push";
+export { listLecturers } from "./scheduleRefs";
+export { onAnnouncementCreated } from "./announcements";
+export {
+  calendarFeed,
+  createCalendarFeed,
+  exportCalendar,
+  getCalendarFeed,
+  revokeCalendarFeed,
+} from "./calendar/feeds";
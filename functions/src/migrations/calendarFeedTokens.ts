@@ -0,0 +1,29 @@
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+// Remove the copies of calendar feed tokens older versions kept on user docs,
+// where other users could read them. The tokens stay in `calendarFeeds`, so
+// subscribed calendars keep updating. Safe to run more than once.
+export const migrateCalendarFeedTokens = async (
+  dryRun: boolean
+): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db.collection("users").get();
+  const pending = snapshot.docs.filter(
+    (doc) => doc.data().calendarFeed !== undefined
+  );
+
+  for (let i = 0; i < pending.length && !dryRun; i += BATCH_SIZE) {
+    const batch = db.batch();
+    pending
+      .slice(i, i + BATCH_SIZE)
+      .forEach((doc) =>
+        batch.update(doc.ref, { calendarFeed: FieldValue.delete() })
+      );
+    await batch.commit();
+  }
+
+  return pending.length;
+};
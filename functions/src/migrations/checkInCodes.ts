@@ -0,0 +1,32 @@
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 200; // Two writes per classroom
+
+// Move check-in codes saved on classroom docs, where everyone could read them,
+// to `classroomSecrets`. Printed QR codes keep working. Safe to run more than
+// once.
+export const migrateCheckInCodes = async (dryRun: boolean): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db.collection("classrooms").get();
+  const pending = snapshot.docs.filter(
+    (doc) => doc.data().checkInCode !== undefined
+  );
+
+  for (let i = 0; i < pending.length && !dryRun; i += BATCH_SIZE) {
+    const batch = db.batch();
+    pending.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      const { checkInCode } = doc.data();
+      if (checkInCode) {
+        batch.set(db.collection("classroomSecrets").doc(doc.id), {
+          checkInCode,
+          updatedAt: Timestamp.now(),
+        });
+      }
+      batch.update(doc.ref, { checkInCode: FieldValue.delete() });
+    });
+    await batch.commit();
+  }
+
+  return pending.length;
+};
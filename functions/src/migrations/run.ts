@@ -0,0 +1,42 @@
+// Runs a one-off data migration: npm run migrate -- <name> [--dry-run]
+//
+// Point it at the emulator with FIRESTORE_EMULATOR_HOST=localhost:8080, or at
+// a project with GOOGLE_APPLICATION_CREDENTIALS set to a service account key.
+import { initializeApp } from "firebase-admin/app";
+import { migrateCalendarFeedTokens } from "./calendarFeedTokens";
+import { migrateCheckInCodes } from "./checkInCodes";
+import { migrateScheduleRecurrence } from "./scheduleRecurrence";
+import { migrateScheduleRefs } from "./scheduleRefs";
+
+// Each migration returns the number of documents it changed (or would change)
+const MIGRATIONS: Record<string, (dryRun: boolean) => Promise<number>> = {
+  calendarFeedTokens: migrateCalendarFeedTokens,
+  checkInCodes: migrateCheckInCodes,
+  scheduleRecurrence: migrateScheduleRecurrence,
+  scheduleRefs: migrateScheduleRefs,
+};
+
+const main = async () => {
+  const [name, ...flags] = process.argv.slice(2);
+  const migration = MIGRATIONS[name];
+  if (!migration) {
+    console.error(
+      `Usage: npm run migrate -- <${Object.keys(MIGRATIONS).join(
+        "|"
+      )}> [--dry-run]`
+    );
+    process.exit(1);
+  }
+
+  const dryRun = flags.includes("--dry-run");
+  initializeApp();
+  const count = await migration(dryRun);
+  console.log(
+    `${name}: ${count} document(s) ${dryRun ? "would be " : ""}migrated`
+  );
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { RecurringSchedule, resolveRecurrence } from "../recurrence";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+// Replace the legacy isRecurring/dayOfWeek fields with a recurrence rule.
+// Weekly classes keep repeating every week from the day they were created,
+// which is how they were shown before; one-off classes get a null rule.
+// Safe to run more than once.
+export const migrateScheduleRecurrence = async (
+  dryRun: boolean
+): Promise<number> => {
+  const db = getFirestore();
+  const snapshot = await db.collection("schedules").get();
+  const pending = snapshot.docs.filter(
+    (doc) =>
+      doc.data().recurrence === undefined ||
+      doc.data().isRecurring !== undefined ||
+      doc.data().dayOfWeek !== undefined
+  );
+
+  for (let i = 0; i < pending.length && !dryRun; i += BATCH_SIZE) {
+    const batch = db.batch();
+    pending.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      const schedule = doc.data() as RecurringSchedule;
+      batch.update(doc.ref, {
+        recurrence: resolveRecurrence(schedule),
+        overrides: schedule.overrides || [],
+        isRecurring: FieldValue.delete(),
+        dayOfWeek: FieldValue.delete(),
+      });
+    });
+    await batch.commit();
+  }
+
+  return pending.length;
+};
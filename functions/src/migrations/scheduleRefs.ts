@@ -0,0 +1,119 @@
+import {
+  DocumentData,
+  DocumentReference,
+  getFirestore,
+  QuerySnapshot,
+} from "firebase-admin/firestore";
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+const normalize = (value?: string | number): string =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+// Index documents by a text key, dropping keys shared by several documents
+// since those can't be resolved automatically
+const uniqueIndex = (
+  docs: { id: string; data: DocumentData }[],
+  key: (data: DocumentData) => string
+): Map<string, string | null> => {
+  const index = new Map<string, string | null>();
+  docs.forEach(({ id, data }) => {
+    const value = key(data);
+    if (!value) return;
+    index.set(value, index.has(value) ? null : id);
+  });
+  return index;
+};
+
+// Fill in moduleId, lecturerId and classroomId on schedules saved with only
+// the module title, lecturer name and room/floor numbers. Values that match
+// no document, or more than one, are logged and left for an admin to link
+// by editing the schedule. Safe to run more than once.
+export const migrateScheduleRefs = async (dryRun: boolean): Promise<number> => {
+  const db = getFirestore();
+  const [schedules, modules, lecturers, classrooms] = await Promise.all([
+    db.collection("schedules").get(),
+    db.collection("modules").get(),
+    db.collection("users").where("role", "==", "lecturer").get(),
+    db.collection("classrooms").get(),
+  ]);
+  const entries = (snapshot: QuerySnapshot) =>
+    snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }));
+
+  const moduleIds = uniqueIndex(entries(modules), (data) =>
+    normalize(data.title)
+  );
+  const lecturerIds = uniqueIndex(entries(lecturers), (data) =>
+    normalize(data.name)
+  );
+  // Room numbers repeat across branches, so rooms are keyed by branch too.
+  // Rooms added before branches were recorded are keyed with an empty branch.
+  const roomKey = (
+    branch: string | undefined,
+    roomNumber: string | number,
+    floor: string | number
+  ) => `${normalize(branch)}/${normalize(roomNumber)}/${normalize(floor)}`;
+  const classroomIds = uniqueIndex(entries(classrooms), (data) =>
+    data.roomNumber ? roomKey(data.branch, data.roomNumber, data.floor) : ""
+  );
+
+  const updates: { ref: DocumentReference; data: DocumentData }[] = [];
+  schedules.docs.forEach((doc) => {
+    const schedule = doc.data();
+    const data: DocumentData = {};
+    const unresolved: string[] = [];
+
+    const link = (
+      field: string,
+      id: string | null | undefined,
+      label: string
+    ) => {
+      if (schedule[field]) return;
+      if (id) data[field] = id;
+      else unresolved.push(label);
+    };
+    link(
+      "moduleId",
+      moduleIds.get(normalize(schedule.moduleTitle)),
+      `module "${schedule.moduleTitle}"`
+    );
+    link(
+      "lecturerId",
+      lecturerIds.get(normalize(schedule.lecturerName)),
+      `lecturer "${schedule.lecturerName}"`
+    );
+    // A room in the schedule's branch, else one with no branch recorded
+    link(
+      "classroomId",
+      classroomIds.get(
+        roomKey(schedule.branch, schedule.classroomNumber, schedule.floorNumber)
+      ) ??
+        classroomIds.get(
+          roomKey("", schedule.classroomNumber, schedule.floorNumber)
+        ),
+      `room ${schedule.classroomNumber} on floor ${schedule.floorNumber}, ${
+        schedule.branch || "no branch"
+      }`
+    );
+
+    if (unresolved.length > 0) {
+      console.warn(
+        `Schedule ${doc.id}: no unique match for ${unresolved.join(", ")}`
+      );
+    }
+    if (Object.keys(data).length > 0) updates.push({ ref: doc.ref, data });
+  });
+
+  for (let i = 0; i < updates.length && !dryRun; i += BATCH_SIZE) {
+    const batch = db.batch();
+    updates
+      .slice(i, i + BATCH_SIZE)
+      .forEach(({ ref, data }) => batch.update(ref, data));
+    await batch.commit();
+  }
+
+  return updates.length;
+};
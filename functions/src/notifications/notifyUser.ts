@@ -0,0 +1,152 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  getFirestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { toCampusTime } from "../campusTime";
+import { queueDelivery } from "../delivery/outbox";
+import { DeliveryTemplate } from "../delivery/types";
+import {
+  isChannelEnabled,
+  minutesUntilQuietHoursEnd,
+  NotificationCategory,
+  resolveNotificationPreferences,
+} from "./preferences";
+
+export interface Recipient {
+  id: string;
+  data: DocumentData;
+}
+
+// Server-side counterpart of NotificationPayload in src/interfaces/Notification.ts
+export interface NotificationPayload {
+  title: string;
+  message: string;
+  category: NotificationCategory;
+  link?: string;
+  template?: DeliveryTemplate;
+  templateData?: Record<string, string>;
+  announcementId?: string;
+}
+
+// The channels a notification went out on
+export interface DeliverySummary {
+  inApp: boolean;
+  email: boolean;
+  push: boolean;
+}
+
+export const toRecipient = (snapshot: DocumentSnapshot): Recipient | null =>
+  snapshot.exists ? { id: snapshot.id, data: snapshot.data()! } : null;
+
+// Write an inbox notification and queue email and push messages according to
+// the recipient's preferences. With a `notificationId` the call is idempotent,
+// so scheduled jobs can safely run over the same window again; a repeated call
+// reports nothing delivered.
+export const notifyRecipient = async (
+  recipient: Recipient,
+  payload: NotificationPayload,
+  notificationId?: string
+): Promise<DeliverySummary> => {
+  const db = getFirestore();
+  const preferences = resolveNotificationPreferences(
+    recipient.data.notificationPreferences
+  );
+  const notifications = db.collection("notifications");
+  const ref = notificationId
+    ? notifications.doc(notificationId)
+    : notifications.doc();
+  const summary: DeliverySummary = { inApp: false, email: false, push: false };
+
+  if (isChannelEnabled(preferences, payload.category, "inApp")) {
+    try {
+      await ref.create({
+        userId: recipient.id,
+        title: payload.title,
+        message: payload.message,
+        category: payload.category,
+        link: payload.link || null,
+        isRead: false,
+        createdAt: Timestamp.now(),
+        ...(payload.announcementId
+          ? { announcementId: payload.announcementId }
+          : {}),
+      });
+      summary.inApp = true;
+    } catch (error) {
+      // 6 = ALREADY_EXISTS: this notification was sent on an earlier run
+      if ((error as { code?: number }).code === 6) return summary;
+      throw error;
+    }
+  }
+
+  const holdMinutes = minutesUntilQuietHoursEnd(
+    preferences,
+    toCampusTime(new Date()).minutes
+  );
+  const sendAfter = holdMinutes
+    ? new Date(Date.now() + holdMinutes * 60 * 1000)
+    : undefined;
+
+  if (
+    recipient.data.email &&
+    isChannelEnabled(preferences, payload.category, "email")
+  ) {
+    await queueDelivery(
+      {
+        channel: "email",
+        to: recipient.data.email,
+        template: payload.template || "notification",
+        data: {
+          name: recipient.data.name || "",
+          title: payload.title,
+          message: payload.message,
+          link: payload.link || "",
+          ...(payload.templateData || {}),
+        },
+        userId: recipient.id,
+        sendAfter,
+      },
+      notificationId ? `${notificationId}-email` : undefined
+    );
+    summary.email = true;
+  }
+
+  // Push messages are addressed to the user; the transport fans out to devices
+  if (
+    Object.keys(recipient.data.pushSubscriptions || {}).length > 0 &&
+    isChannelEnabled(preferences, payload.category, "push")
+  ) {
+    await queueDelivery(
+      {
+        channel: "push",
+        to: recipient.id,
+        template: payload.template || "notification",
+        data: {
+          title: payload.title,
+          message: payload.message,
+          link: payload.link || "/",
+        },
+        userId: recipient.id,
+        sendAfter,
+      },
+      notificationId ? `${notificationId}-push` : undefined
+    );
+    summary.push = true;
+  }
+
+  return summary;
+};
+
+export const notifyUser = async (
+  userId: string,
+  payload: NotificationPayload,
+  notificationId?: string
+) => {
+  const snapshot = await getFirestore().collection("users").doc(userId).get();
+  const recipient = toRecipient(snapshot);
+  if (recipient) {
+    await notifyRecipient(recipient, payload, notificationId);
+  }
+};
@@ -0,0 +1,113 @@
+// Mirrors src/utils/notificationPreferences.ts in the web app. Quiet hours are
+// evaluated in campus time since the functions themselves run in UTC.
+import { MINUTES_PER_DAY, timeToMinutes } from "../campusTime";
+
+export type NotificationCategory =
+  | "general"
+  | "events"
+  | "schedule"
+  | "bookings"
+  | "chatMentions"
+  | "grades"
+  | "fees"
+  | "announcements";
+
+export type NotificationChannel = "inApp" | "email" | "push";
+
+export interface NotificationPreferences {
+  categories: Record<
+    NotificationCategory,
+    Record<NotificationChannel, boolean>
+  >;
+  quietHours: { enabled: boolean; start: string; end: string };
+  reminderLeadMinutes: number;
+}
+
+export const DEFAULT_REMINDER_LEAD_MINUTES = 30;
+
+// Channels that can't be switched off. Announcements are pinned to dashboards
+// from their inbox entries, so those are always written.
+export const REQUIRED_CHANNELS: Partial<
+  Record<NotificationCategory, NotificationChannel[]>
+> = {
+  announcements: ["inApp"],
+};
+
+const defaultChannels = (): Record<NotificationChannel, boolean> => ({
+  inApp: true,
+  email: false,
+  push: false,
+});
+
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    general: defaultChannels(),
+    events: defaultChannels(),
+    schedule: { inApp: true, email: false, push: true },
+    bookings: { inApp: true, email: true, push: true },
+    chatMentions: { inApp: true, email: false, push: true },
+    grades: { inApp: true, email: true, push: false },
+    fees: { inApp: true, email: true, push: false },
+    announcements: { inApp: true, email: false, push: true },
+  },
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  reminderLeadMinutes: DEFAULT_REMINDER_LEAD_MINUTES,
+};
+
+export const isNotificationCategory = (
+  value: unknown
+): value is NotificationCategory =>
+  typeof value === "string" &&
+  value in DEFAULT_NOTIFICATION_PREFERENCES.categories;
+
+export const resolveNotificationPreferences = (
+  stored?: Partial<NotificationPreferences> | null
+): NotificationPreferences => {
+  const categories = { ...DEFAULT_NOTIFICATION_PREFERENCES.categories };
+  (Object.keys(categories) as NotificationCategory[]).forEach((key) => {
+    categories[key] = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.categories[key],
+      ...(stored?.categories?.[key] || {}),
+    };
+  });
+
+  return {
+    categories,
+    quietHours: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours,
+      ...(stored?.quietHours || {}),
+    },
+    reminderLeadMinutes:
+      stored?.reminderLeadMinutes ??
+      DEFAULT_NOTIFICATION_PREFERENCES.reminderLeadMinutes,
+  };
+};
+
+export const isChannelEnabled = (
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  channel: NotificationChannel
+): boolean =>
+  !!REQUIRED_CHANNELS[category]?.includes(channel) ||
+  preferences.categories[category]?.[channel] !== false;
+
+// Minutes until the current quiet period ends, or 0 outside quiet hours
+export const minutesUntilQuietHoursEnd = (
+  preferences: NotificationPreferences,
+  campusMinutes: number
+): number => {
+  const { enabled, start, end } = preferences.quietHours;
+  if (!enabled || !start || !end) return 0;
+
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = timeToMinutes(end);
+  if (startMinutes === endMinutes) return 0;
+
+  const inQuietHours =
+    startMinutes < endMinutes
+      ? campusMinutes >= startMinutes && campusMinutes < endMinutes
+      : campusMinutes >= startMinutes || campusMinutes < endMinutes;
+  if (!inQuietHours) return 0;
+
+  return (endMinutes - campusMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+};
@@ -0,0 +1,95 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { notifyUser } from "./notifyUser";
+import { isNotificationCategory, NotificationCategory } from "./preferences";
+
+// Only staff send notifications from the app; students could otherwise
+// message anyone in the campus's name
+const SENDER_ROLES = ["admin", "lecturer"];
+
+// Email templates the app may send with a notification, and the template
+// values it may fill in. Names, addresses and links are filled in here.
+const APP_TEMPLATES: Record<string, string[]> = {
+  notification: [],
+  bookingConfirmation: ["classroom", "date", "startTime", "endTime", "purpose"],
+};
+
+// Mirrors NotificationPayload in src/interfaces/Notification.ts
+interface SendNotificationRequest {
+  recipientId: string;
+  payload: {
+    title: string;
+    message: string;
+    category?: NotificationCategory;
+    link?: string;
+    template?: "notification" | "bookingConfirmation";
+    templateData?: Record<string, string>;
+  };
+}
+
+// Notifies a user on the channels they chose. The app goes through here
+// rather than writing to the outbox, so its emails and pushes only reach
+// registered users, from staff, with templates and links the server allows.
+export const sendNotification = onCall<SendNotificationRequest>(
+  async (call) => {
+    if (!call.auth) {
+      throw new HttpsError("unauthenticated", "Sign in to send notifications");
+    }
+    const caller = await getFirestore()
+      .collection("users")
+      .doc(call.auth.uid)
+      .get();
+    if (!SENDER_ROLES.includes(caller.data()?.role)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and lecturers can send notifications"
+      );
+    }
+    const { recipientId, payload } = call.data || {};
+    if (typeof recipientId !== "string" || !recipientId) {
+      throw new HttpsError("invalid-argument", "A recipient is required");
+    }
+    if (
+      !payload ||
+      typeof payload.title !== "string" ||
+      typeof payload.message !== "string" ||
+      !payload.title.trim()
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        "A title and message are required"
+      );
+    }
+    const category = payload.category || "general";
+    if (!isNotificationCategory(category)) {
+      throw new HttpsError("invalid-argument", "Unknown notification category");
+    }
+    if (
+      payload.link !== undefined &&
+      (typeof payload.link !== "string" || !payload.link.startsWith("/"))
+    ) {
+      throw new HttpsError("invalid-argument", "Links must be app routes");
+    }
+    const template = payload.template || "notification";
+    const allowedKeys = APP_TEMPLATES[template];
+    if (!allowedKeys) {
+      throw new HttpsError("invalid-argument", "Unknown email template");
+    }
+    const templateData: Record<string, string> = {};
+    Object.entries(payload.templateData || {}).forEach(([key, value]) => {
+      if (allowedKeys.includes(key) && typeof value === "string") {
+        templateData[key] = value;
+      }
+    });
+
+    await notifyUser(recipientId, {
+      title: payload.title,
+      message: payload.message,
+      category,
+      template,
+      templateData,
+      ...(payload.link && { link: payload.link }),
+    });
+    return { sent: true };
+  }
+);
@@ -0,0 +1,8 @@
+import { onCall } from "firebase-functions/v2/https";
+import { getVapidKeys } from "./delivery/vapid";
+
+// Public VAPID key the browser needs to create a push subscription
+export const getPushConfig = onCall(async () => {
+  const { publicKey } = await getVapidKeys();
+  return { publicKey };
+});
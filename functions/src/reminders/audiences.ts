@@ -0,0 +1,139 @@
+import { DocumentData, getFirestore } from "firebase-admin/firestore";
+import { Recipient, toRecipient } from "../notifications/notifyUser";
+
+// Firestore caps `in` and `array-contains-any` filters at 30 values
+const MAX_IN_VALUES = 30;
+
+export const chunk = <T>(values: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += MAX_IN_VALUES) {
+    chunks.push(values.slice(i, i + MAX_IN_VALUES));
+  }
+  return chunks;
+};
+
+const unique = (recipients: Recipient[]): Recipient[] =>
+  Array.from(new Map(recipients.map((r) => [r.id, r])).values());
+
+export const usersByIds = async (ids: string[]): Promise<Recipient[]> => {
+  const db = getFirestore();
+  const snapshots = await Promise.all(
+    Array.from(new Set(ids.filter(Boolean))).map((id) =>
+      db.collection("users").doc(id).get()
+    )
+  );
+  return snapshots
+    .map(toRecipient)
+    .filter((recipient): recipient is Recipient => recipient !== null);
+};
+
+export const allUsers = async (): Promise<Recipient[]> => {
+  const snapshot = await getFirestore().collection("users").get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }));
+};
+
+export const usersByRole = async (role: string): Promise<Recipient[]> => {
+  const snapshot = await getFirestore()
+    .collection("users")
+    .where("role", "==", role)
+    .get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }));
+};
+
+// Schedules saved before lecturerId existed only store the display name
+export const lecturersByName = async (name: string): Promise<Recipient[]> => {
+  if (!name) return [];
+
+  const snapshot = await getFirestore()
+    .collection("users")
+    .where("role", "==", "lecturer")
+    .where("name", "==", name)
+    .get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }));
+};
+
+// Students with an active enrollment in any of the given courses
+export const studentsInCourses = async (
+  courseIds: string[]
+): Promise<Recipient[]> => {
+  const db = getFirestore();
+  const studentIds: string[] = [];
+
+  for (const ids of chunk(Array.from(new Set(courseIds.filter(Boolean))))) {
+    const snapshot = await db
+      .collection("enrollments")
+      .where("courseId", "in", ids)
+      .where("status", "==", "Active")
+      .get();
+    snapshot.docs.forEach((doc) => studentIds.push(doc.data().studentId));
+  }
+
+  return usersByIds(studentIds);
+};
+
+// Students taking the module a schedule belongs to. The module is looked up
+// to find its courses; schedules without a moduleId name it by title.
+export const studentsForSchedule = async (
+  schedule: DocumentData
+): Promise<Recipient[]> => {
+  const db = getFirestore();
+  const courseIds: string[] = schedule.courseId ? [schedule.courseId] : [];
+  const moduleIds: string[] = schedule.moduleId ? [schedule.moduleId] : [];
+
+  if (schedule.moduleId) {
+    const module = await db.collection("modules").doc(schedule.moduleId).get();
+    if (module.data()?.courseId) courseIds.push(module.data()!.courseId);
+  } else if (schedule.moduleTitle) {
+    const modules = await db
+      .collection("modules")
+      .where("title", "==", schedule.moduleTitle)
+      .get();
+    modules.docs.forEach((doc) => {
+      moduleIds.push(doc.id);
+      if (doc.data().courseId) courseIds.push(doc.data().courseId);
+    });
+  }
+
+  // Courses that list the module in their `modules` array
+  for (const ids of chunk(Array.from(new Set(moduleIds)))) {
+    const courses = await db
+      .collection("courses")
+      .where("modules", "array-contains-any", ids)
+      .get();
+    courses.docs.forEach((doc) => courseIds.push(doc.id));
+  }
+
+  return studentsInCourses(courseIds);
+};
+
+export const audienceForSchedule = async (
+  schedule: DocumentData
+): Promise<Recipient[]> => {
+  const [lecturers, students] = await Promise.all([
+    schedule.lecturerId
+      ? usersByIds([schedule.lecturerId])
+      : lecturersByName(schedule.lecturerName),
+    studentsForSchedule(schedule),
+  ]);
+  return unique([...lecturers, ...students]);
+};
+
+// Lecturers and students of every class held at any of the given branches
+export const audienceForBranches = async (
+  branches: string[]
+): Promise<Recipient[]> => {
+  const db = getFirestore();
+  const audiences: Recipient[] = [];
+
+  for (const values of chunk(Array.from(new Set(branches.filter(Boolean))))) {
+    const schedules = await db
+      .collection("schedules")
+      .where("branch", "in", values)
+      .get();
+    for (const schedule of schedules.docs) {
+      audiences.push(...(await audienceForSchedule(schedule.data())));
+    }
+  }
+
+  return unique(audiences);
+};
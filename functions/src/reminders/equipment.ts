@@ -0,0 +1,56 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { CAMPUS_TIME_ZONE, toCampusTime } from "../campusTime";
+import { notifyRecipient } from "../notifications/notifyUser";
+import { usersByIds } from "./audiences";
+
+// Remind borrowers about equipment they haven't returned by its due time:
+// within the hour, then once a day until it's back
+export const sendEquipmentReminders = onSchedule(
+  { schedule: "every 1 hours", timeZone: CAMPUS_TIME_ZONE },
+  async () => {
+    const db = getFirestore();
+    const now = new Date();
+    const todayKey = toCampusTime(now).dateKey;
+
+    const onLoan = await db
+      .collection("equipmentLoans")
+      .where("status", "==", "checked-out")
+      .get();
+    const overdue = onLoan.docs.filter(
+      (doc) => doc.data().dueAt < now.toISOString()
+    );
+
+    for (const loanDoc of overdue) {
+      const loan = loanDoc.data();
+      const item = (
+        await db.collection("equipment").doc(loan.equipmentId).get()
+      ).data();
+      const name = item
+        ? `${item.name}${item.assetTag ? ` (${item.assetTag})` : ""}`
+        : "Borrowed equipment";
+      const due = new Date(loan.dueAt).toLocaleString("en-US", {
+        timeZone: CAMPUS_TIME_ZONE,
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      });
+
+      for (const recipient of await usersByIds([loan.borrowerId])) {
+        // One reminder per loan per day, however often the job runs
+        await notifyRecipient(
+          recipient,
+          {
+            title: "Equipment overdue",
+            message: `${name} was due back ${due}. Please return it so others can use it.`,
+            category: "bookings",
+            link: "/dashboard",
+          },
+          `equipment-overdue-${loanDoc.id}-${todayKey}`
+        );
+      }
+    }
+  }
+);
@@ -0,0 +1,108 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { CAMPUS_TIME_ZONE, toCampusTime } from "../campusTime";
+import { queueDelivery } from "../delivery/outbox";
+import { notifyRecipient, toRecipient } from "../notifications/notifyUser";
+
+// Days before the due date on which a reminder goes out
+const REMINDER_DAYS_BEFORE_DUE = [7, 1];
+
+// Overdue fees are reminded about once a week
+const OVERDUE_REMINDER_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Fee {
+  semester: number;
+  amount: number;
+  status: "Paid" | "Pending" | "Overdue";
+  dueDate: Timestamp | string;
+}
+
+const toDate = (value: Timestamp | string): Date =>
+  value instanceof Timestamp ? value.toDate() : new Date(value);
+
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round((Date.parse(toKey) - Date.parse(fromKey)) / DAY_MS);
+
+const isReminderDay = (fee: Fee, todayKey: string): boolean => {
+  const daysUntilDue = daysBetween(
+    todayKey,
+    toCampusTime(toDate(fee.dueDate)).dateKey
+  );
+
+  if (daysUntilDue >= 0) {
+    return REMINDER_DAYS_BEFORE_DUE.includes(daysUntilDue);
+  }
+  return -daysUntilDue % OVERDUE_REMINDER_INTERVAL_DAYS === 0;
+};
+
+// Notify students about unpaid fees, and text them when a phone number is on file
+export const sendFeeReminders = onSchedule(
+  { schedule: "every day 08:00", timeZone: CAMPUS_TIME_ZONE },
+  async () => {
+    const db = getFirestore();
+    const todayKey = toCampusTime(new Date()).dateKey;
+
+    const enrollments = await db
+      .collection("enrollments")
+      .where("status", "in", ["Active", "On Hold"])
+      .get();
+
+    for (const enrollmentDoc of enrollments.docs) {
+      const enrollment = enrollmentDoc.data();
+      const dueFees = ((enrollment.fees || []) as Fee[]).filter(
+        (fee) => fee.status !== "Paid" && isReminderDay(fee, todayKey)
+      );
+      if (dueFees.length === 0) continue;
+
+      const [studentDoc, courseDoc] = await Promise.all([
+        db.collection("users").doc(enrollment.studentId).get(),
+        db.collection("courses").doc(enrollment.courseId).get(),
+      ]);
+      const student = toRecipient(studentDoc);
+      if (!student) continue;
+
+      for (const fee of dueFees) {
+        const templateData = {
+          course: courseDoc.data()?.title || "your course",
+          semester: String(fee.semester),
+          amount: fee.amount.toLocaleString("en-LK", {
+            style: "currency",
+            currency: "LKR",
+          }),
+          status: fee.status.toLowerCase(),
+          dueDate: toDate(fee.dueDate).toLocaleDateString("en-GB"),
+        };
+        // One reminder per fee per day, however often the job runs
+        const notificationId = `feeReminder-${enrollmentDoc.id}-${fee.semester}-${todayKey}`;
+
+        await notifyRecipient(
+          student,
+          {
+            title: "Fee reminder",
+            message: `Your semester ${templateData.semester} fee of ${templateData.amount} for ${templateData.course} is ${templateData.status} (due ${templateData.dueDate}).`,
+            category: "fees",
+            link: "/dashboard",
+            template: "feeReminder",
+            templateData,
+          },
+          notificationId
+        );
+
+        if (student.data.phone) {
+          await queueDelivery(
+            {
+              channel: "sms",
+              to: student.data.phone,
+              template: "feeReminder",
+              data: { name: student.data.name || "", ...templateData },
+              userId: student.id,
+            },
+            `${notificationId}-sms`
+          );
+        }
+      }
+    }
+  }
+);
@@ -0,0 +1,202 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import {
+  CAMPUS_TIME_ZONE,
+  CampusTime,
+  MINUTES_PER_DAY,
+  timeToMinutes,
+  toCampusTime,
+} from "../campusTime";
+import {
+  NotificationPayload,
+  notifyRecipient,
+  Recipient,
+} from "../notifications/notifyUser";
+import { resolveNotificationPreferences } from "../notifications/preferences";
+import { occurrencesOn, RecurringSchedule } from "../recurrence";
+import { createScheduleResolver } from "../scheduleRefs";
+import { allUsers, audienceForSchedule, usersByIds } from "./audiences";
+
+// Longest reminder lead time offered on the preferences page
+const MAX_LEAD_MINUTES = 120;
+
+interface CampusDay extends CampusTime {
+  offset: number; // 0 = today, 1 = tomorrow
+}
+
+interface UpcomingItem {
+  key: string; // Unique per occurrence, used for idempotent notification IDs
+  day: CampusDay;
+  startTime: string;
+  payload: NotificationPayload;
+  audience: () => Promise<Recipient[]>;
+}
+
+const upcomingClasses = async (days: CampusDay[]): Promise<UpcomingItem[]> => {
+  const snapshot = await getFirestore().collection("schedules").get();
+  const resolve = createScheduleResolver();
+  const items: UpcomingItem[] = [];
+
+  for (const doc of snapshot.docs) {
+    const schedule = await resolve(doc.data());
+    days.forEach((day) => {
+      // Honours term dates, exceptions and per-occurrence changes
+      occurrencesOn(
+        { id: doc.id, ...schedule } as RecurringSchedule,
+        day.dateKey
+      ).forEach((occurrence) => {
+        items.push({
+          key: `class-${doc.id}-${occurrence.originalDate}`,
+          day,
+          startTime: occurrence.startTime,
+          payload: {
+            title: "Class starting soon",
+            message: `${schedule.moduleTitle} starts at ${occurrence.startTime} in Room ${occurrence.classroomNumber}.`,
+            category: "schedule",
+            link: "/dashboard",
+          },
+          // A substitute assigned through cover has an ID; one typed into
+          // an override is only known by name
+          audience: () =>
+            audienceForSchedule(
+              occurrence.lecturerName === schedule.lecturerName
+                ? schedule
+                : {
+                    ...schedule,
+                    lecturerId: occurrence.lecturerId,
+                    lecturerName: occurrence.lecturerName,
+                  }
+            ),
+        });
+      });
+    });
+  }
+
+  return items;
+};
+
+const upcomingEvents = async (days: CampusDay[]): Promise<UpcomingItem[]> => {
+  const snapshot = await getFirestore()
+    .collection("events")
+    .where(
+      "startDate",
+      "in",
+      days.map((day) => day.dateKey)
+    )
+    .get();
+
+  // Events are campus-wide, so everyone is reminded
+  let everyone: Promise<Recipient[]> | null = null;
+
+  return snapshot.docs
+    .filter((doc) => doc.data().status !== "Cancelled")
+    .map((doc) => {
+      const event = doc.data();
+      return {
+        key: `event-${doc.id}-${event.startDate}`,
+        day: days.find((day) => day.dateKey === event.startDate)!,
+        startTime: event.startTime,
+        payload: {
+          title: "Event starting soon",
+          message: `"${event.title}" starts at ${event.startTime} in ${event.location}.`,
+          category: "events",
+          link: "/dashboard",
+        },
+        audience: () => (everyone = everyone || allUsers()),
+      };
+    });
+};
+
+const upcomingBookings = async (days: CampusDay[]): Promise<UpcomingItem[]> => {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection("bookings")
+    .where(
+      "date",
+      "in",
+      days.map((day) => day.dateKey)
+    )
+    .where("status", "==", "confirmed")
+    .get();
+
+  return Promise.all(
+    snapshot.docs.map(async (doc) => {
+      const booking = doc.data();
+      const classroom = await db
+        .collection("classrooms")
+        .doc(booking.classroomId)
+        .get();
+      const room = classroom.data()?.name || "your booked classroom";
+
+      return {
+        key: `booking-${doc.id}`,
+        day: days.find((day) => day.dateKey === booking.date)!,
+        startTime: booking.startTime,
+        payload: {
+          title: "Booking starting soon",
+          message: `"${booking.title}" in ${room} starts at ${booking.startTime}.`,
+          category: "bookings" as const,
+          link: "/dashboard",
+        },
+        audience: () => usersByIds([booking.bookedFor, booking.bookedBy]),
+      };
+    })
+  );
+};
+
+// Every few minutes, notify people about classes, events and bookings starting
+// within their chosen reminder lead time
+export const sendUpcomingReminders = onSchedule(
+  { schedule: "every 5 minutes", timeZone: CAMPUS_TIME_ZONE },
+  async () => {
+    const now = new Date();
+    const today = toCampusTime(now);
+    const days: CampusDay[] = [
+      { ...today, offset: 0 },
+      {
+        ...toCampusTime(new Date(now.getTime() + MINUTES_PER_DAY * 60 * 1000)),
+        offset: 1,
+      },
+    ];
+
+    const items = (
+      await Promise.all([
+        upcomingClasses(days),
+        upcomingEvents(days),
+        upcomingBookings(days),
+      ])
+    ).flat();
+
+    let sent = 0;
+    for (const item of items) {
+      const minutesUntilStart =
+        item.day.offset * MINUTES_PER_DAY +
+        timeToMinutes(item.startTime) -
+        today.minutes;
+      if (
+        isNaN(minutesUntilStart) ||
+        minutesUntilStart <= 0 ||
+        minutesUntilStart > MAX_LEAD_MINUTES
+      ) {
+        continue;
+      }
+
+      for (const recipient of await item.audience()) {
+        const { reminderLeadMinutes } = resolveNotificationPreferences(
+          recipient.data.notificationPreferences
+        );
+        if (minutesUntilStart > reminderLeadMinutes) continue;
+
+        await notifyRecipient(
+          recipient,
+          item.payload,
+          `reminder-${item.key}-${recipient.id}`
+        );
+        sent++;
+      }
+    }
+
+    logger.info(`Processed ${sent} reminders for ${items.length} items`);
+  }
+);
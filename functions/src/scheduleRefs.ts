@@ -0,0 +1,78 @@
+import { DocumentData, getFirestore } from "firebase-admin/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+
+// Schedules reference their module, lecturer and classroom by ID and keep a
+// copy of the names, which goes stale when one of them is renamed. Mirrors
+// resolveScheduleRefs in src/utils/scheduleRefs.ts.
+
+export interface ScheduleRefs {
+  moduleId?: string;
+  lecturerId?: string;
+  classroomId?: string;
+  moduleTitle?: string;
+  lecturerName?: string;
+  classroomNumber?: string;
+  floorNumber?: string;
+}
+
+// Returns a function that refreshes a schedule's names from the referenced
+// documents. Documents are read once per resolver, so create one per run.
+export const createScheduleResolver = () => {
+  const db = getFirestore();
+  const cache = new Map<string, Promise<DocumentData | undefined>>();
+
+  const read = (collection: string, id?: string) => {
+    if (!id) return Promise.resolve(undefined);
+    const key = `${collection}/${id}`;
+    if (!cache.has(key)) {
+      cache.set(
+        key,
+        db
+          .collection(collection)
+          .doc(id)
+          .get()
+          .then((doc) => doc.data())
+      );
+    }
+    return cache.get(key)!;
+  };
+
+  return async <T extends ScheduleRefs>(schedule: T): Promise<T> => {
+    const [module, lecturer, classroom] = await Promise.all([
+      read("modules", schedule.moduleId),
+      read("users", schedule.lecturerId),
+      read("classrooms", schedule.classroomId),
+    ]);
+
+    return {
+      ...schedule,
+      ...(module?.title && { moduleTitle: module.title }),
+      ...(lecturer?.name && { lecturerName: lecturer.name }),
+      ...(classroom && {
+        classroomNumber: classroom.roomNumber,
+        floorNumber: String(classroom.floor),
+      }),
+    };
+  };
+};
+
+// Lecturers' names, for schedule pickers and for showing who teaches a class.
+// The app can't read other people's user docs, which hold their contact
+// details, so it asks for just the names here.
+export const listLecturers = onCall(
+  async (call): Promise<{ lecturers: { id: string; name: string }[] }> => {
+    if (!call.auth) {
+      throw new HttpsError("unauthenticated", "Sign in to see lecturers");
+    }
+    const snapshot = await getFirestore()
+      .collection("users")
+      .where("role", "==", "lecturer")
+      .get();
+    return {
+      lecturers: snapshot.docs.map((doc) => ({
+        id: doc.id,
+        name: doc.data().name || "",
+      })),
+    };
+  }
+);
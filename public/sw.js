@@ -0,0 +1,40 @@
+// Service worker that shows Web Push notifications sent by the delivery
+// functions (functions/src/delivery/transports/push.ts)
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Vertex Campus", {
+      body: data.body || "",
+      icon: "/vite.svg",
+      data: { link: data.link || "/" },
+    })
+  );
+});
+
+// Focus an open tab (or open a new one) on the notification's link
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(
+    (event.notification.data && event.notification.data.link) || "/",
+    self.location.origin
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windowClients) => {
+        const client = windowClients.find((c) => "focus" in c);
+        if (client) {
+          return client.navigate(url).then((c) => (c || client).focus());
+        }
+        return self.clients.openWindow(url);
+      })
+  );
+});
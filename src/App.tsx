@@ -10,8 +10,13 @@ import { NotificationProvider } from "./contexts/NotificationContext";
 import { ChatProvider } from "./contexts/ChatContext";
 import Login from "./components/Login";
 import Signup from "./components/Signup";
+import ForgotPassword from "./components/ForgotPassword";
 import Dashboard from "./components/Dashboard";
 import ProfileManagement from "./components/ProfileManagement";
+import NotificationInbox from "./components/NotificationInbox";
+import PushTest from "./components/PushTest";
+import WaitlistOffer from "./components/WaitlistOffer";
+import RoomCheckIn from "./components/RoomCheckIn";
 import PrivateRoute from "./components/PrivateRoute";
 import RoleBasedRoute from "./components/RoleBasedRoute";
 import AdminDashboard from "./components/AdminDashboard";
@@ -31,6 +36,7 @@ function App() {
             <Routes>
               <Route path="/login" element={<Login />} />
               <Route path="/signup" element={<Signup />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
               <Route path="/unauthorized" element={<Unauthorized />} />
 
               {/* Role-based routes */}
@@ -70,6 +76,42 @@ function App() {
                 }
               />
 
+              <Route
+                path="/notifications"
+                element={
+                  <RoleBasedRoute allowedRoles={["admin", "lecturer", "student"]}>
+                    <NotificationInbox />
+                  </RoleBasedRoute>
+                }
+              />
+
+              <Route
+                path="/waitlist/:entryId"
+                element={
+                  <RoleBasedRoute allowedRoles={["admin", "lecturer"]}>
+                    <WaitlistOffer />
+                  </RoleBasedRoute>
+                }
+              />
+
+              <Route
+                path="/check-in/:classroomId"
+                element={
+                  <RoleBasedRoute allowedRoles={["admin", "lecturer"]}>
+                    <RoomCheckIn />
+                  </RoleBasedRoute>
+                }
+              />
+
+              <Route
+                path="/push-test"
+                element={
+                  <RoleBasedRoute allowedRoles={["admin", "lecturer", "student"]}>
+                    <PushTest />
+                  </RoleBasedRoute>
+                }
+              />
+
               {/* Legacy dashboard route - will redirect based on role */}
               <Route path="/dashboard" element={<Dashboard />} />
 
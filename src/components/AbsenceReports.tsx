@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from "react";
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { useNotification } from "../contexts/NotificationContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import { CoverRequest } from "../interfaces/CoverRequest";
+import {
+  RecurringSchedule,
+  formatDateKey,
+  toDateKey,
+} from "../utils/recurrence";
+import ReportAbsenceDialog from "./ReportAbsenceDialog";
+
+interface AbsenceReportsProps {
+  lecturerId: string;
+  lecturerName: string;
+  schedules: (RecurringSchedule & {
+    id: string;
+    moduleId?: string;
+    moduleTitle: string;
+  })[];
+}
+
+const byDate = (a: CoverRequest, b: CoverRequest): number =>
+  a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime);
+
+const describeRequest = (request: CoverRequest): string =>
+  `${formatDateKey(request.date)}, ${request.startTime} - ${
+    request.endTime
+  }, Room ${request.classroomNumber}`;
+
+// A lecturer's upcoming absences and the classes they cover for colleagues
+const AbsenceReports: React.FC<AbsenceReportsProps> = ({
+  lecturerId,
+  lecturerName,
+  schedules,
+}) => {
+  const { showNotification } = useNotification();
+  const { showConfirm } = useConfirm();
+  const [absences, setAbsences] = useState<CoverRequest[]>([]);
+  const [covering, setCovering] = useState<CoverRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reporting, setReporting] = useState(false);
+
+  useEffect(() => {
+    const fetchCoverRequests = async () => {
+      setLoading(true);
+      try {
+        const today = toDateKey(new Date());
+        const [absenceSnapshot, coveringSnapshot] = await Promise.all([
+          getDocs(
+            query(
+              collection(db, "coverRequests"),
+              where("lecturerId", "==", lecturerId)
+            )
+          ),
+          getDocs(
+            query(
+              collection(db, "coverRequests"),
+              where("substituteId", "==", lecturerId)
+            )
+          ),
+        ]);
+        const toRequests = (snapshot: typeof absenceSnapshot) =>
+          snapshot.docs
+            .map(
+              (requestDoc) =>
+                ({ id: requestDoc.id, ...requestDoc.data() } as CoverRequest)
+            )
+            .filter((request) => request.date >= today)
+            .sort(byDate);
+        setAbsences(toRequests(absenceSnapshot));
+        setCovering(
+          toRequests(coveringSnapshot).filter(
+            (request) => request.status === "covered"
+          )
+        );
+      } catch (err) {
+        console.error("Error fetching cover requests:", err);
+        showNotification("Failed to load your absences");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCoverRequests();
+  }, [lecturerId, showNotification]);
+
+  const handleWithdraw = (request: CoverRequest) => {
+    showConfirm(
+      {
+        title: "Withdraw Absence",
+        message: `Withdraw your absence for ${
+          request.moduleTitle
+        } on ${formatDateKey(request.date)}? You'll teach the class yourself.`,
+        confirmLabel: "Withdraw",
+        cancelLabel: "Cancel",
+        variant: "warning",
+        icon: "bi-arrow-counterclockwise",
+      },
+      async () => {
+        try {
+          const updatedAt = new Date().toISOString();
+          await updateDoc(doc(db, "coverRequests", request.id), {
+            status: "withdrawn",
+            updatedAt,
+          });
+          setAbsences((current) =>
+            current.map((other) =>
+              other.id === request.id
+                ? { ...other, status: "withdrawn", updatedAt }
+                : other
+            )
+          );
+          showNotification("Absence withdrawn");
+        } catch (err) {
+          console.error("Error withdrawing absence:", err);
+          showNotification("Failed to withdraw the absence");
+        }
+      }
+    );
+  };
+
+  const reported = absences.filter((request) => request.status !== "withdrawn");
+
+  return (
+    <div className="dashboard-card">
+      <div className="d-flex justify-content-between align-items-center mb-4">
+        <h5 className="mb-0">Absences & Cover</h5>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-primary"
+          onClick={() => setReporting(true)}
+          disabled={loading}
+        >
+          <i className="bi bi-person-dash me-1"></i>
+          Report Absence
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-4">
+          <div className="spinner-border text-primary" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+        </div>
+      ) : (
+        <>
+          {reported.length === 0 ? (
+            <p className="text-muted small">
+              You haven't reported any upcoming absences.
+            </p>
+          ) : (
+            <ul className="list-group list-group-flush mb-3">
+              {reported.map((request) => (
+                <li
+                  key={request.id}
+                  className="list-group-item px-0 d-flex justify-content-between align-items-center"
+                >
+                  <span>
+                    <strong>{request.moduleTitle}</strong>
+                    <br />
+                    <small className="text-muted">
+                      {describeRequest(request)}
+                    </small>
+                  </span>
+                  {request.status === "covered" ? (
+                    <span className="badge bg-success">
+                      Covered by {request.substituteName}
+                    </span>
+                  ) : (
+                    <span className="d-flex align-items-center gap-2">
+                      <span className="badge bg-warning text-dark">
+                        Awaiting cover
+                      </span>
+                      <button
+                        type="button"
+                        className="btn btn-sm btn-outline-secondary"
+                        title="Withdraw"
+                        onClick={() => handleWithdraw(request)}
+                      >
+                        <i className="bi bi-arrow-counterclockwise"></i>
+                      </button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {covering.length > 0 && (
+            <>
+              <h6 className="mt-3">Classes You're Covering</h6>
+              <ul className="list-group list-group-flush">
+                {covering.map((request) => (
+                  <li key={request.id} className="list-group-item px-0">
+                    <strong>{request.moduleTitle}</strong>{" "}
+                    <span className="text-muted small">
+                      for {request.lecturerName}
+                    </span>
+                    <br />
+                    <small className="text-muted">
+                      {describeRequest(request)}, {request.branch}
+                    </small>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+
+      {reporting && (
+        <ReportAbsenceDialog
+          schedules={schedules}
+          lecturerId={lecturerId}
+          lecturerName={lecturerName}
+          reported={reported}
+          onClose={() => setReporting(false)}
+          onReported={(requests) => {
+            setAbsences((current) => [...current, ...requests].sort(byDate));
+            setReporting(false);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AbsenceReports;
@@ -0,0 +1,503 @@
+import React, { useState } from "react";
+import { addDoc, collection, deleteDoc, doc, setDoc } from "firebase/firestore";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../firebase";
+import { useNotification } from "../contexts/NotificationContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import {
+  AcademicYear,
+  NonTeachingKind,
+  NonTeachingPeriod,
+  Semester,
+} from "../interfaces/AcademicCalendar";
+import { NON_TEACHING_KINDS } from "../utils/academicCalendar";
+import { formatDateKey } from "../utils/recurrence";
+
+interface AcademicCalendarManagementProps {
+  years: AcademicYear[];
+  currentYearId: string;
+  onYearsChanged: (years: AcademicYear[]) => void;
+}
+
+const emptyYear = (): AcademicYear => ({
+  id: "",
+  name: "",
+  startDate: "",
+  endDate: "",
+  semesters: [],
+  nonTeachingPeriods: [],
+  createdAt: "",
+  updatedAt: "",
+});
+
+const describeRange = (startDate: string, endDate: string): string =>
+  startDate === endDate
+    ? formatDateKey(startDate)
+    : `${formatDateKey(startDate)} - ${formatDateKey(endDate)}`;
+
+// The first problem that stops the year from being saved, if any
+const validateYear = (year: AcademicYear): string | null => {
+  if (!year.name.trim() || !year.startDate || !year.endDate) {
+    return "Enter the year's name, start and end dates";
+  }
+  if (year.endDate < year.startDate) {
+    return "The academic year must end after it starts";
+  }
+  for (const semester of year.semesters) {
+    if (!semester.name.trim() || !semester.startDate || !semester.endDate) {
+      return "Enter a name, start and end date for every semester";
+    }
+    if (semester.endDate < semester.startDate) {
+      return `${semester.name} must end after it starts`;
+    }
+    if (
+      semester.startDate < year.startDate ||
+      semester.endDate > year.endDate
+    ) {
+      return `${semester.name} must fall within the academic year`;
+    }
+  }
+  for (const period of year.nonTeachingPeriods) {
+    if (!period.name.trim() || !period.startDate || !period.endDate) {
+      return "Enter a name, start and end date for every non-teaching day";
+    }
+    if (period.endDate < period.startDate) {
+      return `${period.name} must end on or after the day it starts`;
+    }
+  }
+  return null;
+};
+
+// Academic years with their semesters, public holidays, reading weeks and
+// exam periods. Recurring classes skip non-teaching days automatically.
+const AcademicCalendarManagement: React.FC<AcademicCalendarManagementProps> = ({
+  years,
+  currentYearId,
+  onYearsChanged,
+}) => {
+  const { showNotification } = useNotification();
+  const { showConfirm } = useConfirm();
+  const [draft, setDraft] = useState<AcademicYear | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const updateDraft = (changes: Partial<AcademicYear>) =>
+    setDraft((current) => current && { ...current, ...changes });
+
+  const updateSemester = (id: string, changes: Partial<Semester>) =>
+    draft &&
+    updateDraft({
+      semesters: draft.semesters.map((semester) =>
+        semester.id === id ? { ...semester, ...changes } : semester
+      ),
+    });
+
+  const updatePeriod = (id: string, changes: Partial<NonTeachingPeriod>) =>
+    draft &&
+    updateDraft({
+      nonTeachingPeriods: draft.nonTeachingPeriods.map((period) =>
+        period.id === id ? { ...period, ...changes } : period
+      ),
+    });
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const problem = validateYear(draft);
+    if (problem) {
+      showNotification(problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const sortByStart = <T extends { startDate: string }>(items: T[]) =>
+        [...items].sort((a, b) => a.startDate.localeCompare(b.startDate));
+      const data: Omit<AcademicYear, "id"> = {
+        name: draft.name.trim(),
+        startDate: draft.startDate,
+        endDate: draft.endDate,
+        semesters: sortByStart(draft.semesters),
+        nonTeachingPeriods: sortByStart(draft.nonTeachingPeriods),
+        createdAt: draft.createdAt || timestamp,
+        updatedAt: timestamp,
+      };
+
+      let saved: AcademicYear;
+      if (draft.id) {
+        await setDoc(doc(db, "academicYears", draft.id), data);
+        saved = { ...data, id: draft.id };
+      } else {
+        const yearRef = await addDoc(collection(db, "academicYears"), data);
+        saved = { ...data, id: yearRef.id };
+      }
+
+      onYearsChanged(
+        sortByStart([...years.filter((year) => year.id !== saved.id), saved])
+      );
+      setDraft(null);
+      showNotification("Academic year saved successfully!");
+    } catch (err) {
+      console.error("Error saving academic year:", err);
+      showNotification("Failed to save the academic year. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (year: AcademicYear) => {
+    showConfirm(
+      {
+        title: "Delete Academic Year",
+        message: `Delete ${year.name}? Classes will no longer skip its holidays, reading weeks and exam periods.`,
+        confirmLabel: "Delete",
+        cancelLabel: "Cancel",
+        variant: "danger",
+        icon: "bi-trash",
+      },
+      async () => {
+        try {
+          await deleteDoc(doc(db, "academicYears", year.id));
+          onYearsChanged(years.filter((other) => other.id !== year.id));
+          showNotification("Academic year deleted");
+        } catch (err) {
+          console.error("Error deleting academic year:", err);
+          showNotification("Failed to delete the academic year");
+        }
+      }
+    );
+  };
+
+  const renderForm = (year: AcademicYear) => (
+    <div className="dashboard-card mb-4">
+      <h5 className="mb-4">
+        {year.id ? `Edit ${year.name}` : "New Academic Year"}
+      </h5>
+      <form onSubmit={handleSave}>
+        <div className="row mb-4">
+          <div className="col-md-4 mb-3 mb-md-0">
+            <label className="form-label">Name</label>
+            <input
+              type="text"
+              className="form-control"
+              placeholder="e.g., 2025-2026"
+              value={year.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              required
+            />
+          </div>
+          <div className="col-md-4 mb-3 mb-md-0">
+            <label className="form-label">Starts</label>
+            <input
+              type="date"
+              className="form-control"
+              value={year.startDate}
+              onChange={(e) => updateDraft({ startDate: e.target.value })}
+              required
+            />
+          </div>
+          <div className="col-md-4">
+            <label className="form-label">Ends</label>
+            <input
+              type="date"
+              className="form-control"
+              value={year.endDate}
+              onChange={(e) => updateDraft({ endDate: e.target.value })}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="d-flex justify-content-between align-items-center mb-2">
+          <h6 className="mb-0">Semesters</h6>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-primary"
+            onClick={() =>
+              updateDraft({
+                semesters: [
+                  ...year.semesters,
+                  {
+                    id: uuidv4(),
+                    name: `Semester ${year.semesters.length + 1}`,
+                    startDate: "",
+                    endDate: "",
+                  },
+                ],
+              })
+            }
+          >
+            <i className="bi bi-plus-lg me-1"></i>
+            Add semester
+          </button>
+        </div>
+        {year.semesters.length === 0 ? (
+          <p className="text-muted small">No semesters yet.</p>
+        ) : (
+          year.semesters.map((semester) => (
+            <div key={semester.id} className="row g-2 mb-2 align-items-center">
+              <div className="col-md-4">
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  value={semester.name}
+                  onChange={(e) =>
+                    updateSemester(semester.id, { name: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-3">
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={semester.startDate}
+                  onChange={(e) =>
+                    updateSemester(semester.id, { startDate: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-3">
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={semester.endDate}
+                  onChange={(e) =>
+                    updateSemester(semester.id, { endDate: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-2 text-end">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() =>
+                    updateDraft({
+                      semesters: year.semesters.filter(
+                        (other) => other.id !== semester.id
+                      ),
+                    })
+                  }
+                >
+                  <i className="bi bi-trash"></i>
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="d-flex justify-content-between align-items-center mt-4 mb-2">
+          <h6 className="mb-0">Holidays, Reading Weeks and Exams</h6>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-primary"
+            onClick={() =>
+              updateDraft({
+                nonTeachingPeriods: [
+                  ...year.nonTeachingPeriods,
+                  {
+                    id: uuidv4(),
+                    kind: "holiday",
+                    name: "",
+                    startDate: "",
+                    endDate: "",
+                  },
+                ],
+              })
+            }
+          >
+            <i className="bi bi-plus-lg me-1"></i>
+            Add non-teaching days
+          </button>
+        </div>
+        {year.nonTeachingPeriods.length === 0 ? (
+          <p className="text-muted small">No non-teaching days yet.</p>
+        ) : (
+          year.nonTeachingPeriods.map((period) => (
+            <div key={period.id} className="row g-2 mb-2 align-items-center">
+              <div className="col-md-2">
+                <select
+                  className="form-select form-select-sm"
+                  value={period.kind}
+                  onChange={(e) =>
+                    updatePeriod(period.id, {
+                      kind: e.target.value as NonTeachingKind,
+                    })
+                  }
+                >
+                  {Object.entries(NON_TEACHING_KINDS).map(([kind, label]) => (
+                    <option key={kind} value={kind}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-md-4">
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  placeholder="Name"
+                  value={period.name}
+                  onChange={(e) =>
+                    updatePeriod(period.id, { name: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-2">
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={period.startDate}
+                  onChange={(e) =>
+                    updatePeriod(period.id, {
+                      startDate: e.target.value,
+                      // Single days only need a start date
+                      endDate: period.endDate || e.target.value,
+                    })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-2">
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={period.endDate}
+                  onChange={(e) =>
+                    updatePeriod(period.id, { endDate: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-2 text-end">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() =>
+                    updateDraft({
+                      nonTeachingPeriods: year.nonTeachingPeriods.filter(
+                        (other) => other.id !== period.id
+                      ),
+                    })
+                  }
+                >
+                  <i className="bi bi-trash"></i>
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="d-flex justify-content-end gap-2 mt-4">
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => setDraft(null)}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={saving}>
+            {saving ? "Saving..." : "Save Academic Year"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+
+  return (
+    <div>
+      {draft ? (
+        renderForm(draft)
+      ) : (
+        <div className="d-flex justify-content-end mb-3">
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={() => setDraft(emptyYear())}
+          >
+            <i className="bi bi-plus-lg me-2"></i>
+            Add Academic Year
+          </button>
+        </div>
+      )}
+
+      {years.length === 0 ? (
+        <div className="dashboard-card text-center text-muted py-5">
+          No academic years yet. Add one to set semester dates and the days
+          without classes.
+        </div>
+      ) : (
+        [...years].reverse().map((year) => (
+          <div key={year.id} className="dashboard-card mb-3">
+            <div className="d-flex justify-content-between align-items-start mb-3">
+              <div>
+                <h5 className="mb-1">
+                  {year.name}
+                  {year.id === currentYearId && (
+                    <span className="badge bg-success ms-2">Current</span>
+                  )}
+                </h5>
+                <span className="text-muted small">
+                  {describeRange(year.startDate, year.endDate)}
+                </span>
+              </div>
+              <div className="btn-group">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-primary"
+                  onClick={() => setDraft(year)}
+                >
+                  <i className="bi bi-pencil"></i>
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() => handleDelete(year)}
+                >
+                  <i className="bi bi-trash"></i>
+                </button>
+              </div>
+            </div>
+
+            <div className="row">
+              <div className="col-md-5">
+                <h6 className="small text-uppercase text-muted">Semesters</h6>
+                <ul className="list-unstyled small mb-3 mb-md-0">
+                  {(year.semesters || []).map((semester) => (
+                    <li key={semester.id}>
+                      <strong>{semester.name}</strong>:{" "}
+                      {describeRange(semester.startDate, semester.endDate)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="col-md-7">
+                <h6 className="small text-uppercase text-muted">
+                  Non-teaching days
+                </h6>
+                <ul className="list-unstyled small mb-0">
+                  {(year.nonTeachingPeriods || []).map((period) => (
+                    <li key={period.id}>
+                      <span className="badge bg-light text-dark me-2">
+                        {NON_TEACHING_KINDS[period.kind]}
+                      </span>
+                      {period.name}:{" "}
+                      {describeRange(period.startDate, period.endDate)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AcademicCalendarManagement;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { useNotification } from "../contexts/NotificationContext";
@@ -16,6 +16,7 @@ import {
   query,
   where,
   onSnapshot,
+  deleteField,
 } from "firebase/firestore";
 import { db } from "../firebase";
 // Comment out the Chart.js imports temporarily to isolate the issue
@@ -40,7 +41,34 @@ import ScheduleCalendar from "./ScheduleCalendar";
 import CourseManagement from "./CourseManagement";
 
 // Import the Schedule interface instead of defining it locally
-import { Schedule } from "../interfaces/Schedule";
+import {
+  Schedule,
+  RecurrenceRule,
+  OccurrenceOverride,
+} from "../interfaces/Schedule";
+import { ScheduleConflict, ConflictOverride } from "../interfaces/Conflict";
+import {
+  loadConflictContext,
+  findConflicts,
+  scheduleToSlot,
+  isOverrideAcknowledged,
+  describeConflict,
+} from "../utils/scheduleConflicts";
+import ConflictWarning from "./ConflictWarning";
+import AvailabilityWarning from "./AvailabilityWarning";
+import CoverManagement from "./CoverManagement";
+import RecurrenceEditor from "./RecurrenceEditor";
+import TimetableGenerator from "./TimetableGenerator";
+import ScheduleHistoryDialog from "./ScheduleHistoryDialog";
+import TimetablePrintDialog from "./TimetablePrintDialog";
+import UpcomingClassChanges from "./UpcomingClassChanges";
+import { resolveRecurrence, describeScheduleDates } from "../utils/recurrence";
+import {
+  ScheduleDirectory,
+  describeClassroom,
+  loadScheduleDirectory,
+  resolveScheduleRefs,
+} from "../utils/scheduleRefs";
 
 // Import EnrollmentManagement component
 import EnrollmentManagement from "./EnrollmentManagement";
@@ -67,6 +95,20 @@ import ClassroomManagement from "./ClassroomManagement";
 
 // Import the FacilityReports component
 import FacilityReports from "./FacilityReports";
+import EquipmentManagement from "./EquipmentManagement";
+
+// Import the NotificationBell component
+import NotificationBell from "./NotificationBell";
+import PinnedAnnouncements from "./PinnedAnnouncements";
+import AnnouncementManagement from "./AnnouncementManagement";
+import AcademicCalendarManagement from "./AcademicCalendarManagement";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import {
+  academicCalendarSettingsRef,
+  loadAcademicYears,
+  loadCurrentAcademicYearId,
+  withNonTeachingDates,
+} from "../utils/academicCalendar";
 
 export default function AdminDashboard() {
   const {
@@ -96,20 +138,61 @@ export default function AdminDashboard() {
   const [scheduleView, setScheduleView] = useState("table"); // "table" or "calendar"
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [schedulesLoading, setSchedulesLoading] = useState(true);
+  // Modules, lecturers and classrooms the schedule pickers choose from
+  const [scheduleDirectory, setScheduleDirectory] =
+    useState<ScheduleDirectory | null>(null);
   const [editingSchedule, setEditingSchedule] = useState<string | null>(null);
   const [isAddingSchedule, setIsAddingSchedule] = useState(false);
 
   // Form states for adding/editing schedules
-  const [moduleTitle, setModuleTitle] = useState("");
-  const [floorNumber, setFloorNumber] = useState("");
-  const [classroomNumber, setClassroomNumber] = useState("");
-  const [lecturerName, setLecturerName] = useState("");
+  const [moduleId, setModuleId] = useState("");
+  const [lecturerId, setLecturerId] = useState("");
+  const [classroomId, setClassroomId] = useState("");
   const [branch, setBranch] = useState("Colombo");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
   const [scheduleDate, setScheduleDate] = useState("");
-  const [dayOfWeek, setDayOfWeek] = useState("Monday");
-  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [overrides, setOverrides] = useState<OccurrenceOverride[]>([]);
+  const [historySchedule, setHistorySchedule] = useState<Schedule | null>(null);
+  const [isPrintingTimetable, setIsPrintingTimetable] = useState(false);
+  const [scheduleConflicts, setScheduleConflicts] = useState<
+    ScheduleConflict[]
+  >([]);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  // The class being edited, checked against the lecturer's availability
+  const scheduleLecturerName =
+    scheduleDirectory?.userNamesById.get(lecturerId) || "";
+  const scheduleClassroom = scheduleDirectory?.classroomsById.get(classroomId);
+  const availabilityDates = useMemo(
+    () =>
+      startTime && endTime && (recurrence || scheduleDate)
+        ? {
+            date: recurrence ? "" : scheduleDate,
+            startTime,
+            endTime,
+            recurrence,
+            overrides,
+            classroomNumber: scheduleClassroom?.roomNumber || "",
+            floorNumber: scheduleClassroom
+              ? String(scheduleClassroom.floor)
+              : "",
+            branch,
+            lecturerName: scheduleLecturerName,
+          }
+        : null,
+    [
+      startTime,
+      endTime,
+      recurrence,
+      scheduleDate,
+      overrides,
+      scheduleClassroom,
+      branch,
+      scheduleLecturerName,
+    ]
+  );
 
   // Add User Modal State
   const [showAddUserModal, setShowAddUserModal] = useState(false);
@@ -164,6 +247,8 @@ export default function AdminDashboard() {
 
   // Academic planning state
   const [activeAcademicTab, setActiveAcademicTab] = useState("dashboard");
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [currentAcademicYearId, setCurrentAcademicYearId] = useState("");
 
   // Login activity state
   const [loginActivities, setLoginActivities] = useState<any[]>([]);
@@ -220,6 +305,18 @@ export default function AdminDashboard() {
     loadSecuritySettings();
   }, [getSessionTimeout]);
 
+  // Load the academic calendar, which recurring classes skip holidays from
+  useEffect(() => {
+    Promise.all([loadAcademicYears(), loadCurrentAcademicYearId()])
+      .then(([years, currentYearId]) => {
+        setAcademicYears(years);
+        setCurrentAcademicYearId(currentYearId);
+      })
+      .catch((error) =>
+        console.error("Error loading academic calendar:", error)
+      );
+  }, []);
+
   // Handle role change
   const handleRoleChange = async (userId: string, role: string) => {
     try {
@@ -308,6 +405,25 @@ export default function AdminDashboard() {
             <ClassroomManagement />
           </div>
         );
+      case "equipment":
+        return (
+          <div className="slide-in section-content">
+            <div className="section-title mb-4 d-flex justify-content-between align-items-center">
+              <div>
+                <i className="bi bi-laptop"></i>
+                Equipment Inventory
+              </div>
+              <button
+                className="btn btn-sm btn-outline-secondary"
+                onClick={() => setActiveSection("resources")}
+              >
+                <i className="bi bi-arrow-left me-1"></i>
+                Back to Resources
+              </button>
+            </div>
+            <EquipmentManagement />
+          </div>
+        );
       case "facilityReports":
         return (
           <div className="slide-in section-content">
@@ -331,12 +447,46 @@ export default function AdminDashboard() {
         return renderSettingsSection();
       case "schedules":
         return renderSchedulesSection();
+      case "timetableGenerator":
+        return (
+          <div className="slide-in section-content">
+            <div className="section-title mb-4 d-flex justify-content-between align-items-center">
+              <div>
+                <i className="bi bi-magic"></i>
+                Timetable Generator
+              </div>
+              <button
+                className="btn btn-sm btn-outline-secondary"
+                onClick={() => setActiveSection("schedules")}
+              >
+                <i className="bi bi-arrow-left me-1"></i>
+                Back to Schedules
+              </button>
+            </div>
+            <TimetableGenerator
+              onPublished={(published) => {
+                setSchedules((current) => [...current, ...published]);
+                setActiveSection("schedules");
+              }}
+            />
+          </div>
+        );
       case "events":
         return renderEventsSection();
       case "loginActivity":
         return renderLoginActivitySection();
       case "materials":
         return <MaterialManagement />;
+      case "announcements":
+        return (
+          <div className="slide-in section-content">
+            <div className="section-title mb-4">
+              <i className="bi bi-megaphone"></i>
+              Announcements
+            </div>
+            <AnnouncementManagement />
+          </div>
+        );
       default:
         return renderDashboardSection();
     }
@@ -878,6 +1028,54 @@ export default function AdminDashboard() {
       );
     }
 
+    // Check if we're showing the academic calendar
+    if (activeAcademicTab === "calendar") {
+      return (
+        <div className="slide-in section-content">
+          <div className="section-title mb-4 d-flex justify-content-between align-items-center">
+            <div>
+              <i className="bi bi-calendar-range"></i>
+              Academic Calendar
+            </div>
+            <button
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() => setActiveAcademicTab("dashboard")}
+            >
+              <i className="bi bi-arrow-left me-1"></i>
+              Back to Academic Planning
+            </button>
+          </div>
+          <AcademicCalendarManagement
+            years={academicYears}
+            currentYearId={currentAcademicYearId}
+            onYearsChanged={setAcademicYears}
+          />
+        </div>
+      );
+    }
+
+    // Check if we're showing lecturer cover
+    if (activeAcademicTab === "cover") {
+      return (
+        <div className="slide-in section-content">
+          <div className="section-title mb-4 d-flex justify-content-between align-items-center">
+            <div>
+              <i className="bi bi-person-dash"></i>
+              Lecturer Cover
+            </div>
+            <button
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() => setActiveAcademicTab("dashboard")}
+            >
+              <i className="bi bi-arrow-left me-1"></i>
+              Back to Academic Planning
+            </button>
+          </div>
+          <CoverManagement />
+        </div>
+      );
+    }
+
     // Default academic section view with cards
     return (
       <div className="slide-in section-content">
@@ -943,6 +1141,47 @@ export default function AdminDashboard() {
               </button>
             </div>
           </div>
+
+          <div className="col-md-6">
+            <div className="dashboard-card">
+              <div className="d-flex align-items-center justify-content-between mb-3">
+                <h5 className="mb-0">Academic Calendar</h5>
+                <div className="bg-success bg-opacity-10 rounded-circle p-2">
+                  <i className="bi bi-calendar-range fs-4 text-success"></i>
+                </div>
+              </div>
+              <p className="text-muted mb-3">
+                Set semester dates, public holidays, reading weeks and exam
+                periods.
+              </p>
+              <button
+                className="btn btn-sm btn-outline-success"
+                onClick={() => setActiveAcademicTab("calendar")}
+              >
+                Manage Calendar
+              </button>
+            </div>
+          </div>
+
+          <div className="col-md-6">
+            <div className="dashboard-card">
+              <div className="d-flex align-items-center justify-content-between mb-3">
+                <h5 className="mb-0">Lecturer Cover</h5>
+                <div className="bg-danger bg-opacity-10 rounded-circle p-2">
+                  <i className="bi bi-person-dash fs-4 text-danger"></i>
+                </div>
+              </div>
+              <p className="text-muted mb-3">
+                Assign substitutes for classes lecturers can't teach.
+              </p>
+              <button
+                className="btn btn-sm btn-outline-danger"
+                onClick={() => setActiveAcademicTab("cover")}
+              >
+                Manage Cover
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     );
@@ -988,7 +1227,10 @@ export default function AdminDashboard() {
             <p className="text-muted mb-3">
               Track and manage educational equipment.
             </p>
-            <button className="btn btn-sm btn-outline-success">
+            <button
+              className="btn btn-sm btn-outline-success"
+              onClick={() => setActiveSection("equipment")}
+            >
               Equipment Inventory
             </button>
           </div>
@@ -1065,10 +1307,23 @@ export default function AdminDashboard() {
         </div>
         <div className="mb-3">
           <label className="form-label">Academic Year</label>
-          <select className="form-select">
-            <option>2023-2024</option>
-            <option>2024-2025</option>
+          <select
+            className="form-select"
+            value={currentAcademicYearId}
+            onChange={(e) => handleCurrentAcademicYearChange(e.target.value)}
+          >
+            <option value="">Select academic year</option>
+            {academicYears.map((year) => (
+              <option key={year.id} value={year.id}>
+                {year.name}
+              </option>
+            ))}
           </select>
+          {academicYears.length === 0 && (
+            <div className="form-text">
+              Add academic years under Academic Planning &gt; Academic Calendar.
+            </div>
+          )}
         </div>
         <div className="mb-3">
           <label className="form-label">System Theme</label>
@@ -1142,16 +1397,6 @@ export default function AdminDashboard() {
 
   // Schedules Section
   const renderSchedulesSection = () => {
-    const daysOfWeek = [
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-      "Sunday",
-    ];
-
     return (
       <div className="slide-in section-content">
         <div className="section-title mb-4">
@@ -1194,6 +1439,20 @@ export default function AdminDashboard() {
                       Calendar
                     </button>
                   </div>
+                  <button
+                    className="btn btn-outline-primary me-2"
+                    onClick={() => setActiveSection("timetableGenerator")}
+                  >
+                    <i className="bi bi-magic me-2"></i>
+                    Generate
+                  </button>
+                  <button
+                    className="btn btn-outline-primary me-2"
+                    onClick={() => setIsPrintingTimetable(true)}
+                  >
+                    <i className="bi bi-printer me-2"></i>
+                    Print
+                  </button>
                   <button
                     className="btn btn-primary"
                     onClick={() => setIsAddingSchedule(true)}
@@ -1220,47 +1479,69 @@ export default function AdminDashboard() {
                     <form onSubmit={handleScheduleFormSubmit}>
                       <div className="row mb-3">
                         <div className="col-md-6 mb-3 mb-md-0">
-                          <label className="form-label">Module Title</label>
-                          <input
-                            type="text"
-                            className="form-control"
-                            value={moduleTitle}
-                            onChange={(e) => setModuleTitle(e.target.value)}
+                          <label className="form-label">Module</label>
+                          <select
+                            className="form-select"
+                            value={moduleId}
+                            onChange={(e) => setModuleId(e.target.value)}
                             required
-                          />
+                          >
+                            <option value="">
+                              {placeholderFor("Select a module", "moduleTitle")}
+                            </option>
+                            {scheduleDirectory?.modules.map((module) => (
+                              <option key={module.id} value={module.id}>
+                                {module.code
+                                  ? `${module.code} - ${module.title}`
+                                  : module.title}
+                              </option>
+                            ))}
+                          </select>
                         </div>
                         <div className="col-md-6">
-                          <label className="form-label">Lecturer Name</label>
-                          <input
-                            type="text"
-                            className="form-control"
-                            value={lecturerName}
-                            onChange={(e) => setLecturerName(e.target.value)}
+                          <label className="form-label">Lecturer</label>
+                          <select
+                            className="form-select"
+                            value={lecturerId}
+                            onChange={(e) => setLecturerId(e.target.value)}
                             required
-                          />
+                          >
+                            <option value="">
+                              {placeholderFor(
+                                "Select a lecturer",
+                                "lecturerName"
+                              )}
+                            </option>
+                            {scheduleDirectory?.lecturers.map((lecturer) => (
+                              <option key={lecturer.id} value={lecturer.id}>
+                                {lecturer.name}
+                              </option>
+                            ))}
+                          </select>
                         </div>
                       </div>
 
                       <div className="row mb-3">
-                        <div className="col-md-4 mb-3 mb-md-0">
-                          <label className="form-label">Floor Number</label>
-                          <input
-                            type="text"
-                            className="form-control"
-                            value={floorNumber}
-                            onChange={(e) => setFloorNumber(e.target.value)}
-                            required
-                          />
-                        </div>
-                        <div className="col-md-4 mb-3 mb-md-0">
-                          <label className="form-label">Classroom Number</label>
-                          <input
-                            type="text"
-                            className="form-control"
-                            value={classroomNumber}
-                            onChange={(e) => setClassroomNumber(e.target.value)}
+                        <div className="col-md-8 mb-3 mb-md-0">
+                          <label className="form-label">Classroom</label>
+                          <select
+                            className="form-select"
+                            value={classroomId}
+                            onChange={(e) => setClassroomId(e.target.value)}
                             required
-                          />
+                          >
+                            <option value="">
+                              {placeholderFor(
+                                "Select a classroom",
+                                "classroomNumber"
+                              )}
+                            </option>
+                            {scheduleDirectory?.classrooms.map((classroom) => (
+                              <option key={classroom.id} value={classroom.id}>
+                                {describeClassroom(classroom)}
+                              </option>
+                            ))}
+                          </select>
                         </div>
                         <div className="col-md-4">
                           <label className="form-label">Branch</label>
@@ -1306,53 +1587,30 @@ export default function AdminDashboard() {
                             Format: HH:MM (24-hour)
                           </small>
                         </div>
-                        <div className="col-md-4">
-                          <div className="form-check form-switch mt-4">
-                            <input
-                              className="form-check-input"
-                              type="checkbox"
-                              id="recurringSwitch"
-                              checked={isRecurring}
-                              onChange={(e) => setIsRecurring(e.target.checked)}
-                            />
-                            <label
-                              className="form-check-label"
-                              htmlFor="recurringSwitch"
-                            >
-                              Recurring Schedule
-                            </label>
-                          </div>
-                        </div>
                       </div>
 
-                      {isRecurring ? (
-                        <div className="mb-3">
-                          <label className="form-label">Day of Week</label>
-                          <select
-                            className="form-select"
-                            value={dayOfWeek}
-                            onChange={(e) => setDayOfWeek(e.target.value)}
-                            required
-                          >
-                            {daysOfWeek.map((day) => (
-                              <option key={day} value={day}>
-                                {day}
-                              </option>
-                            ))}
-                          </select>
-                        </div>
-                      ) : (
-                        <div className="mb-3">
-                          <label className="form-label">Date</label>
-                          <input
-                            type="date"
-                            className="form-control"
-                            value={scheduleDate}
-                            onChange={(e) => setScheduleDate(e.target.value)}
-                            required
-                          />
-                        </div>
-                      )}
+                      <RecurrenceEditor
+                        recurrence={recurrence}
+                        date={scheduleDate}
+                        overrides={overrides}
+                        onRecurrenceChange={setRecurrence}
+                        onDateChange={setScheduleDate}
+                        onOverridesChange={setOverrides}
+                      />
+
+                      <AvailabilityWarning
+                        lecturerId={lecturerId}
+                        lecturerName={scheduleLecturerName}
+                        dates={availabilityDates}
+                        excludeId={editingSchedule || undefined}
+                      />
+
+                      <ConflictWarning
+                        conflicts={scheduleConflicts}
+                        canOverride
+                        overrideReason={overrideReason}
+                        onOverrideReasonChange={setOverrideReason}
+                      />
 
                       <div className="d-flex justify-content-end gap-2">
                         <button
@@ -1417,9 +1675,8 @@ export default function AdminDashboard() {
                               {schedule.startTime} - {schedule.endTime}
                             </td>
                             <td>
-                              {schedule.isRecurring
-                                ? `Every ${schedule.dayOfWeek}`
-                                : new Date(schedule.date).toLocaleDateString()}
+                              {describeScheduleDates(schedule)}
+                              <UpcomingClassChanges schedule={schedule} />
                             </td>
                             <td>
                               <div className="btn-group btn-group-sm">
@@ -1429,6 +1686,13 @@ export default function AdminDashboard() {
                                 >
                                   <i className="bi bi-pencil"></i>
                                 </button>
+                                <button
+                                  className="btn btn-outline-secondary"
+                                  title="History of changes"
+                                  onClick={() => setHistorySchedule(schedule)}
+                                >
+                                  <i className="bi bi-clock-history"></i>
+                                </button>
                                 <button
                                   className="btn btn-outline-danger"
                                   onClick={() =>
@@ -1451,45 +1715,83 @@ export default function AdminDashboard() {
                   schedules={schedules}
                   onEditSchedule={handleEditSchedule}
                   onDeleteSchedule={handleDeleteSchedule}
+                  onSchedulesChanged={(changed) =>
+                    setSchedules((current) => [
+                      ...current.map(
+                        (schedule) =>
+                          changed.find((item) => item.id === schedule.id) ||
+                          schedule
+                      ),
+                      ...changed.filter(
+                        (item) =>
+                          !current.some((schedule) => schedule.id === item.id)
+                      ),
+                    ])
+                  }
                 />
               )}
             </div>
           </div>
         </div>
+
+        {historySchedule && (
+          <ScheduleHistoryDialog
+            schedule={historySchedule}
+            onClose={() => setHistorySchedule(null)}
+          />
+        )}
+
+        {isPrintingTimetable && (
+          <TimetablePrintDialog onClose={() => setIsPrintingTimetable(false)} />
+        )}
       </div>
     );
   };
 
   // Reset schedule form
   const resetScheduleForm = () => {
-    setModuleTitle("");
-    setFloorNumber("");
-    setClassroomNumber("");
-    setLecturerName("");
+    setModuleId("");
+    setLecturerId("");
+    setClassroomId("");
     setBranch("Colombo");
     setStartTime("");
     setEndTime("");
     setScheduleDate("");
-    setDayOfWeek("Monday");
-    setIsRecurring(false);
+    setRecurrence(null);
+    setOverrides([]);
     setEditingSchedule(null);
     setIsAddingSchedule(false);
+    setScheduleConflicts([]);
+    setOverrideReason("");
   };
 
   // Handle edit schedule
   const handleEditSchedule = (schedule: Schedule) => {
-    setModuleTitle(schedule.moduleTitle);
-    setFloorNumber(schedule.floorNumber);
-    setClassroomNumber(schedule.classroomNumber);
-    setLecturerName(schedule.lecturerName);
+    // Schedules saved before the migration have to be re-linked by hand
+    setModuleId(schedule.moduleId || "");
+    setLecturerId(schedule.lecturerId || "");
+    setClassroomId(schedule.classroomId || "");
     setBranch(schedule.branch);
     setStartTime(schedule.startTime);
     setEndTime(schedule.endTime);
-    setScheduleDate(schedule.date);
-    setDayOfWeek(schedule.dayOfWeek);
-    setIsRecurring(schedule.isRecurring);
+    setScheduleDate(schedule.date || "");
+    setRecurrence(resolveRecurrence(schedule));
+    setOverrides(schedule.overrides || []);
     setEditingSchedule(schedule.id);
     setIsAddingSchedule(true);
+    setScheduleConflicts([]);
+    setOverrideReason("");
+  };
+
+  // Show what an unlinked schedule being edited used to say
+  const placeholderFor = (
+    label: string,
+    field: "moduleTitle" | "lecturerName" | "classroomNumber"
+  ): string => {
+    const previous = schedules.find(
+      (schedule) => schedule.id === editingSchedule
+    )?.[field];
+    return previous ? `${label} (was: ${previous})` : label;
   };
 
   // Handle delete schedule
@@ -1533,6 +1835,19 @@ export default function AdminDashboard() {
   ) => {
     e.preventDefault();
 
+    if (recurrence?.until && recurrence.until < recurrence.startDate) {
+      showNotification("The schedule must end on or after its start date");
+      return;
+    }
+
+    const module = scheduleDirectory?.modulesById.get(moduleId);
+    const lecturerName = scheduleDirectory?.userNamesById.get(lecturerId);
+    const classroom = scheduleDirectory?.classroomsById.get(classroomId);
+    if (!module || !lecturerName || !classroom) {
+      showNotification("Select a module, lecturer and classroom");
+      return;
+    }
+
     // Show loading state
     setSchedulesLoading(true);
     setError("");
@@ -1542,16 +1857,26 @@ export default function AdminDashboard() {
       const currentTimestamp = new Date().toISOString();
 
       const scheduleData: Omit<Schedule, "id"> = {
-        moduleTitle,
-        floorNumber,
-        classroomNumber,
+        moduleId,
+        lecturerId,
+        classroomId,
+        moduleTitle: module.title,
         lecturerName,
+        classroomNumber: classroom.roomNumber,
+        floorNumber: String(classroom.floor),
         branch,
         startTime,
         endTime,
-        date: scheduleDate,
-        dayOfWeek,
-        isRecurring,
+        date: recurrence ? "" : scheduleDate,
+        // Skips holidays, reading weeks and exam periods
+        recurrence:
+          recurrence && withNonTeachingDates(recurrence, academicYears),
+        // One-off classes keep only a cancellation
+        overrides: recurrence
+          ? overrides
+          : overrides.filter(
+              (override) => override.date === scheduleDate && override.cancelled
+            ),
         // Add createdAt and updatedAt fields for the Schedule interface
         createdAt: editingSchedule
           ? schedules.find((s) => s.id === editingSchedule)?.createdAt ||
@@ -1560,11 +1885,49 @@ export default function AdminDashboard() {
         updatedAt: currentTimestamp,
       };
 
+      // Check the lecturer, room and cohort against schedules and bookings
+      const conflictContext = await loadConflictContext();
+      const conflicts = findConflicts(
+        scheduleToSlot(
+          { ...scheduleData, id: editingSchedule || undefined },
+          conflictContext
+        ),
+        conflictContext
+      );
+
+      if (
+        conflicts.length > 0 &&
+        !(
+          overrideReason.trim() &&
+          isOverrideAcknowledged(conflicts, scheduleConflicts)
+        )
+      ) {
+        setScheduleConflicts(conflicts);
+        showNotification(
+          "This schedule clashes with existing classes or bookings"
+        );
+        return;
+      }
+
+      if (conflicts.length > 0) {
+        const conflictOverride: ConflictOverride = {
+          reason: overrideReason.trim(),
+          conflicts: conflicts.map(describeConflict),
+          overriddenBy: userData?.uid || "unknown",
+          overriddenAt: currentTimestamp,
+        };
+        scheduleData.conflictOverride = conflictOverride;
+      }
+
       if (editingSchedule) {
         // Update existing schedule in Firestore
         const scheduleRef = doc(db, "schedules", editingSchedule);
         await updateDoc(scheduleRef, {
           ...scheduleData,
+          conflictOverride: scheduleData.conflictOverride || deleteField(),
+          // Replaced by `recurrence`
+          isRecurring: deleteField(),
+          dayOfWeek: deleteField(),
           updatedAt: currentTimestamp, // Ensure updatedAt is set on Firestore update
         });
 
@@ -1614,16 +1977,22 @@ export default function AdminDashboard() {
       try {
         setSchedulesLoading(true);
         const schedulesCollection = collection(db, "schedules");
-        const scheduleSnapshot = await getDocs(schedulesCollection);
-
-        const scheduleList: Schedule[] = scheduleSnapshot.docs.map(
-          (doc) =>
-            ({
+        const [scheduleSnapshot, directory] = await Promise.all([
+          getDocs(schedulesCollection),
+          loadScheduleDirectory(),
+        ]);
+
+        const scheduleList: Schedule[] = scheduleSnapshot.docs.map((doc) =>
+          resolveScheduleRefs(
+            {
               id: doc.id,
               ...doc.data(),
-            } as Schedule)
+            } as Schedule,
+            directory
+          )
         );
 
+        setScheduleDirectory(directory);
         setSchedules(scheduleList);
       } catch (err) {
         console.error("Error fetching schedules:", err);
@@ -1746,6 +2115,24 @@ export default function AdminDashboard() {
     }
   };
 
+  // The current academic year is saved as soon as it's picked
+  const handleCurrentAcademicYearChange = async (yearId: string) => {
+    const previous = currentAcademicYearId;
+    setCurrentAcademicYearId(yearId);
+    try {
+      await setDoc(
+        academicCalendarSettingsRef(),
+        { currentAcademicYearId: yearId, updatedAt: new Date().toISOString() },
+        { merge: true }
+      );
+      showNotification("Academic year updated successfully");
+    } catch (error) {
+      console.error("Error updating academic year:", error);
+      setCurrentAcademicYearId(previous);
+      showNotification("Error updating academic year");
+    }
+  };
+
   // Event Management Section
   const renderEventsSection = () => {
     // Event categories
@@ -3473,6 +3860,15 @@ export default function AdminDashboard() {
             <i className="bi bi-calendar-event"></i>
             <span>Event Management</span>
           </div>
+          <div
+            className={`admin-menu-item ${
+              activeSection === "announcements" ? "active" : ""
+            }`}
+            onClick={() => setActiveSection("announcements")}
+          >
+            <i className="bi bi-megaphone"></i>
+            <span>Announcements</span>
+          </div>
           <div
             className={`admin-menu-item ${
               activeSection === "loginActivity" ? "active" : ""
@@ -3576,16 +3972,21 @@ export default function AdminDashboard() {
           )}
 
           {/* Welcome header */}
-          <div className="mb-4">
-            <h1 className="h3 fw-bold">
-              Welcome, {userData?.name || "Administrator"}
-            </h1>
-            <p className="text-muted">
-              Manage your school's resources, users, and settings from this
-              control panel.
-            </p>
+          <div className="mb-4 d-flex justify-content-between align-items-start">
+            <div>
+              <h1 className="h3 fw-bold">
+                Welcome, {userData?.name || "Administrator"}
+              </h1>
+              <p className="text-muted">
+                Manage your school's resources, users, and settings from this
+                control panel.
+              </p>
+            </div>
+            <NotificationBell />
           </div>
 
+          <PinnedAnnouncements />
+
           <div className="section-wrapper">{renderContent()}</div>
         </div>
       </div>
@@ -0,0 +1,751 @@
+import React, { useState, useEffect, useRef } from "react";
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  doc,
+  getDocs,
+  getCountFromServer,
+  onSnapshot,
+  orderBy,
+  query,
+  where,
+  Timestamp,
+} from "firebase/firestore";
+import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { v4 as uuidv4 } from "uuid";
+import moment from "moment";
+import { db, storage } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import {
+  Announcement,
+  AnnouncementAttachment,
+  AnnouncementAudience,
+  AnnouncementPriority,
+} from "../interfaces/Announcement";
+import { Course } from "../interfaces/Course";
+import { sanitizeHtml, htmlToText } from "../utils/richText";
+
+const ROLES = [
+  { value: "student", label: "Students" },
+  { value: "lecturer", label: "Lecturers" },
+  { value: "admin", label: "Administrators" },
+];
+
+const BRANCHES = ["Colombo", "Kandy", "Gampaha", "Negombo", "Kurunegala"];
+
+const PRIORITY_BADGES: Record<AnnouncementPriority, string> = {
+  normal: "bg-secondary",
+  important: "bg-warning text-dark",
+  urgent: "bg-danger",
+};
+
+// Formatting commands offered by the editor toolbar
+const TOOLBAR = [
+  { command: "bold", icon: "bi-type-bold", label: "Bold" },
+  { command: "italic", icon: "bi-type-italic", label: "Italic" },
+  { command: "underline", icon: "bi-type-underline", label: "Underline" },
+  { command: "insertUnorderedList", icon: "bi-list-ul", label: "Bullet list" },
+  { command: "insertOrderedList", icon: "bi-list-ol", label: "Numbered list" },
+];
+
+// Attachments are stored alongside the announcement in Firebase Storage
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const emptyAudience = (): AnnouncementAudience => ({
+  roles: [],
+  departments: [],
+  courseIds: [],
+  branches: [],
+});
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AnnouncementManagement: React.FC = () => {
+  const { currentUser, userData } = useAuth();
+  const { showNotification } = useNotification();
+  const { showConfirm } = useConfirm();
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [readCounts, setReadCounts] = useState<Record<string, number>>({});
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  // Compose form
+  const [title, setTitle] = useState("");
+  const [priority, setPriority] = useState<AnnouncementPriority>("normal");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [audience, setAudience] = useState<AnnouncementAudience>(
+    emptyAudience()
+  );
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const departments = Array.from(
+    new Set(courses.map((course) => course.department).filter(Boolean))
+  ).sort();
+
+  // Courses supply both the course and department targeting options
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, "courses"));
+        setCourses(
+          snapshot.docs.map(
+            (courseDoc) => ({ id: courseDoc.id, ...courseDoc.data() } as Course)
+          )
+        );
+      } catch (error) {
+        console.error("Error fetching courses:", error);
+      }
+    };
+    fetchCourses();
+  }, []);
+
+  // Sent announcements, newest first
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      query(collection(db, "announcements"), orderBy("createdAt", "desc")),
+      (snapshot) => {
+        setAnnouncements(
+          snapshot.docs.map((announcementDoc) => {
+            const data = announcementDoc.data();
+            return {
+              id: announcementDoc.id,
+              ...data,
+              createdAt: data.createdAt?.toDate
+                ? data.createdAt.toDate()
+                : new Date(),
+              expiresAt: data.expiresAt?.toDate
+                ? data.expiresAt.toDate()
+                : undefined,
+              sentAt: data.sentAt?.toDate ? data.sentAt.toDate() : undefined,
+            } as Announcement;
+          })
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error("Error loading announcements:", error);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  // Read receipts are the recipients' inbox entries marked as read
+  const refreshReadCounts = async (items: Announcement[]) => {
+    const counts: Record<string, number> = {};
+    try {
+      await Promise.all(
+        items.map(async (announcement) => {
+          const snapshot = await getCountFromServer(
+            query(
+              collection(db, "notifications"),
+              where("announcementId", "==", announcement.id),
+              where("isRead", "==", true)
+            )
+          );
+          counts[announcement.id] = snapshot.data().count;
+        })
+      );
+      setReadCounts(counts);
+    } catch (error) {
+      console.error("Error counting announcement reads:", error);
+    }
+  };
+
+  useEffect(() => {
+    refreshReadCounts(announcements.filter((a) => a.status !== "sending"));
+  }, [announcements]);
+
+  const toggleAudience = (
+    dimension: keyof AnnouncementAudience,
+    value: string
+  ) => {
+    setAudience((prev) => ({
+      ...prev,
+      [dimension]: prev[dimension].includes(value)
+        ? prev[dimension].filter((v) => v !== value)
+        : [...prev[dimension], value],
+    }));
+  };
+
+  const applyFormat = (command: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command);
+  };
+
+  const handleAddLink = () => {
+    const url = window.prompt("Link address (https://...)");
+    if (url) {
+      editorRef.current?.focus();
+      document.execCommand("createLink", false, url);
+    }
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const tooLarge = selected.filter((f) => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      showNotification(
+        `Attachments must be smaller than ${formatFileSize(
+          MAX_ATTACHMENT_BYTES
+        )}`
+      );
+    }
+    setFiles((prev) => [
+      ...prev,
+      ...selected.filter((f) => f.size <= MAX_ATTACHMENT_BYTES),
+    ]);
+    e.target.value = "";
+  };
+
+  const resetForm = () => {
+    setTitle("");
+    setPriority("normal");
+    setExpiresAt("");
+    setAudience(emptyAudience());
+    setFiles([]);
+    if (editorRef.current) editorRef.current.innerHTML = "";
+  };
+
+  const describeAudience = (target: AnnouncementAudience): string => {
+    const parts: string[] = [];
+    if (target.roles.length) {
+      parts.push(
+        target.roles
+          .map((role) => ROLES.find((r) => r.value === role)?.label || role)
+          .join(", ")
+      );
+    }
+    if (target.departments.length) parts.push(target.departments.join(", "));
+    if (target.courseIds.length) {
+      parts.push(
+        target.courseIds
+          .map((id) => courses.find((c) => c.id === id)?.code || id)
+          .join(", ")
+      );
+    }
+    if (target.branches.length) {
+      parts.push(`${target.branches.join(", ")} branch`);
+    }
+    return parts.length ? parts.join(" · ") : "Everyone";
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const body = sanitizeHtml(editorRef.current?.innerHTML || "");
+    const summary = htmlToText(body);
+    if (!title.trim() || !summary) {
+      showNotification("Please enter a title and a message");
+      return;
+    }
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      showNotification("The expiry date must be in the future");
+      return;
+    }
+
+    setSending(true);
+    try {
+      const attachments: AnnouncementAttachment[] = [];
+      for (const file of files) {
+        const storageRef = ref(
+          storage,
+          `announcements/${uuidv4()}/${file.name}`
+        );
+        await uploadBytes(storageRef, file);
+        attachments.push({
+          name: file.name,
+          url: await getDownloadURL(storageRef),
+          type: file.type,
+          size: file.size,
+        });
+      }
+
+      // The onAnnouncementCreated function delivers it and records statistics
+      await addDoc(collection(db, "announcements"), {
+        title: title.trim(),
+        body,
+        summary,
+        attachments,
+        priority,
+        audience,
+        expiresAt: expiresAt ? Timestamp.fromDate(new Date(expiresAt)) : null,
+        status: "sending",
+        createdBy: currentUser.uid,
+        createdByName: userData?.name || "Administration",
+        createdAt: Timestamp.now(),
+      });
+
+      showNotification("Announcement sent");
+      resetForm();
+    } catch (error) {
+      console.error("Error sending announcement:", error);
+      showNotification("Failed to send announcement");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleArchive = (announcement: Announcement) => {
+    showConfirm(
+      {
+        title: "Archive Announcement",
+        message: `Remove "${announcement.title}" from recipients' dashboards? It stays in their inbox.`,
+        confirmLabel: "Archive",
+        cancelLabel: "Cancel",
+        variant: "warning",
+        icon: "bi-archive",
+      },
+      async () => {
+        try {
+          await updateDoc(doc(db, "announcements", announcement.id), {
+            status: "archived",
+          });
+          showNotification("Announcement archived");
+        } catch (error) {
+          console.error("Error archiving announcement:", error);
+          showNotification("Failed to archive announcement");
+        }
+      }
+    );
+  };
+
+  return (
+    <div className="row g-4">
+      <div className="col-12 col-xl-6">
+        <div className="card shadow-sm border-0 rounded-3">
+          <div className="card-header bg-white py-3 border-bottom">
+            <h3 className="mb-1 fs-5">New Announcement</h3>
+            <p className="text-muted mb-0 small">
+              Pinned on recipients' dashboards and sent to their inbox
+            </p>
+          </div>
+          <div className="card-body p-4">
+            <form onSubmit={handleSend}>
+              <div className="mb-3">
+                <label htmlFor="announcement-title" className="form-label">
+                  Title
+                </label>
+                <input
+                  type="text"
+                  id="announcement-title"
+                  className="form-control"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="mb-3">
+                <label className="form-label">Message</label>
+                <div className="border rounded">
+                  <div className="btn-toolbar border-bottom p-1 gap-1">
+                    {TOOLBAR.map((tool) => (
+                      <button
+                        key={tool.command}
+                        type="button"
+                        className="btn btn-sm btn-light"
+                        title={tool.label}
+                        aria-label={tool.label}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => applyFormat(tool.command)}
+                      >
+                        <i className={`bi ${tool.icon}`}></i>
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-light"
+                      title="Link"
+                      aria-label="Link"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={handleAddLink}
+                    >
+                      <i className="bi bi-link-45deg"></i>
+                    </button>
+                  </div>
+                  <div
+                    ref={editorRef}
+                    className="form-control border-0 shadow-none"
+                    style={{ minHeight: "160px" }}
+                    contentEditable
+                    role="textbox"
+                    aria-multiline="true"
+                  ></div>
+                </div>
+              </div>
+
+              <div className="mb-3">
+                <label htmlFor="announcement-files" className="form-label">
+                  Attachments
+                </label>
+                <input
+                  type="file"
+                  id="announcement-files"
+                  className="form-control"
+                  multiple
+                  onChange={handleFilesSelected}
+                />
+                {files.length > 0 && (
+                  <ul className="list-group list-group-flush mt-2">
+                    {files.map((file, index) => (
+                      <li
+                        key={`${file.name}-${index}`}
+                        className="list-group-item d-flex justify-content-between align-items-center px-0"
+                      >
+                        <span className="small">
+                          <i className="bi bi-paperclip me-1"></i>
+                          {file.name}{" "}
+                          <span className="text-muted">
+                            ({formatFileSize(file.size)})
+                          </span>
+                        </span>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-link text-danger"
+                          onClick={() =>
+                            setFiles((prev) =>
+                              prev.filter((_, i) => i !== index)
+                            )
+                          }
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="row g-3 mb-3">
+                <div className="col-md-6">
+                  <label htmlFor="announcement-priority" className="form-label">
+                    Priority
+                  </label>
+                  <select
+                    id="announcement-priority"
+                    className="form-select"
+                    value={priority}
+                    onChange={(e) =>
+                      setPriority(e.target.value as AnnouncementPriority)
+                    }
+                  >
+                    <option value="normal">Normal</option>
+                    <option value="important">Important</option>
+                    <option value="urgent">Urgent</option>
+                  </select>
+                </div>
+                <div className="col-md-6">
+                  <label htmlFor="announcement-expiry" className="form-label">
+                    Expires
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="announcement-expiry"
+                    className="form-control"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                  />
+                  <small className="text-muted">
+                    Leave empty to keep it pinned until archived
+                  </small>
+                </div>
+              </div>
+
+              <h5 className="text-muted fs-6 mb-2">Audience</h5>
+              <p className="small text-muted mb-2">
+                Leave a group empty to include everyone in it. Recipients must
+                match every group you narrow down.
+              </p>
+
+              <div className="mb-2">
+                <div className="small fw-semibold mb-1">Roles</div>
+                {ROLES.map((role) => (
+                  <div
+                    key={role.value}
+                    className="form-check form-check-inline"
+                  >
+                    <input
+                      type="checkbox"
+                      id={`audience-role-${role.value}`}
+                      className="form-check-input"
+                      checked={audience.roles.includes(role.value)}
+                      onChange={() => toggleAudience("roles", role.value)}
+                    />
+                    <label
+                      htmlFor={`audience-role-${role.value}`}
+                      className="form-check-label"
+                    >
+                      {role.label}
+                    </label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mb-2">
+                <div className="small fw-semibold mb-1">Branches</div>
+                {BRANCHES.map((branch) => (
+                  <div key={branch} className="form-check form-check-inline">
+                    <input
+                      type="checkbox"
+                      id={`audience-branch-${branch}`}
+                      className="form-check-input"
+                      checked={audience.branches.includes(branch)}
+                      onChange={() => toggleAudience("branches", branch)}
+                    />
+                    <label
+                      htmlFor={`audience-branch-${branch}`}
+                      className="form-check-label"
+                    >
+                      {branch}
+                    </label>
+                  </div>
+                ))}
+              </div>
+
+              {departments.length > 0 && (
+                <div className="mb-2">
+                  <div className="small fw-semibold mb-1">Departments</div>
+                  {departments.map((department) => (
+                    <div
+                      key={department}
+                      className="form-check form-check-inline"
+                    >
+                      <input
+                        type="checkbox"
+                        id={`audience-department-${department}`}
+                        className="form-check-input"
+                        checked={audience.departments.includes(department)}
+                        onChange={() =>
+                          toggleAudience("departments", department)
+                        }
+                      />
+                      <label
+                        htmlFor={`audience-department-${department}`}
+                        className="form-check-label"
+                      >
+                        {department}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {courses.length > 0 && (
+                <div className="mb-3">
+                  <label
+                    htmlFor="audience-courses"
+                    className="small fw-semibold mb-1"
+                  >
+                    Courses (enrolled students)
+                  </label>
+                  <select
+                    id="audience-courses"
+                    className="form-select"
+                    multiple
+                    size={Math.min(courses.length, 5)}
+                    value={audience.courseIds}
+                    onChange={(e) =>
+                      setAudience((prev) => ({
+                        ...prev,
+                        courseIds: Array.from(e.target.selectedOptions).map(
+                          (option) => option.value
+                        ),
+                      }))
+                    }
+                  >
+                    {courses.map((course) => (
+                      <option key={course.id} value={course.id}>
+                        {course.code} - {course.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="alert alert-light small py-2">
+                <i className="bi bi-people me-1"></i>
+                Sending to: <strong>{describeAudience(audience)}</strong>
+              </div>
+
+              <button
+                type="submit"
+                className="btn btn-primary w-100 py-2"
+                disabled={sending}
+              >
+                {sending ? (
+                  <>
+                    <span
+                      className="spinner-border spinner-border-sm me-2"
+                      role="status"
+                      aria-hidden="true"
+                    ></span>
+                    Sending...
+                  </>
+                ) : (
+                  <>
+                    <i className="bi bi-megaphone me-2"></i>
+                    Send Announcement
+                  </>
+                )}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+
+      <div className="col-12 col-xl-6">
+        <div className="card shadow-sm border-0 rounded-3">
+          <div className="card-header bg-white py-3 border-bottom d-flex justify-content-between align-items-center">
+            <div>
+              <h3 className="mb-1 fs-5">Sent Announcements</h3>
+              <p className="text-muted mb-0 small">
+                Delivery and read statistics
+              </p>
+            </div>
+            <button
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() =>
+                refreshReadCounts(
+                  announcements.filter((a) => a.status !== "sending")
+                )
+              }
+            >
+              <i className="bi bi-arrow-clockwise me-1"></i>
+              Refresh
+            </button>
+          </div>
+          <div className="card-body p-0">
+            {loading ? (
+              <div className="text-center py-5">
+                <div className="spinner-border text-primary" role="status">
+                  <span className="visually-hidden">Loading...</span>
+                </div>
+              </div>
+            ) : announcements.length === 0 ? (
+              <div className="text-center text-muted py-5">
+                <i className="bi bi-megaphone fs-1 d-block mb-2"></i>
+                No announcements sent yet
+              </div>
+            ) : (
+              <ul className="list-group list-group-flush">
+                {announcements.map((announcement) => {
+                  const reads = readCounts[announcement.id] || 0;
+                  const delivered = announcement.stats?.inApp || 0;
+                  const expired =
+                    announcement.expiresAt &&
+                    announcement.expiresAt <= new Date();
+
+                  return (
+                    <li key={announcement.id} className="list-group-item p-3">
+                      <div className="d-flex justify-content-between align-items-start mb-1">
+                        <div>
+                          <span
+                            className={`badge ${
+                              PRIORITY_BADGES[announcement.priority]
+                            } me-2`}
+                          >
+                            {announcement.priority}
+                          </span>
+                          <strong>{announcement.title}</strong>
+                        </div>
+                        {announcement.status !== "archived" && (
+                          <button
+                            className="btn btn-sm btn-link text-muted p-0"
+                            title="Archive"
+                            onClick={() => handleArchive(announcement)}
+                          >
+                            <i className="bi bi-archive"></i>
+                          </button>
+                        )}
+                      </div>
+                      <div className="small text-muted mb-2">
+                        {moment(announcement.createdAt).format(
+                          "MMM D, YYYY h:mm A"
+                        )}{" "}
+                        · {describeAudience(announcement.audience)}
+                        {announcement.expiresAt && (
+                          <>
+                            {" "}
+                            · {expired ? "Expired" : "Expires"}{" "}
+                            {moment(announcement.expiresAt).fromNow()}
+                          </>
+                        )}
+                        {announcement.status === "archived" && " · Archived"}
+                      </div>
+
+                      {announcement.status === "sending" ? (
+                        <div className="small text-info">
+                          <span
+                            className="spinner-border spinner-border-sm me-1"
+                            role="status"
+                            aria-hidden="true"
+                          ></span>
+                          Delivering...
+                        </div>
+                      ) : (
+                        <>
+                          <div className="d-flex flex-wrap gap-3 small mb-1">
+                            <span>
+                              <i className="bi bi-people me-1"></i>
+                              {announcement.stats?.recipients || 0} recipients
+                            </span>
+                            <span>
+                              <i className="bi bi-inbox me-1"></i>
+                              {delivered} in-app
+                            </span>
+                            <span>
+                              <i className="bi bi-envelope me-1"></i>
+                              {announcement.stats?.email || 0} email
+                            </span>
+                            <span>
+                              <i className="bi bi-phone me-1"></i>
+                              {announcement.stats?.push || 0} push
+                            </span>
+                            <span>
+                              <i className="bi bi-eye me-1"></i>
+                              {reads} read
+                            </span>
+                          </div>
+                          <div
+                            className="progress"
+                            style={{ height: "6px" }}
+                            title={`${reads} of ${delivered} read`}
+                          >
+                            <div
+                              className="progress-bar bg-success"
+                              style={{
+                                width: `${
+                                  delivered
+                                    ? Math.round((reads / delivered) * 100)
+                                    : 0
+                                }%`,
+                              }}
+                            ></div>
+                          </div>
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnnouncementManagement;
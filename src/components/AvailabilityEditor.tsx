@@ -0,0 +1,424 @@
+import React, { useEffect, useState } from "react";
+import { setDoc } from "firebase/firestore";
+import { v4 as uuidv4 } from "uuid";
+import { useNotification } from "../contexts/NotificationContext";
+import {
+  LeavePeriod,
+  LecturerAvailability,
+  UnavailableBlock,
+} from "../interfaces/LecturerAvailability";
+import {
+  emptyAvailability,
+  lecturerAvailabilityRef,
+  loadLecturerAvailability,
+} from "../utils/lecturerAvailability";
+import { WEEKDAYS } from "../utils/recurrence";
+
+interface AvailabilityEditorProps {
+  lecturerId: string;
+}
+
+const BRANCHES = ["Colombo", "Kandy", "Gampaha", "Negombo", "Kurunegala"];
+
+// The first problem that stops the availability from being saved, if any
+const validateAvailability = (
+  availability: LecturerAvailability
+): string | null => {
+  for (const block of availability.unavailableBlocks) {
+    if (!block.startTime || !block.endTime) {
+      return "Enter a start and end time for every unavailable block";
+    }
+    if (block.endTime <= block.startTime) {
+      return `Your ${block.day} block must end after it starts`;
+    }
+  }
+  for (const period of availability.leave) {
+    if (!period.startDate || !period.endDate) {
+      return "Enter a start and end date for every leave period";
+    }
+    if (period.endDate < period.startDate) {
+      return "Leave must end on or after the day it starts";
+    }
+  }
+  const { maxHoursPerDay, maxHoursPerWeek } = availability;
+  if (maxHoursPerDay && maxHoursPerWeek && maxHoursPerWeek < maxHoursPerDay) {
+    return "Your weekly limit can't be lower than your daily limit";
+  }
+  return null;
+};
+
+const parseHours = (value: string): number | undefined => {
+  const hours = parseFloat(value);
+  return hours > 0 ? hours : undefined;
+};
+
+// When a lecturer can teach: weekly blocks they're unavailable, the branches
+// they prefer, how many hours they'll teach and any leave. Admins see a
+// warning when they schedule the lecturer outside it.
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({
+  lecturerId,
+}) => {
+  const { showNotification } = useNotification();
+  const [availability, setAvailability] = useState<LecturerAvailability>(
+    emptyAvailability(lecturerId)
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAvailability = async () => {
+      setLoading(true);
+      try {
+        setAvailability(
+          (await loadLecturerAvailability(lecturerId)) ||
+            emptyAvailability(lecturerId)
+        );
+      } catch (err) {
+        console.error("Error fetching availability:", err);
+        showNotification("Failed to load your availability");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAvailability();
+  }, [lecturerId, showNotification]);
+
+  const update = (changes: Partial<LecturerAvailability>) =>
+    setAvailability((current) => ({ ...current, ...changes }));
+
+  const updateBlock = (id: string, changes: Partial<UnavailableBlock>) =>
+    update({
+      unavailableBlocks: availability.unavailableBlocks.map((block) =>
+        block.id === id ? { ...block, ...changes } : block
+      ),
+    });
+
+  const updateLeave = (id: string, changes: Partial<LeavePeriod>) =>
+    update({
+      leave: availability.leave.map((period) =>
+        period.id === id ? { ...period, ...changes } : period
+      ),
+    });
+
+  const toggleBranch = (branch: string) =>
+    update({
+      preferredBranches: availability.preferredBranches.includes(branch)
+        ? availability.preferredBranches.filter((other) => other !== branch)
+        : [...availability.preferredBranches, branch],
+    });
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const problem = validateAvailability(availability);
+    if (problem) {
+      showNotification(problem);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { maxHoursPerDay, maxHoursPerWeek } = availability;
+      const data: LecturerAvailability = {
+        lecturerId,
+        unavailableBlocks: [...availability.unavailableBlocks].sort(
+          (a, b) =>
+            WEEKDAYS.indexOf(a.day) - WEEKDAYS.indexOf(b.day) ||
+            a.startTime.localeCompare(b.startTime)
+        ),
+        preferredBranches: BRANCHES.filter((branch) =>
+          availability.preferredBranches.includes(branch)
+        ),
+        // Firestore rejects undefined, so unset limits are left out
+        ...(maxHoursPerDay ? { maxHoursPerDay } : {}),
+        ...(maxHoursPerWeek ? { maxHoursPerWeek } : {}),
+        leave: [...availability.leave].sort((a, b) =>
+          a.startDate.localeCompare(b.startDate)
+        ),
+        updatedAt: new Date().toISOString(),
+      };
+      await setDoc(lecturerAvailabilityRef(lecturerId), data);
+      setAvailability(data);
+      showNotification("Availability saved successfully!");
+    } catch (err) {
+      console.error("Error saving availability:", err);
+      showNotification("Failed to save your availability. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-5">
+        <div className="spinner-border text-primary" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave}>
+      <div className="dashboard-card mb-4">
+        <div className="d-flex justify-content-between align-items-center mb-2">
+          <h5 className="mb-0">Weekly Unavailable Times</h5>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-primary"
+            onClick={() =>
+              update({
+                unavailableBlocks: [
+                  ...availability.unavailableBlocks,
+                  {
+                    id: uuidv4(),
+                    day: "Monday",
+                    startTime: "",
+                    endTime: "",
+                  },
+                ],
+              })
+            }
+          >
+            <i className="bi bi-plus-lg me-1"></i>
+            Add time
+          </button>
+        </div>
+        <p className="text-muted small">
+          Times you can't teach in any week, e.g. research or another
+          appointment.
+        </p>
+        {availability.unavailableBlocks.length === 0 ? (
+          <p className="text-muted small mb-0">You're available at any time.</p>
+        ) : (
+          availability.unavailableBlocks.map((block) => (
+            <div key={block.id} className="row g-2 mb-2 align-items-center">
+              <div className="col-md-3">
+                <select
+                  className="form-select form-select-sm"
+                  value={block.day}
+                  onChange={(e) =>
+                    updateBlock(block.id, { day: e.target.value })
+                  }
+                >
+                  {WEEKDAYS.map((day) => (
+                    <option key={day} value={day}>
+                      {day}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-md-2">
+                <input
+                  type="time"
+                  className="form-control form-control-sm"
+                  value={block.startTime}
+                  onChange={(e) =>
+                    updateBlock(block.id, { startTime: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-2">
+                <input
+                  type="time"
+                  className="form-control form-control-sm"
+                  value={block.endTime}
+                  onChange={(e) =>
+                    updateBlock(block.id, { endTime: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-4">
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  placeholder="Note (optional)"
+                  value={block.note || ""}
+                  onChange={(e) =>
+                    updateBlock(block.id, { note: e.target.value })
+                  }
+                />
+              </div>
+              <div className="col-md-1 text-end">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() =>
+                    update({
+                      unavailableBlocks: availability.unavailableBlocks.filter(
+                        (other) => other.id !== block.id
+                      ),
+                    })
+                  }
+                >
+                  <i className="bi bi-trash"></i>
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="row">
+        <div className="col-md-6 mb-4">
+          <div className="dashboard-card h-100">
+            <h5>Preferred Branches</h5>
+            <p className="text-muted small">
+              Leave all unticked if you can teach at any branch.
+            </p>
+            {BRANCHES.map((branch) => (
+              <div key={branch} className="form-check">
+                <input
+                  type="checkbox"
+                  className="form-check-input"
+                  id={`branch-${branch}`}
+                  checked={availability.preferredBranches.includes(branch)}
+                  onChange={() => toggleBranch(branch)}
+                />
+                <label
+                  className="form-check-label"
+                  htmlFor={`branch-${branch}`}
+                >
+                  {branch}
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="col-md-6 mb-4">
+          <div className="dashboard-card h-100">
+            <h5>Teaching Hours</h5>
+            <p className="text-muted small">
+              The most you'd like to teach. Leave blank for no limit.
+            </p>
+            <div className="mb-3">
+              <label className="form-label" htmlFor="max-hours-day">
+                Per day
+              </label>
+              <input
+                type="number"
+                id="max-hours-day"
+                className="form-control"
+                min={0.5}
+                max={24}
+                step={0.5}
+                value={availability.maxHoursPerDay ?? ""}
+                onChange={(e) =>
+                  update({ maxHoursPerDay: parseHours(e.target.value) })
+                }
+              />
+            </div>
+            <div>
+              <label className="form-label" htmlFor="max-hours-week">
+                Per week
+              </label>
+              <input
+                type="number"
+                id="max-hours-week"
+                className="form-control"
+                min={0.5}
+                max={168}
+                step={0.5}
+                value={availability.maxHoursPerWeek ?? ""}
+                onChange={(e) =>
+                  update({ maxHoursPerWeek: parseHours(e.target.value) })
+                }
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="dashboard-card mb-4">
+        <div className="d-flex justify-content-between align-items-center mb-2">
+          <h5 className="mb-0">Leave</h5>
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-primary"
+            onClick={() =>
+              update({
+                leave: [
+                  ...availability.leave,
+                  { id: uuidv4(), startDate: "", endDate: "" },
+                ],
+              })
+            }
+          >
+            <i className="bi bi-plus-lg me-1"></i>
+            Add leave
+          </button>
+        </div>
+        {availability.leave.length === 0 ? (
+          <p className="text-muted small mb-0">No leave planned.</p>
+        ) : (
+          availability.leave.map((period) => (
+            <div key={period.id} className="row g-2 mb-2 align-items-center">
+              <div className="col-md-3">
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={period.startDate}
+                  onChange={(e) =>
+                    updateLeave(period.id, {
+                      startDate: e.target.value,
+                      // Single days only need a start date
+                      endDate: period.endDate || e.target.value,
+                    })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-3">
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={period.endDate}
+                  onChange={(e) =>
+                    updateLeave(period.id, { endDate: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="col-md-5">
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  placeholder="Note (optional)"
+                  value={period.note || ""}
+                  onChange={(e) =>
+                    updateLeave(period.id, { note: e.target.value })
+                  }
+                />
+              </div>
+              <div className="col-md-1 text-end">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() =>
+                    update({
+                      leave: availability.leave.filter(
+                        (other) => other.id !== period.id
+                      ),
+                    })
+                  }
+                >
+                  <i className="bi bi-trash"></i>
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="d-flex justify-content-end">
+        <button type="submit" className="btn btn-primary" disabled={saving}>
+          {saving ? "Saving..." : "Save Availability"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AvailabilityEditor;
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  AvailabilityIssue,
+  AvailabilityIssueKind,
+  LecturerAvailability,
+} from "../interfaces/LecturerAvailability";
+import {
+  findAvailabilityIssues,
+  loadLecturerAvailability,
+} from "../utils/lecturerAvailability";
+import { RecurringSchedule } from "../utils/recurrence";
+import { TimetableSlot, loadConflictContext } from "../utils/scheduleConflicts";
+
+interface AvailabilityWarningProps {
+  lecturerId: string;
+  lecturerName: string;
+  dates: RecurringSchedule | null; // Null until the form has a date and times
+  excludeId?: string; // The schedule or booking being edited
+}
+
+const kindIcons: Record<AvailabilityIssueKind, string> = {
+  unavailable: "bi-calendar-x",
+  leave: "bi-airplane",
+  branch: "bi-geo-alt",
+  dailyHours: "bi-hourglass-split",
+  weeklyHours: "bi-hourglass-split",
+};
+
+// Warns when a lecturer is given a class outside the availability they set on
+// their dashboard. Unlike conflicts this never blocks saving.
+const AvailabilityWarning: React.FC<AvailabilityWarningProps> = ({
+  lecturerId,
+  lecturerName,
+  dates,
+  excludeId,
+}) => {
+  const [availability, setAvailability] = useState<LecturerAvailability | null>(
+    null
+  );
+  const [slots, setSlots] = useState<TimetableSlot[]>([]);
+
+  useEffect(() => {
+    setAvailability(null);
+    if (!lecturerId) return;
+
+    let cancelled = false;
+    const fetchAvailability = async () => {
+      try {
+        const [lecturerAvailability, context] = await Promise.all([
+          loadLecturerAvailability(lecturerId),
+          loadConflictContext(),
+        ]);
+        if (cancelled) return;
+        setAvailability(lecturerAvailability);
+        setSlots(context.slots);
+      } catch (err) {
+        console.error("Error fetching lecturer availability:", err);
+      }
+    };
+    fetchAvailability();
+    return () => {
+      cancelled = true;
+    };
+  }, [lecturerId]);
+
+  const issues = useMemo<AvailabilityIssue[]>(
+    () =>
+      availability && dates && lecturerName
+        ? findAvailabilityIssues(
+            dates,
+            availability,
+            lecturerName,
+            slots
+              .filter((slot) => !excludeId || slot.id !== excludeId)
+              .map((slot) => slot.dates)
+          )
+        : [],
+    [availability, dates, lecturerName, slots, excludeId]
+  );
+
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="alert alert-info" role="alert">
+      <h6 className="alert-heading">
+        <i className="bi bi-person-exclamation me-2"></i>
+        Outside {lecturerName}'s availability
+      </h6>
+      <ul className="list-unstyled small mb-0">
+        {issues.map((issue) => (
+          <li key={issue.kind} className="mb-1">
+            <i className={`bi ${kindIcons[issue.kind]} me-2`}></i>
+            {issue.detail}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AvailabilityWarning;
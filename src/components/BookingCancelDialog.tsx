@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { Timestamp, doc, updateDoc } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { Booking } from "../interfaces/Booking";
+import {
+  LATE_CANCELLATION_HOURS,
+  cancellationOf,
+  isLateCancellation,
+  updateBookingSeries,
+} from "../utils/bookings";
+import { formatDateKey, toDateKey } from "../utils/recurrence";
+
+interface BookingCancelDialogProps {
+  booking: Booking;
+  wholeSeries: boolean; // Cancel every upcoming occurrence of its series
+  onClose: () => void;
+  onCancelled: (changes: Partial<Booking>, bookingIds: string[]) => void;
+}
+
+// Cancels a booking, or the rest of its series, with an optional reason.
+// The bookings stay on record as cancelled, noting who cancelled them and
+// when, and the room is free again.
+const BookingCancelDialog: React.FC<BookingCancelDialogProps> = ({
+  booking,
+  wholeSeries,
+  onClose,
+  onCancelled,
+}) => {
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const late =
+    !wholeSeries &&
+    isLateCancellation({
+      ...booking,
+      cancelledAt: new Date().toISOString(),
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    setSaving(true);
+    try {
+      const changes = cancellationOf(currentUser.uid, reason);
+      let bookingIds = [booking.id];
+      if (wholeSeries && booking.seriesId) {
+        bookingIds = await updateBookingSeries(
+          booking.seriesId,
+          toDateKey(new Date()),
+          changes
+        );
+      } else {
+        await updateDoc(doc(db, "bookings", booking.id), {
+          ...changes,
+          updatedAt: Timestamp.now(),
+        });
+      }
+      onCancelled(changes, bookingIds);
+      showNotification(
+        wholeSeries
+          ? `Cancelled ${bookingIds.length} booking${
+              bookingIds.length === 1 ? "" : "s"
+            } in the series`
+          : "Booking cancelled"
+      );
+    } catch (err) {
+      console.error("Error cancelling booking:", err);
+      showNotification("Failed to cancel the booking. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">
+              {wholeSeries
+                ? "Cancel Series"
+                : booking.status === "pending"
+                ? "Withdraw Request"
+                : "Cancel Booking"}
+            </h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <p>
+                {wholeSeries
+                  ? `Cancel every upcoming date of "${booking.title}"? Past dates are kept.`
+                  : `Cancel "${booking.title}" on ${formatDateKey(
+                      booking.date
+                    )}, ${booking.startTime} - ${booking.endTime}?`}{" "}
+                The room will be free for others to book.
+              </p>
+
+              {late && (
+                <div className="alert alert-warning small">
+                  <i className="bi bi-clock-history me-1"></i>
+                  It starts in under {LATE_CANCELLATION_HOURS} hours, so this is
+                  recorded as a late cancellation.
+                </div>
+              )}
+
+              <label className="form-label" htmlFor="cancel-reason">
+                Reason (optional)
+              </label>
+              <textarea
+                id="cancel-reason"
+                className="form-control"
+                rows={3}
+                placeholder="e.g., Class moved online"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              ></textarea>
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Keep
+              </button>
+              <button
+                type="submit"
+                className="btn btn-danger"
+                disabled={saving}
+              >
+                <i className="bi bi-x-circle me-1"></i>
+                {saving
+                  ? "Cancelling..."
+                  : wholeSeries
+                  ? "Cancel series"
+                  : "Cancel booking"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingCancelDialog;
@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { Timestamp, doc, writeBatch } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { Booking } from "../interfaces/Booking";
+import { ScheduleConflict } from "../interfaces/Conflict";
+import { formatDateKey } from "../utils/recurrence";
+import {
+  bookingToSlot,
+  describeConflict,
+  findConflicts,
+  isOverrideAcknowledged,
+  loadConflictContext,
+} from "../utils/scheduleConflicts";
+import ConflictWarning from "./ConflictWarning";
+
+export type BookingDecision = "confirmed" | "rejected";
+
+interface BookingDecisionDialogProps {
+  booking: Booking;
+  decision: BookingDecision;
+  classroomName: string;
+  requesterName: string;
+  seriesBookings?: Booking[]; // The series' other pending occurrences
+  onClose: () => void;
+  onDecided: (changes: Partial<Booking>, bookingIds: string[]) => void;
+}
+
+// Approves or rejects a lecturer's booking request with a comment for them,
+// by default together with the rest of its series. Approval checks the room
+// again, since the timetable may have changed since the request was made.
+const BookingDecisionDialog: React.FC<BookingDecisionDialogProps> = ({
+  booking,
+  decision,
+  classroomName,
+  requesterName,
+  seriesBookings = [],
+  onClose,
+  onDecided,
+}) => {
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const [comment, setComment] = useState("");
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [wholeSeries, setWholeSeries] = useState(seriesBookings.length > 0);
+
+  const approving = decision === "confirmed";
+  const targets = wholeSeries ? [booking, ...seriesBookings] : [booking];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!approving && !comment.trim()) return;
+
+    setSaving(true);
+    try {
+      const changes: Partial<Booking> = {
+        status: decision,
+        decidedBy: currentUser?.uid || "",
+        decidedAt: new Date().toISOString(),
+        ...(comment.trim() && { decisionComment: comment.trim() }),
+      };
+
+      if (approving) {
+        const conflictContext = await loadConflictContext();
+        const found = targets.flatMap((target) =>
+          findConflicts(bookingToSlot(target, conflictContext), conflictContext)
+        );
+        if (
+          found.length > 0 &&
+          !(overrideReason.trim() && isOverrideAcknowledged(found, conflicts))
+        ) {
+          setConflicts(found);
+          return;
+        }
+        if (found.length > 0) {
+          changes.conflictOverride = {
+            reason: overrideReason.trim(),
+            conflicts: found.map(describeConflict),
+            overriddenBy: currentUser?.uid || "",
+            overriddenAt: new Date().toISOString(),
+          };
+        }
+      }
+
+      const batch = writeBatch(db);
+      targets.forEach((target) =>
+        batch.update(doc(db, "bookings", target.id), {
+          ...changes,
+          updatedAt: Timestamp.now(),
+        })
+      );
+      await batch.commit();
+      onDecided(
+        changes,
+        targets.map((target) => target.id)
+      );
+      showNotification(
+        approving
+          ? `Booking approved. ${requesterName || "The lecturer"} will be notified.`
+          : `Booking rejected. ${requesterName || "The lecturer"} will be notified.`
+      );
+    } catch (err) {
+      console.error("Error deciding booking request:", err);
+      showNotification("Failed to save the decision. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">
+              {approving ? "Approve Booking" : "Reject Booking"}
+            </h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <p className="mb-1">
+                <strong>{booking.title}</strong>
+              </p>
+              <p className="small text-muted">
+                {requesterName || "Unknown lecturer"} &middot; {classroomName}{" "}
+                &middot; {formatDateKey(booking.date)}, {booking.startTime} -{" "}
+                {booking.endTime}
+              </p>
+              {booking.description && (
+                <p className="small">{booking.description}</p>
+              )}
+              {seriesBookings.length > 0 && (
+                <div className="form-check mb-3">
+                  <input
+                    className="form-check-input"
+                    type="checkbox"
+                    id="decision-series"
+                    checked={wholeSeries}
+                    onChange={(e) => {
+                      setWholeSeries(e.target.checked);
+                      setConflicts([]);
+                    }}
+                  />
+                  <label className="form-check-label" htmlFor="decision-series">
+                    Also decide the series' other {seriesBookings.length}{" "}
+                    pending date{seriesBookings.length === 1 ? "" : "s"}
+                  </label>
+                </div>
+              )}
+
+              <label className="form-label" htmlFor="decision-comment">
+                {approving ? "Comment (optional)" : "Reason for rejecting"}
+              </label>
+              <textarea
+                id="decision-comment"
+                className="form-control mb-3"
+                rows={2}
+                placeholder={
+                  approving
+                    ? "e.g., Keys are at the front desk"
+                    : "e.g., The room is reserved for exams that week"
+                }
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                required={!approving}
+              />
+
+              <ConflictWarning
+                conflicts={conflicts}
+                canOverride={true}
+                overrideReason={overrideReason}
+                onOverrideReasonChange={setOverrideReason}
+              />
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                className={`btn ${approving ? "btn-success" : "btn-danger"}`}
+                disabled={saving || (!approving && !comment.trim())}
+              >
+                {saving ? "Saving..." : approving ? "Approve" : "Reject"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingDecisionDialog;
@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNotification } from "../contexts/NotificationContext";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import { Booking, BookingRepeat } from "../interfaces/Booking";
+import { loadAcademicYears } from "../utils/academicCalendar";
+import { MAX_SERIES_OCCURRENCES, bookingSeriesDates } from "../utils/bookings";
+import { formatDateKey } from "../utils/recurrence";
+import {
+  ConflictContext,
+  bookingToSlot,
+  describeConflict,
+  findConflicts,
+  loadConflictContext,
+} from "../utils/scheduleConflicts";
+
+interface BookingRepeatFieldsProps {
+  booking: Pick<
+    Booking,
+    "classroomId" | "title" | "date" | "startTime" | "endTime" | "bookedFor"
+  >;
+  repeat: BookingRepeat | null; // null for a single booking
+  onRepeatChange: (repeat: BookingRepeat | null) => void;
+}
+
+// Turns a booking into a weekly or fortnightly series and previews every
+// occurrence before anything is saved: which fall on non-teaching days and
+// are skipped, and which clash with a class or another booking. Clashing
+// occurrences can be left out so the rest of the series can still be booked.
+const BookingRepeatFields: React.FC<BookingRepeatFieldsProps> = ({
+  booking,
+  repeat,
+  onRepeatChange,
+}) => {
+  const { showNotification } = useNotification();
+  const [context, setContext] = useState<ConflictContext | null>(null);
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+
+  const repeats = !!repeat;
+
+  useEffect(() => {
+    if (!repeats) return;
+    Promise.all([loadConflictContext(), loadAcademicYears()])
+      .then(([conflictContext, years]) => {
+        setContext(conflictContext);
+        setAcademicYears(years);
+      })
+      .catch((err) => {
+        console.error("Error loading the timetable:", err);
+        showNotification("Failed to check the series against the timetable");
+      });
+  }, [repeats, showNotification]);
+
+  const { classroomId, title, date, startTime, endTime, bookedFor } = booking;
+  const canCheck =
+    !!classroomId && !!date && !!startTime && !!endTime && startTime < endTime;
+
+  const occurrences = useMemo(
+    () =>
+      repeat && date
+        ? bookingSeriesDates(date, repeat, academicYears).map((occurrence) => ({
+            ...occurrence,
+            conflicts:
+              context && canCheck && !occurrence.nonTeaching
+                ? findConflicts(
+                    bookingToSlot(
+                      {
+                        classroomId,
+                        title,
+                        date: occurrence.date,
+                        startTime,
+                        endTime,
+                        bookedFor,
+                      },
+                      context
+                    ),
+                    context
+                  )
+                : [],
+          }))
+        : [],
+    [
+      repeat,
+      academicYears,
+      context,
+      canCheck,
+      classroomId,
+      title,
+      date,
+      startTime,
+      endTime,
+      bookedFor,
+    ]
+  );
+
+  if (!repeat) {
+    return (
+      <div className="form-check form-switch mb-3">
+        <input
+          className="form-check-input"
+          type="checkbox"
+          id="repeat-booking"
+          checked={false}
+          onChange={() =>
+            onRepeatChange({ interval: 1, count: 10, exceptionDates: [] })
+          }
+        />
+        <label className="form-check-label" htmlFor="repeat-booking">
+          Repeat weekly
+        </label>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<BookingRepeat>) => {
+    const next = { ...repeat, ...changes };
+    // Firestore rejects undefined fields
+    if (next.until === undefined) delete next.until;
+    if (next.count === undefined) delete next.count;
+    onRepeatChange(next);
+  };
+
+  const toggleDate = (day: string) =>
+    update({
+      exceptionDates: repeat.exceptionDates.includes(day)
+        ? repeat.exceptionDates.filter((other) => other !== day)
+        : [...repeat.exceptionDates, day].sort(),
+    });
+
+  const taken = occurrences.filter(
+    (occurrence) => !occurrence.excluded && occurrence.conflicts.length > 0
+  );
+  const booked = occurrences.filter((occurrence) => !occurrence.excluded);
+
+  return (
+    <div className="border rounded p-3 mb-3">
+      <div className="form-check form-switch mb-3">
+        <input
+          className="form-check-input"
+          type="checkbox"
+          id="repeat-booking"
+          checked={true}
+          onChange={() => onRepeatChange(null)}
+        />
+        <label className="form-check-label" htmlFor="repeat-booking">
+          Repeat weekly
+        </label>
+      </div>
+
+      <div className="row g-2 mb-3">
+        <div className="col-md-4">
+          <label className="form-label small" htmlFor="repeat-interval">
+            Every
+          </label>
+          <select
+            id="repeat-interval"
+            className="form-select form-select-sm"
+            value={repeat.interval}
+            onChange={(e) => update({ interval: Number(e.target.value) })}
+          >
+            <option value={1}>Week</option>
+            <option value={2}>Other week</option>
+          </select>
+        </div>
+        <div className="col-md-4">
+          <label className="form-label small" htmlFor="repeat-ends">
+            Ends
+          </label>
+          <select
+            id="repeat-ends"
+            className="form-select form-select-sm"
+            value={repeat.until !== undefined ? "until" : "count"}
+            onChange={(e) =>
+              e.target.value === "until"
+                ? update({ until: date, count: undefined })
+                : update({ until: undefined, count: 10 })
+            }
+          >
+            <option value="count">After</option>
+            <option value="until">On date</option>
+          </select>
+        </div>
+        <div className="col-md-4">
+          {repeat.until !== undefined ? (
+            <>
+              <label className="form-label small" htmlFor="repeat-until">
+                Last date
+              </label>
+              <input
+                id="repeat-until"
+                type="date"
+                className="form-control form-control-sm"
+                min={date}
+                value={repeat.until}
+                onChange={(e) => update({ until: e.target.value })}
+                required
+              />
+            </>
+          ) : (
+            <>
+              <label className="form-label small" htmlFor="repeat-count">
+                Occurrences
+              </label>
+              <input
+                id="repeat-count"
+                type="number"
+                className="form-control form-control-sm"
+                min={1}
+                max={MAX_SERIES_OCCURRENCES}
+                value={repeat.count || ""}
+                onChange={(e) =>
+                  update({
+                    count: Math.min(
+                      MAX_SERIES_OCCURRENCES,
+                      Math.max(0, parseInt(e.target.value) || 0)
+                    ),
+                  })
+                }
+                required
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {!canCheck ? (
+        <p className="small text-muted mb-0">
+          Choose a classroom, date and time to preview the series.
+        </p>
+      ) : !context ? (
+        <div className="text-center py-2">
+          <div
+            className="spinner-border spinner-border-sm text-primary"
+            role="status"
+          >
+            <span className="visually-hidden">Loading...</span>
+          </div>
+        </div>
+      ) : (
+        <>
+          <ul
+            className="list-group list-group-flush small mb-2"
+            style={{ maxHeight: "240px", overflowY: "auto" }}
+          >
+            {occurrences.map((occurrence) => (
+              <li key={occurrence.date} className="list-group-item px-0">
+                <div className="form-check mb-0">
+                  <input
+                    className="form-check-input"
+                    type="checkbox"
+                    id={`occurrence-${occurrence.date}`}
+                    checked={!occurrence.excluded}
+                    disabled={!!occurrence.nonTeaching}
+                    onChange={() => toggleDate(occurrence.date)}
+                  />
+                  <label
+                    className="form-check-label"
+                    htmlFor={`occurrence-${occurrence.date}`}
+                  >
+                    {formatDateKey(occurrence.date)}{" "}
+                    {occurrence.nonTeaching ? (
+                      <span className="text-muted">
+                        Skipped: {occurrence.nonTeaching}
+                      </span>
+                    ) : occurrence.conflicts.length > 0 ? (
+                      <span className="text-danger">
+                        {occurrence.conflicts.map(describeConflict).join("; ")}
+                      </span>
+                    ) : occurrence.excluded ? (
+                      <span className="text-muted">Left out</span>
+                    ) : (
+                      <span className="text-success">Free</span>
+                    )}
+                  </label>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="d-flex justify-content-between align-items-center">
+            <small className="text-muted">
+              {booked.length} booking{booked.length === 1 ? "" : "s"} will be
+              made
+            </small>
+            {taken.length > 0 && (
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-secondary"
+                onClick={() =>
+                  update({
+                    exceptionDates: [
+                      ...repeat.exceptionDates,
+                      ...taken.map((occurrence) => occurrence.date),
+                    ].sort(),
+                  })
+                }
+              >
+                Leave out {taken.length} clashing date
+                {taken.length === 1 ? "" : "s"}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BookingRepeatFields;
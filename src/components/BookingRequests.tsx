@@ -0,0 +1,848 @@
+import React, { useEffect, useState } from "react";
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import {
+  Booking,
+  BookingRepeat,
+  BookingWaitlistEntry,
+} from "../interfaces/Booking";
+import { ScheduleConflict } from "../interfaces/Conflict";
+import { Equipment, EquipmentLoan } from "../interfaces/Equipment";
+import {
+  BOOKING_STATUSES,
+  CHECK_IN_GRACE_MINUTES,
+  NO_SHOW_LIMIT,
+  NO_SHOW_WINDOW_DAYS,
+  WAITLIST_STATUSES,
+  bookingConflictsFrom,
+  bookingPolicyError,
+  createBooking,
+  recentNoShows,
+  respondToWaitlistOffer,
+} from "../utils/bookings";
+import { campusTimeToDate } from "../utils/campusTime";
+import {
+  LOAN_STATUSES,
+  describeEquipment,
+  equipmentClashesFrom,
+  freeEquipment,
+  isOverdue,
+} from "../utils/equipment";
+import { formatDateKey, toDateKey } from "../utils/recurrence";
+import {
+  ConflictContext,
+  bookingToSlot,
+  findConflicts,
+  loadConflictContext,
+} from "../utils/scheduleConflicts";
+import { describeClassroom } from "../utils/scheduleRefs";
+import BookingCancelDialog from "./BookingCancelDialog";
+import BookingRepeatFields from "./BookingRepeatFields";
+import ConflictWarning from "./ConflictWarning";
+import EquipmentPicker from "./EquipmentPicker";
+import RoomFinder, { RoomSelection } from "./RoomFinder";
+
+// Newest first, so the latest requests and their decisions are on top
+const byDateDescending = (a: Booking, b: Booking): number =>
+  b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime);
+
+// Loans that hold their item, which is all the picker needs to know what's
+// free and all a lecturer's bookings show
+const loadHoldingLoans = async (): Promise<EquipmentLoan[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "equipmentLoans"),
+      where("status", "in", ["reserved", "checked-out"])
+    )
+  );
+  return snapshot.docs.map(
+    (loanDoc) => ({ id: loanDoc.id, ...loanDoc.data() } as EquipmentLoan)
+  );
+};
+
+// Entries still in line or offered come first
+const isOpenEntry = (entry: BookingWaitlistEntry): boolean =>
+  entry.status === "waiting" || entry.status === "offered";
+
+// Lets a lecturer request a classroom that is free at the time they need it.
+// Requests stay pending, holding the room, until an admin approves or
+// rejects them in classroom management. A room that is booked at the time
+// can be waitlisted instead, and is offered to the lecturer if it frees up.
+// Equipment can be reserved with a booking.
+const BookingRequests: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const [context, setContext] = useState<ConflictContext | null>(null);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [waitlist, setWaitlist] = useState<BookingWaitlistEntry[]>([]);
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [loans, setLoans] = useState<EquipmentLoan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [selection, setSelection] = useState<RoomSelection | null>(null);
+  const [waitlisting, setWaitlisting] = useState(false);
+  const [repeat, setRepeat] = useState<BookingRepeat | null>(null);
+  const [bookingType, setBookingType] = useState<
+    Booking["bookingType"]
+  >("class");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [equipmentIds, setEquipmentIds] = useState<string[]>([]);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [cancelling, setCancelling] = useState<{
+    booking: Booking;
+    wholeSeries: boolean;
+  } | null>(null);
+
+  const lecturerId = currentUser?.uid || "";
+  const today = toDateKey(new Date());
+
+  useEffect(() => {
+    if (!lecturerId) return;
+    const fetchBookings = async () => {
+      try {
+        const [
+          conflictContext,
+          bookedFor,
+          bookedBy,
+          entries,
+          equipmentSnapshot,
+          holdingLoans,
+        ] = await Promise.all([
+          loadConflictContext(),
+          getDocs(
+            query(
+              collection(db, "bookings"),
+              where("bookedFor", "==", lecturerId)
+            )
+          ),
+          getDocs(
+            query(
+              collection(db, "bookings"),
+              where("bookedBy", "==", lecturerId)
+            )
+          ),
+          getDocs(
+            query(
+              collection(db, "bookingWaitlist"),
+              where("userId", "==", lecturerId)
+            )
+          ),
+          getDocs(collection(db, "equipment")),
+          loadHoldingLoans(),
+        ]);
+        setContext(conflictContext);
+        const byId = new Map(
+          [...bookedFor.docs, ...bookedBy.docs].map((bookingDoc) => [
+            bookingDoc.id,
+            { id: bookingDoc.id, ...bookingDoc.data() } as Booking,
+          ])
+        );
+        setBookings(Array.from(byId.values()).sort(byDateDescending));
+        setEquipment(
+          equipmentSnapshot.docs.map(
+            (itemDoc) => ({ id: itemDoc.id, ...itemDoc.data() } as Equipment)
+          )
+        );
+        setLoans(holdingLoans);
+        setWaitlist(
+          entries.docs
+            .map(
+              (entryDoc) =>
+                ({
+                  id: entryDoc.id,
+                  ...entryDoc.data(),
+                } as BookingWaitlistEntry)
+            )
+            .filter((entry) => isOpenEntry(entry) && entry.date >= today)
+            .sort((a, b) => a.date.localeCompare(b.date))
+        );
+      } catch (err) {
+        console.error("Error fetching bookings:", err);
+        showNotification("Failed to load your bookings");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchBookings();
+  }, [lecturerId, today, showNotification]);
+
+  const resetForm = () => {
+    setSelection(null);
+    setWaitlisting(false);
+    setRepeat(null);
+    setBookingType("class");
+    setTitle("");
+    setDescription("");
+    setEquipmentIds([]);
+    setConflicts([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selection || !title.trim()) return;
+    if (waitlisting) {
+      await handleJoinWaitlist(selection);
+      return;
+    }
+    const { classroom, date, startTime, endTime } = selection;
+
+    setSubmitting(true);
+    try {
+      // Someone may have taken the room since the list was loaded. A
+      // series was previewed date by date and is checked again as it's saved.
+      const conflictContext = await loadConflictContext();
+      setContext(conflictContext);
+      const found = repeat
+        ? []
+        : findConflicts(
+            bookingToSlot(
+              {
+                classroomId: classroom.id,
+                title,
+                date,
+                startTime,
+                endTime,
+                bookedFor: lecturerId,
+              },
+              conflictContext
+            ),
+            conflictContext
+          );
+      if (found.length > 0) {
+        setConflicts(found);
+        return;
+      }
+
+      // Items picked for an earlier time may not be free at this one
+      const reserved = freeEquipment(
+        equipment,
+        loans,
+        campusTimeToDate(date, startTime),
+        campusTimeToDate(date, endTime)
+      )
+        .filter((item) => equipmentIds.includes(item.id))
+        .map((item) => item.id);
+
+      const bookingData = {
+        classroomId: classroom.id,
+        title: title.trim(),
+        description: description.trim(),
+        bookingType,
+        date,
+        startTime,
+        endTime,
+      };
+      const booked = await createBooking({
+        ...bookingData,
+        ...(repeat && { repeat }),
+        ...(reserved.length > 0 && { equipmentIds: reserved }),
+      });
+
+      setBookings((current) =>
+        [
+          ...current,
+          ...booked.occurrences.map((occurrence) => ({
+            ...bookingData,
+            id: occurrence.id,
+            date: occurrence.date,
+            bookedBy: lecturerId,
+            bookedFor: lecturerId,
+            status: booked.status,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            ...(booked.seriesId && { seriesId: booked.seriesId }),
+          })),
+        ].sort(byDateDescending)
+      );
+      if (reserved.length > 0) setLoans(await loadHoldingLoans());
+      resetForm();
+      showNotification(
+        booked.seriesId
+          ? `${booked.occurrences.length} bookings requested. You'll be notified once an admin reviews them.`
+          : "Booking requested. You'll be notified once an admin reviews it."
+      );
+    } catch (err) {
+      const unavailable = equipmentClashesFrom(err);
+      const taken = bookingConflictsFrom(err);
+      const refused = bookingPolicyError(err);
+      if (unavailable) {
+        // Someone else reserved it first: drop it and show what's free now
+        showNotification((err as Error).message);
+        setEquipmentIds((current) =>
+          current.filter(
+            (id) => !unavailable.some((clash) => clash.equipmentId === id)
+          )
+        );
+        setLoans(await loadHoldingLoans());
+      } else if (taken) {
+        setConflicts(taken);
+      } else if (refused) {
+        showNotification(refused);
+      } else {
+        console.error("Error requesting booking:", err);
+        showNotification("Failed to request the booking. Please try again.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJoinWaitlist = async ({
+    classroom,
+    date,
+    startTime,
+    endTime,
+  }: RoomSelection) => {
+    setSubmitting(true);
+    try {
+      const entryData = {
+        classroomId: classroom.id,
+        title: title.trim(),
+        description: description.trim(),
+        bookingType,
+        date,
+        startTime,
+        endTime,
+        userId: lecturerId,
+        status: "waiting" as const,
+      };
+      const entryRef = await addDoc(collection(db, "bookingWaitlist"), {
+        ...entryData,
+        createdAt: Timestamp.now(),
+      });
+      setWaitlist((current) =>
+        [
+          ...current,
+          { ...entryData, id: entryRef.id, createdAt: new Date() },
+        ].sort((a, b) => a.date.localeCompare(b.date))
+      );
+      resetForm();
+      showNotification(
+        "You're on the waitlist. We'll offer you the room if it becomes free."
+      );
+    } catch (err) {
+      console.error("Error joining waitlist:", err);
+      showNotification("Failed to join the waitlist. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRespond = async (
+    entry: BookingWaitlistEntry,
+    accept: boolean
+  ) => {
+    try {
+      const { status, bookingId } = await respondToWaitlistOffer(
+        entry.id,
+        accept
+      );
+      setWaitlist((current) =>
+        current.filter((other) => other.id !== entry.id)
+      );
+      if (bookingId) {
+        setBookings((current) =>
+          [
+            ...current,
+            {
+              id: bookingId,
+              classroomId: entry.classroomId,
+              title: entry.title,
+              description: entry.description,
+              bookingType: entry.bookingType,
+              date: entry.date,
+              startTime: entry.startTime,
+              endTime: entry.endTime,
+              bookedBy: lecturerId,
+              bookedFor: lecturerId,
+              status: "pending" as const,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            },
+          ].sort(byDateDescending)
+        );
+      }
+      showNotification(
+        status === "accepted"
+          ? "Offer accepted. The room has been requested for you."
+          : "Offer declined"
+      );
+    } catch (err) {
+      console.error("Error answering waitlist offer:", err);
+      showNotification(
+        (err as { message?: string }).message ||
+          "Failed to answer the offer. Please try again."
+      );
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: BookingWaitlistEntry) => {
+    try {
+      await updateDoc(doc(db, "bookingWaitlist", entry.id), {
+        status: "withdrawn",
+      });
+      setWaitlist((current) =>
+        current.filter((other) => other.id !== entry.id)
+      );
+      showNotification("You've left the waitlist");
+    } catch (err) {
+      console.error("Error leaving waitlist:", err);
+      showNotification("Failed to leave the waitlist");
+    }
+  };
+
+  const noShows = recentNoShows(bookings, lecturerId);
+
+  return (
+    <div className="row mb-4">
+      <div className="col-lg-6 mb-4 mb-lg-0">
+        <div className="dashboard-card h-100">
+          <h5 className="mb-4">Request a Room</h5>
+
+          {noShows > 0 && (
+            <div className="alert alert-warning small">
+              <i className="bi bi-person-x me-1"></i>
+              You didn't check in to {noShows} booking
+              {noShows === 1 ? "" : "s"} in the last {NO_SHOW_WINDOW_DAYS} days.
+              {noShows >= NO_SHOW_LIMIT
+                ? " You can't request rooms until older ones pass."
+                : ` After ${NO_SHOW_LIMIT}, you can't request rooms for a while.`}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <RoomFinder
+              context={context}
+              bookedFor={lecturerId}
+              bookLabel="Choose"
+              selectedClassroomId={selection?.classroom.id}
+              onBook={(chosen) => {
+                setSelection(chosen);
+                setWaitlisting(false);
+                setConflicts([]);
+              }}
+              onWaitlist={(chosen) => {
+                setSelection(chosen);
+                setWaitlisting(true);
+                setRepeat(null);
+                setConflicts([]);
+              }}
+            />
+
+            {selection && (
+              <div
+                className={`alert ${
+                  waitlisting ? "alert-warning" : "alert-info"
+                } small d-flex justify-content-between align-items-center`}
+              >
+                <span>
+                  <i
+                    className={`bi ${
+                      waitlisting ? "bi-hourglass-split" : "bi-door-open"
+                    } me-1`}
+                  ></i>
+                  {waitlisting && "Waitlist for "}
+                  {describeClassroom(selection.classroom)},{" "}
+                  {formatDateKey(selection.date)}, {selection.startTime} -{" "}
+                  {selection.endTime}
+                </span>
+                <button
+                  type="button"
+                  className="btn-close"
+                  aria-label="Clear room"
+                  onClick={() => {
+                    setSelection(null);
+                    setWaitlisting(false);
+                  }}
+                ></button>
+              </div>
+            )}
+
+            {selection && !waitlisting && (
+              <BookingRepeatFields
+                booking={{
+                  classroomId: selection.classroom.id,
+                  title,
+                  date: selection.date,
+                  startTime: selection.startTime,
+                  endTime: selection.endTime,
+                  bookedFor: lecturerId,
+                }}
+                repeat={repeat}
+                onRepeatChange={(next) => {
+                  setRepeat(next);
+                  setConflicts([]);
+                }}
+              />
+            )}
+
+            {selection && !waitlisting && context && (
+              <EquipmentPicker
+                equipment={equipment}
+                loans={loans}
+                classroomsById={context.classroomsById}
+                startAt={campusTimeToDate(selection.date, selection.startTime)}
+                endAt={campusTimeToDate(selection.date, selection.endTime)}
+                repeats={!!repeat}
+                selected={equipmentIds}
+                onChange={setEquipmentIds}
+              />
+            )}
+
+            <div className="mb-3">
+              <label className="form-label" htmlFor="request-type">
+                Booking Type
+              </label>
+              <select
+                id="request-type"
+                className="form-select"
+                value={bookingType}
+                onChange={(e) =>
+                  setBookingType(e.target.value as Booking["bookingType"])
+                }
+              >
+                <option value="class">Class/Lecture</option>
+                <option value="meeting">Meeting</option>
+                <option value="event">Event</option>
+                <option value="other">Other</option>
+              </select>
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label" htmlFor="request-title">
+                Title
+              </label>
+              <input
+                id="request-title"
+                type="text"
+                className="form-control"
+                placeholder="e.g., Project supervision"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label" htmlFor="request-purpose">
+                Purpose
+              </label>
+              <textarea
+                id="request-purpose"
+                className="form-control"
+                rows={3}
+                placeholder="Describe the purpose of this booking..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              ></textarea>
+            </div>
+
+            <ConflictWarning
+              conflicts={conflicts}
+              canOverride={false}
+              overrideReason=""
+              onOverrideReasonChange={() => undefined}
+            />
+
+            <div className="d-flex gap-2">
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={submitting || !selection || !title.trim()}
+              >
+                <i
+                  className={`bi ${
+                    waitlisting ? "bi-hourglass-split" : "bi-send"
+                  } me-1`}
+                ></i>
+                {waitlisting
+                  ? submitting
+                    ? "Joining..."
+                    : "Join Waitlist"
+                  : submitting
+                  ? "Requesting..."
+                  : "Request Booking"}
+              </button>
+              {/* Taken by another booking only: it may still be cancelled */}
+              {selection &&
+                !waitlisting &&
+                !repeat &&
+                conflicts.length > 0 &&
+                conflicts.every(
+                  (conflict) =>
+                    conflict.source === "booking" && conflict.kind === "room"
+                ) && (
+                  <button
+                    type="button"
+                    className="btn btn-outline-secondary"
+                    disabled={submitting || !title.trim()}
+                    onClick={() => handleJoinWaitlist(selection)}
+                  >
+                    <i className="bi bi-hourglass-split me-1"></i>
+                    Join Waitlist Instead
+                  </button>
+                )}
+            </div>
+          </form>
+        </div>
+      </div>
+
+      <div className="col-lg-6">
+        <div className="dashboard-card h-100">
+          <h5 className="mb-4">Your Bookings</h5>
+
+          {waitlist.length > 0 && (
+            <div className="mb-4">
+              <h6 className="text-muted small text-uppercase">Waitlist</h6>
+              {waitlist.map((entry) => {
+                const room = context?.classroomsById.get(entry.classroomId);
+                const status = WAITLIST_STATUSES[entry.status];
+                return (
+                  <div
+                    key={entry.id}
+                    className={`mb-3 border-start border-3 ps-3 ${
+                      entry.status === "offered"
+                        ? "border-success"
+                        : "border-secondary"
+                    }`}
+                  >
+                    <h6 className="mb-1">
+                      {room ? describeClassroom(room) : "Unknown room"} -{" "}
+                      {entry.title}
+                    </h6>
+                    <small className="text-muted d-block mb-2">
+                      {formatDateKey(entry.date)}, {entry.startTime} -{" "}
+                      {entry.endTime}
+                      {entry.status === "offered" &&
+                        entry.offerExpiresAt &&
+                        ` · answer by ${new Date(
+                          entry.offerExpiresAt
+                        ).toLocaleString([], {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}`}
+                    </small>
+                    <div className="d-flex justify-content-between align-items-center">
+                      <span className={`badge ${status.badge}`}>
+                        {status.label}
+                      </span>
+                      {entry.status === "offered" ? (
+                        <span className="d-flex gap-2">
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-secondary"
+                            onClick={() => handleRespond(entry, false)}
+                          >
+                            Decline
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-success"
+                            onClick={() => handleRespond(entry, true)}
+                          >
+                            <i className="bi bi-check-circle me-1"></i>
+                            Accept
+                          </button>
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-secondary"
+                          onClick={() => handleLeaveWaitlist(entry)}
+                        >
+                          Leave waitlist
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-4">
+              <div className="spinner-border text-primary" role="status">
+                <span className="visually-hidden">Loading...</span>
+              </div>
+            </div>
+          ) : bookings.length === 0 ? (
+            <p className="text-muted small">
+              You haven't requested any rooms yet.
+            </p>
+          ) : (
+            <div style={{ maxHeight: "640px", overflowY: "auto" }}>
+              {bookings.map((booking) => {
+                const room = context?.classroomsById.get(booking.classroomId);
+                const status = BOOKING_STATUSES[booking.status];
+                const bookingLoans = loans.filter(
+                  (loan) => loan.bookingId === booking.id
+                );
+                const canCancel =
+                  booking.date >= today &&
+                  (booking.status === "pending" ||
+                    booking.status === "confirmed");
+                return (
+                  <div
+                    key={booking.id}
+                    className={`mb-3 border-start border-3 ps-3 ${
+                      booking.status === "pending"
+                        ? "border-warning"
+                        : booking.status === "confirmed"
+                        ? "border-primary"
+                        : "border-secondary"
+                    }`}
+                  >
+                    <h6 className="mb-1">
+                      {room ? describeClassroom(room) : "Unknown room"} -{" "}
+                      {booking.title}
+                      {booking.seriesId && (
+                        <i
+                          className="bi bi-arrow-repeat ms-1 text-muted"
+                          title="Part of a recurring series"
+                        ></i>
+                      )}
+                    </h6>
+                    <small className="text-muted d-block mb-2">
+                      {formatDateKey(booking.date)}, {booking.startTime} -{" "}
+                      {booking.endTime}
+                    </small>
+                    {booking.status === "confirmed" &&
+                      booking.date === today &&
+                      (booking.checkedInAt ? (
+                        <small className="d-block mb-2 text-success">
+                          <i className="bi bi-check2-square me-1"></i>
+                          Checked in
+                        </small>
+                      ) : (
+                        <small className="d-block mb-2 text-warning-emphasis">
+                          <i className="bi bi-qr-code me-1"></i>
+                          Scan the room's QR code within{" "}
+                          {CHECK_IN_GRACE_MINUTES} minutes of the start, or the
+                          room is released.
+                        </small>
+                      ))}
+                    {bookingLoans.map((loan) => {
+                      const item = equipment.find(
+                        (other) => other.id === loan.equipmentId
+                      );
+                      const overdue = isOverdue(loan);
+                      return (
+                        <small key={loan.id} className="d-block mb-2">
+                          <i className="bi bi-laptop me-1"></i>
+                          {item ? describeEquipment(item) : "Equipment"}{" "}
+                          <span
+                            className={`badge ${
+                              overdue
+                                ? "bg-danger"
+                                : LOAN_STATUSES[loan.status].badge
+                            }`}
+                          >
+                            {overdue
+                              ? "Overdue"
+                              : LOAN_STATUSES[loan.status].label}
+                          </span>
+                        </small>
+                      );
+                    })}
+                    {booking.decisionComment && (
+                      <small className="d-block mb-2">
+                        <i className="bi bi-chat-left-text me-1"></i>
+                        {booking.decisionComment}
+                      </small>
+                    )}
+                    {booking.status === "cancelled" &&
+                      booking.cancellationReason && (
+                        <small className="d-block mb-2">
+                          <i className="bi bi-x-circle me-1"></i>
+                          {booking.cancellationReason}
+                        </small>
+                      )}
+                    <div className="d-flex justify-content-between align-items-center">
+                      <span className={`badge ${status?.badge || "bg-light"}`}>
+                        {status?.label || booking.status}
+                      </span>
+                      {canCancel && (
+                        <span className="d-flex gap-2">
+                          {booking.seriesId && (
+                            <button
+                              type="button"
+                              className="btn btn-sm btn-outline-secondary"
+                              onClick={() =>
+                                setCancelling({ booking, wholeSeries: true })
+                              }
+                            >
+                              Cancel series
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-danger"
+                            onClick={() =>
+                              setCancelling({ booking, wholeSeries: false })
+                            }
+                          >
+                            <i className="bi bi-x-circle me-1"></i>
+                            {booking.status === "pending"
+                              ? "Withdraw"
+                              : "Cancel"}
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {cancelling && (
+        <BookingCancelDialog
+          booking={cancelling.booking}
+          wholeSeries={cancelling.wholeSeries}
+          onClose={() => setCancelling(null)}
+          onCancelled={(changes, bookingIds) => {
+            setBookings((current) =>
+              current.map((booking) =>
+                bookingIds.includes(booking.id)
+                  ? { ...booking, ...changes }
+                  : booking
+              )
+            );
+            // Their reserved equipment is released with them
+            setLoans((current) =>
+              current.filter(
+                (loan) =>
+                  !(
+                    loan.status === "reserved" &&
+                    loan.bookingId &&
+                    bookingIds.includes(loan.bookingId)
+                  )
+              )
+            );
+            setCancelling(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BookingRequests;
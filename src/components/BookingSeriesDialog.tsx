@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { useNotification } from "../contexts/NotificationContext";
+import { Booking } from "../interfaces/Booking";
+import { updateBookingSeries } from "../utils/bookings";
+import { toCampusTime } from "../utils/campusTime";
+
+interface BookingSeriesDialogProps {
+  booking: Booking; // Any occurrence of the series
+  onClose: () => void;
+  onSaved: (changes: Partial<Booking>, bookingIds: string[]) => void;
+}
+
+// Edits the details of every upcoming occurrence of a recurring booking at
+// once. The room and time aren't edited here: changing them would need every
+// date checked again, so the series is cancelled and booked anew instead.
+const BookingSeriesDialog: React.FC<BookingSeriesDialogProps> = ({
+  booking,
+  onClose,
+  onSaved,
+}) => {
+  const { showNotification } = useNotification();
+  const [title, setTitle] = useState(booking.title);
+  const [description, setDescription] = useState(booking.description || "");
+  const [bookingType, setBookingType] = useState<Booking["bookingType"]>(
+    booking.bookingType
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking.seriesId || !title.trim()) return;
+
+    setSaving(true);
+    try {
+      const changes: Partial<Booking> = {
+        title: title.trim(),
+        description: description.trim(),
+        bookingType,
+      };
+      const bookingIds = await updateBookingSeries(
+        booking.seriesId,
+        toCampusTime(new Date()).dateKey,
+        changes
+      );
+      onSaved(changes, bookingIds);
+      showNotification(
+        `Updated ${bookingIds.length} upcoming booking${
+          bookingIds.length === 1 ? "" : "s"
+        } in the series`
+      );
+    } catch (err) {
+      console.error("Error updating booking series:", err);
+      showNotification("Failed to update the series. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Edit Booking Series</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <p className="small text-muted">
+                Changes apply to every upcoming date in the series. To move
+                the series to another room or time, cancel it and book it
+                again.
+              </p>
+
+              <div className="mb-3">
+                <label className="form-label" htmlFor="series-title">
+                  Booking Title
+                </label>
+                <input
+                  id="series-title"
+                  type="text"
+                  className="form-control"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="mb-3">
+                <label className="form-label" htmlFor="series-description">
+                  Description
+                </label>
+                <textarea
+                  id="series-description"
+                  className="form-control"
+                  rows={3}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                ></textarea>
+              </div>
+
+              <div className="mb-3">
+                <label className="form-label" htmlFor="series-type">
+                  Booking Type
+                </label>
+                <select
+                  id="series-type"
+                  className="form-select"
+                  value={bookingType}
+                  onChange={(e) =>
+                    setBookingType(e.target.value as Booking["bookingType"])
+                  }
+                >
+                  <option value="class">Class/Lecture</option>
+                  <option value="meeting">Meeting</option>
+                  <option value="event">Event</option>
+                  <option value="other">Other</option>
+                </select>
+              </div>
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={saving || !title.trim()}
+              >
+                {saving ? "Saving..." : "Save Series"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingSeriesDialog;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useNotification } from "../contexts/NotificationContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import {
+  calendarFeedUrl,
+  calendarSubscribeUrl,
+  createCalendarFeed,
+  downloadTimetable,
+  getCalendarFeed,
+  revokeCalendarFeed,
+} from "../utils/calendar";
+
+// Download the user's timetable as an .ics file, or subscribe to it from a
+// calendar app through a private link that can be reset or turned off
+export default function CalendarExport() {
+  const { showNotification } = useNotification();
+  const { showConfirm } = useConfirm();
+  const [token, setToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    getCalendarFeed()
+      .then(setToken)
+      .catch((err) => console.error("Error loading calendar link:", err))
+      .finally(() => setBusy(false));
+  }, []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      showNotification(`${failure}. Please try again.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownload = () =>
+    run(downloadTimetable, "Failed to export your timetable");
+
+  const handleCreate = () =>
+    run(async () => {
+      setToken(await createCalendarFeed());
+      showNotification("Calendar link created");
+    }, "Failed to create a calendar link");
+
+  const handleReset = () => {
+    showConfirm(
+      {
+        title: "Reset Calendar Link",
+        message:
+          "Calendars subscribed with the current link will stop updating. You'll need to subscribe again with the new link.",
+        confirmLabel: "Reset",
+        cancelLabel: "Cancel",
+        variant: "warning",
+        icon: "bi-arrow-clockwise",
+      },
+      () =>
+        run(async () => {
+          setToken(await createCalendarFeed());
+          showNotification("Calendar link reset");
+        }, "Failed to reset the calendar link")
+    );
+  };
+
+  const handleRevoke = () => {
+    showConfirm(
+      {
+        title: "Turn Off Calendar Link",
+        message:
+          "Calendars subscribed with this link will stop updating. Classes already synced may remain in them.",
+        confirmLabel: "Turn off",
+        cancelLabel: "Cancel",
+        variant: "danger",
+        icon: "bi-calendar-x",
+      },
+      () =>
+        run(async () => {
+          await revokeCalendarFeed();
+          setToken(null);
+          showNotification("Calendar link turned off");
+        }, "Failed to turn off the calendar link")
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(token));
+      showNotification("Calendar link copied");
+    } catch (err) {
+      console.error("Error copying calendar link:", err);
+      showNotification("Failed to copy the link");
+    }
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="d-flex justify-content-between align-items-center mb-3">
+        <h5 className="mb-0">
+          <i className="bi bi-calendar-plus me-2"></i>
+          Add to Your Calendar
+        </h5>
+        <button
+          type="button"
+          className="btn btn-sm btn-outline-primary"
+          onClick={handleDownload}
+          disabled={busy}
+        >
+          <i className="bi bi-download me-1"></i>
+          Download .ics
+        </button>
+      </div>
+      <p className="text-muted small">
+        Subscribe from Google Calendar, Outlook or your phone to keep your
+        classes, bookings and campus events up to date automatically. Keep the
+        link private: anyone with it can see your timetable.
+      </p>
+
+      {token ? (
+        <>
+          <div className="input-group input-group-sm mb-2">
+            <input
+              type="text"
+              className="form-control"
+              value={calendarFeedUrl(token)}
+              readOnly
+              onFocus={(e) => e.target.select()}
+            />
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={handleCopy}
+            >
+              <i className="bi bi-clipboard"></i>
+            </button>
+          </div>
+          <div className="d-flex flex-wrap gap-2">
+            <a
+              className="btn btn-sm btn-primary"
+              href={calendarSubscribeUrl(token)}
+            >
+              <i className="bi bi-calendar-check me-1"></i>
+              Subscribe
+            </a>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={handleReset}
+              disabled={busy}
+            >
+              Reset link
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-danger"
+              onClick={handleRevoke}
+              disabled={busy}
+            >
+              Turn off
+            </button>
+          </div>
+        </>
+      ) : (
+        <button
+          type="button"
+          className="btn btn-sm btn-primary"
+          onClick={handleCreate}
+          disabled={busy}
+        >
+          <i className="bi bi-link-45deg me-1"></i>
+          Create subscription link
+        </button>
+      )}
+    </div>
+  );
+}
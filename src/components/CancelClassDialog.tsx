@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+import { db } from "../firebase";
+import { useNotification } from "../contexts/NotificationContext";
+import { Schedule, ScheduleOccurrence } from "../interfaces/Schedule";
+import { formatDateKey } from "../utils/recurrence";
+import { cancelOccurrence, restoreOccurrence } from "../utils/reschedule";
+
+interface CancelClassDialogProps {
+  schedule: Schedule;
+  occurrence: ScheduleOccurrence;
+  onClose: () => void;
+  onSaved: (changed: Schedule[]) => void;
+}
+
+// Cancels a single class, or restores a cancelled one. The lecturer and
+// enrolled students are notified with the reason given.
+const CancelClassDialog: React.FC<CancelClassDialogProps> = ({
+  schedule,
+  occurrence,
+  onClose,
+  onSaved,
+}) => {
+  const { showNotification } = useNotification();
+  const restoring = occurrence.isCancelled;
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!restoring && !reason.trim()) return;
+
+    setSaving(true);
+    try {
+      const overrides = restoring
+        ? restoreOccurrence(schedule, occurrence)
+        : cancelOccurrence(schedule, occurrence, reason.trim());
+      const updatedAt = new Date().toISOString();
+      await updateDoc(doc(db, "schedules", schedule.id), {
+        overrides,
+        updatedAt,
+      });
+
+      onSaved([{ ...schedule, overrides, updatedAt }]);
+      showNotification(
+        restoring ? "Class restored successfully!" : "Class cancelled"
+      );
+    } catch (err) {
+      console.error("Error updating class:", err);
+      showNotification("Failed to update the class. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">
+              {restoring ? "Restore Class" : "Cancel Class"}
+            </h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <p>
+                <strong>{schedule.moduleTitle}</strong>
+                <br />
+                <span className="text-muted">
+                  {formatDateKey(occurrence.date)}, {occurrence.startTime} -{" "}
+                  {occurrence.endTime}, Room {occurrence.classroomNumber}
+                </span>
+              </p>
+
+              {restoring ? (
+                <p className="mb-0">
+                  This class was cancelled
+                  {occurrence.reason ? ` (${occurrence.reason})` : ""}. Restore
+                  it so it takes place as planned?
+                </p>
+              ) : (
+                <div>
+                  <label className="form-label" htmlFor="cancel-reason">
+                    Reason
+                  </label>
+                  <textarea
+                    id="cancel-reason"
+                    className="form-control"
+                    rows={2}
+                    placeholder="e.g., Lecturer unwell"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    required
+                  />
+                  <small className="text-muted">
+                    Only this class is cancelled; the rest of the series is
+                    unchanged.
+                  </small>
+                </div>
+              )}
+
+              <p className="small text-muted mt-3 mb-0">
+                The lecturer and enrolled students will be notified.
+              </p>
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                className={`btn ${restoring ? "btn-primary" : "btn-danger"}`}
+                disabled={saving || (!restoring && !reason.trim())}
+              >
+                {saving
+                  ? "Saving..."
+                  : restoring
+                  ? "Restore Class"
+                  : "Cancel Class"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelClassDialog;
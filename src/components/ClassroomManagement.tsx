@@ -1,10 +1,9 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   collection,
   getDocs,
   addDoc,
   updateDoc,
-  deleteDoc,
   doc,
   query,
   where,
@@ -19,17 +18,48 @@ import {
   ClassroomAvailability,
   TimeSlot,
 } from "../interfaces/Classroom";
-import { Booking } from "../interfaces/Booking";
+import { Booking, BookingRepeat } from "../interfaces/Booking";
 import { User } from "../interfaces/User";
+import { ScheduleConflict } from "../interfaces/Conflict";
+import {
+  ConflictContext,
+  loadConflictContext,
+  findConflicts,
+  bookingToSlot,
+  isOverrideAcknowledged,
+  describeConflict,
+  conflictKey,
+} from "../utils/scheduleConflicts";
+import {
+  BOOKING_STATUSES,
+  bookingConflictsFrom,
+  NO_SHOW_WINDOW_DAYS,
+  createBooking,
+  isLateCancellation,
+  recentNoShows,
+} from "../utils/bookings";
+import { formatDateKey } from "../utils/recurrence";
+import ConflictWarning from "./ConflictWarning";
+import AvailabilityWarning from "./AvailabilityWarning";
+import BookingDecisionDialog, {
+  BookingDecision,
+} from "./BookingDecisionDialog";
+import RoomFinder from "./RoomFinder";
+import BookingRepeatFields from "./BookingRepeatFields";
+import BookingSeriesDialog from "./BookingSeriesDialog";
+import BookingCancelDialog from "./BookingCancelDialog";
+import ClassroomQrDialog from "./ClassroomQrDialog";
+
+const BRANCHES = ["Colombo", "Kandy", "Gampaha", "Negombo", "Kurunegala"];
 
 const ClassroomManagement: React.FC = () => {
   // State variables
   const [classrooms, setClassrooms] = useState<Classroom[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [lecturers, setLecturers] = useState<User[]>([]);
-  const [activeTab, setActiveTab] = useState<"list" | "add" | "bookings">(
-    "list"
-  );
+  const [activeTab, setActiveTab] = useState<
+    "list" | "add" | "find" | "bookings"
+  >("list");
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -48,18 +78,65 @@ const ClassroomManagement: React.FC = () => {
   const [startTime, setStartTime] = useState<string>("09:00");
   const [endTime, setEndTime] = useState<string>("10:00");
   const [selectedLecturer, setSelectedLecturer] = useState<string>("");
+  const [bookingConflicts, setBookingConflicts] = useState<ScheduleConflict[]>(
+    []
+  );
+  const [overrideReason, setOverrideReason] = useState<string>("");
+  const [bookingRepeat, setBookingRepeat] = useState<BookingRepeat | null>(
+    null
+  );
+  const [editingSeries, setEditingSeries] = useState<Booking | null>(null);
+  const [cancelling, setCancelling] = useState<{
+    booking: Booking;
+    wholeSeries: boolean;
+  } | null>(null);
+  const [qrClassroom, setQrClassroom] = useState<Classroom | null>(null);
+  const [bookingView, setBookingView] = useState<
+    "upcoming" | "past" | "cancelled"
+  >("upcoming");
+  const [decidingBooking, setDecidingBooking] = useState<{
+    booking: Booking;
+    decision: BookingDecision;
+  } | null>(null);
+  const [finderContext, setFinderContext] = useState<ConflictContext | null>(
+    null
+  );
+
+  // The booking, checked against the chosen lecturer's availability
+  const selectedLecturerName =
+    lecturers.find((lecturer) => lecturer.id === selectedLecturer)?.name || "";
+  const availabilityDates = useMemo(
+    () =>
+      selectedDate && startTime && endTime
+        ? {
+            date: selectedDate,
+            startTime,
+            endTime,
+            recurrence: null,
+            classroomNumber: selectedClassroom?.roomNumber || "",
+            floorNumber: selectedClassroom
+              ? String(selectedClassroom.floor)
+              : "",
+            branch: selectedClassroom?.branch || "",
+            lecturerName: selectedLecturerName,
+          }
+        : null,
+    [selectedDate, startTime, endTime, selectedClassroom, selectedLecturerName]
+  );
 
   // New classroom form
   const [newClassroom, setNewClassroom] = useState<{
     building: string;
     floor: number;
     roomNumber: string;
+    branch: string;
     capacity: number;
     resources: string[];
   }>({
     building: "",
     floor: 1,
     roomNumber: "",
+    branch: "",
     capacity: 0,
     resources: [],
   });
@@ -89,8 +166,9 @@ const ClassroomManagement: React.FC = () => {
   ];
 
   // Context hooks
-  const { showNotification } = useNotification();
-  const { currentUser } = useAuth();
+  const { showNotification, notifyUser } = useNotification();
+  const { currentUser, userData } = useAuth();
+  const isAdmin = userData?.role === "admin";
 
   // Fetch classrooms, bookings, and lecturers on component mount
   useEffect(() => {
@@ -99,6 +177,18 @@ const ClassroomManagement: React.FC = () => {
     fetchLecturers();
   }, []);
 
+  // The room finder works from a fresh timetable each time it's opened
+  useEffect(() => {
+    if (activeTab !== "find") return;
+    setFinderContext(null);
+    loadConflictContext()
+      .then(setFinderContext)
+      .catch((err) => {
+        console.error("Error loading the timetable:", err);
+        showNotification("Failed to load room availability");
+      });
+  }, [activeTab, showNotification]);
+
   // Fetch classrooms from Firestore
   const fetchClassrooms = async () => {
     try {
@@ -154,55 +244,6 @@ const ClassroomManagement: React.FC = () => {
     }
   };
 
-  // Check if a classroom is available at the given time - Improved to prevent double booking
-  const isClassroomAvailable = (
-    classroomId: string,
-    date: string,
-    start: string,
-    end: string
-  ): boolean => {
-    // Find all active bookings for this classroom on the specified date
-    const classroomBookings = bookings.filter(
-      (booking) => booking.classroomId === classroomId && booking.date === date
-    );
-
-    // Convert string times to comparable numbers for easier comparison
-    const startTimeMinutes = convertTimeToMinutes(start);
-    const endTimeMinutes = convertTimeToMinutes(end);
-
-    // Check for time overlap with existing bookings
-    for (const booking of classroomBookings) {
-      const bookingStartMinutes = convertTimeToMinutes(booking.startTime);
-      const bookingEndMinutes = convertTimeToMinutes(booking.endTime);
-
-      // Check for overlap
-      // A booking overlaps if:
-      // 1. New booking starts during an existing booking
-      // 2. New booking ends during an existing booking
-      // 3. New booking completely encapsulates an existing booking
-      if (
-        (startTimeMinutes >= bookingStartMinutes &&
-          startTimeMinutes < bookingEndMinutes) || // New start time is within existing booking
-        (endTimeMinutes > bookingStartMinutes &&
-          endTimeMinutes <= bookingEndMinutes) || // New end time is within existing booking
-        (startTimeMinutes <= bookingStartMinutes &&
-          endTimeMinutes >= bookingEndMinutes) // New booking completely covers existing booking
-      ) {
-        return false;
-      }
-    }
-
-    return true;
-  };
-
-  // Helper function to convert time string (HH:MM) to minutes for easier comparison
-  const convertTimeToMinutes = (timeString: string): number => {
-    const [hours, minutes] = timeString
-      .split(":")
-      .map((num) => parseInt(num, 10));
-    return hours * 60 + minutes;
-  };
-
   // Add a new classroom
   const handleAddClassroom = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -239,6 +280,7 @@ const ClassroomManagement: React.FC = () => {
         building: "",
         floor: 1,
         roomNumber: "",
+        branch: "",
         capacity: 0,
         resources: [],
       });
@@ -274,23 +316,50 @@ const ClassroomManagement: React.FC = () => {
       return;
     }
 
-    // Check if the classroom is available
-    if (
-      !isClassroomAvailable(
-        selectedClassroom.id,
-        selectedDate,
-        startTime,
-        endTime
-      )
-    ) {
-      showNotification("This classroom is not available at the selected time");
-      return;
-    }
-
     try {
       setLoading(true);
 
-      const bookingData: Omit<Booking, "id" | "createdAt" | "updatedAt"> = {
+      // Check the room and lecturer against class schedules and other
+      // bookings. A series is checked date by date as it's saved, so an
+      // override covers the conflicts that check reported.
+      let conflicts = bookingConflicts;
+      if (!bookingRepeat) {
+        const conflictContext = await loadConflictContext();
+        conflicts = findConflicts(
+          bookingToSlot(
+            {
+              classroomId: selectedClassroom.id,
+              title: bookingTitle,
+              date: selectedDate,
+              startTime,
+              endTime,
+              bookedFor: selectedLecturer,
+            },
+            conflictContext
+          ),
+          conflictContext
+        );
+      }
+
+      if (
+        conflicts.length > 0 &&
+        !(
+          isAdmin &&
+          overrideReason.trim() &&
+          isOverrideAcknowledged(conflicts, bookingConflicts)
+        )
+      ) {
+        setBookingConflicts(conflicts);
+        showNotification(
+          "This classroom is not available at the selected time"
+        );
+        setLoading(false);
+        return;
+      }
+
+      // The room is checked again as the booking is saved, in case someone
+      // else booked it in the meantime
+      const booked = await createBooking({
         classroomId: selectedClassroom.id,
         title: bookingTitle,
         description: bookingDescription,
@@ -298,27 +367,45 @@ const ClassroomManagement: React.FC = () => {
         date: selectedDate,
         startTime,
         endTime,
-        bookedBy: currentUser?.uid || "",
         bookedFor: selectedLecturer || currentUser?.uid || "",
-        status: "confirmed",
-      };
-
-      const docRef = await addDoc(collection(db, "bookings"), {
-        ...bookingData,
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+        ...(bookingRepeat && { repeat: bookingRepeat }),
+        ...(conflicts.length > 0 && {
+          conflictOverride: {
+            reason: overrideReason.trim(),
+            conflicts: conflicts.map(describeConflict),
+            acknowledged: conflicts.map(conflictKey),
+          },
+        }),
       });
 
-      // Add the new booking to the state
+      // Add the new booking, or every date of the series, to the state
       setBookings([
         ...bookings,
-        {
-          id: docRef.id,
-          ...bookingData,
+        ...booked.occurrences.map((occurrence) => ({
+          id: occurrence.id,
+          classroomId: selectedClassroom.id,
+          title: bookingTitle,
+          description: bookingDescription,
+          bookingType,
+          date: occurrence.date,
+          startTime,
+          endTime,
+          bookedBy: currentUser?.uid || "",
+          bookedFor: selectedLecturer || currentUser?.uid || "",
+          status: booked.status,
           createdAt: new Date(),
           updatedAt: new Date(),
-        } as Booking,
+          ...(booked.seriesId && { seriesId: booked.seriesId }),
+        })),
       ]);
+      const firstDate = booked.occurrences[0].date;
+      const lastDate = booked.occurrences[booked.occurrences.length - 1].date;
+      const bookedDates =
+        firstDate === lastDate
+          ? new Date(firstDate).toLocaleDateString()
+          : `${booked.occurrences.length} dates from ${formatDateKey(
+              firstDate
+            )} to ${formatDateKey(lastDate)}`;
 
       // Send notification to the lecturer if applicable
       if (selectedLecturer) {
@@ -330,16 +417,20 @@ const ClassroomManagement: React.FC = () => {
 
           if (lecturerDoc.exists() && lecturerData) {
             // Create notification for the lecturer
-            await addDoc(collection(db, "notifications"), {
-              userId: selectedLecturer,
+            await notifyUser(selectedLecturer, {
               title: "Classroom Booking",
               message: `A classroom has been booked for you: ${
                 selectedClassroom.name
-              } on ${new Date(
-                selectedDate
-              ).toLocaleDateString()} from ${startTime} to ${endTime} for "${bookingTitle}".`,
-              isRead: false,
-              createdAt: Timestamp.now(),
+              } on ${bookedDates} from ${startTime} to ${endTime} for "${bookingTitle}".`,
+              category: "bookings",
+              template: "bookingConfirmation",
+              templateData: {
+                classroom: selectedClassroom.name,
+                date: bookedDates,
+                startTime,
+                endTime,
+                purpose: bookingTitle,
+              },
             });
 
             showNotification(
@@ -361,34 +452,30 @@ const ClassroomManagement: React.FC = () => {
       setStartTime("09:00");
       setEndTime("10:00");
       setSelectedLecturer("");
-
-      showNotification("Classroom booked successfully!");
+      setBookingConflicts([]);
+      setOverrideReason("");
+      setBookingRepeat(null);
+
+      showNotification(
+        booked.status === "pending"
+          ? "Booking requested. An admin will review it."
+          : booked.seriesId
+          ? `Classroom booked on ${booked.occurrences.length} dates!`
+          : "Classroom booked successfully!"
+      );
       setActiveTab("bookings");
       setLoading(false);
     } catch (err) {
-      console.error("Error booking classroom:", err);
-      showNotification("Failed to book classroom. Please try again.");
-      setLoading(false);
-    }
-  };
-
-  // Cancel a booking - Modified to delete the booking entirely
-  const handleCancelBooking = async (bookingId: string) => {
-    try {
-      setLoading(true);
-
-      // Delete the booking instead of marking as cancelled
-      const bookingRef = doc(db, "bookings", bookingId);
-      await deleteDoc(bookingRef);
-
-      // Remove the booking from state
-      setBookings(bookings.filter((booking) => booking.id !== bookingId));
-
-      showNotification("Booking cancelled and removed successfully!");
-      setLoading(false);
-    } catch (err) {
-      console.error("Error cancelling booking:", err);
-      showNotification("Failed to cancel booking. Please try again.");
+      const conflicts = bookingConflictsFrom(err);
+      if (conflicts) {
+        setBookingConflicts(conflicts);
+        showNotification(
+          "This classroom is not available at the selected time"
+        );
+      } else {
+        console.error("Error booking classroom:", err);
+        showNotification("Failed to book classroom. Please try again.");
+      }
       setLoading(false);
     }
   };
@@ -413,10 +500,47 @@ const ClassroomManagement: React.FC = () => {
   };
 
   // Filter bookings for current/future dates only
-  const filteredBookings = bookings.filter(
+  const upcomingBookings = bookings.filter(
     (booking) =>
       new Date(booking.date) >= new Date(new Date().toISOString().split("T")[0])
   );
+  // Lecturers' requests wait for a decision; withdrawn and rejected ones are
+  // only kept as their history
+  const bookingRequests = upcomingBookings
+    .filter((booking) => booking.status === "pending")
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)
+    );
+  // Cancelled bookings are kept with who cancelled them and why, so they
+  // get a view of their own, most recently cancelled first
+  const filteredBookings =
+    bookingView === "cancelled"
+      ? bookings
+          .filter((booking) => booking.status === "cancelled")
+          .sort((a, b) =>
+            (b.cancelledAt || "").localeCompare(a.cancelledAt || "")
+          )
+      : bookingView === "past"
+      ? bookings
+          .filter(
+            (booking) =>
+              booking.status === "completed" ||
+              booking.status === "no-show" ||
+              (booking.status === "confirmed" &&
+                !upcomingBookings.includes(booking))
+          )
+          .sort(
+            (a, b) =>
+              b.date.localeCompare(a.date) ||
+              b.startTime.localeCompare(a.startTime)
+          )
+      : upcomingBookings.filter((booking) => booking.status === "confirmed");
+
+  const lecturerName = (userId: string): string =>
+    lecturers.find((lecturer) => lecturer.id === userId)?.name || "";
+  const classroomName = (classroomId: string): string =>
+    classrooms.find((c) => c.id === classroomId)?.name || "Unknown";
 
   // Render classroom list tab
   const renderClassroomList = () => {
@@ -455,6 +579,7 @@ const ClassroomManagement: React.FC = () => {
                 <td>
                   {classroom.building}, Floor {classroom.floor}, Room{" "}
                   {classroom.roomNumber}
+                  {classroom.branch && `, ${classroom.branch}`}
                 </td>
                 <td>{classroom.capacity} people</td>
                 <td>
@@ -474,6 +599,13 @@ const ClassroomManagement: React.FC = () => {
                   >
                     <i className="bi bi-calendar-plus"></i> Book
                   </button>
+                  <button
+                    className="btn btn-sm btn-outline-secondary"
+                    title="Check-in QR code"
+                    onClick={() => setQrClassroom(classroom)}
+                  >
+                    <i className="bi bi-qr-code"></i> Check-in
+                  </button>
                 </td>
               </tr>
             ))}
@@ -545,6 +677,28 @@ const ClassroomManagement: React.FC = () => {
             </small>
           </div>
 
+          <div className="col-md-6">
+            <label htmlFor="branch" className="form-label">
+              Branch
+            </label>
+            <select
+              className="form-select"
+              id="branch"
+              value={newClassroom.branch}
+              onChange={(e) =>
+                setNewClassroom({ ...newClassroom, branch: e.target.value })
+              }
+              required
+            >
+              <option value="">Choose a branch...</option>
+              {BRANCHES.map((branch) => (
+                <option key={branch} value={branch}>
+                  {branch}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="col-md-6">
             <label htmlFor="capacity" className="form-label">
               Capacity
@@ -622,6 +776,30 @@ const ClassroomManagement: React.FC = () => {
     );
   };
 
+  // Render the free-room search; choosing a room fills in the booking form
+  const renderFindRoomTab = () => {
+    return (
+      <div className="card shadow-sm">
+        <div className="card-body">
+          <RoomFinder
+            context={finderContext}
+            bookedFor={selectedLecturer}
+            bookLabel="Book"
+            onBook={(selection) => {
+              setSelectedClassroom(selection.classroom);
+              setSelectedDate(selection.date);
+              setStartTime(selection.startTime);
+              setEndTime(selection.endTime);
+              setBookingConflicts([]);
+              setOverrideReason("");
+              setActiveTab("bookings");
+            }}
+          />
+        </div>
+      </div>
+    );
+  };
+
   // Render booking form and bookings list
   const renderBookingsTab = () => {
     return (
@@ -749,6 +927,22 @@ const ClassroomManagement: React.FC = () => {
                   </div>
                 </div>
 
+                <BookingRepeatFields
+                  booking={{
+                    classroomId: selectedClassroom?.id || "",
+                    title: bookingTitle,
+                    date: selectedDate,
+                    startTime,
+                    endTime,
+                    bookedFor: selectedLecturer,
+                  }}
+                  repeat={bookingRepeat}
+                  onRepeatChange={(repeat) => {
+                    setBookingRepeat(repeat);
+                    setBookingConflicts([]);
+                  }}
+                />
+
                 <div className="mb-3">
                   <label htmlFor="lecturer" className="form-label">
                     Book for Lecturer
@@ -768,6 +962,21 @@ const ClassroomManagement: React.FC = () => {
                   </select>
                 </div>
 
+                {selectedLecturer && (
+                  <AvailabilityWarning
+                    lecturerId={selectedLecturer}
+                    lecturerName={selectedLecturerName}
+                    dates={availabilityDates}
+                  />
+                )}
+
+                <ConflictWarning
+                  conflicts={bookingConflicts}
+                  canOverride={isAdmin}
+                  overrideReason={overrideReason}
+                  onOverrideReasonChange={setOverrideReason}
+                />
+
                 <div className="d-grid mt-4">
                   <button
                     type="submit"
@@ -794,14 +1003,107 @@ const ClassroomManagement: React.FC = () => {
         </div>
 
         <div className="col-md-7">
+          {isAdmin && bookingRequests.length > 0 && (
+            <div className="card shadow-sm mb-4">
+              <div className="card-header bg-warning">
+                <h5 className="card-title mb-0">
+                  Booking Requests{" "}
+                  <span className="badge bg-dark">
+                    {bookingRequests.length}
+                  </span>
+                </h5>
+              </div>
+              <div className="card-body">
+                <ul className="list-group list-group-flush">
+                  {bookingRequests.map((booking) => (
+                    <li
+                      key={booking.id}
+                      className="list-group-item px-0 d-flex justify-content-between align-items-start gap-2"
+                    >
+                      <span>
+                        <strong>{booking.title}</strong>{" "}
+                        <span className="text-muted small">
+                          by {lecturerName(booking.bookedFor) || "Unknown"}
+                        </span>
+                        {recentNoShows(bookings, booking.bookedFor) > 0 && (
+                          <span
+                            className="badge bg-dark ms-1"
+                            title={`No-shows in the last ${NO_SHOW_WINDOW_DAYS} days`}
+                          >
+                            <i className="bi bi-person-x me-1"></i>
+                            {recentNoShows(bookings, booking.bookedFor)}
+                          </span>
+                        )}
+                        <br />
+                        <small className="text-muted">
+                          {classroomName(booking.classroomId)},{" "}
+                          {formatDateKey(booking.date)}, {booking.startTime} -{" "}
+                          {booking.endTime}
+                        </small>
+                        {booking.description && (
+                          <>
+                            <br />
+                            <small>{booking.description}</small>
+                          </>
+                        )}
+                      </span>
+                      <span className="d-flex gap-2 flex-shrink-0">
+                        <button
+                          className="btn btn-sm btn-success"
+                          onClick={() =>
+                            setDecidingBooking({
+                              booking,
+                              decision: "confirmed",
+                            })
+                          }
+                        >
+                          Approve
+                        </button>
+                        <button
+                          className="btn btn-sm btn-outline-danger"
+                          onClick={() =>
+                            setDecidingBooking({
+                              booking,
+                              decision: "rejected",
+                            })
+                          }
+                        >
+                          Reject
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
           <div className="card shadow-sm">
-            <div className="card-header bg-info text-white">
-              <h5 className="card-title mb-0">Upcoming Bookings</h5>
+            <div className="card-header bg-info text-white d-flex justify-content-between align-items-center">
+              <h5 className="card-title mb-0">
+                {bookingView === "cancelled"
+                  ? "Cancelled Bookings"
+                  : bookingView === "past"
+                  ? "Past Bookings"
+                  : "Upcoming Bookings"}
+              </h5>
+              <select
+                className="form-select form-select-sm w-auto"
+                aria-label="Bookings to show"
+                value={bookingView}
+                onChange={(e) =>
+                  setBookingView(e.target.value as typeof bookingView)
+                }
+              >
+                <option value="upcoming">Upcoming</option>
+                <option value="past">Past</option>
+                <option value="cancelled">Cancelled</option>
+              </select>
             </div>
             <div className="card-body">
               {filteredBookings.length === 0 ? (
                 <div className="alert alert-info">
-                  No upcoming bookings found.
+                  No {bookingView} bookings found.
                 </div>
               ) : (
                 <div className="table-responsive">
@@ -813,7 +1115,11 @@ const ClassroomManagement: React.FC = () => {
                         <th>Date</th>
                         <th>Time</th>
                         <th>Status</th>
-                        <th>Actions</th>
+                        <th>
+                          {bookingView === "cancelled"
+                            ? "Cancellation"
+                            : bookingView === "upcoming" && "Actions"}
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -823,7 +1129,15 @@ const ClassroomManagement: React.FC = () => {
                         );
                         return (
                           <tr key={booking.id}>
-                            <td>{booking.title}</td>
+                            <td>
+                              {booking.title}
+                              {booking.seriesId && (
+                                <i
+                                  className="bi bi-arrow-repeat ms-1 text-muted"
+                                  title="Part of a recurring series"
+                                ></i>
+                              )}
+                            </td>
                             <td>{classroom?.name || "Unknown"}</td>
                             <td>
                               {new Date(booking.date).toLocaleDateString()}
@@ -832,18 +1146,89 @@ const ClassroomManagement: React.FC = () => {
                               {booking.startTime} - {booking.endTime}
                             </td>
                             <td>
-                              <span className="badge bg-success">
-                                Confirmed
-                              </span>
-                            </td>
-                            <td>
-                              <button
-                                className="btn btn-sm btn-outline-danger"
-                                onClick={() => handleCancelBooking(booking.id)}
+                              <span
+                                className={`badge ${
+                                  BOOKING_STATUSES[booking.status]?.badge ||
+                                  "bg-success"
+                                }`}
                               >
-                                Cancel
-                              </button>
+                                {BOOKING_STATUSES[booking.status]?.label ||
+                                  "Confirmed"}
+                              </span>
+                              {booking.checkedInAt && (
+                                <small className="d-block text-muted">
+                                  <i className="bi bi-check2-square me-1"></i>
+                                  Checked in{" "}
+                                  {new Date(
+                                    booking.checkedInAt
+                                  ).toLocaleTimeString([], {
+                                    hour: "2-digit",
+                                    minute: "2-digit",
+                                  })}
+                                </small>
+                              )}
                             </td>
+                            {bookingView === "cancelled" ? (
+                              <td>
+                                <small className="d-block">
+                                  {lecturerName(booking.cancelledBy || "") ||
+                                    (booking.cancelledBy === currentUser?.uid
+                                      ? "You"
+                                      : "An admin")}
+                                  {booking.cancelledAt &&
+                                    `, ${new Date(
+                                      booking.cancelledAt
+                                    ).toLocaleString()}`}
+                                </small>
+                                {booking.cancellationReason && (
+                                  <small className="d-block text-muted">
+                                    {booking.cancellationReason}
+                                  </small>
+                                )}
+                                {isLateCancellation(booking) && (
+                                  <span className="badge bg-warning text-dark">
+                                    Late
+                                  </span>
+                                )}
+                              </td>
+                            ) : bookingView === "past" ? (
+                              <td></td>
+                            ) : (
+                              <td>
+                                <button
+                                  className="btn btn-sm btn-outline-danger"
+                                  onClick={() =>
+                                    setCancelling({
+                                      booking,
+                                      wholeSeries: false,
+                                    })
+                                  }
+                                >
+                                  Cancel
+                                </button>
+                                {booking.seriesId && (
+                                  <div className="btn-group btn-group-sm mt-1 d-flex">
+                                    <button
+                                      className="btn btn-outline-secondary"
+                                      onClick={() => setEditingSeries(booking)}
+                                    >
+                                      Edit series
+                                    </button>
+                                    <button
+                                      className="btn btn-outline-danger"
+                                      onClick={() =>
+                                        setCancelling({
+                                          booking,
+                                          wholeSeries: true,
+                                        })
+                                      }
+                                    >
+                                      Cancel series
+                                    </button>
+                                  </div>
+                                )}
+                              </td>
+                            )}
                           </tr>
                         );
                       })}
@@ -881,6 +1266,15 @@ const ClassroomManagement: React.FC = () => {
             Add Classroom
           </button>
         </li>
+        <li className="nav-item">
+          <button
+            className={`nav-link ${activeTab === "find" ? "active" : ""}`}
+            onClick={() => setActiveTab("find")}
+          >
+            <i className="bi bi-search me-1"></i>
+            Find a Room
+          </button>
+        </li>
         <li className="nav-item">
           <button
             className={`nav-link ${activeTab === "bookings" ? "active" : ""}`}
@@ -895,8 +1289,80 @@ const ClassroomManagement: React.FC = () => {
       <div className="tab-content">
         {activeTab === "list" && renderClassroomList()}
         {activeTab === "add" && renderAddClassroomForm()}
+        {activeTab === "find" && renderFindRoomTab()}
         {activeTab === "bookings" && renderBookingsTab()}
       </div>
+
+      {decidingBooking && (
+        <BookingDecisionDialog
+          booking={decidingBooking.booking}
+          decision={decidingBooking.decision}
+          classroomName={classroomName(decidingBooking.booking.classroomId)}
+          requesterName={lecturerName(decidingBooking.booking.bookedFor)}
+          seriesBookings={
+            decidingBooking.booking.seriesId
+              ? bookingRequests.filter(
+                  (booking) =>
+                    booking.seriesId === decidingBooking.booking.seriesId &&
+                    booking.id !== decidingBooking.booking.id
+                )
+              : []
+          }
+          onClose={() => setDecidingBooking(null)}
+          onDecided={(changes, bookingIds) => {
+            setBookings((current) =>
+              current.map((booking) =>
+                bookingIds.includes(booking.id)
+                  ? { ...booking, ...changes }
+                  : booking
+              )
+            );
+            setDecidingBooking(null);
+          }}
+        />
+      )}
+
+      {cancelling && (
+        <BookingCancelDialog
+          booking={cancelling.booking}
+          wholeSeries={cancelling.wholeSeries}
+          onClose={() => setCancelling(null)}
+          onCancelled={(changes, bookingIds) => {
+            setBookings((current) =>
+              current.map((booking) =>
+                bookingIds.includes(booking.id)
+                  ? { ...booking, ...changes }
+                  : booking
+              )
+            );
+            setCancelling(null);
+          }}
+        />
+      )}
+
+      {qrClassroom && (
+        <ClassroomQrDialog
+          classroom={qrClassroom}
+          onClose={() => setQrClassroom(null)}
+        />
+      )}
+
+      {editingSeries && (
+        <BookingSeriesDialog
+          booking={editingSeries}
+          onClose={() => setEditingSeries(null)}
+          onSaved={(changes, bookingIds) => {
+            setBookings((current) =>
+              current.map((booking) =>
+                bookingIds.includes(booking.id)
+                  ? { ...booking, ...changes }
+                  : booking
+              )
+            );
+            setEditingSeries(null);
+          }}
+        />
+      )}
     </div>
   );
 };
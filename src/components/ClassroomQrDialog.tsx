@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import { useNotification } from "../contexts/NotificationContext";
+import { Classroom } from "../interfaces/Classroom";
+import {
+  CHECK_IN_GRACE_MINUTES,
+  checkInUrl,
+  getCheckInCode,
+  replaceCheckInCode,
+} from "../utils/bookings";
+import { qrCodeSvg } from "../utils/qrCode";
+import { describeClassroom } from "../utils/scheduleRefs";
+
+interface ClassroomQrDialogProps {
+  classroom: Classroom;
+  onClose: () => void;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A page with the room's name and check-in code, to print and post by the door
+const posterHtml = (
+  classroom: Classroom,
+  code: string
+): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(classroom.name)} - Check-in</title>
+<style>
+  @page { size: A4 portrait; margin: 20mm; }
+  body { font-family: Helvetica, Arial, sans-serif; text-align: center; color: #212529; }
+  h1 { font-size: 28pt; margin: 10mm 0 2mm; }
+  p { font-size: 13pt; color: #6c757d; }
+  img { width: 120mm; height: 120mm; margin: 10mm auto; display: block; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(classroom.name)}</h1>
+<p>${escapeHtml(describeClassroom(classroom))}</p>
+<img src="data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+  qrCodeSvg(checkInUrl(classroom.id, code))
+)}" alt="Check-in QR code">
+<p>Booked this room? Scan to check in within ${CHECK_IN_GRACE_MINUTES} minutes of the start,<br>or the booking is released for others.</p>
+<script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`;
+
+// Shows a classroom's check-in QR code for printing. A new code retires
+// every copy printed before.
+const ClassroomQrDialog: React.FC<ClassroomQrDialogProps> = ({
+  classroom,
+  onClose,
+}) => {
+  const { showNotification } = useNotification();
+  const [code, setCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [replacing, setReplacing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCheckInCode(classroom.id)
+      .then((current) => {
+        if (!cancelled) setCode(current);
+      })
+      .catch((err) => {
+        console.error("Error loading check-in code:", err);
+        showNotification("Failed to load the check-in code");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [classroom.id, showNotification]);
+
+  const saveNewCode = async () => {
+    setSaving(true);
+    try {
+      setCode(await replaceCheckInCode(classroom.id));
+      setReplacing(false);
+    } catch (err) {
+      console.error("Error saving check-in code:", err);
+      showNotification("Failed to create the check-in code");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!code) return;
+    const url = URL.createObjectURL(
+      new Blob([posterHtml(classroom, code)], {
+        type: "text/html;charset=utf-8",
+      })
+    );
+    if (!window.open(url, "_blank")) {
+      showNotification("Allow pop-ups for this site to print the code");
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Check-in Code: {classroom.name}</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <div className="modal-body text-center">
+            {loading ? (
+              <div className="spinner-border text-primary my-4" role="status">
+                <span className="visually-hidden">Loading...</span>
+              </div>
+            ) : code ? (
+              <>
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+                    qrCodeSvg(checkInUrl(classroom.id, code))
+                  )}`}
+                  alt={`Check-in QR code for ${classroom.name}`}
+                  className="img-fluid mb-3"
+                  style={{ width: "240px" }}
+                />
+                <p className="small text-muted mb-0">
+                  Post this by the door. Whoever booked the room scans it within{" "}
+                  {CHECK_IN_GRACE_MINUTES} minutes of the start; bookings nobody
+                  checks in to are released.
+                </p>
+                {replacing && (
+                  <div className="alert alert-warning small text-start mt-3 mb-0">
+                    Copies of the current code stop working once it's replaced,
+                    so print and post the new one.
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-muted my-4">
+                This room has no check-in code yet. Create one to print and post
+                by the door.
+              </p>
+            )}
+          </div>
+          <div className="modal-footer">
+            <button
+              type="button"
+              className="btn btn-outline-secondary me-auto"
+              onClick={
+                code && !replacing ? () => setReplacing(true) : saveNewCode
+              }
+              disabled={loading || saving}
+            >
+              {!code ? "Create code" : replacing ? "Replace code" : "New code"}
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={onClose}
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handlePrint}
+              disabled={saving || !code}
+            >
+              <i className="bi bi-printer me-1"></i>
+              Print
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomQrDialog;
@@ -0,0 +1,81 @@
+import React from "react";
+import { ScheduleConflict } from "../interfaces/Conflict";
+
+interface ConflictWarningProps {
+  conflicts: ScheduleConflict[];
+  canOverride: boolean;
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+const kindIcons: Record<string, string> = {
+  lecturer: "bi-person-badge",
+  room: "bi-door-closed",
+  cohort: "bi-people",
+};
+
+// Lists the clashes found when saving a schedule or booking. Admins can save
+// anyway by giving a reason, which is recorded with the entry.
+const ConflictWarning: React.FC<ConflictWarningProps> = ({
+  conflicts,
+  canOverride,
+  overrideReason,
+  onOverrideReasonChange,
+}) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="alert alert-warning" role="alert">
+      <h6 className="alert-heading">
+        <i className="bi bi-exclamation-triangle me-2"></i>
+        {conflicts.length} conflict{conflicts.length === 1 ? "" : "s"} found
+      </h6>
+      <ul className="list-unstyled small mb-2">
+        {conflicts.map((conflict) => (
+          <li
+            key={`${conflict.kind}-${conflict.source}-${conflict.id}-${conflict.when}`}
+            className="mb-1"
+          >
+            <i className={`bi ${kindIcons[conflict.kind]} me-2`}></i>
+            {conflict.detail}: <strong>{conflict.title}</strong>{" "}
+            <span className="text-muted">
+              ({conflict.source === "booking" ? "booking, " : ""}
+              {conflict.when})
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {canOverride ? (
+        <>
+          <label
+            htmlFor="conflict-override-reason"
+            className="form-label small"
+          >
+            To save anyway, give a reason for the override
+          </label>
+          <textarea
+            id="conflict-override-reason"
+            className="form-control form-control-sm mb-2"
+            rows={2}
+            value={overrideReason}
+            onChange={(e) => onOverrideReasonChange(e.target.value)}
+          ></textarea>
+          <button
+            type="submit"
+            className="btn btn-sm btn-warning"
+            disabled={!overrideReason.trim()}
+          >
+            Save anyway
+          </button>
+        </>
+      ) : (
+        <p className="small mb-0">
+          Please choose another time or room, or ask an administrator.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ConflictWarning;
@@ -58,6 +58,9 @@ const CourseManagement = () => {
   const [moduleSemester, setModuleSemester] = useState(1);
   const [modulePrerequisites, setModulePrerequisites] = useState<string[]>([]);
   const [moduleLecturers, setModuleLecturers] = useState<string[]>([]);
+  const [moduleRequiredResources, setModuleRequiredResources] = useState<
+    string[]
+  >([]);
   const [moduleLearningOutcomes, setModuleLearningOutcomes] = useState<
     string[]
   >([""]);
@@ -147,6 +150,7 @@ const CourseManagement = () => {
     setModuleSemester(1);
     setModulePrerequisites([]);
     setModuleLecturers([]);
+    setModuleRequiredResources([]);
     setModuleLearningOutcomes([""]);
     setModuleAssessmentMethods([
       { type: "Examination", weight: 60 },
@@ -181,6 +185,7 @@ const CourseManagement = () => {
     setModuleSemester(module.semester);
     setModulePrerequisites(module.prerequisites);
     setModuleLecturers(module.lecturers);
+    setModuleRequiredResources(module.requiredResources || []);
     setModuleLearningOutcomes(module.learningOutcomes);
     setModuleAssessmentMethods(module.assessmentMethods);
     setIsEditingModule(true);
@@ -247,6 +252,7 @@ const CourseManagement = () => {
         semester: moduleSemester,
         prerequisites: modulePrerequisites,
         lecturers: moduleLecturers,
+        requiredResources: moduleRequiredResources.filter(Boolean),
         learningOutcomes: moduleLearningOutcomes,
         assessmentMethods: moduleAssessmentMethods,
       };
@@ -917,6 +923,27 @@ const CourseManagement = () => {
                           }
                         />
                       </div>
+                      <div className="mb-3">
+                        <label className="form-label">
+                          Required Classroom Resources
+                        </label>
+                        <input
+                          type="text"
+                          className="form-control"
+                          placeholder="e.g. Computer, Projector"
+                          value={moduleRequiredResources.join(", ")}
+                          onChange={(e) =>
+                            setModuleRequiredResources(
+                              e.target.value
+                                .split(",")
+                                .map((item) => item.trim())
+                            )
+                          }
+                        />
+                        <small className="text-muted">
+                          Used by the timetable generator to pick rooms
+                        </small>
+                      </div>
                       <div className="mb-3">
                         <label className="form-label">Prerequisites</label>
                         <input
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from "react";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { CoverRequest } from "../interfaces/CoverRequest";
+import { LecturerAvailability } from "../interfaces/LecturerAvailability";
+import { Schedule } from "../interfaces/Schedule";
+import { findSubstitutes } from "../utils/cover";
+import { loadLecturerAvailability } from "../utils/lecturerAvailability";
+import { formatDateKey, toDateKey } from "../utils/recurrence";
+import { assignCover } from "../utils/reschedule";
+import {
+  ConflictContext,
+  loadConflictContext,
+} from "../utils/scheduleConflicts";
+import { ScheduleLecturer, loadScheduleDirectory } from "../utils/scheduleRefs";
+
+// Absences lecturers have reported, with the module's other lecturers who
+// are free and available to cover each class. Assigning a substitute changes only that
+// occurrence; the calendar, dashboards and reminders name the substitute.
+const CoverManagement: React.FC = () => {
+  const { userData } = useAuth();
+  const { showNotification } = useNotification();
+  const [requests, setRequests] = useState<CoverRequest[]>([]);
+  const [lecturers, setLecturers] = useState<ScheduleLecturer[]>([]);
+  const [context, setContext] = useState<ConflictContext | null>(null);
+  const [availabilityById, setAvailabilityById] = useState<
+    Map<string, LecturerAvailability>
+  >(new Map());
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [assigning, setAssigning] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCoverRequests = async () => {
+      try {
+        const today = toDateKey(new Date());
+        const [snapshot, directory, conflictContext] = await Promise.all([
+          getDocs(
+            query(collection(db, "coverRequests"), where("date", ">=", today))
+          ),
+          loadScheduleDirectory(),
+          loadConflictContext(),
+        ]);
+        setRequests(
+          snapshot.docs
+            .map(
+              (requestDoc) =>
+                ({ id: requestDoc.id, ...requestDoc.data() } as CoverRequest)
+            )
+            .filter((request) => request.status !== "withdrawn")
+            .sort(
+              (a, b) =>
+                a.date.localeCompare(b.date) ||
+                a.startTime.localeCompare(b.startTime)
+            )
+        );
+        const availability = await Promise.all(
+          directory.lecturers.map((lecturer) =>
+            loadLecturerAvailability(lecturer.id)
+          )
+        );
+        setLecturers(directory.lecturers);
+        setContext(conflictContext);
+        setAvailabilityById(
+          new Map(
+            availability
+              .filter((entry): entry is LecturerAvailability => !!entry)
+              .map((entry) => [entry.lecturerId, entry])
+          )
+        );
+      } catch (err) {
+        console.error("Error fetching cover requests:", err);
+        showNotification("Failed to load cover requests");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCoverRequests();
+  }, [showNotification]);
+
+  const handleAssign = async (request: CoverRequest) => {
+    const substitute = lecturers.find(
+      (lecturer) => lecturer.id === choices[request.id]
+    );
+    if (!substitute) return;
+
+    setAssigning(request.id);
+    try {
+      const scheduleRef = doc(db, "schedules", request.scheduleId);
+      const scheduleDoc = await getDoc(scheduleRef);
+      if (!scheduleDoc.exists()) {
+        showNotification("This class no longer exists");
+        return;
+      }
+
+      const updatedAt = new Date().toISOString();
+      const batch = writeBatch(db);
+      batch.update(scheduleRef, {
+        overrides: assignCover(
+          { id: scheduleDoc.id, ...scheduleDoc.data() } as Schedule,
+          { originalDate: request.occurrenceDate },
+          substitute
+        ),
+        updatedAt,
+      });
+      const covered = {
+        status: "covered" as const,
+        substituteId: substitute.id,
+        substituteName: substitute.name,
+        assignedBy: userData?.uid || "",
+        updatedAt,
+      };
+      batch.update(doc(db, "coverRequests", request.id), covered);
+      await batch.commit();
+
+      setRequests((current) =>
+        current.map((other) =>
+          other.id === request.id ? { ...other, ...covered } : other
+        )
+      );
+      showNotification(`${substitute.name} will cover ${request.moduleTitle}`);
+    } catch (err) {
+      console.error("Error assigning cover:", err);
+      showNotification("Failed to assign cover. Please try again.");
+    } finally {
+      setAssigning(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-5">
+        <div className="spinner-border text-primary" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="dashboard-card text-center py-5">
+        <i className="bi bi-person-check fs-1 text-muted"></i>
+        <p className="mt-3 text-muted mb-0">
+          No lecturers have reported an upcoming absence.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dashboard-card">
+      <div className="table-responsive">
+        <table className="table table-hover align-middle">
+          <thead className="table-light">
+            <tr>
+              <th>Class</th>
+              <th>Absent Lecturer</th>
+              <th>Cover</th>
+            </tr>
+          </thead>
+          <tbody>
+            {requests.map((request) => {
+              const substitutes =
+                request.status === "open" && context
+                  ? findSubstitutes(
+                      request,
+                      lecturers,
+                      context,
+                      availabilityById
+                    )
+                  : [];
+              return (
+                <tr key={request.id}>
+                  <td>
+                    <strong>{request.moduleTitle}</strong>
+                    <br />
+                    <small className="text-muted">
+                      {formatDateKey(request.date)}, {request.startTime} -{" "}
+                      {request.endTime}, Room {request.classroomNumber},{" "}
+                      {request.branch}
+                    </small>
+                  </td>
+                  <td>
+                    {request.lecturerName}
+                    <br />
+                    <small className="text-muted">{request.reason}</small>
+                  </td>
+                  <td style={{ minWidth: "260px" }}>
+                    {request.status === "covered" ? (
+                      <span className="badge bg-success">
+                        Covered by {request.substituteName}
+                      </span>
+                    ) : substitutes.length === 0 ? (
+                      <small className="text-danger">
+                        None of the module's other lecturers are free and
+                        available at this time. Reschedule or cancel the class
+                        instead.
+                      </small>
+                    ) : (
+                      <div className="d-flex gap-2">
+                        <select
+                          className="form-select form-select-sm"
+                          value={choices[request.id] || ""}
+                          onChange={(e) =>
+                            setChoices((current) => ({
+                              ...current,
+                              [request.id]: e.target.value,
+                            }))
+                          }
+                        >
+                          <option value="">Choose a substitute</option>
+                          {substitutes.map((lecturer) => (
+                            <option key={lecturer.id} value={lecturer.id}>
+                              {lecturer.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-primary text-nowrap"
+                          onClick={() => handleAssign(request)}
+                          disabled={
+                            !choices[request.id] || assigning === request.id
+                          }
+                        >
+                          {assigning === request.id ? "Assigning..." : "Assign"}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CoverManagement;
@@ -11,6 +11,7 @@ import {
   query,
   where,
   getDoc,
+  deleteField,
 } from "firebase/firestore";
 import { db } from "../firebase";
 import {
@@ -20,12 +21,19 @@ import {
 } from "../interfaces/Enrollment";
 import { Course } from "../interfaces/Course";
 import { User } from "../interfaces/User";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import {
+  loadAcademicYears,
+  loadCurrentAcademicYearId,
+} from "../utils/academicCalendar";
 
 const EnrollmentManagement = () => {
   // State for enrollments, students, and courses
   const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
   const [students, setStudents] = useState<User[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [currentAcademicYearId, setCurrentAcademicYearId] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
@@ -46,7 +54,8 @@ const EnrollmentManagement = () => {
   // Form states for enrollments
   const [selectedStudent, setSelectedStudent] = useState("");
   const [selectedCourse, setSelectedCourse] = useState("");
-  const [academicYear, setAcademicYear] = useState("");
+  const [academicYearId, setAcademicYearId] = useState("");
+  const [semesterId, setSemesterId] = useState("");
   const [enrollmentStatus, setEnrollmentStatus] =
     useState<Enrollment["status"]>("Active");
   const [currentSemester, setCurrentSemester] = useState(1);
@@ -56,6 +65,7 @@ const EnrollmentManagement = () => {
     fetchEnrollments();
     fetchStudents();
     fetchCourses();
+    fetchAcademicYears();
   }, []);
 
   // Fetch enrollments from Firestore
@@ -137,11 +147,32 @@ const EnrollmentManagement = () => {
     }
   };
 
+  // Fetch the academic calendar enrollments refer to
+  const fetchAcademicYears = async () => {
+    try {
+      const [years, currentYearId] = await Promise.all([
+        loadAcademicYears(),
+        loadCurrentAcademicYearId(),
+      ]);
+      setAcademicYears(years);
+      setCurrentAcademicYearId(currentYearId);
+      setAcademicYearId((selected) => selected || currentYearId);
+    } catch (err) {
+      console.error("Error fetching academic years:", err);
+      setError("Failed to load academic years. Please try again.");
+    }
+  };
+
+  const selectedAcademicYear = academicYears.find(
+    (year) => year.id === academicYearId
+  );
+
   // Reset enrollment form
   const resetEnrollmentForm = () => {
     setSelectedStudent("");
     setSelectedCourse("");
-    setAcademicYear("");
+    setAcademicYearId(currentAcademicYearId);
+    setSemesterId("");
     setEnrollmentStatus("Active");
     setCurrentSemester(1);
   };
@@ -151,7 +182,14 @@ const EnrollmentManagement = () => {
     setSelectedEnrollment(enrollment);
     setSelectedStudent(enrollment.studentId);
     setSelectedCourse(enrollment.courseId);
-    setAcademicYear(enrollment.academicYear);
+    // Older enrollments only have the year's name
+    setAcademicYearId(
+      enrollment.academicYearId ||
+        academicYears.find((year) => year.name === enrollment.academicYear)
+          ?.id ||
+        ""
+    );
+    setSemesterId(enrollment.semesterId || "");
     setEnrollmentStatus(enrollment.status);
     setCurrentSemester(enrollment.semester);
     setIsEditingEnrollment(true);
@@ -162,13 +200,20 @@ const EnrollmentManagement = () => {
   const handleEnrollmentSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (!selectedAcademicYear) {
+      setError("Select an academic year for the enrollment.");
+      return;
+    }
+
     try {
       const enrollmentData: Omit<Enrollment, "id"> = {
         studentId: selectedStudent,
         courseId: selectedCourse,
         enrollmentDate: new Date(),
         status: enrollmentStatus,
-        academicYear: academicYear,
+        academicYear: selectedAcademicYear.name,
+        academicYearId: selectedAcademicYear.id,
+        ...(semesterId && { semesterId }),
         semester: currentSemester,
         grade: [],
         attendance: [],
@@ -182,6 +227,7 @@ const EnrollmentManagement = () => {
         const enrollmentRef = doc(db, "enrollments", selectedEnrollment.id);
         await updateDoc(enrollmentRef, {
           ...enrollmentData,
+          ...(!semesterId && { semesterId: deleteField() }),
           updatedAt: serverTimestamp(),
         });
       } else {
@@ -482,18 +528,44 @@ const EnrollmentManagement = () => {
                         </div>
                       </div>
                       <div className="row mb-3">
-                        <div className="col-md-4">
+                        <div className="col-md-3">
                           <label className="form-label">Academic Year</label>
-                          <input
-                            type="text"
-                            className="form-control"
+                          <select
+                            className="form-select"
                             required
-                            placeholder="e.g., 2023-2024"
-                            value={academicYear}
-                            onChange={(e) => setAcademicYear(e.target.value)}
-                          />
+                            value={academicYearId}
+                            onChange={(e) => {
+                              setAcademicYearId(e.target.value);
+                              setSemesterId("");
+                            }}
+                          >
+                            <option value="">Select a year</option>
+                            {academicYears.map((year) => (
+                              <option key={year.id} value={year.id}>
+                                {year.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="col-md-3">
+                          <label className="form-label">Term</label>
+                          <select
+                            className="form-select"
+                            value={semesterId}
+                            onChange={(e) => setSemesterId(e.target.value)}
+                            disabled={!selectedAcademicYear}
+                          >
+                            <option value="">Whole year</option>
+                            {(selectedAcademicYear?.semesters || []).map(
+                              (semester) => (
+                                <option key={semester.id} value={semester.id}>
+                                  {semester.name}
+                                </option>
+                              )
+                            )}
+                          </select>
                         </div>
-                        <div className="col-md-4">
+                        <div className="col-md-3">
                           <label className="form-label">Current Semester</label>
                           <input
                             type="number"
@@ -507,7 +579,7 @@ const EnrollmentManagement = () => {
                             }
                           />
                         </div>
-                        <div className="col-md-4">
+                        <div className="col-md-3">
                           <label className="form-label">Status</label>
                           <select
                             className="form-select"
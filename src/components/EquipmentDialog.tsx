@@ -0,0 +1,276 @@
+import React, { useState } from "react";
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  doc,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { useNotification } from "../contexts/NotificationContext";
+import { Classroom } from "../interfaces/Classroom";
+import { Equipment } from "../interfaces/Equipment";
+import { EQUIPMENT_CONDITIONS } from "../utils/equipment";
+import { describeClassroom } from "../utils/scheduleRefs";
+
+interface EquipmentDialogProps {
+  item: Equipment | null; // Null to add a new item
+  equipment: Equipment[]; // The inventory, for its categories and asset tags
+  classrooms: Classroom[];
+  onClose: () => void;
+  onSaved: (item: Equipment) => void;
+}
+
+// Adds an item to the equipment inventory or edits one. Items are kept in a
+// home room or, like spares in a store room, at a described location.
+const EquipmentDialog: React.FC<EquipmentDialogProps> = ({
+  item,
+  equipment,
+  classrooms,
+  onClose,
+  onSaved,
+}) => {
+  const { showNotification } = useNotification();
+  const [assetTag, setAssetTag] = useState(item?.assetTag || "");
+  const [name, setName] = useState(item?.name || "");
+  const [category, setCategory] = useState(item?.category || "");
+  const [homeClassroomId, setHomeClassroomId] = useState(
+    item?.homeClassroomId || ""
+  );
+  const [location, setLocation] = useState(item?.location || "");
+  const [condition, setCondition] = useState<Equipment["condition"]>(
+    item?.condition || "good"
+  );
+  const [notes, setNotes] = useState(item?.notes || "");
+  const [saving, setSaving] = useState(false);
+
+  const categories = Array.from(
+    new Set(equipment.map((other) => other.category).filter(Boolean))
+  ).sort();
+  const duplicateTag = equipment.some(
+    (other) =>
+      other.id !== item?.id &&
+      other.assetTag.trim().toLowerCase() === assetTag.trim().toLowerCase()
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (duplicateTag) return;
+
+    setSaving(true);
+    try {
+      const itemData = {
+        assetTag: assetTag.trim(),
+        name: name.trim(),
+        category: category.trim(),
+        condition,
+        homeClassroomId,
+        location: homeClassroomId ? "" : location.trim(),
+        notes: notes.trim(),
+      };
+      if (item) {
+        await updateDoc(doc(db, "equipment", item.id), {
+          ...itemData,
+          updatedAt: Timestamp.now(),
+        });
+        onSaved({ ...item, ...itemData, updatedAt: new Date() });
+        showNotification("Equipment updated");
+      } else {
+        const itemRef = await addDoc(collection(db, "equipment"), {
+          ...itemData,
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        });
+        onSaved({
+          id: itemRef.id,
+          ...itemData,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+        showNotification("Equipment added");
+      }
+    } catch (err) {
+      console.error("Error saving equipment:", err);
+      showNotification("Failed to save the equipment. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">
+              {item ? `Edit ${item.assetTag}` : "Add Equipment"}
+            </h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <div className="row g-3">
+                <div className="col-md-5">
+                  <label className="form-label" htmlFor="equipment-tag">
+                    Asset Tag
+                  </label>
+                  <input
+                    id="equipment-tag"
+                    type="text"
+                    className={`form-control ${
+                      duplicateTag ? "is-invalid" : ""
+                    }`}
+                    placeholder="e.g., PRJ-014"
+                    value={assetTag}
+                    onChange={(e) => setAssetTag(e.target.value)}
+                    required
+                  />
+                  <div className="invalid-feedback">
+                    Another item has this tag.
+                  </div>
+                </div>
+                <div className="col-md-7">
+                  <label className="form-label" htmlFor="equipment-name">
+                    Name
+                  </label>
+                  <input
+                    id="equipment-name"
+                    type="text"
+                    className="form-control"
+                    placeholder="e.g., Epson EB-X49 projector"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="col-md-6">
+                  <label className="form-label" htmlFor="equipment-category">
+                    Category
+                  </label>
+                  <input
+                    id="equipment-category"
+                    type="text"
+                    className="form-control"
+                    list="equipment-categories"
+                    placeholder="e.g., Projector"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    required
+                  />
+                  <datalist id="equipment-categories">
+                    {categories.map((other) => (
+                      <option key={other} value={other} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="col-md-6">
+                  <label className="form-label" htmlFor="equipment-condition">
+                    Condition
+                  </label>
+                  <select
+                    id="equipment-condition"
+                    className="form-select"
+                    value={condition}
+                    onChange={(e) =>
+                      setCondition(e.target.value as Equipment["condition"])
+                    }
+                  >
+                    {Object.entries(EQUIPMENT_CONDITIONS).map(
+                      ([value, { label }]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+                <div className="col-md-6">
+                  <label className="form-label" htmlFor="equipment-room">
+                    Home Room
+                  </label>
+                  <select
+                    id="equipment-room"
+                    className="form-select"
+                    value={homeClassroomId}
+                    onChange={(e) => setHomeClassroomId(e.target.value)}
+                  >
+                    <option value="">None</option>
+                    {classrooms.map((classroom) => (
+                      <option key={classroom.id} value={classroom.id}>
+                        {describeClassroom(classroom)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!homeClassroomId && (
+                  <div className="col-md-6">
+                    <label className="form-label" htmlFor="equipment-location">
+                      Location
+                    </label>
+                    <input
+                      id="equipment-location"
+                      type="text"
+                      className="form-control"
+                      placeholder="e.g., IT store, Block B"
+                      value={location}
+                      onChange={(e) => setLocation(e.target.value)}
+                      required
+                    />
+                  </div>
+                )}
+                <div className="col-12">
+                  <label className="form-label" htmlFor="equipment-notes">
+                    Notes
+                  </label>
+                  <textarea
+                    id="equipment-notes"
+                    className="form-control"
+                    rows={2}
+                    placeholder="e.g., Comes with an HDMI cable and remote"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                  ></textarea>
+                </div>
+              </div>
+              {(condition === "damaged" || condition === "retired") && (
+                <div className="alert alert-warning small mt-3 mb-0">
+                  {EQUIPMENT_CONDITIONS[condition].label} items can't be
+                  reserved or lent.
+                </div>
+              )}
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={saving || duplicateTag}
+              >
+                {saving ? "Saving..." : item ? "Save" : "Add Equipment"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EquipmentDialog;
@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { Equipment, EquipmentLoan } from "../interfaces/Equipment";
+import { User } from "../interfaces/User";
+import {
+  checkOutEquipment,
+  describeEquipment,
+  equipmentClashesFrom,
+} from "../utils/equipment";
+
+interface EquipmentLoanDialogProps {
+  item: Equipment;
+  users: User[];
+  onClose: () => void;
+  onCheckedOut: (loan: EquipmentLoan) => void;
+}
+
+// "YYYY-MM-DDTHH:MM" in local time, for a datetime-local input
+const toInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+// Lends an item at the desk, without a booking, until the time it's due back
+const EquipmentLoanDialog: React.FC<EquipmentLoanDialogProps> = ({
+  item,
+  users,
+  onClose,
+  onCheckedOut,
+}) => {
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const [borrowerId, setBorrowerId] = useState("");
+  const [dueAt, setDueAt] = useState(() =>
+    toInputValue(new Date(Date.now() + 2 * 60 * 60 * 1000))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !borrowerId) return;
+    const due = new Date(dueAt);
+    if (Number.isNaN(due.getTime()) || due <= new Date()) {
+      showNotification("The due time must be in the future");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const loan = await checkOutEquipment({
+        equipmentId: item.id,
+        borrowerId,
+        dueAt: due.toISOString(),
+      });
+      const now = new Date().toISOString();
+      onCheckedOut({
+        id: loan.id,
+        equipmentId: item.id,
+        borrowerId,
+        startAt: now,
+        dueAt: loan.dueAt,
+        status: "checked-out",
+        requestedBy: currentUser.uid,
+        checkedOutAt: now,
+        checkedOutBy: currentUser.uid,
+        createdAt: new Date(),
+      });
+      showNotification(`${describeEquipment(item)} checked out`);
+    } catch (err) {
+      const clashes = equipmentClashesFrom(err);
+      if (clashes) {
+        showNotification((err as Error).message);
+      } else {
+        console.error("Error checking out equipment:", err);
+        showNotification(
+          "Failed to check out the equipment. Please try again."
+        );
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Lend {describeEquipment(item)}</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <div className="mb-3">
+                <label className="form-label" htmlFor="loan-borrower">
+                  Borrower
+                </label>
+                <select
+                  id="loan-borrower"
+                  className="form-select"
+                  value={borrowerId}
+                  onChange={(e) => setBorrowerId(e.target.value)}
+                  required
+                >
+                  <option value="">Choose a person...</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.name} ({user.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="form-label" htmlFor="loan-due">
+                  Due Back
+                </label>
+                <input
+                  id="loan-due"
+                  type="datetime-local"
+                  className="form-control"
+                  value={dueAt}
+                  onChange={(e) => setDueAt(e.target.value)}
+                  required
+                />
+                <small className="text-muted">
+                  The borrower is reminded if it isn't back by then.
+                </small>
+              </div>
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={saving || !borrowerId}
+              >
+                <i className="bi bi-box-arrow-right me-1"></i>
+                {saving ? "Checking out..." : "Check out"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EquipmentLoanDialog;
@@ -0,0 +1,597 @@
+import React, { useEffect, useState } from "react";
+import { collection, doc, getDocs, updateDoc } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { Booking } from "../interfaces/Booking";
+import { Classroom } from "../interfaces/Classroom";
+import { Equipment, EquipmentLoan } from "../interfaces/Equipment";
+import { User } from "../interfaces/User";
+import {
+  EQUIPMENT_CONDITIONS,
+  LOAN_STATUSES,
+  checkOutEquipment,
+  describeEquipment,
+  equipmentClashesFrom,
+  isHolding,
+  isLendable,
+  isOverdue,
+} from "../utils/equipment";
+import { formatDateKey } from "../utils/recurrence";
+import { describeClassroom } from "../utils/scheduleRefs";
+import EquipmentDialog from "./EquipmentDialog";
+import EquipmentLoanDialog from "./EquipmentLoanDialog";
+import EquipmentReturnDialog from "./EquipmentReturnDialog";
+
+type LoanView = "active" | "overdue" | "history";
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// The equipment inventory and its loans. Lecturers reserve items with their
+// room bookings; admins hand them over, lend items at the desk and check
+// them back in.
+const EquipmentManagement: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { showConfirm } = useConfirm();
+  const { showNotification } = useNotification();
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [loans, setLoans] = useState<EquipmentLoan[]>([]);
+  const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<"inventory" | "loans">(
+    "inventory"
+  );
+  const [loanView, setLoanView] = useState<LoanView>("active");
+  const [search, setSearch] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("");
+  const [editing, setEditing] = useState<{ item: Equipment | null } | null>(
+    null
+  );
+  const [lending, setLending] = useState<Equipment | null>(null);
+  const [returning, setReturning] = useState<EquipmentLoan | null>(null);
+  const [handingOver, setHandingOver] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInventory = async () => {
+      try {
+        const [
+          equipmentSnapshot,
+          loanSnapshot,
+          classroomSnapshot,
+          userSnapshot,
+          bookingSnapshot,
+        ] = await Promise.all([
+          getDocs(collection(db, "equipment")),
+          getDocs(collection(db, "equipmentLoans")),
+          getDocs(collection(db, "classrooms")),
+          getDocs(collection(db, "users")),
+          getDocs(collection(db, "bookings")),
+        ]);
+        setEquipment(
+          equipmentSnapshot.docs
+            .map(
+              (itemDoc) => ({ id: itemDoc.id, ...itemDoc.data() } as Equipment)
+            )
+            .sort((a, b) => a.assetTag.localeCompare(b.assetTag))
+        );
+        setLoans(
+          loanSnapshot.docs.map(
+            (loanDoc) =>
+              ({ id: loanDoc.id, ...loanDoc.data() } as EquipmentLoan)
+          )
+        );
+        setClassrooms(
+          classroomSnapshot.docs.map(
+            (classroomDoc) =>
+              ({ id: classroomDoc.id, ...classroomDoc.data() } as Classroom)
+          )
+        );
+        setUsers(
+          userSnapshot.docs
+            .map((userDoc) => ({ id: userDoc.id, ...userDoc.data() } as User))
+            .sort((a, b) => (a.name || "").localeCompare(b.name || ""))
+        );
+        setBookings(
+          bookingSnapshot.docs.map(
+            (bookingDoc) =>
+              ({ id: bookingDoc.id, ...bookingDoc.data() } as Booking)
+          )
+        );
+      } catch (err) {
+        console.error("Error fetching equipment:", err);
+        showNotification("Failed to load the equipment inventory");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchInventory();
+  }, [showNotification]);
+
+  const now = new Date();
+  const itemOf = (loan: EquipmentLoan) =>
+    equipment.find((item) => item.id === loan.equipmentId);
+  const userName = (userId: string) =>
+    users.find((user) => user.id === userId)?.name || "Unknown user";
+  const keptIn = (item: Equipment) => {
+    const room = classrooms.find(
+      (classroom) => classroom.id === item.homeClassroomId
+    );
+    return room ? describeClassroom(room) : item.location || "-";
+  };
+  const updateLoan = (loanId: string, changes: Partial<EquipmentLoan>) =>
+    setLoans((current) =>
+      current.map((loan) =>
+        loan.id === loanId ? { ...loan, ...changes } : loan
+      )
+    );
+
+  const categories = Array.from(
+    new Set(equipment.map((item) => item.category).filter(Boolean))
+  ).sort();
+  const overdueCount = loans.filter((loan) => isOverdue(loan, now)).length;
+
+  // Hands over an item reserved with a booking
+  const handleCheckOut = async (loan: EquipmentLoan) => {
+    if (!currentUser) return;
+    setHandingOver(loan.id);
+    try {
+      await checkOutEquipment({ loanId: loan.id });
+      updateLoan(loan.id, {
+        status: "checked-out",
+        checkedOutAt: new Date().toISOString(),
+        checkedOutBy: currentUser.uid,
+      });
+      const item = itemOf(loan);
+      showNotification(
+        `${item ? describeEquipment(item) : "Equipment"} checked out`
+      );
+    } catch (err) {
+      if (equipmentClashesFrom(err)) {
+        showNotification((err as Error).message);
+      } else {
+        console.error("Error checking out equipment:", err);
+        showNotification(
+          "Failed to check out the equipment. Please try again."
+        );
+      }
+    } finally {
+      setHandingOver(null);
+    }
+  };
+
+  const handleCancelReservation = (loan: EquipmentLoan) => {
+    const item = itemOf(loan);
+    showConfirm(
+      {
+        title: "Cancel Reservation",
+        message: `Cancel the reservation of ${
+          item ? describeEquipment(item) : "this item"
+        } for ${userName(loan.borrowerId)}? The item will be free to lend.`,
+        confirmLabel: "Cancel reservation",
+        cancelLabel: "Keep",
+        variant: "warning",
+        icon: "bi-x-circle",
+      },
+      async () => {
+        try {
+          const changes: Partial<EquipmentLoan> = {
+            status: "cancelled",
+            cancelledAt: new Date().toISOString(),
+            ...(currentUser && { cancelledBy: currentUser.uid }),
+          };
+          await updateDoc(doc(db, "equipmentLoans", loan.id), changes);
+          updateLoan(loan.id, changes);
+          showNotification("Reservation cancelled");
+        } catch (err) {
+          console.error("Error cancelling reservation:", err);
+          showNotification("Failed to cancel the reservation");
+        }
+      }
+    );
+  };
+
+  const renderItemStatus = (item: Equipment) => {
+    const onLoan = loans.find(
+      (loan) => loan.equipmentId === item.id && loan.status === "checked-out"
+    );
+    if (onLoan) {
+      const overdue = isOverdue(onLoan, now);
+      return (
+        <>
+          <span className={`badge ${overdue ? "bg-danger" : "bg-primary"}`}>
+            {overdue ? "Overdue" : "On loan"}
+          </span>
+          <small className="d-block text-muted">
+            {userName(onLoan.borrowerId)}, due {formatTime(onLoan.dueAt)}
+          </small>
+        </>
+      );
+    }
+    if (!isLendable(item)) {
+      return <span className="text-muted small">Not lendable</span>;
+    }
+    const [next] = loans
+      .filter(
+        (loan) =>
+          loan.equipmentId === item.id &&
+          loan.status === "reserved" &&
+          new Date(loan.dueAt) > now
+      )
+      .sort((a, b) => a.startAt.localeCompare(b.startAt));
+    return (
+      <>
+        <span className="badge bg-success">Available</span>
+        {next && (
+          <small className="d-block text-muted">
+            Reserved from {formatTime(next.startAt)}
+          </small>
+        )}
+      </>
+    );
+  };
+
+  const renderInventory = () => {
+    const term = search.trim().toLowerCase();
+    const shown = equipment.filter(
+      (item) =>
+        (!categoryFilter || item.category === categoryFilter) &&
+        (!term ||
+          [item.assetTag, item.name, keptIn(item)].some((text) =>
+            text.toLowerCase().includes(term)
+          ))
+    );
+
+    return (
+      <div className="card">
+        <div className="card-header bg-white d-flex flex-wrap gap-2 justify-content-between align-items-center">
+          <div className="d-flex gap-2">
+            <input
+              type="search"
+              className="form-control form-control-sm"
+              placeholder="Search tag, name or location"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              aria-label="Search equipment"
+            />
+            <select
+              className="form-select form-select-sm w-auto"
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              aria-label="Category"
+            >
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            className="btn btn-sm btn-primary"
+            onClick={() => setEditing({ item: null })}
+          >
+            <i className="bi bi-plus-circle me-1"></i>
+            Add Equipment
+          </button>
+        </div>
+        <div className="card-body">
+          {shown.length === 0 ? (
+            <p className="text-muted text-center my-4">
+              {equipment.length === 0
+                ? "No equipment yet. Add items to lend them out."
+                : "No equipment matches the search."}
+            </p>
+          ) : (
+            <div className="table-responsive">
+              <table className="table table-hover align-middle">
+                <thead className="table-light">
+                  <tr>
+                    <th>Asset Tag</th>
+                    <th>Item</th>
+                    <th>Kept In</th>
+                    <th>Condition</th>
+                    <th>Status</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((item) => {
+                    const condition = EQUIPMENT_CONDITIONS[item.condition];
+                    const onLoan = loans.some(
+                      (loan) =>
+                        loan.equipmentId === item.id &&
+                        loan.status === "checked-out"
+                    );
+                    return (
+                      <tr key={item.id}>
+                        <td className="fw-semibold">{item.assetTag}</td>
+                        <td>
+                          {item.name}
+                          <small className="d-block text-muted">
+                            {item.category}
+                          </small>
+                        </td>
+                        <td>{keptIn(item)}</td>
+                        <td>
+                          <span className={`badge ${condition.badge}`}>
+                            {condition.label}
+                          </span>
+                        </td>
+                        <td>{renderItemStatus(item)}</td>
+                        <td>
+                          <button
+                            className="btn btn-sm btn-outline-secondary me-2"
+                            onClick={() => setEditing({ item })}
+                          >
+                            <i className="bi bi-pencil"></i> Edit
+                          </button>
+                          <button
+                            className="btn btn-sm btn-outline-primary"
+                            disabled={!isLendable(item) || onLoan}
+                            onClick={() => setLending(item)}
+                          >
+                            <i className="bi bi-box-arrow-right"></i> Lend
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderLoans = () => {
+    const shown = loans
+      .filter((loan) =>
+        loanView === "active"
+          ? isHolding(loan)
+          : loanView === "overdue"
+          ? isOverdue(loan, now)
+          : !isHolding(loan)
+      )
+      .sort((a, b) =>
+        loanView === "history"
+          ? b.startAt.localeCompare(a.startAt)
+          : a.dueAt.localeCompare(b.dueAt)
+      );
+
+    return (
+      <div className="card">
+        <div className="card-header bg-white d-flex justify-content-between align-items-center">
+          <h5 className="card-title mb-0">Loans</h5>
+          <select
+            className="form-select form-select-sm w-auto"
+            value={loanView}
+            onChange={(e) => setLoanView(e.target.value as LoanView)}
+            aria-label="Loans to show"
+          >
+            <option value="active">Reserved and on loan</option>
+            <option value="overdue">Overdue</option>
+            <option value="history">Returned and cancelled</option>
+          </select>
+        </div>
+        <div className="card-body">
+          {shown.length === 0 ? (
+            <p className="text-muted text-center my-4">
+              {loanView === "overdue"
+                ? "Nothing is overdue."
+                : loanView === "active"
+                ? "Nothing is reserved or on loan."
+                : "No past loans yet."}
+            </p>
+          ) : (
+            <div className="table-responsive">
+              <table className="table table-hover align-middle">
+                <thead className="table-light">
+                  <tr>
+                    <th>Item</th>
+                    <th>Borrower</th>
+                    <th>For</th>
+                    <th>From</th>
+                    <th>Due</th>
+                    <th>Status</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((loan) => {
+                    const item = itemOf(loan);
+                    const booking = bookings.find(
+                      (other) => other.id === loan.bookingId
+                    );
+                    const status = LOAN_STATUSES[loan.status];
+                    return (
+                      <tr key={loan.id}>
+                        <td>
+                          {item ? describeEquipment(item) : "Unknown item"}
+                        </td>
+                        <td>{userName(loan.borrowerId)}</td>
+                        <td>
+                          {booking ? (
+                            <>
+                              {booking.title}
+                              <small className="d-block text-muted">
+                                {formatDateKey(booking.date)}
+                              </small>
+                            </>
+                          ) : (
+                            <span className="text-muted">Desk loan</span>
+                          )}
+                        </td>
+                        <td>{formatTime(loan.startAt)}</td>
+                        <td>{formatTime(loan.dueAt)}</td>
+                        <td>
+                          <span className={`badge ${status.badge}`}>
+                            {status.label}
+                          </span>
+                          {isOverdue(loan, now) && (
+                            <span className="badge bg-danger ms-1">
+                              Overdue
+                            </span>
+                          )}
+                          {loan.status === "returned" && loan.returnedAt && (
+                            <small className="d-block text-muted">
+                              {formatTime(loan.returnedAt)}
+                              {loan.returnCondition &&
+                                `, ${EQUIPMENT_CONDITIONS[
+                                  loan.returnCondition
+                                ].label.toLowerCase()}`}
+                            </small>
+                          )}
+                          {loan.returnNotes && (
+                            <small className="d-block text-muted">
+                              {loan.returnNotes}
+                            </small>
+                          )}
+                        </td>
+                        <td className="text-end">
+                          {loan.status === "reserved" && (
+                            <>
+                              <button
+                                className="btn btn-sm btn-primary me-2"
+                                disabled={handingOver === loan.id}
+                                onClick={() => handleCheckOut(loan)}
+                              >
+                                <i className="bi bi-box-arrow-right me-1"></i>
+                                Check out
+                              </button>
+                              <button
+                                className="btn btn-sm btn-outline-danger"
+                                onClick={() => handleCancelReservation(loan)}
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          )}
+                          {loan.status === "checked-out" && item && (
+                            <button
+                              className="btn btn-sm btn-success"
+                              onClick={() => setReturning(loan)}
+                            >
+                              <i className="bi bi-box-arrow-in-left me-1"></i>
+                              Return
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-5">
+        <div className="spinner-border text-primary" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const returningItem = returning && itemOf(returning);
+
+  return (
+    <div className="equipment-management">
+      <ul className="nav nav-tabs mb-4">
+        <li className="nav-item">
+          <button
+            className={`nav-link ${activeTab === "inventory" ? "active" : ""}`}
+            onClick={() => setActiveTab("inventory")}
+          >
+            <i className="bi bi-laptop me-1"></i>
+            Inventory
+          </button>
+        </li>
+        <li className="nav-item">
+          <button
+            className={`nav-link ${activeTab === "loans" ? "active" : ""}`}
+            onClick={() => setActiveTab("loans")}
+          >
+            <i className="bi bi-arrow-left-right me-1"></i>
+            Loans
+            {overdueCount > 0 && (
+              <span className="badge bg-danger ms-2">{overdueCount}</span>
+            )}
+          </button>
+        </li>
+      </ul>
+
+      <div className="tab-content">
+        {activeTab === "inventory" && renderInventory()}
+        {activeTab === "loans" && renderLoans()}
+      </div>
+
+      {editing && (
+        <EquipmentDialog
+          item={editing.item}
+          equipment={equipment}
+          classrooms={classrooms}
+          onClose={() => setEditing(null)}
+          onSaved={(saved) => {
+            setEquipment((current) =>
+              (current.some((item) => item.id === saved.id)
+                ? current.map((item) => (item.id === saved.id ? saved : item))
+                : [...current, saved]
+              ).sort((a, b) => a.assetTag.localeCompare(b.assetTag))
+            );
+            setEditing(null);
+          }}
+        />
+      )}
+
+      {lending && (
+        <EquipmentLoanDialog
+          item={lending}
+          users={users}
+          onClose={() => setLending(null)}
+          onCheckedOut={(loan) => {
+            setLoans((current) => [...current, loan]);
+            setLending(null);
+          }}
+        />
+      )}
+
+      {returning && returningItem && (
+        <EquipmentReturnDialog
+          loan={returning}
+          item={returningItem}
+          borrowerName={userName(returning.borrowerId)}
+          onClose={() => setReturning(null)}
+          onReturned={(changes, condition) => {
+            updateLoan(returning.id, changes);
+            setEquipment((current) =>
+              current.map((item) =>
+                item.id === returningItem.id ? { ...item, condition } : item
+              )
+            );
+            setReturning(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EquipmentManagement;
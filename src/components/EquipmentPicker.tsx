@@ -0,0 +1,97 @@
+import React from "react";
+import { Classroom } from "../interfaces/Classroom";
+import { Equipment, EquipmentLoan } from "../interfaces/Equipment";
+import { MAX_EQUIPMENT_PER_BOOKING, freeEquipment } from "../utils/equipment";
+import { describeClassroom } from "../utils/scheduleRefs";
+
+interface EquipmentPickerProps {
+  equipment: Equipment[];
+  loans: EquipmentLoan[]; // At least every loan holding an item
+  classroomsById: Map<string, Classroom>;
+  startAt: Date;
+  endAt: Date;
+  repeats: boolean;
+  selected: string[]; // Equipment IDs
+  onChange: (selected: string[]) => void;
+}
+
+// Lets a booking reserve equipment that nobody else has reserved or borrowed
+// for its time. Items chosen earlier that aren't free at the time drop out.
+const EquipmentPicker: React.FC<EquipmentPickerProps> = ({
+  equipment,
+  loans,
+  classroomsById,
+  startAt,
+  endAt,
+  repeats,
+  selected,
+  onChange,
+}) => {
+  const available = freeEquipment(equipment, loans, startAt, endAt);
+  if (equipment.length === 0) return null;
+
+  const chosen = selected.filter((id) =>
+    available.some((item) => item.id === id)
+  );
+  const toggle = (itemId: string) =>
+    onChange(
+      chosen.includes(itemId)
+        ? chosen.filter((id) => id !== itemId)
+        : [...chosen, itemId]
+    );
+  const keptIn = (item: Equipment) => {
+    const room = item.homeClassroomId
+      ? classroomsById.get(item.homeClassroomId)
+      : undefined;
+    return room ? describeClassroom(room) : item.location;
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="form-label">Equipment (optional)</label>
+      {available.length === 0 ? (
+        <p className="text-muted small mb-0">
+          All equipment is reserved or on loan at this time.
+        </p>
+      ) : (
+        <div
+          className="border rounded p-2"
+          style={{ maxHeight: "180px", overflowY: "auto" }}
+        >
+          {available.map((item) => (
+            <div key={item.id} className="form-check">
+              <input
+                id={`equipment-${item.id}`}
+                type="checkbox"
+                className="form-check-input"
+                checked={chosen.includes(item.id)}
+                disabled={
+                  !chosen.includes(item.id) &&
+                  chosen.length >= MAX_EQUIPMENT_PER_BOOKING
+                }
+                onChange={() => toggle(item.id)}
+              />
+              <label
+                className="form-check-label small"
+                htmlFor={`equipment-${item.id}`}
+              >
+                {item.name}{" "}
+                <span className="text-muted">
+                  ({item.assetTag}, {item.category}
+                  {keptIn(item) && `, ${keptIn(item)}`})
+                </span>
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+      <small className="text-muted">
+        {repeats
+          ? "Reserved for every date of the series; each date is checked when you submit."
+          : "Reserved for the booking's time. Collect it from an admin when it starts."}
+      </small>
+    </div>
+  );
+};
+
+export default EquipmentPicker;
@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { Timestamp, doc, writeBatch } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { Equipment, EquipmentLoan } from "../interfaces/Equipment";
+import {
+  EQUIPMENT_CONDITIONS,
+  describeEquipment,
+  isOverdue,
+} from "../utils/equipment";
+
+interface EquipmentReturnDialogProps {
+  loan: EquipmentLoan;
+  item: Equipment;
+  borrowerName: string;
+  onClose: () => void;
+  onReturned: (
+    changes: Partial<EquipmentLoan>,
+    condition: Equipment["condition"]
+  ) => void;
+}
+
+// Checks an item back in, recording the condition it came back in as the
+// item's condition. Damaged items can't be lent until they're marked good
+// again.
+const EquipmentReturnDialog: React.FC<EquipmentReturnDialogProps> = ({
+  loan,
+  item,
+  borrowerName,
+  onClose,
+  onReturned,
+}) => {
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const [condition, setCondition] = useState<Equipment["condition"]>(
+    item.condition
+  );
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    setSaving(true);
+    try {
+      const changes: Partial<EquipmentLoan> = {
+        status: "returned",
+        returnedAt: new Date().toISOString(),
+        returnedBy: currentUser.uid,
+        returnCondition: condition,
+        ...(notes.trim() && { returnNotes: notes.trim() }),
+      };
+      const batch = writeBatch(db);
+      batch.update(doc(db, "equipmentLoans", loan.id), changes);
+      batch.update(doc(db, "equipment", item.id), {
+        condition,
+        updatedAt: Timestamp.now(),
+      });
+      await batch.commit();
+      onReturned(changes, condition);
+      showNotification(`${describeEquipment(item)} returned`);
+    } catch (err) {
+      console.error("Error returning equipment:", err);
+      showNotification("Failed to return the equipment. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Return {describeEquipment(item)}</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <p>
+                Lent to {borrowerName}, due back{" "}
+                {new Date(loan.dueAt).toLocaleString([], {
+                  month: "short",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+                .
+                {isOverdue(loan) && (
+                  <span className="badge bg-danger ms-2">Overdue</span>
+                )}
+              </p>
+              <div className="mb-3">
+                <label className="form-label" htmlFor="return-condition">
+                  Condition
+                </label>
+                <select
+                  id="return-condition"
+                  className="form-select"
+                  value={condition}
+                  onChange={(e) =>
+                    setCondition(e.target.value as Equipment["condition"])
+                  }
+                >
+                  {Object.entries(EQUIPMENT_CONDITIONS).map(
+                    ([value, { label }]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+              <label className="form-label" htmlFor="return-notes">
+                Notes (optional)
+              </label>
+              <textarea
+                id="return-notes"
+                className="form-control"
+                rows={2}
+                placeholder="e.g., Lamp flickers on start-up"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              ></textarea>
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn btn-success"
+                disabled={saving}
+              >
+                <i className="bi bi-box-arrow-in-left me-1"></i>
+                {saving ? "Returning..." : "Return"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EquipmentReturnDialog;
@@ -9,6 +9,8 @@ import {
 import { db } from "../firebase";
 import { Booking } from "../interfaces/Booking";
 import { Classroom } from "../interfaces/Classroom";
+import { User } from "../interfaces/User";
+import { LATE_CANCELLATION_HOURS, isLateCancellation } from "../utils/bookings";
 import {
   Chart as ChartJS,
   ArcElement,
@@ -32,6 +34,54 @@ ChartJS.register(
   Legend
 );
 
+interface CancellationRow {
+  id: string;
+  name: string;
+  total: number; // Bookings made, leaving out rejected requests
+  cancelled: number;
+  late: number; // Cancelled within LATE_CANCELLATION_HOURS of the start
+  noShows: number; // Released because nobody checked in
+}
+
+// Cancellations and no-shows grouped by whoever the booking was for, or by
+// room, most cancellations first
+const cancellationRows = (
+  bookingData: Booking[],
+  keyOf: (booking: Booking) => string,
+  nameOf: (key: string) => string
+): CancellationRow[] => {
+  const rows = new Map<string, CancellationRow>();
+  bookingData
+    .filter((booking) => booking.status !== "rejected")
+    .forEach((booking) => {
+      const key = keyOf(booking);
+      const row = rows.get(key) || {
+        id: key,
+        name: nameOf(key),
+        total: 0,
+        cancelled: 0,
+        late: 0,
+        noShows: 0,
+      };
+      row.total++;
+      if (booking.status === "cancelled") {
+        row.cancelled++;
+        if (isLateCancellation(booking)) row.late++;
+      }
+      if (booking.status === "no-show") row.noShows++;
+      rows.set(key, row);
+    });
+  return Array.from(rows.values())
+    .filter((row) => row.cancelled > 0 || row.noShows > 0)
+    .sort(
+      (a, b) =>
+        b.cancelled - a.cancelled || b.late - a.late || b.noShows - a.noShows
+    );
+};
+
+const rate = (part: number, total: number): string =>
+  total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "-";
+
 const FacilityReports: React.FC = () => {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [classrooms, setClassrooms] = useState<Classroom[]>([]);
@@ -44,6 +94,12 @@ const FacilityReports: React.FC = () => {
   const [mostBookedClassrooms, setMostBookedClassrooms] = useState<any[]>([]);
   const [bookingsByType, setBookingsByType] = useState<any>(null);
   const [timeSlotData, setTimeSlotData] = useState<any>(null);
+  const [cancellationsByUser, setCancellationsByUser] = useState<
+    CancellationRow[]
+  >([]);
+  const [cancellationsByRoom, setCancellationsByRoom] = useState<
+    CancellationRow[]
+  >([]);
 
   useEffect(() => {
     fetchData();
@@ -82,8 +138,39 @@ const FacilityReports: React.FC = () => {
 
       setBookings(filteredBookings);
 
-      // Generate report data
-      generateReportData(filteredBookings, classroomList);
+      // Cancelled, rejected and no-show bookings are kept as history; only
+      // the rest used a room
+      generateReportData(
+        filteredBookings.filter(
+          (booking) =>
+            booking.status !== "cancelled" &&
+            booking.status !== "rejected" &&
+            booking.status !== "no-show"
+        ),
+        classroomList
+      );
+
+      // Fetch users to name who cancelled
+      const userSnapshot = await getDocs(collection(db, "users"));
+      const userNames = new Map(
+        userSnapshot.docs.map((doc) => [doc.id, (doc.data() as User).name])
+      );
+      setCancellationsByUser(
+        cancellationRows(
+          filteredBookings,
+          (booking) => booking.bookedFor || booking.bookedBy,
+          (userId) => userNames.get(userId) || "Unknown user"
+        )
+      );
+      setCancellationsByRoom(
+        cancellationRows(
+          filteredBookings,
+          (booking) => booking.classroomId,
+          (classroomId) =>
+            classroomList.find((room) => room.id === classroomId)?.name ||
+            "Unknown Room"
+        )
+      );
 
       setLoading(false);
     } catch (error) {
@@ -317,6 +404,68 @@ const FacilityReports: React.FC = () => {
     });
   };
 
+  const madeCount = bookings.filter(
+    (booking) => booking.status !== "rejected"
+  ).length;
+  const cancelledCount = bookings.filter(
+    (booking) => booking.status === "cancelled"
+  ).length;
+  const lateCount = bookings.filter(
+    (booking) => booking.status === "cancelled" && isLateCancellation(booking)
+  ).length;
+  const noShowCount = bookings.filter(
+    (booking) => booking.status === "no-show"
+  ).length;
+
+  // Top ten users or rooms by cancellations
+  const renderCancellationTable = (label: string, rows: CancellationRow[]) => (
+    <div className="table-responsive">
+      <table className="table table-hover table-sm">
+        <thead className="table-light">
+          <tr>
+            <th>{label}</th>
+            <th>Bookings</th>
+            <th>Cancelled</th>
+            <th>Rate</th>
+            <th>Late</th>
+            <th>No-shows</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, 10).map((row) => (
+            <tr key={row.id}>
+              <td>{row.name}</td>
+              <td>{row.total}</td>
+              <td>{row.cancelled}</td>
+              <td>{rate(row.cancelled, row.total)}</td>
+              <td>
+                {row.late > 0 ? (
+                  <span className="badge bg-warning text-dark">{row.late}</span>
+                ) : (
+                  0
+                )}
+              </td>
+              <td>
+                {row.noShows > 0 ? (
+                  <span className="badge bg-dark">{row.noShows}</span>
+                ) : (
+                  0
+                )}
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={6} className="text-center">
+                No cancellations or no-shows
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+
   return (
     <div className="facility-reports">
       {loading ? (
@@ -592,6 +741,33 @@ const FacilityReports: React.FC = () => {
                   </div>
                 </div>
               </div>
+
+              <div className="card mt-4">
+                <div className="card-header bg-white">
+                  <h5 className="card-title mb-0">
+                    Cancellations and No-shows
+                  </h5>
+                </div>
+                <div className="card-body">
+                  <p className="text-muted small">
+                    {cancelledCount} of {madeCount} bookings cancelled (
+                    {rate(cancelledCount, madeCount)}), {lateCount} of them less
+                    than {LATE_CANCELLATION_HOURS} hours before the start.{" "}
+                    {noShowCount} released because nobody checked in.
+                  </p>
+                  <div className="row g-4">
+                    <div className="col-md-6">
+                      {renderCancellationTable("User", cancellationsByUser)}
+                    </div>
+                    <div className="col-md-6">
+                      {renderCancellationTable(
+                        "Classroom",
+                        cancellationsByRoom
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
             </>
           )}
         </>
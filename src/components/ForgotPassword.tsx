@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { resetPassword } = useAuth();
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setError("");
+      setMessage("");
+      setLoading(true);
+      await resetPassword(email);
+      // Same message whether or not the account exists
+      setMessage(
+        "If an account exists for this email, a password reset link is on its way."
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to request a password reset"
+      );
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card fade-in">
+        <div className="auth-header">
+          <h2 className="mb-0">Reset Password</h2>
+          <p className="text-muted">
+            We'll email you a link to choose a new password
+          </p>
+        </div>
+
+        <div className="auth-body">
+          {error && (
+            <div className="alert alert-danger mb-4" role="alert">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="alert alert-success mb-4" role="alert">
+              {message}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="auth-form">
+            <div className="mb-4">
+              <label htmlFor="email" className="form-label">
+                Email Address
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                className="form-control"
+                placeholder="name@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            <div className="d-grid mb-4">
+              <button
+                type="submit"
+                className="btn btn-primary py-2"
+                disabled={loading}
+              >
+                {loading ? (
+                  <>
+                    <span
+                      className="spinner-border spinner-border-sm me-2"
+                      role="status"
+                      aria-hidden="true"
+                    ></span>
+                    Sending...
+                  </>
+                ) : (
+                  "Send reset link"
+                )}
+              </button>
+            </div>
+
+            <div className="text-center">
+              <p className="mb-0">
+                Remembered it?{" "}
+                <Link to="/login" className="auth-link">
+                  Back to sign in
+                </Link>
+              </p>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,20 @@ import { db } from "../firebase";
 import MaterialsViewer from "./MaterialsViewer";
 import ChatInterface from "./ChatInterface";
 import ChatManagement from "./ChatManagement";
+import NotificationBell from "./NotificationBell";
+import PinnedAnnouncements from "./PinnedAnnouncements";
+import CalendarExport from "./CalendarExport";
+import UpcomingClassChanges from "./UpcomingClassChanges";
+import AvailabilityEditor from "./AvailabilityEditor";
+import AbsenceReports from "./AbsenceReports";
+import TimetablePrintDialog from "./TimetablePrintDialog";
+import BookingRequests from "./BookingRequests";
+import { OccurrenceOverride, RecurrenceRule } from "../interfaces/Schedule";
+import { describeScheduleDates, resolveRecurrence } from "../utils/recurrence";
+import {
+  loadScheduleDirectory,
+  resolveScheduleRefs,
+} from "../utils/scheduleRefs";
 
 // Define Schedule interface
 interface Schedule {
@@ -29,8 +43,11 @@ interface Schedule {
   startTime: string;
   endTime: string;
   date: string;
-  dayOfWeek: string;
-  isRecurring: boolean;
+  recurrence?: RecurrenceRule | null;
+  overrides?: OccurrenceOverride[];
+  moduleId?: string;
+  lecturerId?: string;
+  classroomId?: string;
 }
 
 export default function LecturerDashboard() {
@@ -53,6 +70,7 @@ export default function LecturerDashboard() {
   // Schedule state
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [schedulesLoading, setSchedulesLoading] = useState(true);
+  const [isPrintingTimetable, setIsPrintingTimetable] = useState(false);
 
   // Profile management state
   const [name, setName] = useState("");
@@ -138,58 +156,32 @@ export default function LecturerDashboard() {
         return;
       }
 
-      console.log("Fetching schedules for lecturer:", userData.name);
+      const uid = userData.uid || currentUser?.uid;
+      console.log("Fetching schedules for lecturer:", uid);
 
       try {
         setSchedulesLoading(true);
         const schedulesCollection = collection(db, "schedules");
 
-        // Log all schedules first to see what's in the collection
-        const allSchedulesSnapshot = await getDocs(schedulesCollection);
-        const allSchedules = allSchedulesSnapshot.docs.map(
-          (doc) =>
-            ({
-              id: doc.id,
-              ...doc.data(),
-            } as Schedule)
-        );
-        console.log("All schedules in collection (with lecturer names):");
-        allSchedules.forEach((schedule) => {
-          console.log(`- Schedule ID: ${schedule.id}`);
-          console.log(`  Module: ${schedule.moduleTitle}`);
-          console.log(`  Lecturer: "${schedule.lecturerName}"`);
-          console.log(`  Branch: ${schedule.branch}`);
-          console.log("---");
-        });
-
-        // Filter schedules by lecturer name
+        // Schedules reference the lecturer by user ID
         const q = query(
           schedulesCollection,
-          where("lecturerName", "==", userData.name)
+          where("lecturerId", "==", uid)
         );
-
-        console.log(
-          "Executing Firestore query for lecturer name:",
-          userData.name
-        );
-        const scheduleSnapshot = await getDocs(q);
+        const [scheduleSnapshot, directory] = await Promise.all([
+          getDocs(q),
+          loadScheduleDirectory(),
+        ]);
         console.log("Query results:", scheduleSnapshot.size, "documents found");
 
-        if (scheduleSnapshot.empty) {
-          console.log("No schedules found for this lecturer name");
-          console.log("Current user's name:", userData.name);
-          console.log("Available lecturer names in schedules:");
-          allSchedules.forEach((schedule) => {
-            console.log(`- ${schedule.lecturerName}`);
-          });
-        }
-
-        const scheduleList = scheduleSnapshot.docs.map(
-          (doc) =>
-            ({
+        const scheduleList = scheduleSnapshot.docs.map((doc) =>
+          resolveScheduleRefs(
+            {
               id: doc.id,
               ...doc.data(),
-            } as Schedule)
+            } as Schedule,
+            directory
+          )
         );
         setSchedules(scheduleList);
       } catch (err) {
@@ -201,7 +193,7 @@ export default function LecturerDashboard() {
     }
 
     fetchLecturerSchedules();
-  }, [userData, showNotification]);
+  }, [userData, currentUser, showNotification]);
 
   // Update profile function
   const handleUpdateProfile = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -280,6 +272,8 @@ export default function LecturerDashboard() {
         return renderClassesSection();
       case "materials":
         return renderMaterialsSection();
+      case "availability":
+        return renderAvailabilitySection();
       case "bookings":
         return renderBookingsSection();
       case "students":
@@ -1006,6 +1000,15 @@ export default function LecturerDashboard() {
           <div className="dashboard-card">
             <div className="d-flex justify-content-between align-items-center mb-4">
               <h5 className="mb-0">Current Classes</h5>
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-primary"
+                onClick={() => setIsPrintingTimetable(true)}
+                disabled={!currentUser}
+              >
+                <i className="bi bi-printer me-1"></i>
+                Print Timetable
+              </button>
             </div>
 
             {schedulesLoading ? (
@@ -1039,17 +1042,11 @@ export default function LecturerDashboard() {
                       <tr key={schedule.id}>
                         <td>{schedule.moduleTitle}</td>
                         <td>
-                          {schedule.isRecurring ? (
-                            <span>
-                              Every {schedule.dayOfWeek}, {schedule.startTime} -{" "}
-                              {schedule.endTime}
-                            </span>
-                          ) : (
-                            <span>
-                              {new Date(schedule.date).toLocaleDateString()},{" "}
-                              {schedule.startTime} - {schedule.endTime}
-                            </span>
-                          )}
+                          <span>
+                            {describeScheduleDates(schedule)},{" "}
+                            {schedule.startTime} - {schedule.endTime}
+                          </span>
+                          <UpcomingClassChanges schedule={schedule} />
                         </td>
                         <td>
                           Floor {schedule.floorNumber}, Room{" "}
@@ -1057,7 +1054,7 @@ export default function LecturerDashboard() {
                         </td>
                         <td>{schedule.branch}</td>
                         <td>
-                          {schedule.isRecurring ? (
+                          {resolveRecurrence(schedule) ? (
                             <span className="badge bg-success">Recurring</span>
                           ) : (
                             <span className="badge bg-primary">One-time</span>
@@ -1071,7 +1068,32 @@ export default function LecturerDashboard() {
             )}
           </div>
         </div>
+        {currentUser && !schedulesLoading && (
+          <div className="col-12 mb-4">
+            <AbsenceReports
+              lecturerId={currentUser.uid}
+              lecturerName={userData?.name || ""}
+              schedules={schedules}
+            />
+          </div>
+        )}
+        <div className="col-12 mb-4">
+          <CalendarExport />
+        </div>
       </div>
+
+      {isPrintingTimetable && currentUser && (
+        <TimetablePrintDialog
+          subjects={[
+            {
+              kind: "lecturer",
+              id: currentUser.uid,
+              label: userData?.name || "",
+            },
+          ]}
+          onClose={() => setIsPrintingTimetable(false)}
+        />
+      )}
     </div>
   );
 
@@ -1087,6 +1109,18 @@ export default function LecturerDashboard() {
     </div>
   );
 
+  // Availability section
+  const renderAvailabilitySection = () => (
+    <div className="slide-in section-content">
+      <div className="section-title mb-4">
+        <i className="bi bi-calendar-week"></i>
+        Availability & Preferences
+      </div>
+
+      {currentUser && <AvailabilityEditor lecturerId={currentUser.uid} />}
+    </div>
+  );
+
   // Bookings section
   const renderBookingsSection = () => (
     <div className="slide-in section-content">
@@ -1095,97 +1129,7 @@ export default function LecturerDashboard() {
         Room & Resource Bookings
       </div>
 
-      <div className="row mb-4">
-        <div className="col-lg-6 mb-4 mb-lg-0">
-          <div className="dashboard-card h-100">
-            <h5 className="mb-4">Make a Booking</h5>
-
-            <div className="mb-3">
-              <label className="form-label">Resource Type</label>
-              <select className="form-select">
-                <option>Classroom</option>
-                <option>Lab</option>
-                <option>Equipment</option>
-                <option>Meeting Room</option>
-              </select>
-            </div>
-
-            <div className="mb-3">
-              <label className="form-label">Date</label>
-              <input type="date" className="form-control" />
-            </div>
-
-            <div className="row mb-3">
-              <div className="col-6">
-                <label className="form-label">Start Time</label>
-                <input type="time" className="form-control" />
-              </div>
-              <div className="col-6">
-                <label className="form-label">End Time</label>
-                <input type="time" className="form-control" />
-              </div>
-            </div>
-
-            <div className="mb-3">
-              <label className="form-label">Purpose</label>
-              <textarea
-                className="form-control"
-                rows={3}
-                placeholder="Describe the purpose of this booking..."
-              ></textarea>
-            </div>
-
-            <button className="btn btn-primary">
-              <i className="bi bi-check-circle me-1"></i> Confirm Booking
-            </button>
-          </div>
-        </div>
-
-        <div className="col-lg-6">
-          <div className="dashboard-card h-100">
-            <h5 className="mb-4">Your Upcoming Bookings</h5>
-
-            <div className="mb-3 border-start border-primary border-3 ps-3">
-              <h6 className="mb-1">Room 302 - Lecture</h6>
-              <small className="text-muted d-block mb-2">
-                Tomorrow, 9:00 AM - 10:30 AM
-              </small>
-              <div className="d-flex justify-content-between align-items-center">
-                <span className="badge bg-success">Confirmed</span>
-                <button className="btn btn-sm btn-outline-danger">
-                  <i className="bi bi-x-circle me-1"></i> Cancel
-                </button>
-              </div>
-            </div>
-
-            <div className="mb-3 border-start border-primary border-3 ps-3">
-              <h6 className="mb-1">Lab 105 - Project Supervision</h6>
-              <small className="text-muted d-block mb-2">
-                May 15, 3:30 PM - 5:00 PM
-              </small>
-              <div className="d-flex justify-content-between align-items-center">
-                <span className="badge bg-success">Confirmed</span>
-                <button className="btn btn-sm btn-outline-danger">
-                  <i className="bi bi-x-circle me-1"></i> Cancel
-                </button>
-              </div>
-            </div>
-
-            <div className="mb-0 border-start border-warning border-3 ps-3">
-              <h6 className="mb-1">Projector - Class Presentation</h6>
-              <small className="text-muted d-block mb-2">
-                May 18, 1:00 PM - 2:30 PM
-              </small>
-              <div className="d-flex justify-content-between align-items-center">
-                <span className="badge bg-warning text-dark">Pending</span>
-                <button className="btn btn-sm btn-outline-danger">
-                  <i className="bi bi-x-circle me-1"></i> Cancel
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
+      <BookingRequests />
     </div>
   );
 
@@ -1389,6 +1333,15 @@ export default function LecturerDashboard() {
             <i className="bi bi-file-earmark-text"></i>
             <span>Materials</span>
           </div>
+          <div
+            className={`admin-menu-item ${
+              activeSection === "availability" ? "active" : ""
+            }`}
+            onClick={() => setActiveSection("availability")}
+          >
+            <i className="bi bi-calendar-week"></i>
+            <span>Availability</span>
+          </div>
           <div
             className={`admin-menu-item ${
               activeSection === "bookings" ? "active" : ""
@@ -1492,15 +1445,20 @@ export default function LecturerDashboard() {
         </div>
 
         {/* Welcome header */}
-        <div className="mb-4">
-          <h1 className="h3 fw-bold">
-            Welcome, {userData?.name || "Lecturer"}
-          </h1>
-          <p className="text-muted">
-            Manage your classes, academic resources, and student interactions.
-          </p>
+        <div className="mb-4 d-flex justify-content-between align-items-start">
+          <div>
+            <h1 className="h3 fw-bold">
+              Welcome, {userData?.name || "Lecturer"}
+            </h1>
+            <p className="text-muted">
+              Manage your classes, academic resources, and student interactions.
+            </p>
+          </div>
+          <NotificationBell />
         </div>
 
+        <PinnedAnnouncements />
+
         {/* Container for dynamic content */}
         <div className="content-container">
           <div className="section-wrapper">{renderContent()}</div>
@@ -1,6 +1,7 @@
 import React from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import NotificationBell from "./NotificationBell";
 
 export default function NavBar() {
   const { userData, logout } = useAuth();
@@ -50,12 +51,15 @@ export default function NavBar() {
         </button>
 
         <div className="collapse navbar-collapse" id="navbarNav">
-          <ul className="navbar-nav ms-auto">
+          <ul className="navbar-nav ms-auto align-items-lg-center">
             <li className="nav-item">
               <Link className="nav-link" to={getDashboardLink()}>
                 Dashboard
               </Link>
             </li>
+            <li className="nav-item mx-lg-2">
+              <NotificationBell buttonClassName="btn btn-link nav-link" />
+            </li>
             <li className="nav-item dropdown">
               <a
                 className="nav-link dropdown-toggle"
@@ -0,0 +1,103 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import moment from "moment";
+import { useNotification } from "../contexts/NotificationContext";
+import { InboxNotification } from "../interfaces/Notification";
+import "../styles/Notification.css";
+
+// Number of notifications previewed in the dropdown
+const PREVIEW_COUNT = 5;
+
+interface NotificationBellProps {
+  buttonClassName?: string;
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({
+  buttonClassName = "btn btn-outline-secondary",
+}) => {
+  const { inbox, unreadCount, markAsRead, markAllAsRead } = useNotification();
+  const navigate = useNavigate();
+
+  const handleOpen = (notification: InboxNotification) => {
+    if (!notification.isRead) {
+      markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <div className="dropdown notification-bell">
+      <button
+        className={`${buttonClassName} position-relative`}
+        type="button"
+        data-bs-toggle="dropdown"
+        data-bs-auto-close="outside"
+        aria-expanded="false"
+        aria-label="Notifications"
+      >
+        <i className="bi bi-bell"></i>
+        {unreadCount > 0 && (
+          <span className="position-absolute top-0 start-100 translate-middle badge rounded-pill bg-danger">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+      <div className="dropdown-menu dropdown-menu-end p-0 notification-bell-menu">
+        <div className="d-flex justify-content-between align-items-center px-3 py-2 border-bottom">
+          <strong>Notifications</strong>
+          <button
+            className="btn btn-link btn-sm p-0"
+            onClick={() => markAllAsRead()}
+            disabled={unreadCount === 0}
+          >
+            Mark all as read
+          </button>
+        </div>
+
+        {inbox.length === 0 ? (
+          <div className="text-center text-muted py-4 small">
+            <i className="bi bi-bell-slash d-block fs-4 mb-1"></i>
+            You're all caught up
+          </div>
+        ) : (
+          <div className="list-group list-group-flush">
+            {inbox.slice(0, PREVIEW_COUNT).map((notification) => (
+              <button
+                key={notification.id}
+                className={`list-group-item list-group-item-action ${
+                  notification.isRead ? "" : "notification-unread"
+                }`}
+                onClick={() => handleOpen(notification)}
+              >
+                <div className="d-flex justify-content-between">
+                  <span className="fw-semibold small">
+                    {notification.title}
+                  </span>
+                  <small className="text-muted ms-2 text-nowrap">
+                    {moment(notification.createdAt).fromNow()}
+                  </small>
+                </div>
+                <div className="small text-muted text-truncate">
+                  {notification.message}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="border-top text-center py-2">
+          <button
+            className="btn btn-link btn-sm"
+            onClick={() => navigate("/notifications")}
+          >
+            View all notifications
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import moment from "moment";
+import { useNotification } from "../contexts/NotificationContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import { InboxNotification } from "../interfaces/Notification";
+import NavBar from "./NavBar";
+
+// Icon shown next to each notification category
+const categoryIcons: Record<string, string> = {
+  general: "bi-info-circle",
+  events: "bi-calendar-event",
+  schedule: "bi-calendar3",
+  bookings: "bi-door-open",
+  chatMentions: "bi-chat-dots",
+  grades: "bi-award",
+  fees: "bi-cash-coin",
+  announcements: "bi-megaphone",
+};
+
+export default function NotificationInbox() {
+  const {
+    inbox,
+    unreadCount,
+    inboxLoading,
+    hasMoreInbox,
+    loadMoreInbox,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  } = useNotification();
+  const { showConfirm } = useConfirm();
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<"all" | "unread">("all");
+
+  const visibleNotifications =
+    filter === "unread" ? inbox.filter((n) => !n.isRead) : inbox;
+
+  const handleOpen = (notification: InboxNotification) => {
+    if (!notification.isRead) {
+      markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleDelete = (notification: InboxNotification) => {
+    showConfirm(
+      {
+        title: "Delete Notification",
+        message: `Delete "${notification.title}" from your inbox?`,
+        confirmLabel: "Delete",
+        cancelLabel: "Cancel",
+        variant: "danger",
+        icon: "bi-trash",
+      },
+      () => deleteNotification(notification.id)
+    );
+  };
+
+  return (
+    <div className="dashboard-container">
+      <NavBar />
+      <div className="container py-4">
+        <div className="row justify-content-center">
+          <div className="col-12 col-lg-10">
+            <div className="card shadow-sm border-0 rounded-3 fade-in">
+              <div className="card-header bg-white py-3 border-bottom d-flex justify-content-between align-items-center">
+                <div>
+                  <h3 className="mb-1 fs-4">Notifications</h3>
+                  <p className="text-muted mb-0 small">
+                    {unreadCount > 0
+                      ? `You have ${unreadCount} unread notification${
+                          unreadCount === 1 ? "" : "s"
+                        }`
+                      : "You're all caught up"}
+                  </p>
+                </div>
+                <div className="d-flex gap-2">
+                  <div className="btn-group btn-group-sm">
+                    <button
+                      className={`btn ${
+                        filter === "all" ? "btn-primary" : "btn-outline-primary"
+                      }`}
+                      onClick={() => setFilter("all")}
+                    >
+                      All
+                    </button>
+                    <button
+                      className={`btn ${
+                        filter === "unread"
+                          ? "btn-primary"
+                          : "btn-outline-primary"
+                      }`}
+                      onClick={() => setFilter("unread")}
+                    >
+                      Unread
+                    </button>
+                  </div>
+                  <button
+                    className="btn btn-sm btn-outline-secondary"
+                    onClick={() => markAllAsRead()}
+                    disabled={unreadCount === 0}
+                  >
+                    <i className="bi bi-check2-all me-1"></i>
+                    Mark all as read
+                  </button>
+                </div>
+              </div>
+
+              <div className="card-body p-0">
+                {inboxLoading && inbox.length === 0 ? (
+                  <div className="text-center my-5">
+                    <div className="spinner-border text-primary" role="status">
+                      <span className="visually-hidden">Loading...</span>
+                    </div>
+                    <p className="mt-3 text-muted">Loading notifications...</p>
+                  </div>
+                ) : visibleNotifications.length === 0 ? (
+                  <div className="text-center py-5 text-muted">
+                    <i className="bi bi-bell-slash fs-1"></i>
+                    <p className="mt-3">No notifications to show</p>
+                  </div>
+                ) : (
+                  <div className="list-group list-group-flush">
+                    {visibleNotifications.map((notification) => (
+                      <div
+                        key={notification.id}
+                        className={`list-group-item d-flex align-items-start ${
+                          notification.isRead ? "" : "notification-unread"
+                        }`}
+                      >
+                        <i
+                          className={`bi ${
+                            categoryIcons[notification.category] ||
+                            categoryIcons.general
+                          } fs-5 text-primary me-3 mt-1`}
+                        ></i>
+                        <div
+                          className="flex-grow-1"
+                          role="button"
+                          onClick={() => handleOpen(notification)}
+                        >
+                          <div className="d-flex justify-content-between">
+                            <h6 className="mb-1">
+                              {notification.title}
+                              {!notification.isRead && (
+                                <span className="badge bg-primary ms-2">
+                                  New
+                                </span>
+                              )}
+                            </h6>
+                            <small
+                              className="text-muted"
+                              title={moment(notification.createdAt).format(
+                                "LLL"
+                              )}
+                            >
+                              {moment(notification.createdAt).fromNow()}
+                            </small>
+                          </div>
+                          <p className="mb-0 text-muted">
+                            {notification.message}
+                          </p>
+                        </div>
+                        <div className="btn-group btn-group-sm ms-3">
+                          {!notification.isRead && (
+                            <button
+                              className="btn btn-outline-primary"
+                              title="Mark as read"
+                              onClick={() => markAsRead(notification.id)}
+                            >
+                              <i className="bi bi-check2"></i>
+                            </button>
+                          )}
+                          <button
+                            className="btn btn-outline-danger"
+                            title="Delete"
+                            onClick={() => handleDelete(notification)}
+                          >
+                            <i className="bi bi-trash"></i>
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {hasMoreInbox && (
+                <div className="card-footer bg-white text-center">
+                  <button
+                    className="btn btn-sm btn-outline-primary"
+                    onClick={loadMoreInbox}
+                    disabled={inboxLoading}
+                  >
+                    {inboxLoading ? "Loading..." : "Load more"}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
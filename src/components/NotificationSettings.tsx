@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  QuietHours,
+} from "../interfaces/Notification";
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  REQUIRED_CHANNELS,
+  resolveNotificationPreferences,
+} from "../utils/notificationPreferences";
+import PushDeviceSettings from "./PushDeviceSettings";
+
+// Lead times offered for class and event reminders
+const REMINDER_LEAD_OPTIONS = [
+  { value: 15, label: "15 minutes before" },
+  { value: 30, label: "30 minutes before" },
+  { value: 60, label: "1 hour before" },
+  { value: 120, label: "2 hours before" },
+];
+
+export default function NotificationSettings() {
+  const { userData, updateNotificationPreferences } = useAuth();
+  const { showNotification } = useNotification();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    resolveNotificationPreferences(userData?.notificationPreferences)
+  );
+  const [saving, setSaving] = useState(false);
+
+  // Keep the form in sync when the user document changes elsewhere
+  useEffect(() => {
+    setPreferences(
+      resolveNotificationPreferences(userData?.notificationPreferences)
+    );
+  }, [userData?.notificationPreferences]);
+
+  const toggleChannel = (
+    category: NotificationCategory,
+    channel: NotificationChannel
+  ) => {
+    setPreferences((prev) => ({
+      ...prev,
+      categories: {
+        ...prev.categories,
+        [category]: {
+          ...prev.categories[category],
+          [channel]: !prev.categories[category][channel],
+        },
+      },
+    }));
+  };
+
+  const updateQuietHours = <K extends keyof QuietHours>(
+    field: K,
+    value: QuietHours[K]
+  ) => {
+    setPreferences((prev) => ({
+      ...prev,
+      quietHours: { ...prev.quietHours, [field]: value },
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await updateNotificationPreferences(preferences);
+      showNotification("Notification preferences saved");
+    } catch (err) {
+      console.error("Error saving notification preferences:", err);
+      showNotification("Failed to save notification preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card shadow-sm border-0 rounded-3 fade-in mt-4">
+      <div className="card-header bg-white py-3 border-bottom">
+        <h3 className="mb-1 fs-4">Notification Preferences</h3>
+        <p className="text-muted mb-0 small">
+          Choose what you are notified about and how
+        </p>
+      </div>
+
+      <div className="card-body p-4">
+        <form onSubmit={handleSave}>
+          <div className="table-responsive mb-4">
+            <table className="table align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Category</th>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <th key={channel.key} className="text-center">
+                      {channel.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_CATEGORIES.map((category) => (
+                  <tr key={category.key}>
+                    <td>
+                      <div className="fw-semibold">{category.label}</div>
+                      <small className="text-muted">
+                        {category.description}
+                      </small>
+                    </td>
+                    {NOTIFICATION_CHANNELS.map((channel) => {
+                      const required = !!REQUIRED_CHANNELS[
+                        category.key
+                      ]?.includes(channel.key);
+                      return (
+                        <td key={channel.key} className="text-center">
+                          <input
+                            type="checkbox"
+                            className="form-check-input"
+                            aria-label={`${category.label} via ${channel.label}`}
+                            checked={
+                              required ||
+                              preferences.categories[category.key][channel.key]
+                            }
+                            disabled={required}
+                            title={required ? "Always on" : undefined}
+                            onChange={() =>
+                              toggleChannel(category.key, channel.key)
+                            }
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="row g-3">
+            <div className="col-12">
+              <h5 className="text-muted fs-6 mb-1">Quiet Hours</h5>
+              <div className="form-check form-switch">
+                <input
+                  type="checkbox"
+                  id="quiet-hours-enabled"
+                  className="form-check-input"
+                  checked={preferences.quietHours.enabled}
+                  onChange={(e) =>
+                    updateQuietHours("enabled", e.target.checked)
+                  }
+                />
+                <label
+                  htmlFor="quiet-hours-enabled"
+                  className="form-check-label"
+                >
+                  Hold pop-up, email and push notifications during quiet hours
+                </label>
+              </div>
+            </div>
+
+            <div className="col-6 col-md-3 mb-3">
+              <label htmlFor="quiet-hours-start" className="form-label">
+                From
+              </label>
+              <input
+                type="time"
+                id="quiet-hours-start"
+                className="form-control"
+                value={preferences.quietHours.start}
+                onChange={(e) => updateQuietHours("start", e.target.value)}
+                disabled={!preferences.quietHours.enabled}
+              />
+            </div>
+
+            <div className="col-6 col-md-3 mb-3">
+              <label htmlFor="quiet-hours-end" className="form-label">
+                Until
+              </label>
+              <input
+                type="time"
+                id="quiet-hours-end"
+                className="form-control"
+                value={preferences.quietHours.end}
+                onChange={(e) => updateQuietHours("end", e.target.value)}
+                disabled={!preferences.quietHours.enabled}
+              />
+            </div>
+
+            <div className="col-12 col-md-6 mb-3">
+              <label htmlFor="reminder-lead-time" className="form-label">
+                Class & event reminders
+              </label>
+              <select
+                id="reminder-lead-time"
+                className="form-select"
+                value={preferences.reminderLeadMinutes}
+                onChange={(e) =>
+                  setPreferences((prev) => ({
+                    ...prev,
+                    reminderLeadMinutes: parseInt(e.target.value, 10),
+                  }))
+                }
+              >
+                {REMINDER_LEAD_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="col-12 mb-3">
+              <PushDeviceSettings />
+              <Link to="/push-test" className="small d-inline-block mt-2">
+                Send a test push notification
+              </Link>
+            </div>
+
+            <div className="col-12 mt-2">
+              <button
+                type="submit"
+                className="btn btn-primary w-100 py-2"
+                disabled={saving}
+              >
+                {saving ? (
+                  <>
+                    <span
+                      className="spinner-border spinner-border-sm me-2"
+                      role="status"
+                      aria-hidden="true"
+                    ></span>
+                    Saving...
+                  </>
+                ) : (
+                  "Save Preferences"
+                )}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from "react";
+import {
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  query,
+  where,
+} from "firebase/firestore";
+import moment from "moment";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { Announcement, AnnouncementPriority } from "../interfaces/Announcement";
+import { sanitizeHtml } from "../utils/richText";
+
+const PRIORITY_ORDER: Record<AnnouncementPriority, number> = {
+  urgent: 0,
+  important: 1,
+  normal: 2,
+};
+
+const PRIORITY_STYLES: Record<AnnouncementPriority, string> = {
+  urgent: "border-danger",
+  important: "border-warning",
+  normal: "border-primary",
+};
+
+interface PinnedAnnouncement extends Announcement {
+  notificationId: string;
+  isRead: boolean;
+}
+
+// Announcements delivered to the current user that haven't expired or been
+// archived. Each one is found through its inbox entry, which also carries the
+// read state shown to the admin as a read receipt.
+const PinnedAnnouncements: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { markAsRead } = useNotification();
+  const [pinned, setPinned] = useState<PinnedAnnouncement[]>([]);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const announcementsQuery = query(
+      collection(db, "notifications"),
+      where("userId", "==", currentUser.uid),
+      where("category", "==", "announcements")
+    );
+
+    const unsubscribe = onSnapshot(
+      announcementsQuery,
+      async (snapshot) => {
+        try {
+          const items = await Promise.all(
+            snapshot.docs
+              .filter(
+                (notificationDoc) => notificationDoc.data().announcementId
+              )
+              .map(async (notificationDoc) => {
+                const notification = notificationDoc.data();
+                const announcementDoc = await getDoc(
+                  doc(db, "announcements", notification.announcementId)
+                );
+                if (!announcementDoc.exists()) return null;
+
+                const data = announcementDoc.data();
+                return {
+                  id: announcementDoc.id,
+                  ...data,
+                  createdAt: data.createdAt?.toDate
+                    ? data.createdAt.toDate()
+                    : new Date(),
+                  expiresAt: data.expiresAt?.toDate
+                    ? data.expiresAt.toDate()
+                    : undefined,
+                  notificationId: notificationDoc.id,
+                  isRead: notification.isRead,
+                } as PinnedAnnouncement;
+              })
+          );
+
+          const now = new Date();
+          setPinned(
+            items
+              .filter(
+                (item): item is PinnedAnnouncement =>
+                  item !== null &&
+                  item.status !== "archived" &&
+                  (!item.expiresAt || item.expiresAt > now)
+              )
+              .sort(
+                (a, b) =>
+                  PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+                  b.createdAt.getTime() - a.createdAt.getTime()
+              )
+          );
+        } catch (error) {
+          console.error("Error loading announcements:", error);
+        }
+      },
+      (error) => console.error("Error loading announcements:", error)
+    );
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (pinned.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      {pinned.map((announcement) => {
+        // Read announcements stay pinned but collapse to their title
+        const expanded =
+          !announcement.isRead || expandedIds.has(announcement.id);
+
+        return (
+          <div
+            key={announcement.id}
+            className={`card shadow-sm border-0 border-start border-4 ${
+              PRIORITY_STYLES[announcement.priority]
+            } mb-2`}
+          >
+            <div className="card-body py-3">
+              <div className="d-flex justify-content-between align-items-start">
+                <div
+                  role="button"
+                  onClick={() =>
+                    announcement.isRead && toggleExpanded(announcement.id)
+                  }
+                >
+                  <i className="bi bi-pin-angle-fill text-muted me-2"></i>
+                  {announcement.priority !== "normal" && (
+                    <span
+                      className={`badge ${
+                        announcement.priority === "urgent"
+                          ? "bg-danger"
+                          : "bg-warning text-dark"
+                      } me-2 text-capitalize`}
+                    >
+                      {announcement.priority}
+                    </span>
+                  )}
+                  <strong>{announcement.title}</strong>
+                  <div className="small text-muted">
+                    {announcement.createdByName} ·{" "}
+                    {moment(announcement.createdAt).fromNow()}
+                  </div>
+                </div>
+                {!announcement.isRead && (
+                  <button
+                    className="btn btn-sm btn-outline-secondary flex-shrink-0"
+                    onClick={() => markAsRead(announcement.notificationId)}
+                  >
+                    <i className="bi bi-check2 me-1"></i>
+                    Mark as read
+                  </button>
+                )}
+              </div>
+
+              {expanded && (
+                <>
+                  <div
+                    className="mt-2"
+                    dangerouslySetInnerHTML={{
+                      __html: sanitizeHtml(announcement.body),
+                    }}
+                  ></div>
+                  {announcement.attachments?.length > 0 && (
+                    <div className="d-flex flex-wrap gap-2 mt-2">
+                      {announcement.attachments.map((attachment) => (
+                        <a
+                          key={attachment.url}
+                          href={attachment.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="btn btn-sm btn-light"
+                        >
+                          <i className="bi bi-paperclip me-1"></i>
+                          {attachment.name}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PinnedAnnouncements;
@@ -5,6 +5,7 @@ import { useNotification } from "../contexts/NotificationContext";
 import { doc, getDoc } from "firebase/firestore";
 import { db } from "../firebase";
 import NavBar from "./NavBar";
+import NotificationSettings from "./NotificationSettings";
 
 export default function ProfileManagement() {
   const [name, setName] = useState("");
@@ -312,6 +313,8 @@ export default function ProfileManagement() {
                 )}
               </div>
             </div>
+
+            {!loading && !isNewAccount && <NotificationSettings />}
           </div>
         </div>
       </div>
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import {
+  isPushSupported,
+  getDeviceId,
+  enablePushOnDevice,
+  disablePushOnDevice,
+} from "../utils/push";
+
+// Turns Web Push on or off for the browser the user is currently on
+export default function PushDeviceSettings() {
+  const { currentUser, userData } = useAuth();
+  const { showNotification } = useNotification();
+  const [busy, setBusy] = useState(false);
+  const [deviceId] = useState(() => getDeviceId());
+
+  const supported = isPushSupported();
+  const devices = Object.keys(userData?.pushSubscriptions || {});
+  const enabledHere = devices.includes(deviceId);
+  const otherDevices = devices.filter((id) => id !== deviceId).length;
+
+  const handleToggle = async () => {
+    if (!currentUser) return;
+    setBusy(true);
+
+    try {
+      if (enabledHere) {
+        await disablePushOnDevice(currentUser.uid);
+        showNotification("Push notifications turned off for this device");
+      } else {
+        await enablePushOnDevice(currentUser.uid);
+        showNotification("Push notifications turned on for this device");
+      }
+    } catch (err) {
+      console.error("Error updating push subscription:", err);
+      showNotification(
+        err instanceof Error
+          ? err.message
+          : "Failed to update push notifications"
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="d-flex justify-content-between align-items-center border rounded-3 p-3">
+      <div className="me-3">
+        <div className="fw-semibold">
+          <i className="bi bi-phone me-2"></i>
+          Push notifications on this device
+        </div>
+        <small className="text-muted">
+          {!supported
+            ? "This browser doesn't support push notifications."
+            : enabledHere
+            ? "This device receives push notifications for the categories ticked above."
+            : "Get reminders as system notifications, even when Vertex isn't open."}
+          {otherDevices > 0 &&
+            ` Also enabled on ${otherDevices} other device${
+              otherDevices === 1 ? "" : "s"
+            }.`}
+        </small>
+      </div>
+      <button
+        type="button"
+        className={`btn btn-sm text-nowrap ${
+          enabledHere ? "btn-outline-danger" : "btn-outline-primary"
+        }`}
+        onClick={handleToggle}
+        disabled={!supported || busy}
+      >
+        {busy ? (
+          <span
+            className="spinner-border spinner-border-sm"
+            role="status"
+            aria-hidden="true"
+          ></span>
+        ) : enabledHere ? (
+          "Turn off"
+        ) : (
+          "Turn on"
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { OutboxMessage } from "../interfaces/Outbox";
+import { sendTestPush } from "../utils/outbox";
+import { isPushSupported } from "../utils/push";
+import NavBar from "./NavBar";
+import PushDeviceSettings from "./PushDeviceSettings";
+
+// Badge colour for each outbox delivery status
+const statusBadges: Record<string, string> = {
+  pending: "bg-secondary",
+  sending: "bg-info",
+  sent: "bg-success",
+  failed: "bg-danger",
+};
+
+// Sends a push to the current user's devices through the outbox, so the whole
+// path (outbox, push transport, VAPID keys, service worker) can be checked.
+// Against the emulator the push is signed with the development VAPID keys.
+export default function PushTest() {
+  const { currentUser, userData } = useAuth();
+  const { showNotification } = useNotification();
+  const [messageId, setMessageId] = useState<string | null>(null);
+  const [delivery, setDelivery] = useState<Partial<OutboxMessage> | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const deviceCount = Object.keys(userData?.pushSubscriptions || {}).length;
+  const permission = isPushSupported() ? Notification.permission : "denied";
+
+  // Follow the delivery status of the last test message
+  useEffect(() => {
+    if (!messageId) return;
+
+    const unsubscribe = onSnapshot(doc(db, "outbox", messageId), (snapshot) =>
+      setDelivery(snapshot.exists() ? (snapshot.data() as OutboxMessage) : null)
+    );
+    return unsubscribe;
+  }, [messageId]);
+
+  const handleSendTest = async () => {
+    if (!currentUser) return;
+    setSending(true);
+    setDelivery(null);
+
+    try {
+      const id = await sendTestPush();
+      setMessageId(id);
+    } catch (err) {
+      console.error("Error queueing test push:", err);
+      showNotification("Failed to queue the test push notification");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="dashboard-container">
+      <NavBar />
+      <div className="container py-4">
+        <div className="row justify-content-center">
+          <div className="col-12 col-md-10 col-lg-8">
+            <div className="card shadow-sm border-0 rounded-3 fade-in">
+              <div className="card-header bg-white py-3 border-bottom">
+                <h3 className="mb-1 fs-4">Push Notification Test</h3>
+                <p className="text-muted mb-0 small">
+                  Check that push notifications reach your devices
+                </p>
+              </div>
+
+              <div className="card-body p-4">
+                <dl className="row small mb-4">
+                  <dt className="col-sm-4">Browser support</dt>
+                  <dd className="col-sm-8">
+                    {isPushSupported() ? "Supported" : "Not supported"}
+                  </dd>
+                  <dt className="col-sm-4">Notification permission</dt>
+                  <dd className="col-sm-8 text-capitalize">{permission}</dd>
+                  <dt className="col-sm-4">Subscribed devices</dt>
+                  <dd className="col-sm-8">{deviceCount}</dd>
+                </dl>
+
+                <PushDeviceSettings />
+
+                <div className="d-grid mt-4">
+                  <button
+                    className="btn btn-primary py-2"
+                    onClick={handleSendTest}
+                    disabled={sending || deviceCount === 0}
+                  >
+                    <i className="bi bi-send me-2"></i>
+                    Send test push
+                  </button>
+                </div>
+
+                {delivery && (
+                  <div className="alert alert-light border mt-4 mb-0 small">
+                    <div className="d-flex justify-content-between">
+                      <span>
+                        Delivery status:{" "}
+                        <span
+                          className={`badge ${
+                            statusBadges[delivery.status || "pending"]
+                          }`}
+                        >
+                          {delivery.status}
+                        </span>
+                      </span>
+                      <span className="text-muted">
+                        Attempts: {delivery.attempts || 0}
+                      </span>
+                    </div>
+                    {delivery.lastError && (
+                      <div className="text-danger mt-2">
+                        {delivery.lastError}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+import React, { useState } from "react";
+import {
+  OccurrenceOverride,
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from "../interfaces/Schedule";
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  formatDateKey,
+  matchesRule,
+  toDateKey,
+  weekdayOf,
+} from "../utils/recurrence";
+
+interface RecurrenceEditorProps {
+  recurrence: RecurrenceRule | null;
+  date: string; // Used when the schedule doesn't repeat
+  overrides: OccurrenceOverride[];
+  onRecurrenceChange: (recurrence: RecurrenceRule | null) => void;
+  onDateChange: (date: string) => void;
+  onOverridesChange: (overrides: OccurrenceOverride[]) => void;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+};
+
+// Monday first, as on the calendar
+const WEEKDAY_OPTIONS = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const emptyOverride = (): OccurrenceOverride => ({ date: "" });
+
+// Edits the date or recurrence rule of a class schedule, including term
+// dates, skipped dates and changes to single occurrences
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({
+  recurrence,
+  date,
+  overrides,
+  onRecurrenceChange,
+  onDateChange,
+  onOverridesChange,
+}) => {
+  const [exceptionDate, setExceptionDate] = useState("");
+  const [newOverride, setNewOverride] = useState<OccurrenceOverride>(
+    emptyOverride()
+  );
+  const [overrideError, setOverrideError] = useState("");
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    if (!recurrence) return;
+    const rule = { ...recurrence, ...changes };
+    // Firestore rejects undefined fields
+    if (!rule.until) delete rule.until;
+    onRecurrenceChange(rule);
+  };
+
+  const handleFrequencyChange = (value: string) => {
+    if (value === "none") {
+      onRecurrenceChange(null);
+      return;
+    }
+    const startDate = recurrence?.startDate || date || toDateKey(new Date());
+    onRecurrenceChange({
+      frequency: value as RecurrenceFrequency,
+      interval: recurrence?.interval || 1,
+      byDay: recurrence?.byDay?.length
+        ? recurrence.byDay
+        : [weekdayOf(startDate)],
+      startDate,
+      ...(recurrence?.until ? { until: recurrence.until } : {}),
+      exceptionDates: recurrence?.exceptionDates || [],
+    });
+  };
+
+  const toggleDay = (day: string) => {
+    if (!recurrence) return;
+    const byDay = recurrence.byDay.includes(day)
+      ? recurrence.byDay.filter((d) => d !== day)
+      : [...recurrence.byDay, day];
+    updateRule({ byDay: byDay.length ? byDay : recurrence.byDay });
+  };
+
+  const addExceptionDate = () => {
+    if (!recurrence || !exceptionDate) return;
+    if (!recurrence.exceptionDates.includes(exceptionDate)) {
+      updateRule({
+        exceptionDates: [...recurrence.exceptionDates, exceptionDate].sort(),
+      });
+    }
+    setExceptionDate("");
+  };
+
+  const addOverride = () => {
+    if (!recurrence) return;
+    if (!newOverride.date || !matchesRule(recurrence, newOverride.date)) {
+      setOverrideError("Pick a date on which this class takes place");
+      return;
+    }
+
+    // Only keep the fields that were actually changed
+    const override = Object.fromEntries(
+      Object.entries(newOverride).filter(([, value]) => value)
+    ) as unknown as OccurrenceOverride;
+    onOverridesChange(
+      [...overrides.filter((o) => o.date !== override.date), override].sort(
+        (a, b) => a.date.localeCompare(b.date)
+      )
+    );
+    setNewOverride(emptyOverride());
+    setOverrideError("");
+  };
+
+  const describeOverride = (override: OccurrenceOverride): string => {
+    const changes: string[] = [];
+    if (override.cancelled) changes.push("cancelled");
+    if (override.newDate) {
+      changes.push(`moved to ${formatDateKey(override.newDate)}`);
+    }
+    if (override.startTime || override.endTime) {
+      changes.push(
+        `${override.startTime || "start"} - ${override.endTime || "end"}`
+      );
+    }
+    if (override.classroomNumber) {
+      changes.push(`Room ${override.classroomNumber}`);
+    }
+    if (override.lecturerName) changes.push(override.lecturerName);
+    const description = changes.join(", ") || "no changes";
+    return override.reason
+      ? `${description} (${override.reason})`
+      : description;
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="row g-3">
+        <div className="col-md-4">
+          <label className="form-label">Repeats</label>
+          <select
+            className="form-select"
+            value={recurrence?.frequency || "none"}
+            onChange={(e) => handleFrequencyChange(e.target.value)}
+          >
+            <option value="none">Does not repeat</option>
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+
+        {recurrence ? (
+          <>
+            <div className="col-md-2">
+              <label className="form-label">Every</label>
+              <input
+                type="number"
+                className="form-control"
+                min={1}
+                max={52}
+                value={recurrence.interval}
+                onChange={(e) =>
+                  updateRule({
+                    interval: Math.max(1, parseInt(e.target.value, 10) || 1),
+                  })
+                }
+              />
+              <small className="text-muted">
+                {FREQUENCY_UNITS[recurrence.frequency]}
+              </small>
+            </div>
+            <div className="col-md-3">
+              <label className="form-label">Starts</label>
+              <input
+                type="date"
+                className="form-control"
+                value={recurrence.startDate}
+                onChange={(e) => updateRule({ startDate: e.target.value })}
+                required
+              />
+            </div>
+            <div className="col-md-3">
+              <label className="form-label">Ends (term end)</label>
+              <input
+                type="date"
+                className="form-control"
+                value={recurrence.until || ""}
+                min={recurrence.startDate}
+                onChange={(e) =>
+                  updateRule({ until: e.target.value || undefined })
+                }
+              />
+            </div>
+          </>
+        ) : (
+          <div className="col-md-8">
+            <label className="form-label">Date</label>
+            <input
+              type="date"
+              className="form-control"
+              value={date}
+              onChange={(e) => onDateChange(e.target.value)}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      {recurrence && (
+        <>
+          {recurrence.frequency === "weekly" && (
+            <div className="mt-3">
+              <label className="form-label d-block">On</label>
+              <div className="btn-group flex-wrap" role="group">
+                {WEEKDAY_OPTIONS.map((day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    className={`btn btn-sm ${
+                      recurrence.byDay.includes(day)
+                        ? "btn-primary"
+                        : "btn-outline-primary"
+                    }`}
+                    onClick={() => toggleDay(day)}
+                  >
+                    {day.slice(0, 3)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="small text-muted mt-2 mb-3">
+            <i className="bi bi-arrow-repeat me-1"></i>
+            {describeRecurrence(recurrence)}
+          </p>
+
+          <div className="mb-3">
+            <label className="form-label">No class on (holidays)</label>
+            <div className="input-group mb-2">
+              <input
+                type="date"
+                className="form-control"
+                value={exceptionDate}
+                min={recurrence.startDate}
+                max={recurrence.until}
+                onChange={(e) => setExceptionDate(e.target.value)}
+              />
+              <button
+                type="button"
+                className="btn btn-outline-secondary"
+                onClick={addExceptionDate}
+                disabled={!exceptionDate}
+              >
+                Add
+              </button>
+            </div>
+            <div className="d-flex flex-wrap gap-2">
+              {recurrence.exceptionDates.map((exception) => (
+                <span
+                  key={exception}
+                  className="badge bg-light text-dark border d-flex align-items-center"
+                >
+                  {formatDateKey(exception)}
+                  <button
+                    type="button"
+                    className="btn-close ms-2"
+                    style={{ fontSize: "0.6rem" }}
+                    aria-label={`Remove ${exception}`}
+                    onClick={() =>
+                      updateRule({
+                        exceptionDates: recurrence.exceptionDates.filter(
+                          (d) => d !== exception
+                        ),
+                      })
+                    }
+                  ></button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">Change a single class</label>
+            {overrides.length > 0 && (
+              <ul className="list-group mb-2">
+                {overrides.map((override) => (
+                  <li
+                    key={override.date}
+                    className="list-group-item d-flex justify-content-between align-items-center py-2"
+                  >
+                    <span className="small">
+                      <strong>{formatDateKey(override.date)}</strong>:{" "}
+                      {describeOverride(override)}
+                    </span>
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-link text-danger"
+                      onClick={() =>
+                        onOverridesChange(
+                          overrides.filter((o) => o.date !== override.date)
+                        )
+                      }
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="row g-2 align-items-end">
+              <div className="col-md-3">
+                <small className="text-muted">Class on</small>
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={newOverride.date}
+                  onChange={(e) =>
+                    setNewOverride({ ...newOverride, date: e.target.value })
+                  }
+                />
+              </div>
+              <div className="col-md-3">
+                <small className="text-muted">Move to</small>
+                <input
+                  type="date"
+                  className="form-control form-control-sm"
+                  value={newOverride.newDate || ""}
+                  onChange={(e) =>
+                    setNewOverride({ ...newOverride, newDate: e.target.value })
+                  }
+                />
+              </div>
+              <div className="col-md-2">
+                <small className="text-muted">Start</small>
+                <input
+                  type="time"
+                  className="form-control form-control-sm"
+                  value={newOverride.startTime || ""}
+                  onChange={(e) =>
+                    setNewOverride({
+                      ...newOverride,
+                      startTime: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div className="col-md-2">
+                <small className="text-muted">End</small>
+                <input
+                  type="time"
+                  className="form-control form-control-sm"
+                  value={newOverride.endTime || ""}
+                  onChange={(e) =>
+                    setNewOverride({ ...newOverride, endTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="col-md-2">
+                <small className="text-muted">Room</small>
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  value={newOverride.classroomNumber || ""}
+                  onChange={(e) =>
+                    setNewOverride({
+                      ...newOverride,
+                      classroomNumber: e.target.value,
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <div className="row g-2 align-items-end mt-1">
+              <div className="col-md-9">
+                <small className="text-muted">Reason, shown to students</small>
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  value={newOverride.reason || ""}
+                  onChange={(e) =>
+                    setNewOverride({ ...newOverride, reason: e.target.value })
+                  }
+                />
+              </div>
+              <div className="col-md-3">
+                <div className="form-check">
+                  <input
+                    className="form-check-input"
+                    type="checkbox"
+                    id="override-cancelled"
+                    checked={!!newOverride.cancelled}
+                    onChange={(e) =>
+                      setNewOverride({
+                        ...newOverride,
+                        cancelled: e.target.checked,
+                      })
+                    }
+                  />
+                  <label
+                    className="form-check-label small"
+                    htmlFor="override-cancelled"
+                  >
+                    Cancel this class
+                  </label>
+                </div>
+              </div>
+            </div>
+            {overrideError && (
+              <div className="text-danger small mt-1">{overrideError}</div>
+            )}
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary mt-2"
+              onClick={addOverride}
+              disabled={!newOverride.date}
+            >
+              <i className="bi bi-plus me-1"></i>
+              Add change
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
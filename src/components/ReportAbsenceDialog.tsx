@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from "react";
+import { collection, doc, writeBatch } from "firebase/firestore";
+import { db } from "../firebase";
+import { useNotification } from "../contexts/NotificationContext";
+import { CoverRequest } from "../interfaces/CoverRequest";
+import { ScheduleOccurrence } from "../interfaces/Schedule";
+import { COVER_LOOKAHEAD_DAYS } from "../utils/cover";
+import {
+  RecurringSchedule,
+  addDays,
+  expandOccurrences,
+  formatDateKey,
+  toDateKey,
+} from "../utils/recurrence";
+
+type CoverableSchedule = RecurringSchedule & {
+  id: string;
+  moduleId?: string;
+  moduleTitle: string;
+};
+
+interface ReportAbsenceDialogProps {
+  schedules: CoverableSchedule[];
+  lecturerId: string;
+  lecturerName: string;
+  reported: CoverRequest[]; // Absences already reported, left out of the list
+  onClose: () => void;
+  onReported: (requests: CoverRequest[]) => void;
+}
+
+const occurrenceKey = (scheduleId: string, originalDate: string): string =>
+  `${scheduleId}:${originalDate}`;
+
+// Lets a lecturer report that they can't teach some of their upcoming
+// classes. Admins are notified and assign a substitute for each one.
+const ReportAbsenceDialog: React.FC<ReportAbsenceDialogProps> = ({
+  schedules,
+  lecturerId,
+  lecturerName,
+  reported,
+  onClose,
+  onReported,
+}) => {
+  const { showNotification } = useNotification();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Classes the lecturer still teaches themselves, soonest first
+  const upcoming = useMemo(() => {
+    const today = toDateKey(new Date());
+    const open = new Set(
+      reported
+        .filter((request) => request.status !== "withdrawn")
+        .map((request) =>
+          occurrenceKey(request.scheduleId, request.occurrenceDate)
+        )
+    );
+    return schedules
+      .flatMap((schedule) =>
+        expandOccurrences(
+          schedule,
+          today,
+          addDays(today, COVER_LOOKAHEAD_DAYS)
+        ).map((occurrence) => ({ schedule, occurrence }))
+      )
+      .filter(
+        ({ schedule, occurrence }) =>
+          !occurrence.substituteFor &&
+          !open.has(occurrenceKey(schedule.id, occurrence.originalDate))
+      )
+      .sort(
+        (a, b) =>
+          a.occurrence.date.localeCompare(b.occurrence.date) ||
+          a.occurrence.startTime.localeCompare(b.occurrence.startTime)
+      );
+  }, [schedules, reported]);
+
+  const toggle = (key: string) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (selected.size === 0 || !reason.trim()) return;
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const batch = writeBatch(db);
+      const requests = upcoming
+        .filter(({ schedule, occurrence }) =>
+          selected.has(occurrenceKey(schedule.id, occurrence.originalDate))
+        )
+        .map(({ schedule, occurrence }) => {
+          const requestRef = doc(collection(db, "coverRequests"));
+          const data: Omit<CoverRequest, "id"> = {
+            scheduleId: schedule.id,
+            occurrenceDate: occurrence.originalDate,
+            date: occurrence.date,
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            ...(schedule.moduleId && { moduleId: schedule.moduleId }),
+            moduleTitle: schedule.moduleTitle,
+            classroomNumber: occurrence.classroomNumber,
+            branch: occurrence.branch,
+            lecturerId,
+            lecturerName,
+            reason: reason.trim(),
+            status: "open",
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          };
+          batch.set(requestRef, data);
+          return { ...data, id: requestRef.id };
+        });
+      await batch.commit();
+
+      onReported(requests);
+      showNotification(
+        "Absence reported. An administrator will arrange cover."
+      );
+    } catch (err) {
+      console.error("Error reporting absence:", err);
+      showNotification("Failed to report your absence. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOccurrence = (
+    schedule: CoverableSchedule,
+    occurrence: ScheduleOccurrence
+  ) => {
+    const key = occurrenceKey(schedule.id, occurrence.originalDate);
+    return (
+      <div key={key} className="form-check mb-2">
+        <input
+          type="checkbox"
+          className="form-check-input"
+          id={`absence-${key}`}
+          checked={selected.has(key)}
+          onChange={() => toggle(key)}
+        />
+        <label className="form-check-label" htmlFor={`absence-${key}`}>
+          <strong>{schedule.moduleTitle}</strong>
+          <br />
+          <small className="text-muted">
+            {formatDateKey(occurrence.date)}, {occurrence.startTime} -{" "}
+            {occurrence.endTime}, Room {occurrence.classroomNumber}
+          </small>
+        </label>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog modal-lg" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Report Absence</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              {upcoming.length === 0 ? (
+                <p className="text-muted text-center py-4 mb-0">
+                  You have no classes in the coming weeks left to report.
+                </p>
+              ) : (
+                <>
+                  <p className="small text-muted">
+                    Choose the classes you can't teach.
+                  </p>
+                  <div
+                    className="mb-3"
+                    style={{ maxHeight: "320px", overflowY: "auto" }}
+                  >
+                    {upcoming.map(({ schedule, occurrence }) =>
+                      renderOccurrence(schedule, occurrence)
+                    )}
+                  </div>
+                  <label className="form-label" htmlFor="absence-reason">
+                    Reason
+                  </label>
+                  <textarea
+                    id="absence-reason"
+                    className="form-control"
+                    rows={2}
+                    placeholder="e.g., Attending a conference"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    required
+                  />
+                </>
+              )}
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onClose}
+                disabled={saving}
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={saving || selected.size === 0 || !reason.trim()}
+              >
+                {saving
+                  ? "Reporting..."
+                  : selected.size > 1
+                  ? `Report ${selected.size} Absences`
+                  : "Report Absence"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportAbsenceDialog;
@@ -0,0 +1,336 @@
+import React, { useMemo, useState } from "react";
+import {
+  collection,
+  deleteField,
+  doc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import { ConflictOverride } from "../interfaces/Conflict";
+import {
+  OccurrenceOverride,
+  Schedule,
+  ScheduleOccurrence,
+} from "../interfaces/Schedule";
+import {
+  ConflictContext,
+  describeConflict,
+  findConflicts,
+  scheduleToSlot,
+} from "../utils/scheduleConflicts";
+import { formatDateKey, resolveRecurrence } from "../utils/recurrence";
+import { withNonTeachingDates } from "../utils/academicCalendar";
+import {
+  RescheduleResult,
+  RescheduleScope,
+  RescheduleTarget,
+  occurrenceCandidate,
+  reschedule,
+} from "../utils/reschedule";
+import ConflictWarning from "./ConflictWarning";
+
+interface RescheduleDialogProps {
+  schedule: Schedule;
+  occurrence: ScheduleOccurrence;
+  target: RescheduleTarget;
+  context: ConflictContext | null;
+  academicYears: AcademicYear[];
+  onCancel: () => void;
+  onSaved: (changed: Schedule[]) => void;
+}
+
+// Fields a continuing schedule doesn't inherit from the one it splits from
+const NOT_INHERITED = [
+  "id",
+  "createdAt",
+  "createdBy",
+  "conflictOverride",
+  "splitFrom",
+  "continuedBy",
+];
+
+// Confirms a class dragged on the calendar: for recurring classes, whether
+// the change applies to this occurrence only or to all future ones. Clashes
+// are re-checked for the chosen scope and need a reason to save anyway.
+const RescheduleDialog: React.FC<RescheduleDialogProps> = ({
+  schedule,
+  occurrence,
+  target,
+  context,
+  academicYears,
+  onCancel,
+  onSaved,
+}) => {
+  const { userData } = useAuth();
+  const { showNotification } = useNotification();
+  const isRecurring = !!resolveRecurrence(schedule);
+  const [scope, setScope] = useState<RescheduleScope>("occurrence");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [changeReason, setChangeReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const isOccurrenceChange = isRecurring && scope === "occurrence";
+
+  // A single moved class carries the reason students are given for it
+  const withChangeReason = (overrides: OccurrenceOverride[]) =>
+    overrides.map((override) => {
+      if (!isOccurrenceChange || override.date !== occurrence.originalDate) {
+        return override;
+      }
+      const rest: OccurrenceOverride = { ...override };
+      delete rest.reason;
+      return changeReason.trim()
+        ? { ...rest, reason: changeReason.trim() }
+        : rest;
+    });
+
+  // Moved series skip the non-teaching days of their new dates instead
+  const result = useMemo((): RescheduleResult => {
+    const { update, continuation } = reschedule(
+      schedule,
+      occurrence,
+      target,
+      scope
+    );
+    return {
+      update: {
+        ...update,
+        ...(update.recurrence && {
+          recurrence: withNonTeachingDates(update.recurrence, academicYears),
+        }),
+      },
+      continuation: continuation && {
+        ...continuation,
+        recurrence:
+          continuation.recurrence &&
+          withNonTeachingDates(continuation.recurrence, academicYears),
+      },
+    };
+  }, [schedule, occurrence, target, scope, academicYears]);
+
+  const conflicts = useMemo(() => {
+    if (!context) return [];
+    const candidate =
+      !isRecurring || scope === "occurrence"
+        ? occurrenceCandidate(schedule, occurrence, target)
+        : { ...schedule, ...result.update, ...result.continuation };
+    return findConflicts(scheduleToSlot(candidate, context), context);
+  }, [context, isRecurring, scope, schedule, occurrence, target, result]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (conflicts.length > 0 && !overrideReason.trim()) return;
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const conflictOverride: ConflictOverride | undefined =
+        conflicts.length > 0
+          ? {
+              reason: overrideReason.trim(),
+              conflicts: conflicts.map(describeConflict),
+              overriddenBy: userData?.uid || "unknown",
+              overriddenAt: timestamp,
+            }
+          : undefined;
+      const update = {
+        ...result.update,
+        ...(result.update.overrides && {
+          overrides: withChangeReason(result.update.overrides),
+        }),
+      };
+      const changes = {
+        ...update,
+        // Replaced by `recurrence`
+        isRecurring: deleteField(),
+        dayOfWeek: deleteField(),
+        updatedAt: timestamp,
+      };
+
+      if (result.continuation) {
+        // The series ends before the moved occurrence and a new schedule
+        // carries on from it
+        const batch = writeBatch(db);
+        const continuationRef = doc(collection(db, "schedules"));
+        const continuation: Schedule = {
+          ...(Object.fromEntries(
+            Object.entries(schedule).filter(
+              ([key]) => !NOT_INHERITED.includes(key)
+            )
+          ) as Omit<Schedule, "id" | "createdAt">),
+          ...result.continuation,
+          ...(conflictOverride && { conflictOverride }),
+          id: continuationRef.id,
+          splitFrom: schedule.id,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        };
+        const { id, ...continuationData } = continuation;
+        batch.set(continuationRef, {
+          ...continuationData,
+          createdBy: userData?.uid || "unknown",
+        });
+        batch.update(doc(db, "schedules", schedule.id), {
+          ...changes,
+          continuedBy: id,
+        });
+        await batch.commit();
+
+        onSaved([
+          {
+            ...schedule,
+            ...update,
+            continuedBy: id,
+            updatedAt: timestamp,
+          },
+          continuation,
+        ]);
+      } else {
+        await updateDoc(doc(db, "schedules", schedule.id), {
+          ...changes,
+          ...(conflictOverride && { conflictOverride }),
+        });
+        onSaved([
+          {
+            ...schedule,
+            ...update,
+            ...(conflictOverride && { conflictOverride }),
+            updatedAt: timestamp,
+          },
+        ]);
+      }
+
+      showNotification("Schedule updated successfully!");
+    } catch (err) {
+      console.error("Error rescheduling class:", err);
+      showNotification("Failed to reschedule the class. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Reschedule Class</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onCancel}
+              aria-label="Close"
+            ></button>
+          </div>
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              <p>
+                <strong>{schedule.moduleTitle}</strong>
+                <br />
+                <span className="text-muted">
+                  {formatDateKey(occurrence.date)}, {occurrence.startTime} -{" "}
+                  {occurrence.endTime}
+                </span>
+                <i className="bi bi-arrow-right mx-2"></i>
+                {formatDateKey(target.date)}, {target.startTime} -{" "}
+                {target.endTime}
+              </p>
+
+              {isRecurring && (
+                <div className="mb-3">
+                  <div className="form-check">
+                    <input
+                      className="form-check-input"
+                      type="radio"
+                      id="reschedule-occurrence"
+                      checked={scope === "occurrence"}
+                      onChange={() => setScope("occurrence")}
+                    />
+                    <label
+                      className="form-check-label"
+                      htmlFor="reschedule-occurrence"
+                    >
+                      This occurrence only
+                    </label>
+                  </div>
+                  <div className="form-check">
+                    <input
+                      className="form-check-input"
+                      type="radio"
+                      id="reschedule-future"
+                      checked={scope === "future"}
+                      onChange={() => setScope("future")}
+                    />
+                    <label
+                      className="form-check-label"
+                      htmlFor="reschedule-future"
+                    >
+                      This and all future occurrences
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {isOccurrenceChange && (
+                <div className="mb-3">
+                  <label className="form-label" htmlFor="reschedule-reason">
+                    Reason for the change (optional)
+                  </label>
+                  <input
+                    id="reschedule-reason"
+                    type="text"
+                    className="form-control"
+                    placeholder="e.g., Room needed for exams"
+                    value={changeReason}
+                    onChange={(e) => setChangeReason(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <ConflictWarning
+                conflicts={conflicts}
+                canOverride={true}
+                overrideReason={overrideReason}
+                onOverrideReasonChange={setOverrideReason}
+              />
+
+              <p className="small text-muted mb-0">
+                The lecturer and enrolled students will be notified of the
+                change.
+              </p>
+            </div>
+            <div className="modal-footer">
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={onCancel}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              {conflicts.length === 0 && (
+                <button
+                  type="submit"
+                  className="btn btn-primary"
+                  disabled={saving}
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescheduleDialog;
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { CheckIn, checkInToRoom } from "../utils/bookings";
+import NavBar from "./NavBar";
+
+// Where a classroom's QR code leads. Opening it checks the signed-in user in
+// to their booking in that room, if its check-in window is open.
+export default function RoomCheckIn() {
+  const { classroomId = "" } = useParams<{ classroomId: string }>();
+  const [searchParams] = useSearchParams();
+  const code = searchParams.get("code") || "";
+  const { currentUser } = useAuth();
+  const [checkIn, setCheckIn] = useState<CheckIn | null>(null);
+  const [error, setError] = useState("");
+
+  const userId = currentUser?.uid || "";
+
+  useEffect(() => {
+    if (!userId || !classroomId) return;
+    checkInToRoom(classroomId, code)
+      .then(setCheckIn)
+      .catch((err) => {
+        console.error("Error checking in:", err);
+        setError(
+          (err as { message?: string }).message ||
+            "Failed to check in. Please try again."
+        );
+      });
+  }, [userId, classroomId, code]);
+
+  return (
+    <div className="dashboard-container">
+      <NavBar />
+      <div className="container py-4">
+        <div className="row justify-content-center">
+          <div className="col-12 col-md-8 col-lg-6">
+            <div className="card shadow-sm border-0 rounded-3 fade-in">
+              <div className="card-header bg-white py-3 border-bottom">
+                <h3 className="mb-1 fs-4">Room Check-in</h3>
+              </div>
+              <div className="card-body text-center py-4">
+                {checkIn ? (
+                  <>
+                    <i className="bi bi-check-circle text-success fs-1"></i>
+                    <h5 className="mt-2 mb-1">You're checked in</h5>
+                    <p className="text-muted mb-0">
+                      {checkIn.title}, {checkIn.startTime} - {checkIn.endTime}
+                    </p>
+                  </>
+                ) : error ? (
+                  <>
+                    <i className="bi bi-x-circle text-danger fs-1"></i>
+                    <p className="mt-2 mb-0">{error}</p>
+                  </>
+                ) : (
+                  <div className="spinner-border text-primary" role="status">
+                    <span className="visually-hidden">Checking in...</span>
+                  </div>
+                )}
+              </div>
+              <div className="card-footer bg-white border-top">
+                <Link to="/dashboard" className="small">
+                  <i className="bi bi-arrow-left me-1"></i>
+                  Back to dashboard
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
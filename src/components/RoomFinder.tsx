@@ -0,0 +1,351 @@
+import React, { useMemo, useState } from "react";
+import { Classroom } from "../interfaces/Classroom";
+import { RoomSearch, findBookedRooms, findFreeRooms } from "../utils/bookings";
+import { toDateKey } from "../utils/recurrence";
+import { ConflictContext } from "../utils/scheduleConflicts";
+import { describeClassroom } from "../utils/scheduleRefs";
+
+export interface RoomSelection {
+  classroom: Classroom;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+interface RoomFinderProps {
+  context: ConflictContext | null; // null while the timetable loads
+  bookedFor: string;
+  bookLabel: string;
+  selectedClassroomId?: string;
+  onBook: (selection: RoomSelection) => void;
+  onWaitlist?: (selection: RoomSelection) => void; // Offers booked rooms too
+}
+
+const distinct = (values: string[]): string[] =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+// Searches for classrooms that are free at a time and have the seats and
+// resources needed, closest fit first. Choosing a room is left to the parent,
+// which knows whether it books the room or requests it, and whether rooms
+// booked at the time can be waitlisted.
+const RoomFinder: React.FC<RoomFinderProps> = ({
+  context,
+  bookedFor,
+  bookLabel,
+  selectedClassroomId,
+  onBook,
+  onWaitlist,
+}) => {
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("10:00");
+  const [minCapacity, setMinCapacity] = useState("");
+  const [resources, setResources] = useState<string[]>([]);
+  const [building, setBuilding] = useState("");
+  const [floor, setFloor] = useState("");
+  const [branch, setBranch] = useState("");
+
+  const classrooms = useMemo(
+    () =>
+      context
+        ? Array.from(context.classroomsById.values()).filter(
+            (classroom) => classroom.isActive !== false
+          )
+        : [],
+    [context]
+  );
+
+  // Only offer what some room actually has
+  const buildings = distinct(classrooms.map((c) => c.building));
+  const floors = distinct(classrooms.map((c) => String(c.floor ?? "")));
+  const branches = distinct(classrooms.map((c) => c.branch || ""));
+  const resourceOptions = distinct(
+    classrooms.flatMap((c) => c.resources || [])
+  );
+
+  const today = toDateKey(new Date());
+  const timeError =
+    !date || !startTime || !endTime
+      ? "Choose a date and time"
+      : startTime >= endTime
+      ? "End time must be after start time"
+      : date < today
+      ? "Choose a date from today onwards"
+      : "";
+
+  const search = useMemo<RoomSearch>(
+    () => ({
+      date,
+      startTime,
+      endTime,
+      bookedFor,
+      minCapacity: Number(minCapacity) || 0,
+      resources,
+      building,
+      floor,
+      branch,
+    }),
+    [
+      date,
+      startTime,
+      endTime,
+      bookedFor,
+      minCapacity,
+      resources,
+      building,
+      floor,
+      branch,
+    ]
+  );
+
+  const canWaitlist = !!onWaitlist;
+  const matches = useMemo(
+    () =>
+      context && !timeError ? findFreeRooms(search, classrooms, context) : [],
+    [context, timeError, search, classrooms]
+  );
+  const booked = useMemo(
+    () =>
+      context && !timeError && canWaitlist
+        ? findBookedRooms(search, classrooms, context)
+        : [],
+    [context, timeError, canWaitlist, search, classrooms]
+  );
+
+  const toggleResource = (resource: string) =>
+    setResources((current) =>
+      current.includes(resource)
+        ? current.filter((other) => other !== resource)
+        : [...current, resource]
+    );
+
+  return (
+    <div className="room-finder">
+      <div className="row g-3 mb-3">
+        <div className="col-md-6">
+          <label className="form-label" htmlFor="finder-date">
+            Date
+          </label>
+          <input
+            id="finder-date"
+            type="date"
+            className="form-control"
+            min={today}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        <div className="col-md-6">
+          <label className="form-label" htmlFor="finder-capacity">
+            Seats needed
+          </label>
+          <input
+            id="finder-capacity"
+            type="number"
+            min={0}
+            className="form-control"
+            placeholder="Any"
+            value={minCapacity}
+            onChange={(e) => setMinCapacity(e.target.value)}
+          />
+        </div>
+        <div className="col-6">
+          <label className="form-label" htmlFor="finder-start">
+            Start Time
+          </label>
+          <input
+            id="finder-start"
+            type="time"
+            className="form-control"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+          />
+        </div>
+        <div className="col-6">
+          <label className="form-label" htmlFor="finder-end">
+            End Time
+          </label>
+          <input
+            id="finder-end"
+            type="time"
+            className="form-control"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+          />
+        </div>
+        <div className="col-md-4">
+          <label className="form-label" htmlFor="finder-building">
+            Building
+          </label>
+          <select
+            id="finder-building"
+            className="form-select"
+            value={building}
+            onChange={(e) => setBuilding(e.target.value)}
+          >
+            <option value="">Any building</option>
+            {buildings.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-md-4">
+          <label className="form-label" htmlFor="finder-floor">
+            Floor
+          </label>
+          <select
+            id="finder-floor"
+            className="form-select"
+            value={floor}
+            onChange={(e) => setFloor(e.target.value)}
+          >
+            <option value="">Any floor</option>
+            {floors.map((option) => (
+              <option key={option} value={option}>
+                Floor {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-md-4">
+          <label className="form-label" htmlFor="finder-branch">
+            Branch
+          </label>
+          <select
+            id="finder-branch"
+            className="form-select"
+            value={branch}
+            onChange={(e) => setBranch(e.target.value)}
+          >
+            <option value="">Any branch</option>
+            {branches.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {resourceOptions.length > 0 && (
+        <div className="mb-3">
+          <label className="form-label d-block">Resources needed</label>
+          {resourceOptions.map((resource, index) => (
+            <div className="form-check form-check-inline" key={resource}>
+              <input
+                className="form-check-input"
+                type="checkbox"
+                id={`finder-resource-${index}`}
+                checked={resources.includes(resource)}
+                onChange={() => toggleResource(resource)}
+              />
+              <label
+                className="form-check-label small"
+                htmlFor={`finder-resource-${index}`}
+              >
+                {resource}
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className="form-label">Free Rooms</label>
+      {!context ? (
+        <div className="text-center py-3">
+          <div
+            className="spinner-border spinner-border-sm text-primary"
+            role="status"
+          >
+            <span className="visually-hidden">Loading...</span>
+          </div>
+        </div>
+      ) : timeError ? (
+        <p className="small text-muted">{timeError}.</p>
+      ) : matches.length === 0 ? (
+        <p className="small text-danger">
+          No rooms match at this time. Try another time or fewer requirements.
+        </p>
+      ) : (
+        <div
+          className="list-group mb-3"
+          style={{ maxHeight: "320px", overflowY: "auto" }}
+        >
+          {matches.map(({ classroom, spareSeats, extraResources }) => (
+            <div
+              key={classroom.id}
+              className={`list-group-item d-flex justify-content-between align-items-center gap-2 ${
+                classroom.id === selectedClassroomId ? "active" : ""
+              }`}
+            >
+              <span>
+                {describeClassroom(classroom)}
+                {classroom.branch && `, ${classroom.branch}`}
+                <br />
+                <small>
+                  {classroom.capacity} seats
+                  {Number(minCapacity) > 0 && ` (${spareSeats} spare)`}
+                  {resources.length > 0 && ` · ${resources.join(", ")}`}
+                  {extraResources.length > 0 &&
+                    ` · also ${extraResources.join(", ")}`}
+                </small>
+              </span>
+              <button
+                type="button"
+                className={`btn btn-sm flex-shrink-0 ${
+                  classroom.id === selectedClassroomId
+                    ? "btn-light"
+                    : "btn-outline-primary"
+                }`}
+                onClick={() => onBook({ classroom, date, startTime, endTime })}
+              >
+                <i className="bi bi-calendar-plus me-1"></i>
+                {bookLabel}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {onWaitlist && booked.length > 0 && (
+        <>
+          <label className="form-label">Booked at This Time</label>
+          <div
+            className="list-group mb-3"
+            style={{ maxHeight: "200px", overflowY: "auto" }}
+          >
+            {booked.map(({ classroom }) => (
+              <div
+                key={classroom.id}
+                className="list-group-item d-flex justify-content-between align-items-center gap-2"
+              >
+                <span className="text-muted">
+                  {describeClassroom(classroom)}
+                  {classroom.branch && `, ${classroom.branch}`}
+                  <br />
+                  <small>{classroom.capacity} seats</small>
+                </span>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary flex-shrink-0"
+                  onClick={() =>
+                    onWaitlist({ classroom, date, startTime, endTime })
+                  }
+                >
+                  <i className="bi bi-hourglass-split me-1"></i>
+                  Join waitlist
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RoomFinder;
@@ -1,45 +1,136 @@
-// @ts-nocheck
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import moment from "moment";
-import { Schedule } from "../interfaces/Schedule";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import { ScheduleConflict } from "../interfaces/Conflict";
+import { Schedule, ScheduleOccurrence } from "../interfaces/Schedule";
+import {
+  describeScheduleDates,
+  formatDateKey,
+  occurrencesOn,
+  resolveRecurrence,
+} from "../utils/recurrence";
+import {
+  ConflictContext,
+  findConflicts,
+  loadConflictContext,
+  scheduleToSlot,
+} from "../utils/scheduleConflicts";
+import {
+  RescheduleTarget,
+  isUnchanged,
+  moveTo,
+  occurrenceCandidate,
+  resizeTo,
+} from "../utils/reschedule";
+import {
+  loadAcademicYears,
+  nonTeachingPeriodOn,
+} from "../utils/academicCalendar";
+import RescheduleDialog from "./RescheduleDialog";
+import CancelClassDialog from "./CancelClassDialog";
+import ScheduleHistoryDialog from "./ScheduleHistoryDialog";
+
+interface CalendarEvent {
+  schedule: Schedule;
+  occurrence: ScheduleOccurrence;
+}
+
+// A class being dragged to another day/time, or resized from its bottom edge
+interface DragState {
+  event: CalendarEvent;
+  mode: "move" | "resize";
+}
+
+// Where the dragged class would land, checked against the timetable
+interface DropPreview {
+  key: string;
+  target: RescheduleTarget;
+  conflicts: ScheduleConflict[];
+}
+
+// A drop waiting for the admin to confirm it
+interface PendingDrop {
+  event: CalendarEvent;
+  target: RescheduleTarget;
+}
 
 interface ScheduleCalendarProps {
   schedules: Schedule[];
   onEditSchedule: (schedule: Schedule) => void;
   onDeleteSchedule: (scheduleId: string) => void;
+  onSchedulesChanged: (changed: Schedule[]) => void; // Updated or added by dragging
 }
 
+// The day view snaps drops to half hours
+const SLOT_MINUTES = 30;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+const slotTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
 const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
   schedules,
   onEditSchedule,
   onDeleteSchedule,
+  onSchedulesChanged,
 }) => {
   const [currentDate, setCurrentDate] = useState(moment());
   const [currentView, setCurrentView] = useState<"month" | "week" | "day">(
     "month"
   );
+  const [conflictContext, setConflictContext] = useState<ConflictContext | null>(
+    null
+  );
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  const [preview, setPreview] = useState<DropPreview | null>(null);
+  const [pending, setPending] = useState<PendingDrop | null>(null);
+  const [cancelling, setCancelling] = useState<CalendarEvent | null>(null);
+  const [historyFor, setHistoryFor] = useState<Schedule | null>(null);
+
+  // The timetable dragged classes are checked against, reloaded after changes
+  useEffect(() => {
+    let cancelled = false;
+    loadConflictContext()
+      .then((context) => {
+        if (!cancelled) setConflictContext(context);
+      })
+      .catch((err) =>
+        console.error("Error loading timetable for conflict checks:", err)
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [schedules]);
+
+  useEffect(() => {
+    loadAcademicYears()
+      .then(setAcademicYears)
+      .catch((err) => console.error("Error loading academic calendar:", err));
+  }, []);
 
   // Get days in month/week view
   const days = useMemo(() => {
-    const daysArray = [];
-    let startDate;
-    let endDate;
+    // For day view, just return the current day
+    if (currentView === "day") return [moment(currentDate)];
 
-    if (currentView === "month") {
-      startDate = moment(currentDate).startOf("month").startOf("week");
-      endDate = moment(currentDate).endOf("month").endOf("week");
-    } else if (currentView === "week") {
-      startDate = moment(currentDate).startOf("week");
-      endDate = moment(currentDate).endOf("week");
-    } else {
-      // Day view
-      startDate = moment(currentDate).startOf("day");
-      endDate = moment(currentDate).endOf("day");
-      // For day view, just return the current day
-      return [moment(currentDate)];
-    }
+    const daysArray: moment.Moment[] = [];
+    const startDate =
+      currentView === "month"
+        ? moment(currentDate).startOf("month").startOf("week")
+        : moment(currentDate).startOf("week");
+    const endDate =
+      currentView === "month"
+        ? moment(currentDate).endOf("month").endOf("week")
+        : moment(currentDate).endOf("week");
 
-    let day = startDate.clone();
+    const day = startDate.clone();
     while (day.isSameOrBefore(endDate)) {
       daysArray.push(day.clone());
       day.add(1, "day");
@@ -48,42 +139,27 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
     return daysArray;
   }, [currentDate, currentView]);
 
-  // Get events for a specific day
-  const getEventsForDay = (day: moment.Moment) => {
-    return schedules.filter((schedule) => {
-      // For one-time events, check the date
-      if (!schedule.isRecurring) {
-        // Parse the date string in YYYY-MM-DD format
-        const scheduleDate = schedule.date;
-        const isSameDay = moment(scheduleDate).isSame(day, "day");
-        return isSameDay;
-      }
-
-      // For recurring events, check the day of week
-      const dayName = day.format("dddd"); // Monday, Tuesday, etc.
-
-      // Make sure we're doing a case-insensitive comparison
-      // Also trim any whitespace that might be in the data
-      const scheduleDayOfWeek = schedule.dayOfWeek.trim();
-      const currentDayOfWeek = dayName.trim();
-
-      const isMatchingDay =
-        scheduleDayOfWeek.toLowerCase() === currentDayOfWeek.toLowerCase();
-
-      // console.log('Day check:', {
-      //   dayName,
-      //   scheduleDayOfWeek,
-      //   isMatchingDay,
-      //   moduleTitle: schedule.moduleTitle
-      // });
-
-      return isMatchingDay;
-    });
+  // Get events for a specific day, with any changes to that occurrence
+  // applied. Cancelled classes are shown struck through.
+  const getEventsForDay = (day: moment.Moment): CalendarEvent[] => {
+    const date = day.format("YYYY-MM-DD");
+    return schedules
+      .flatMap((schedule) =>
+        occurrencesOn(schedule, date, { includeCancelled: true }).map(
+          (occurrence) => ({
+            schedule,
+            occurrence,
+          })
+        )
+      )
+      .sort((a, b) =>
+        a.occurrence.startTime.localeCompare(b.occurrence.startTime)
+      );
   };
 
   // Calculate hours for day view
   const hours = useMemo(() => {
-    const hoursArray = [];
+    const hoursArray: number[] = [];
     for (let i = 8; i <= 20; i++) {
       hoursArray.push(i);
     }
@@ -113,47 +189,240 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
     }
   };
 
+  // Drag and drop: the drop target under the pointer is checked for clashes
+  // as the class moves, and dropping asks how to apply the change
+  const startDrag = (
+    e: React.DragEvent,
+    event: CalendarEvent,
+    mode: DragState["mode"]
+  ) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", event.schedule.id);
+    setDragging({ event, mode });
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setPreview(null);
+  };
+
+  const previewDrop = (target: RescheduleTarget) => {
+    if (!dragging) return;
+    const key = `${target.date} ${target.startTime}-${target.endTime}`;
+    if (preview?.key === key) return;
+
+    const { schedule, occurrence } = dragging.event;
+    const conflicts =
+      conflictContext && !isUnchanged(occurrence, target)
+        ? findConflicts(
+            scheduleToSlot(
+              occurrenceCandidate(schedule, occurrence, target),
+              conflictContext
+            ),
+            conflictContext
+          )
+        : [];
+    setPreview({ key, target, conflicts });
+  };
+
+  // Month and week cells change the day and keep the time
+  const handleDayDragOver = (e: React.DragEvent, day: moment.Moment) => {
+    if (!dragging || dragging.mode !== "move") return;
+    e.preventDefault();
+    const { occurrence } = dragging.event;
+    previewDrop(
+      moveTo(occurrence, day.format("YYYY-MM-DD"), occurrence.startTime)
+    );
+  };
+
+  // Day view rows set the start time, or the end time when resizing
+  const handleHourDragOver = (e: React.DragEvent, hour: number) => {
+    if (!dragging) return;
+    e.preventDefault();
+    const row = e.currentTarget.getBoundingClientRect();
+    const start =
+      hour * 60 + (e.clientY - row.top >= row.height / 2 ? SLOT_MINUTES : 0);
+    const { occurrence } = dragging.event;
+    const date = currentDate.format("YYYY-MM-DD");
+    previewDrop(
+      dragging.mode === "move"
+        ? moveTo(occurrence, date, slotTime(start))
+        : resizeTo(
+            { ...occurrence, date },
+            slotTime(start + SLOT_MINUTES),
+            SLOT_MINUTES
+          )
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (
+      dragging &&
+      preview &&
+      !isUnchanged(dragging.event.occurrence, preview.target)
+    ) {
+      setPending({ event: dragging.event, target: preview.target });
+    }
+    endDrag();
+  };
+
+  const dropTargetStyle = (isTarget: boolean): React.CSSProperties =>
+    isTarget && preview
+      ? {
+          outline: `2px dashed ${
+            preview.conflicts.length > 0
+              ? "var(--bs-danger)"
+              : "var(--bs-success)"
+          }`,
+          outlineOffset: "-2px",
+        }
+      : {};
+
+  // The day view row the preview starts in, or ends in when resizing
+  const previewHour = (): number | null => {
+    if (!dragging || !preview) return null;
+    return dragging.mode === "move"
+      ? Math.floor(toMinutes(preview.target.startTime) / 60)
+      : Math.floor((toMinutes(preview.target.endTime) - 1) / 60);
+  };
+
   // Render event
-  const renderEvent = (schedule: Schedule) => {
-    const timeDisplay = `${schedule.startTime} - ${schedule.endTime}`;
+  const renderEvent = (event: CalendarEvent) => {
+    const { schedule, occurrence } = event;
+    const timeDisplay = `${occurrence.startTime} - ${occurrence.endTime}`;
+    const isRecurring = !!resolveRecurrence(schedule);
+
+    const { isCancelled } = occurrence;
 
     // Use different styles for recurring vs one-time events
-    const bgColor = schedule.isRecurring
+    const bgColor = isCancelled
+      ? "var(--bs-secondary)"
+      : isRecurring
       ? "var(--primary-color)"
       : "var(--bs-success)";
 
     return (
       <div
-        key={schedule.id}
-        className="p-1 mb-1 rounded"
+        key={`${schedule.id}-${occurrence.originalDate}`}
+        className="p-1 mb-1 rounded position-relative"
         style={{
           backgroundColor: bgColor,
           color: "white",
-          cursor: "pointer",
+          cursor: isCancelled ? "pointer" : "grab",
           fontSize: "0.8rem",
           overflow: "hidden",
           textOverflow: "ellipsis",
           whiteSpace: "nowrap",
+          opacity:
+            dragging?.event.schedule.id === schedule.id &&
+            dragging.event.occurrence.originalDate === occurrence.originalDate
+              ? 0.5
+              : 1,
         }}
+        draggable={!isCancelled}
+        onDragStart={(e) => startDrag(e, event, "move")}
+        onDragEnd={endDrag}
         onClick={() => onEditSchedule(schedule)}
-        title={`${schedule.moduleTitle} - ${
-          schedule.isRecurring
-            ? "Recurring every " + schedule.dayOfWeek
-            : "One-time on " + schedule.date
-        }`}
+        title={`${schedule.moduleTitle} - ${describeScheduleDates(schedule)}${
+          isCancelled
+            ? " (cancelled for this day)"
+            : occurrence.isOverridden
+            ? " (changed for this day)"
+            : ""
+        }${occurrence.reason ? `: ${occurrence.reason}` : ""}`}
       >
-        <div className="fw-bold">
-          {schedule.moduleTitle}
-          {schedule.isRecurring && <span className="ms-1">🔄</span>}
+        <div className="fw-bold d-flex justify-content-between">
+          <span
+            className={`text-truncate ${
+              isCancelled ? "text-decoration-line-through" : ""
+            }`}
+          >
+            {schedule.moduleTitle}
+            {isRecurring && <span className="ms-1">🔄</span>}
+            {occurrence.isOverridden && <span className="ms-1">✎</span>}
+          </span>
+          <span className="d-flex gap-1">
+            <button
+              type="button"
+              className="btn btn-link btn-sm p-0 text-white"
+              title={isCancelled ? "Restore this class" : "Cancel this class"}
+              onClick={(e) => {
+                e.stopPropagation();
+                setCancelling(event);
+              }}
+            >
+              <i
+                className={`bi ${
+                  isCancelled ? "bi-arrow-counterclockwise" : "bi-x-circle"
+                }`}
+              ></i>
+            </button>
+            <button
+              type="button"
+              className="btn btn-link btn-sm p-0 text-white"
+              title="History of changes"
+              onClick={(e) => {
+                e.stopPropagation();
+                setHistoryFor(schedule);
+              }}
+            >
+              <i className="bi bi-clock-history"></i>
+            </button>
+            <button
+              type="button"
+              className="btn btn-link btn-sm p-0 text-white"
+              title="Delete schedule"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteSchedule(schedule.id);
+              }}
+            >
+              <i className="bi bi-trash"></i>
+            </button>
+          </span>
+        </div>
+        <div className={isCancelled ? "text-decoration-line-through" : ""}>
+          {timeDisplay} • Room {occurrence.classroomNumber}
         </div>
         <div>
-          {timeDisplay} • Room {schedule.classroomNumber}
+          {isCancelled
+            ? `Cancelled${occurrence.reason ? `: ${occurrence.reason}` : ""}`
+            : occurrence.substituteFor
+            ? `${occurrence.lecturerName} (cover)`
+            : occurrence.lecturerName}
         </div>
-        <div>{schedule.lecturerName}</div>
+        {currentView === "day" && !isCancelled && (
+          <div
+            className="position-absolute bottom-0 start-0 end-0"
+            style={{ height: "6px", cursor: "ns-resize" }}
+            title="Drag to change the end time"
+            draggable
+            onDragStart={(e) => startDrag(e, event, "resize")}
+            onDragEnd={endDrag}
+          ></div>
+        )}
       </div>
     );
   };
 
+  // Holidays, reading weeks and exam periods, when classes don't run
+  const renderNonTeachingLabel = (day: moment.Moment) => {
+    const period = nonTeachingPeriodOn(academicYears, day.format("YYYY-MM-DD"));
+    return (
+      period && (
+        <div
+          className="px-1 small text-muted text-truncate"
+          title={period.name}
+        >
+          <i className="bi bi-calendar-x me-1"></i>
+          {period.name}
+        </div>
+      )
+    );
+  };
+
   // Render month view
   const renderMonthView = () => {
     const daysOfWeek = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
@@ -185,7 +454,12 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
                     backgroundColor: isToday
                       ? "rgba(var(--bs-primary-rgb), 0.1)"
                       : "",
+                    ...dropTargetStyle(
+                      preview?.target.date === day.format("YYYY-MM-DD")
+                    ),
                   }}
+                  onDragOver={(e) => handleDayDragOver(e, day)}
+                  onDrop={handleDrop}
                 >
                   <div className="p-1 d-flex justify-content-between">
                     <span className={isToday ? "fw-bold text-primary" : ""}>
@@ -197,13 +471,14 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
                       </span>
                     )}
                   </div>
+                  {renderNonTeachingLabel(day)}
                   <div
                     className="event-container p-1"
                     style={{ maxHeight: "80px", overflowY: "auto" }}
                   >
                     {eventsForDay
                       .slice(0, 3)
-                      .map((schedule) => renderEvent(schedule))}
+                      .map((event) => renderEvent(event))}
                     {eventsForDay.length > 3 && (
                       <div className="text-primary small">
                         +{eventsForDay.length - 3} more
@@ -238,7 +513,12 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
                     backgroundColor: isToday
                       ? "rgba(var(--bs-primary-rgb), 0.1)"
                       : "",
+                    ...dropTargetStyle(
+                      preview?.target.date === day.format("YYYY-MM-DD")
+                    ),
                   }}
+                  onDragOver={(e) => handleDayDragOver(e, day)}
+                  onDrop={handleDrop}
                 >
                   <div className="p-1 d-flex justify-content-between">
                     <div>
@@ -257,11 +537,12 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
                       </span>
                     )}
                   </div>
+                  {renderNonTeachingLabel(day)}
                   <div
                     className="event-container mt-2"
                     style={{ overflowY: "auto" }}
                   >
-                    {eventsForDay.map((schedule) => renderEvent(schedule))}
+                    {eventsForDay.map((event) => renderEvent(event))}
                   </div>
                 </div>
               );
@@ -276,15 +557,15 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
   const renderDayView = () => {
     const day = currentDate;
     const eventsForDay = getEventsForDay(day);
-    const eventsByHour: Record<number, Schedule[]> = {};
+    const eventsByHour: Record<number, CalendarEvent[]> = {};
 
     // Group events by hour
-    eventsForDay.forEach((schedule) => {
-      const startHour = parseInt(schedule.startTime.split(":")[0]);
+    eventsForDay.forEach((event) => {
+      const startHour = parseInt(event.occurrence.startTime.split(":")[0]);
       if (!eventsByHour[startHour]) {
         eventsByHour[startHour] = [];
       }
-      eventsByHour[startHour].push(schedule);
+      eventsByHour[startHour].push(event);
     });
 
     return (
@@ -298,10 +579,16 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
             const timeLabel = `${hour}:00`;
 
             return (
-              <div key={hour} className="row border-bottom g-0">
+              <div
+                key={hour}
+                className="row border-bottom g-0"
+                style={dropTargetStyle(previewHour() === hour)}
+                onDragOver={(e) => handleHourDragOver(e, hour)}
+                onDrop={handleDrop}
+              >
                 <div className="col-1 p-2 text-end text-muted">{timeLabel}</div>
                 <div className="col-11 border-start p-1">
-                  {eventsThisHour.map((schedule) => renderEvent(schedule))}
+                  {eventsThisHour.map((event) => renderEvent(event))}
                 </div>
               </div>
             );
@@ -319,9 +606,9 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
           <span className="fw-bold">
             {currentView === "month" && currentDate.format("MMMM YYYY")}
             {currentView === "week" &&
-              `Week of ${currentDate
+              `Week of ${moment(currentDate)
                 .startOf("week")
-                .format("MMM D")} - ${currentDate
+                .format("MMM D")} - ${moment(currentDate)
                 .endOf("week")
                 .format("MMM D, YYYY")}`}
             {currentView === "day" && currentDate.format("MMMM D, YYYY")}
@@ -381,6 +668,34 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
         </div>
       </div>
 
+      {dragging && (
+        <div
+          className={`alert py-2 small mb-2 ${
+            preview?.conflicts.length ? "alert-warning" : "alert-info"
+          }`}
+        >
+          {preview &&
+          !isUnchanged(dragging.event.occurrence, preview.target) ? (
+            <>
+              <strong>{dragging.event.schedule.moduleTitle}</strong> to{" "}
+              {formatDateKey(preview.target.date)}, {preview.target.startTime} -{" "}
+              {preview.target.endTime}:{" "}
+              {preview.conflicts.length > 0
+                ? preview.conflicts
+                    .map((conflict) => conflict.detail)
+                    .join("; ")
+                : "no conflicts"}
+            </>
+          ) : dragging.mode === "resize" ? (
+            "Drag to the new end time"
+          ) : currentView === "day" ? (
+            "Drop on a new time"
+          ) : (
+            "Drop on a new day; use the day view to change the time"
+          )}
+        </div>
+      )}
+
       {/* Calendar Views */}
       <div
         className="calendar-wrapper"
@@ -390,6 +705,40 @@ const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
         {currentView === "week" && renderWeekView()}
         {currentView === "day" && renderDayView()}
       </div>
+
+      {pending && (
+        <RescheduleDialog
+          schedule={pending.event.schedule}
+          occurrence={pending.event.occurrence}
+          target={pending.target}
+          context={conflictContext}
+          academicYears={academicYears}
+          onCancel={() => setPending(null)}
+          onSaved={(changed) => {
+            setPending(null);
+            onSchedulesChanged(changed);
+          }}
+        />
+      )}
+
+      {cancelling && (
+        <CancelClassDialog
+          schedule={cancelling.schedule}
+          occurrence={cancelling.occurrence}
+          onClose={() => setCancelling(null)}
+          onSaved={(changed) => {
+            setCancelling(null);
+            onSchedulesChanged(changed);
+          }}
+        />
+      )}
+
+      {historyFor && (
+        <ScheduleHistoryDialog
+          schedule={historyFor}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
     </div>
   );
 };
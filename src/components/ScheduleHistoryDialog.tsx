@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { db } from "../firebase";
+import { Schedule, ScheduleChange } from "../interfaces/Schedule";
+
+interface ScheduleHistoryDialogProps {
+  schedule: Schedule;
+  onClose: () => void;
+}
+
+const CHANGE_BADGES: Record<ScheduleChange["change"], string> = {
+  scheduled: "bg-success",
+  updated: "bg-primary",
+  cancelled: "bg-danger",
+};
+
+// The changes the lecturer and students of a class were notified about,
+// newest first
+const ScheduleHistoryDialog: React.FC<ScheduleHistoryDialogProps> = ({
+  schedule,
+  onClose,
+}) => {
+  const [changes, setChanges] = useState<ScheduleChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const snapshot = await getDocs(
+          query(
+            collection(db, "schedules", schedule.id, "history"),
+            orderBy("createdAt", "desc")
+          )
+        );
+        setChanges(
+          snapshot.docs.map(
+            (changeDoc) =>
+              ({ id: changeDoc.id, ...changeDoc.data() } as ScheduleChange)
+          )
+        );
+      } catch (err) {
+        console.error("Error fetching schedule history:", err);
+        setError("Failed to load the history of this class.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [schedule.id]);
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog modal-lg" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">History: {schedule.moduleTitle}</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <div className="modal-body">
+            {loading ? (
+              <div className="text-center py-4">
+                <div className="spinner-border text-primary" role="status">
+                  <span className="visually-hidden">Loading...</span>
+                </div>
+              </div>
+            ) : error ? (
+              <div className="alert alert-danger mb-0">{error}</div>
+            ) : changes.length === 0 ? (
+              <p className="text-muted text-center py-4 mb-0">
+                No changes have been made to this class yet.
+              </p>
+            ) : (
+              <ul className="list-group list-group-flush">
+                {changes.map((change) => (
+                  <li key={change.id} className="list-group-item px-0">
+                    <div className="d-flex justify-content-between">
+                      <span>
+                        <span
+                          className={`badge ${
+                            CHANGE_BADGES[change.change] || "bg-secondary"
+                          } me-2 text-capitalize`}
+                        >
+                          {change.change}
+                        </span>
+                        {change.when}, {change.startTime} - {change.endTime},
+                        Room {change.classroom}
+                      </span>
+                      <small className="text-muted text-nowrap ms-3">
+                        {new Date(change.createdAt).toLocaleString()}
+                      </small>
+                    </div>
+                    {change.reason && (
+                      <div className="small mt-1">Reason: {change.reason}</div>
+                    )}
+                    <small className="text-muted">
+                      {change.notified}{" "}
+                      {change.notified === 1 ? "person" : "people"} notified
+                    </small>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="modal-footer">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleHistoryDialog;
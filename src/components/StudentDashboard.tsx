@@ -17,6 +17,27 @@ import {
 import { db } from "../firebase";
 import MaterialsViewer from "./MaterialsViewer";
 import ChatInterface from "./ChatInterface";
+import NotificationBell from "./NotificationBell";
+import PinnedAnnouncements from "./PinnedAnnouncements";
+import CalendarExport from "./CalendarExport";
+import TimetablePrintDialog from "./TimetablePrintDialog";
+import UpcomingClassChanges from "./UpcomingClassChanges";
+import {
+  OccurrenceOverride,
+  RecurrenceRule,
+  ScheduleOccurrence,
+} from "../interfaces/Schedule";
+import {
+  describeScheduleDates,
+  occurrencesOn,
+  resolveRecurrence,
+  toDateKey,
+  weekdayOf,
+} from "../utils/recurrence";
+import {
+  loadScheduleDirectory,
+  resolveScheduleRefs,
+} from "../utils/scheduleRefs";
 
 // Define Schedule interface
 interface Schedule {
@@ -29,11 +50,17 @@ interface Schedule {
   startTime: string;
   endTime: string;
   date: string;
-  dayOfWeek: string;
-  isRecurring: boolean;
+  recurrence?: RecurrenceRule | null;
+  overrides?: OccurrenceOverride[];
   moduleId?: string;
+  lecturerId?: string;
+  classroomId?: string;
 }
 
+// A class taking place today, or cancelled for today
+type TodaysClass = Schedule &
+  Pick<ScheduleOccurrence, "isCancelled" | "reason" | "substituteFor">;
+
 // Define Course interface
 interface Course {
   id: string;
@@ -67,6 +94,7 @@ export default function StudentDashboard() {
   const [activeSection, setActiveSection] = useState("dashboard");
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [schedulesLoading, setSchedulesLoading] = useState(true);
+  const [isPrintingTimetable, setIsPrintingTimetable] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileOpen, setMobileOpen] = useState(false);
   const [error, setError] = useState("");
@@ -129,41 +157,6 @@ export default function StudentDashboard() {
       return;
     }
 
-    // Fetch student schedules based on branch or other criteria
-    async function fetchStudentSchedules() {
-      try {
-        setSchedulesLoading(true);
-        console.log("Fetching student schedules for user:", currentUser.uid);
-        // This is a placeholder - you would typically filter based on student's branch, class, etc.
-        const schedulesCollection = collection(db, "schedules");
-
-        // Simple query without complex ordering for now to avoid index issues
-        const scheduleSnapshot = await getDocs(schedulesCollection);
-
-        const scheduleList = scheduleSnapshot.docs.map(
-          (doc) =>
-            ({
-              id: doc.id,
-              ...doc.data(),
-            } as Schedule)
-        );
-
-        console.log(`Fetched ${scheduleList.length} schedules`);
-        setSchedules(scheduleList);
-        // Show success message using notification system
-        if (scheduleList.length > 0) {
-          showNotification(`Found ${scheduleList.length} class schedules`);
-        }
-      } catch (err) {
-        console.error("Error fetching schedules:", err);
-        showNotification("Failed to load your class schedules");
-      } finally {
-        setSchedulesLoading(false);
-      }
-    }
-
-    fetchStudentSchedules();
-
     // Fetch enrolled courses
     async function fetchEnrolledCourses() {
       if (!currentUser?.uid) {
@@ -255,6 +248,14 @@ export default function StudentDashboard() {
           // If in development, add demo schedules
           if (process.env.NODE_ENV === "development") {
             console.log("Adding demo schedules for testing");
+            const today = toDateKey(new Date());
+            const weeklyFromToday: RecurrenceRule = {
+              frequency: "weekly",
+              interval: 1,
+              byDay: [weekdayOf(today)],
+              startDate: today,
+              exceptionDates: [],
+            };
             const demoSchedules: Schedule[] = [
               {
                 id: "demo1",
@@ -265,11 +266,8 @@ export default function StudentDashboard() {
                 branch: "Main Campus",
                 startTime: "09:00",
                 endTime: "10:30",
-                date: new Date().toISOString().split("T")[0], // Today
-                dayOfWeek: new Date().toLocaleDateString("en-US", {
-                  weekday: "long",
-                }),
-                isRecurring: true,
+                date: "",
+                recurrence: weeklyFromToday,
                 moduleId: "demo-module-1",
               },
               {
@@ -281,11 +279,8 @@ export default function StudentDashboard() {
                 branch: "Tech Building",
                 startTime: "11:00",
                 endTime: "12:30",
-                date: new Date().toISOString().split("T")[0], // Today
-                dayOfWeek: new Date().toLocaleDateString("en-US", {
-                  weekday: "long",
-                }),
-                isRecurring: true,
+                date: "",
+                recurrence: weeklyFromToday,
                 moduleId: "demo-module-2",
               },
             ];
@@ -324,7 +319,8 @@ export default function StudentDashboard() {
 
         console.log("Student is enrolled in courses:", enrolledCourseIds);
 
-        // Get module IDs for enrolled courses
+        // Get module IDs for enrolled courses: modules either belong to the
+        // course or are listed in its `modules` array
         const modulesByEnrolledCourse = await Promise.all(
           enrolledCourseIds.map(async (courseId) => {
             const modulesCollection = collection(db, "modules");
@@ -332,8 +328,14 @@ export default function StudentDashboard() {
               modulesCollection,
               where("courseId", "==", courseId)
             );
-            const modulesSnapshot = await getDocs(modulesQuery);
-            return modulesSnapshot.docs.map((doc) => doc.id);
+            const [modulesSnapshot, courseDoc] = await Promise.all([
+              getDocs(modulesQuery),
+              getDoc(doc(db, "courses", courseId)),
+            ]);
+            return [
+              ...modulesSnapshot.docs.map((doc) => doc.id),
+              ...((courseDoc.data()?.modules as string[]) || []),
+            ];
           })
         );
 
@@ -376,12 +378,18 @@ export default function StudentDashboard() {
             : "No schedules"
         );
 
-        const studentSchedules = allSchedules.filter(
-          (schedule: any) =>
-            // Include schedules either directly associated with courses or via modules
-            enrolledCourseIds.includes(schedule.courseId) ||
-            enrolledModuleIds.includes(schedule.moduleId)
-        ) as Schedule[];
+        // Show current module, lecturer and room names
+        const directory = await loadScheduleDirectory();
+        const studentSchedules = allSchedules
+          .filter(
+            (schedule: any) =>
+              // Include schedules either directly associated with courses or via modules
+              enrolledCourseIds.includes(schedule.courseId) ||
+              enrolledModuleIds.includes(schedule.moduleId)
+          )
+          .map((schedule) =>
+            resolveScheduleRefs(schedule as Schedule, directory)
+          );
 
         console.log(`Found ${studentSchedules.length} schedules for student`);
 
@@ -600,38 +608,33 @@ export default function StudentDashboard() {
 
   // Render the dashboard section
   const renderDashboardSection = () => {
-    // Get today's date (without time) for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Today's date in local time, as YYYY-MM-DD
+    const todayFormatted = toDateKey(new Date());
 
-    // Format as YYYY-MM-DD for comparison
-    const todayFormatted = today.toISOString().split("T")[0];
-    console.log("Today's date for comparison:", todayFormatted);
-
-    // Filter schedules for today with safe date handling
-    let todaysClasses = schedules.filter((schedule) => {
+    // Expand each schedule's occurrences for today, applying any changes made
+    // to today's class
+    let todaysClasses: TodaysClass[] = schedules.flatMap((schedule) => {
       try {
-        console.log(`Checking schedule ${schedule.id}:`, {
-          date: schedule.date,
-          type: typeof schedule.date,
-        });
-
-        // Use the helper function to parse the date
-        const scheduleDateFormatted = parseDateToISO(schedule.date);
-
-        console.log(`Schedule ${schedule.id} date comparison:`, {
-          scheduleDateFormatted,
-          todayFormatted,
-          isToday: scheduleDateFormatted === todayFormatted,
-        });
-
-        return scheduleDateFormatted === todayFormatted;
+        const date = parseDateToISO(schedule.date) || "";
+        return occurrencesOn({ ...schedule, date }, todayFormatted, {
+          includeCancelled: true,
+        }).map((occurrence) => ({
+          ...schedule,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          classroomNumber: occurrence.classroomNumber,
+          floorNumber: occurrence.floorNumber,
+          lecturerName: occurrence.lecturerName,
+          isCancelled: occurrence.isCancelled,
+          reason: occurrence.reason,
+          substituteFor: occurrence.substituteFor,
+        }));
       } catch (err) {
         console.error(
           `Error processing date for schedule ${schedule.id}:`,
           err
         );
-        return false;
+        return [];
       }
     });
 
@@ -650,12 +653,10 @@ export default function StudentDashboard() {
         startTime: "10:00",
         endTime: "11:30",
         date: todayFormatted,
-        dayOfWeek: today.toLocaleDateString("en-US", { weekday: "long" }),
-        isRecurring: false,
         moduleId: enrolledCourses[0].modules?.[0], // Use first module if available
       };
 
-      todaysClasses = [demoClass];
+      todaysClasses = [{ ...demoClass, isCancelled: false }];
     }
 
     // Sort by start time
@@ -696,7 +697,9 @@ export default function StudentDashboard() {
                 </div>
                 <div className="ms-3">
                   <h6 className="card-subtitle text-muted">Today's Classes</h6>
-                  <h3 className="card-title mb-0">{todaysClasses.length}</h3>
+                  <h3 className="card-title mb-0">
+                    {todaysClasses.filter((c) => !c.isCancelled).length}
+                  </h3>
                 </div>
               </div>
             </div>
@@ -760,12 +763,31 @@ export default function StudentDashboard() {
                       key={schedule.id}
                       className="mb-3 border-start border-primary border-3 ps-3"
                     >
-                      <h6 className="mb-1">{schedule.moduleTitle}</h6>
+                      <h6
+                        className={`mb-1 ${
+                          schedule.isCancelled
+                            ? "text-decoration-line-through text-muted"
+                            : ""
+                        }`}
+                      >
+                        {schedule.moduleTitle}
+                      </h6>
                       <small className="text-muted d-block mb-2">
                         {`${schedule.startTime} - ${schedule.endTime}`}
+                        {schedule.isCancelled &&
+                          ` • Cancelled${
+                            schedule.reason ? `: ${schedule.reason}` : ""
+                          }`}
+                        {!schedule.isCancelled &&
+                          schedule.substituteFor &&
+                          ` • ${schedule.lecturerName} covering for ${schedule.substituteFor}`}
                       </small>
                       <div className="d-flex justify-content-between align-items-center">
-                        <span className="badge bg-primary">{`Room ${schedule.classroomNumber}`}</span>
+                        {schedule.isCancelled ? (
+                          <span className="badge bg-danger">Cancelled</span>
+                        ) : (
+                          <span className="badge bg-primary">{`Room ${schedule.classroomNumber}`}</span>
+                        )}
                         <button
                           className="btn btn-sm btn-outline-primary"
                           onClick={() => {
@@ -889,11 +911,14 @@ export default function StudentDashboard() {
                   {schedules.map((schedule) => {
                     // Format date as readable string with safe type handling
                     let formattedDate = "Unknown date";
+                    const isRecurring = !!resolveRecurrence(schedule);
                     try {
                       // Get the date in a standardized format for display
                       let dateObj: Date | null = null;
 
-                      if (typeof schedule.date === "string") {
+                      if (isRecurring) {
+                        formattedDate = describeScheduleDates(schedule);
+                      } else if (typeof schedule.date === "string") {
                         dateObj = new Date(schedule.date);
                       } else if (
                         schedule.date &&
@@ -920,7 +945,7 @@ export default function StudentDashboard() {
                           `Formatted date for schedule ${schedule.id}:`,
                           formattedDate
                         );
-                      } else {
+                      } else if (!isRecurring) {
                         console.log(
                           `Invalid date object for schedule ${schedule.id}`
                         );
@@ -939,10 +964,10 @@ export default function StudentDashboard() {
                             <span className="fw-medium">
                               {schedule.moduleTitle}
                             </span>
-                            {schedule.isRecurring && (
+                            {isRecurring && (
                               <small className="text-muted">
                                 <i className="bi bi-arrow-repeat me-1"></i>
-                                Recurring ({schedule.dayOfWeek})
+                                Recurring
                               </small>
                             )}
                           </div>
@@ -1515,6 +1540,18 @@ export default function StudentDashboard() {
       <div className="row">
         <div className="col-12">
           <div className="dashboard-card">
+            <div className="d-flex justify-content-between align-items-center mb-4">
+              <h5 className="mb-0">Your Classes</h5>
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-primary"
+                onClick={() => setIsPrintingTimetable(true)}
+                disabled={enrolledCourses.length === 0}
+              >
+                <i className="bi bi-printer me-1"></i>
+                Print Timetable
+              </button>
+            </div>
             <div className="table-responsive">
               <table className="table table-hover">
                 <thead className="table-light">
@@ -1530,7 +1567,10 @@ export default function StudentDashboard() {
                   {schedules.map((schedule, index) => (
                     <tr key={index}>
                       <td>{schedule.moduleTitle}</td>
-                      <td>{schedule.dayOfWeek}</td>
+                      <td>
+                        {describeScheduleDates(schedule)}
+                        <UpcomingClassChanges schedule={schedule} />
+                      </td>
                       <td>
                         {schedule.startTime} - {schedule.endTime}
                       </td>
@@ -1567,7 +1607,22 @@ export default function StudentDashboard() {
             </div>
           </div>
         </div>
+        <div className="col-12 mt-4">
+          <CalendarExport />
+        </div>
       </div>
+
+      {isPrintingTimetable && (
+        <TimetablePrintDialog
+          subjects={enrolledCourses.map((course) => ({
+            kind: "course",
+            id: course.id,
+            label: course.title,
+            semester: course.enrollment.semester,
+          }))}
+          onClose={() => setIsPrintingTimetable(false)}
+        />
+      )}
     </div>
   );
 
@@ -1812,14 +1867,21 @@ export default function StudentDashboard() {
         )}
 
         {/* Welcome header */}
-        <div className="mb-4">
-          <h1 className="h3 fw-bold">Welcome, {userData?.name || "Student"}</h1>
-          <p className="text-muted">
-            Manage your classes, access learning materials, and participate in
-            campus activities.
-          </p>
+        <div className="mb-4 d-flex justify-content-between align-items-start">
+          <div>
+            <h1 className="h3 fw-bold">
+              Welcome, {userData?.name || "Student"}
+            </h1>
+            <p className="text-muted">
+              Manage your classes, access learning materials, and participate
+              in campus activities.
+            </p>
+          </div>
+          <NotificationBell />
         </div>
 
+        <PinnedAnnouncements />
+
         {/* Container for dynamic content */}
         <div className="content-container">{renderContent()}</div>
       </div>
@@ -0,0 +1,806 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { collection, doc, getDocs, writeBatch } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { useConfirm } from "../contexts/ConfirmContext";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import { Schedule } from "../interfaces/Schedule";
+import {
+  ConflictContext,
+  loadConflictContext,
+} from "../utils/scheduleConflicts";
+import { WEEKDAYS, addDays, toDateKey } from "../utils/recurrence";
+import {
+  loadAcademicYears,
+  withNonTeachingDates,
+} from "../utils/academicCalendar";
+import {
+  DraftSession,
+  GeneratedTimetable,
+  GeneratorModule,
+  GeneratorOptions,
+  GeneratorRoom,
+  findDraftViolations,
+  generateTimetable,
+  scoreTimetable,
+  sessionsPerWeek,
+  withStartTime,
+} from "../utils/timetableGenerator";
+
+interface TimetableGeneratorProps {
+  onPublished: (schedules: Schedule[]) => void;
+}
+
+const BRANCHES = ["Colombo", "Kandy", "Gampaha", "Negombo", "Kurunegala"];
+
+// Monday first, as on the calendar
+const WEEK = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const defaultOptions = (): GeneratorOptions => {
+  const today = toDateKey(new Date());
+  return {
+    days: WEEK.slice(0, 5),
+    dayStart: "08:00",
+    dayEnd: "18:00",
+    sessionMinutes: 120,
+    creditsPerSession: 10,
+    maxLecturerHoursPerDay: 6,
+    branch: BRANCHES[0],
+    termStart: today,
+    termEnd: addDays(today, 7 * 15 - 1),
+  };
+};
+
+const normalize = (value?: string): string =>
+  (value || "").trim().toLowerCase();
+
+// Produces a weekly timetable draft from modules, classrooms and enrollments,
+// which the admin can adjust before publishing it as recurring schedules
+const TimetableGenerator: React.FC<TimetableGeneratorProps> = ({
+  onPublished,
+}) => {
+  const { userData } = useAuth();
+  const { showNotification } = useNotification();
+  const { showConfirm } = useConfirm();
+
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [context, setContext] = useState<ConflictContext | null>(null);
+  const [modules, setModules] = useState<GeneratorModule[]>([]);
+  const [rooms, setRooms] = useState<GeneratorRoom[]>([]);
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [scheduledTitles, setScheduledTitles] = useState<Set<string>>(
+    new Set()
+  );
+
+  const [options, setOptions] = useState<GeneratorOptions>(defaultOptions);
+  const [selectedModuleIds, setSelectedModuleIds] = useState<string[]>([]);
+  // Week days each lecturer can't teach on, keyed by lecturer name
+  const [unavailableDays, setUnavailableDays] = useState<
+    Record<string, string[]>
+  >({});
+  const [draft, setDraft] = useState<GeneratedTimetable | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [conflictContext, moduleSnapshot, enrollmentSnapshot, years] =
+          await Promise.all([
+            loadConflictContext(),
+            getDocs(collection(db, "modules")),
+            getDocs(collection(db, "enrollments")),
+            loadAcademicYears(),
+          ]);
+
+        const activeByCourse = new Map<string, number>();
+        enrollmentSnapshot.docs
+          .map((enrollmentDoc) => enrollmentDoc.data())
+          .filter((enrollment) => enrollment.status === "Active")
+          .forEach((enrollment) =>
+            activeByCourse.set(
+              enrollment.courseId,
+              (activeByCourse.get(enrollment.courseId) || 0) + 1
+            )
+          );
+
+        const moduleList: GeneratorModule[] = moduleSnapshot.docs.map(
+          (moduleDoc) => {
+            const data = moduleDoc.data();
+            const courseIds =
+              conflictContext.courseIdsByModuleId.get(moduleDoc.id) || [];
+            return {
+              id: moduleDoc.id,
+              title: data.title || "",
+              credits: Number(data.credits) || 0,
+              lecturers: (data.lecturers || []).filter(Boolean),
+              requiredResources: (data.requiredResources || []).filter(Boolean),
+              courseIds,
+              enrolled: courseIds.reduce(
+                (total, courseId) =>
+                  total + (activeByCourse.get(courseId) || 0),
+                0
+              ),
+            };
+          }
+        );
+
+        const titles = new Set(
+          conflictContext.slots
+            .filter((slot) => slot.source === "schedule")
+            .map((slot) => normalize(slot.title))
+        );
+
+        setContext(conflictContext);
+        setModules(moduleList);
+        setAcademicYears(years);
+        setRooms(
+          Array.from(conflictContext.classroomsById.values())
+            .filter((classroom) => classroom.isActive !== false)
+            .map((classroom) => ({
+              id: classroom.id,
+              building: classroom.building,
+              floor: classroom.floor,
+              roomNumber: classroom.roomNumber,
+              capacity: Number(classroom.capacity) || 0,
+              resources: classroom.resources || [],
+            }))
+        );
+        setScheduledTitles(titles);
+        // Start with the modules that aren't on the timetable yet
+        setSelectedModuleIds(
+          moduleList
+            .filter((module) => !titles.has(normalize(module.title)))
+            .map((module) => module.id)
+        );
+      } catch (error) {
+        console.error("Error loading timetable data:", error);
+        showNotification("Failed to load modules and classrooms");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [showNotification]);
+
+  const lecturers = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          modules
+            .filter((module) => selectedModuleIds.includes(module.id))
+            .flatMap((module) => module.lecturers)
+        )
+      ).sort(),
+    [modules, selectedModuleIds]
+  );
+
+  const generatorOptions: GeneratorOptions = useMemo(
+    () => ({
+      ...options,
+      isLecturerAvailable: (lecturerName, day) =>
+        !(unavailableDays[lecturerName] || []).includes(day),
+    }),
+    [options, unavailableDays]
+  );
+
+  const violations = useMemo(
+    () =>
+      draft && context
+        ? findDraftViolations(
+            draft.sessions,
+            modules,
+            rooms,
+            context,
+            generatorOptions
+          )
+        : {},
+    [draft, context, modules, rooms, generatorOptions]
+  );
+  const violationCount = Object.keys(violations).length;
+
+  const roomsById = useMemo(
+    () => new Map(rooms.map((room) => [room.id, room])),
+    [rooms]
+  );
+
+  const updateOptions = (changes: Partial<GeneratorOptions>) =>
+    setOptions({ ...options, ...changes });
+
+  const toggle = (values: string[], value: string): string[] =>
+    values.includes(value)
+      ? values.filter((v) => v !== value)
+      : [...values, value];
+
+  const handleGenerate = () => {
+    if (!context) return;
+    if (options.termEnd < options.termStart) {
+      showNotification("The term must end after it starts");
+      return;
+    }
+    const selected = modules.filter((module) =>
+      selectedModuleIds.includes(module.id)
+    );
+    if (selected.length === 0 || options.days.length === 0) {
+      showNotification("Choose at least one module and teaching day");
+      return;
+    }
+
+    const result = generateTimetable(selected, rooms, context, {
+      ...generatorOptions,
+      days: WEEK.filter((day) => options.days.includes(day)),
+    });
+    setDraft(result);
+    showNotification(
+      `Placed ${result.sessions.length} session(s)${
+        result.unplaced.length ? `, ${result.unplaced.length} couldn't fit` : ""
+      }`
+    );
+  };
+
+  // Re-score the draft whenever the admin edits it
+  const updateSessions = (sessions: DraftSession[]) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      sessions,
+      score: scoreTimetable(sessions, rooms, generatorOptions),
+    });
+  };
+
+  const updateSession = (key: string, changes: Partial<DraftSession>) => {
+    if (!draft) return;
+    updateSessions(
+      draft.sessions.map((session) => {
+        if (session.key !== key) return session;
+        return changes.startTime
+          ? withStartTime(session, changes.startTime)
+          : { ...session, ...changes };
+      })
+    );
+  };
+
+  const handlePublish = () => {
+    if (!draft || draft.sessions.length === 0) return;
+
+    showConfirm(
+      {
+        title: "Publish Timetable",
+        message: `Add ${draft.sessions.length} weekly class(es) at ${options.branch} from ${options.termStart} to ${options.termEnd}?`,
+        confirmLabel: "Publish",
+        cancelLabel: "Cancel",
+        variant: "success",
+        icon: "bi-calendar-check",
+      },
+      async () => {
+        setPublishing(true);
+        try {
+          const timestamp = new Date().toISOString();
+          const batch = writeBatch(db);
+          // Modules list their lecturers by name
+          const lecturerIds = new Map(
+            Array.from(context?.userNamesById || []).map(([id, name]) => [
+              normalize(name),
+              id,
+            ])
+          );
+          const published: Schedule[] = draft.sessions.map((session) => {
+            const room = roomsById.get(session.roomId);
+            const lecturerId = lecturerIds.get(normalize(session.lecturerName));
+            const ref = doc(collection(db, "schedules"));
+            const schedule: Omit<Schedule, "id"> = {
+              moduleId: session.moduleId,
+              ...(lecturerId && { lecturerId }),
+              ...(room && { classroomId: room.id }),
+              moduleTitle: session.moduleTitle,
+              lecturerName: session.lecturerName,
+              classroomNumber: room?.roomNumber || "",
+              floorNumber: room ? String(room.floor) : "",
+              branch: options.branch,
+              startTime: session.startTime,
+              endTime: session.endTime,
+              date: "",
+              recurrence: withNonTeachingDates(
+                {
+                  frequency: "weekly",
+                  interval: 1,
+                  byDay: [session.day],
+                  startDate: options.termStart,
+                  until: options.termEnd,
+                  exceptionDates: [],
+                },
+                academicYears
+              ),
+              overrides: [],
+              createdAt: timestamp,
+              updatedAt: timestamp,
+            };
+            batch.set(ref, {
+              ...schedule,
+              createdBy: userData?.uid || "unknown",
+            });
+            return { ...schedule, id: ref.id };
+          });
+          await batch.commit();
+
+          onPublished(published);
+          setDraft(null);
+          showNotification(`Published ${published.length} classes`);
+        } catch (error) {
+          console.error("Error publishing timetable:", error);
+          showNotification("Failed to publish the timetable");
+        } finally {
+          setPublishing(false);
+        }
+      }
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-5">
+        <div className="spinner-border text-primary" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </div>
+        <p className="mt-3 text-muted">Loading modules and classrooms...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="row g-4">
+      <div className="col-12 col-xl-5">
+        <div className="dashboard-card">
+          <h5 className="mb-3">Settings</h5>
+          <div className="row g-3 mb-3">
+            {academicYears.some((year) => year.semesters?.length) && (
+              <div className="col-12">
+                <label className="form-label">Semester</label>
+                <select
+                  className="form-select"
+                  value=""
+                  onChange={(e) => {
+                    const semester = academicYears
+                      .flatMap((year) => year.semesters || [])
+                      .find((other) => other.id === e.target.value);
+                    if (semester) {
+                      updateOptions({
+                        termStart: semester.startDate,
+                        termEnd: semester.endDate,
+                      });
+                    }
+                  }}
+                >
+                  <option value="">Use a semester's dates...</option>
+                  {academicYears.map((year) =>
+                    (year.semesters || []).map((semester) => (
+                      <option key={semester.id} value={semester.id}>
+                        {year.name} - {semester.name}
+                      </option>
+                    ))
+                  )}
+                </select>
+              </div>
+            )}
+            <div className="col-md-6">
+              <label className="form-label">Term starts</label>
+              <input
+                type="date"
+                className="form-control"
+                value={options.termStart}
+                onChange={(e) => updateOptions({ termStart: e.target.value })}
+              />
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Term ends</label>
+              <input
+                type="date"
+                className="form-control"
+                value={options.termEnd}
+                min={options.termStart}
+                onChange={(e) => updateOptions({ termEnd: e.target.value })}
+              />
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Branch</label>
+              <select
+                className="form-select"
+                value={options.branch}
+                onChange={(e) => updateOptions({ branch: e.target.value })}
+              >
+                {BRANCHES.map((branch) => (
+                  <option key={branch} value={branch}>
+                    {branch}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Session length</label>
+              <select
+                className="form-select"
+                value={options.sessionMinutes}
+                onChange={(e) =>
+                  updateOptions({ sessionMinutes: Number(e.target.value) })
+                }
+              >
+                {[60, 90, 120, 180].map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes / 60} hour{minutes === 60 ? "" : "s"}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Day starts</label>
+              <input
+                type="time"
+                className="form-control"
+                value={options.dayStart}
+                onChange={(e) => updateOptions({ dayStart: e.target.value })}
+              />
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Day ends</label>
+              <input
+                type="time"
+                className="form-control"
+                value={options.dayEnd}
+                onChange={(e) => updateOptions({ dayEnd: e.target.value })}
+              />
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Credits per weekly session</label>
+              <input
+                type="number"
+                className="form-control"
+                min={1}
+                value={options.creditsPerSession}
+                onChange={(e) =>
+                  updateOptions({
+                    creditsPerSession: Math.max(1, Number(e.target.value)),
+                  })
+                }
+              />
+            </div>
+            <div className="col-md-6">
+              <label className="form-label">Lecturer hours per day</label>
+              <input
+                type="number"
+                className="form-control"
+                min={1}
+                max={12}
+                value={options.maxLecturerHoursPerDay}
+                onChange={(e) =>
+                  updateOptions({
+                    maxLecturerHoursPerDay: Math.max(1, Number(e.target.value)),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <label className="form-label d-block">Teaching days</label>
+          <div className="btn-group flex-wrap mb-4" role="group">
+            {WEEK.map((day) => (
+              <button
+                key={day}
+                type="button"
+                className={`btn btn-sm ${
+                  options.days.includes(day)
+                    ? "btn-primary"
+                    : "btn-outline-primary"
+                }`}
+                onClick={() =>
+                  updateOptions({ days: toggle(options.days, day) })
+                }
+              >
+                {day.slice(0, 3)}
+              </button>
+            ))}
+          </div>
+
+          <h6>Modules</h6>
+          <div
+            className="list-group mb-4"
+            style={{ maxHeight: "300px", overflowY: "auto" }}
+          >
+            {modules.length === 0 && (
+              <div className="list-group-item text-muted small">
+                No modules found
+              </div>
+            )}
+            {modules.map((module) => (
+              <label
+                key={module.id}
+                className="list-group-item d-flex align-items-start gap-2"
+              >
+                <input
+                  type="checkbox"
+                  className="form-check-input mt-1"
+                  checked={selectedModuleIds.includes(module.id)}
+                  onChange={() =>
+                    setSelectedModuleIds(toggle(selectedModuleIds, module.id))
+                  }
+                />
+                <div className="small">
+                  <div className="fw-semibold">
+                    {module.title}
+                    {scheduledTitles.has(normalize(module.title)) && (
+                      <span className="badge bg-light text-dark border ms-2">
+                        Scheduled
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-muted">
+                    {sessionsPerWeek(module, options)} session(s)/week •{" "}
+                    {module.enrolled} students •{" "}
+                    {module.lecturers.join(", ") || "No lecturer"}
+                    {module.requiredResources.length > 0 &&
+                      ` • Needs ${module.requiredResources.join(", ")}`}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {lecturers.length > 0 && (
+            <>
+              <h6>Lecturer availability</h6>
+              <p className="small text-muted">
+                Untick the days a lecturer can't teach.
+              </p>
+              <div className="table-responsive mb-4">
+                <table className="table table-sm align-middle small">
+                  <tbody>
+                    {lecturers.map((lecturer) => (
+                      <tr key={lecturer}>
+                        <td>{lecturer}</td>
+                        {options.days.map((day) => (
+                          <td key={day} className="text-center">
+                            <div className="form-check form-check-inline m-0">
+                              <input
+                                type="checkbox"
+                                className="form-check-input"
+                                title={day}
+                                checked={
+                                  !(unavailableDays[lecturer] || []).includes(
+                                    day
+                                  )
+                                }
+                                onChange={() =>
+                                  setUnavailableDays({
+                                    ...unavailableDays,
+                                    [lecturer]: toggle(
+                                      unavailableDays[lecturer] || [],
+                                      day
+                                    ),
+                                  })
+                                }
+                              />
+                              <label className="form-check-label">
+                                {day.slice(0, 2)}
+                              </label>
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <button
+            type="button"
+            className="btn btn-primary w-100"
+            onClick={handleGenerate}
+          >
+            <i className="bi bi-magic me-2"></i>
+            Generate Draft
+          </button>
+        </div>
+      </div>
+
+      <div className="col-12 col-xl-7">
+        <div className="dashboard-card">
+          <div className="d-flex justify-content-between align-items-center mb-3">
+            <h5 className="mb-0">Draft Timetable</h5>
+            {draft && (
+              <button
+                type="button"
+                className="btn btn-success"
+                onClick={handlePublish}
+                disabled={
+                  publishing ||
+                  violationCount > 0 ||
+                  draft.sessions.length === 0
+                }
+              >
+                <i className="bi bi-cloud-upload me-2"></i>
+                Publish
+              </button>
+            )}
+          </div>
+
+          {!draft ? (
+            <div className="text-center py-5 text-muted">
+              <i className="bi bi-grid-3x3-gap fs-1"></i>
+              <p className="mt-3">
+                Choose modules and settings, then generate a draft to review
+                here.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="d-flex flex-wrap gap-2 mb-3 small">
+                <span className="badge bg-primary">
+                  Score {draft.score.total} (lower is better)
+                </span>
+                <span className="badge bg-light text-dark border">
+                  Gaps {Math.round(draft.score.gapMinutes / 60)}h
+                </span>
+                <span className="badge bg-light text-dark border">
+                  Over max hours {Math.round(draft.score.overtimeMinutes / 60)}h
+                </span>
+                <span className="badge bg-light text-dark border">
+                  Building changes {draft.score.buildingChanges}
+                </span>
+                <span className="badge bg-light text-dark border">
+                  Repeated days {draft.score.repeatedDays}
+                </span>
+              </div>
+
+              {draft.unplaced.length > 0 && (
+                <div className="alert alert-warning small">
+                  <strong>Couldn't place:</strong>
+                  <ul className="mb-0">
+                    {draft.unplaced.map((item, index) => (
+                      <li key={`${item.moduleId}-${index}`}>
+                        {item.moduleTitle}: {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {violationCount > 0 && (
+                <div className="alert alert-danger small">
+                  Fix the highlighted clashes before publishing.
+                </div>
+              )}
+
+              <div className="table-responsive">
+                <table className="table table-sm align-middle">
+                  <thead className="table-light">
+                    <tr>
+                      <th>Module</th>
+                      <th>Day</th>
+                      <th>Start</th>
+                      <th>Room</th>
+                      <th>Lecturer</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.sessions.map((session) => {
+                      const module = modules.find(
+                        (m) => m.id === session.moduleId
+                      );
+                      const problems = violations[session.key] || [];
+                      return (
+                        <tr
+                          key={session.key}
+                          className={problems.length ? "table-danger" : ""}
+                        >
+                          <td className="small">
+                            <div className="fw-semibold">
+                              {session.moduleTitle}
+                            </div>
+                            <div className="text-muted">
+                              {session.enrolled} students, ends{" "}
+                              {session.endTime}
+                            </div>
+                            {problems.map((problem) => (
+                              <div key={problem} className="text-danger">
+                                {problem}
+                              </div>
+                            ))}
+                          </td>
+                          <td>
+                            <select
+                              className="form-select form-select-sm"
+                              value={session.day}
+                              onChange={(e) =>
+                                updateSession(session.key, {
+                                  day: e.target.value,
+                                })
+                              }
+                            >
+                              {WEEK.map((day) => (
+                                <option key={day} value={day}>
+                                  {day.slice(0, 3)}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td>
+                            <input
+                              type="time"
+                              className="form-control form-control-sm"
+                              value={session.startTime}
+                              onChange={(e) =>
+                                updateSession(session.key, {
+                                  startTime: e.target.value,
+                                })
+                              }
+                            />
+                          </td>
+                          <td>
+                            <select
+                              className="form-select form-select-sm"
+                              value={session.roomId}
+                              onChange={(e) =>
+                                updateSession(session.key, {
+                                  roomId: e.target.value,
+                                })
+                              }
+                            >
+                              {rooms.map((room) => (
+                                <option key={room.id} value={room.id}>
+                                  {room.building} {room.roomNumber} (
+                                  {room.capacity})
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td>
+                            <select
+                              className="form-select form-select-sm"
+                              value={session.lecturerName}
+                              onChange={(e) =>
+                                updateSession(session.key, {
+                                  lecturerName: e.target.value,
+                                })
+                              }
+                            >
+                              {(
+                                module?.lecturers || [session.lecturerName]
+                              ).map((lecturer) => (
+                                <option key={lecturer} value={lecturer}>
+                                  {lecturer}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td>
+                            <button
+                              type="button"
+                              className="btn btn-sm btn-link text-danger"
+                              title="Remove from draft"
+                              onClick={() =>
+                                updateSessions(
+                                  draft.sessions.filter(
+                                    (s) => s.key !== session.key
+                                  )
+                                )
+                              }
+                            >
+                              <i className="bi bi-x-lg"></i>
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimetableGenerator;
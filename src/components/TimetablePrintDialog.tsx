@@ -0,0 +1,429 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "../firebase";
+import { useNotification } from "../contexts/NotificationContext";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import { Course } from "../interfaces/Course";
+import { loadAcademicYears } from "../utils/academicCalendar";
+import { addDays, toDateKey } from "../utils/recurrence";
+import {
+  ConflictContext,
+  loadConflictContext,
+} from "../utils/scheduleConflicts";
+import {
+  ScheduleDirectory,
+  describeClassroom,
+  loadScheduleDirectory,
+} from "../utils/scheduleRefs";
+import {
+  MAX_PRINT_WEEKS,
+  PrintSubject,
+  PrintSubjectKind,
+  PrintTimetable,
+  buildPrintTimetable,
+  collectPrintEntries,
+  describeSubject,
+  downloadTimetablePdf,
+  openPrintableTimetable,
+  weekStartOf,
+} from "../utils/timetablePrint";
+
+interface TimetablePrintDialogProps {
+  // The timetables to choose from, e.g. a student's courses. Admins leave
+  // this out to pick any course, lecturer or room.
+  subjects?: PrintSubject[];
+  onClose: () => void;
+}
+
+const SUBJECT_KINDS: Record<PrintSubjectKind, string> = {
+  course: "Course",
+  lecturer: "Lecturer",
+  classroom: "Room",
+};
+
+// Renders a weekly timetable for a date range as a printable page or a PDF
+const TimetablePrintDialog: React.FC<TimetablePrintDialogProps> = ({
+  subjects,
+  onClose,
+}) => {
+  const { showNotification } = useNotification();
+  const [context, setContext] = useState<ConflictContext | null>(null);
+  const [directory, setDirectory] = useState<ScheduleDirectory | null>(
+    null
+  );
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [loading, setLoading] = useState(true);
+  const pickAny = !subjects;
+
+  const [kind, setKind] = useState<PrintSubjectKind>(
+    subjects?.[0]?.kind || "course"
+  );
+  const [subjectId, setSubjectId] = useState(subjects?.[0]?.id || "");
+  const [semester, setSemester] = useState(
+    subjects?.[0]?.semester ? String(subjects[0].semester) : ""
+  );
+  const [from, setFrom] = useState(() => weekStartOf(toDateKey(new Date())));
+  const [to, setTo] = useState(() =>
+    addDays(weekStartOf(toDateKey(new Date())), 27)
+  );
+
+  useEffect(() => {
+    const fetchTimetables = async () => {
+      try {
+        const [conflictContext, years] = await Promise.all([
+          loadConflictContext(),
+          loadAcademicYears(),
+        ]);
+        setContext(conflictContext);
+        setAcademicYears(years);
+
+        if (pickAny) {
+          const [scheduleDirectory, courseSnapshot] = await Promise.all([
+            loadScheduleDirectory(),
+            getDocs(collection(db, "courses")),
+          ]);
+          setDirectory(scheduleDirectory);
+          setCourses(
+            courseSnapshot.docs
+              .map(
+                (courseDoc) =>
+                  ({ id: courseDoc.id, ...courseDoc.data() } as Course)
+              )
+              .sort((a, b) => (a.title || "").localeCompare(b.title || ""))
+          );
+        }
+      } catch (err) {
+        console.error("Error loading timetables:", err);
+        showNotification("Failed to load timetables");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTimetables();
+  }, [pickAny, showNotification]);
+
+  // Semesters the chosen course has modules in
+  const courseSemesters = useMemo(() => {
+    if (!context || kind !== "course" || !subjectId) return [];
+    const semesters = new Set<number>();
+    context.courseIdsByModuleId.forEach((courseIds, moduleId) => {
+      const moduleSemester = Number(
+        context.modulesById.get(moduleId)?.semester
+      );
+      if (courseIds.includes(subjectId) && moduleSemester > 0) {
+        semesters.add(moduleSemester);
+      }
+    });
+    return Array.from(semesters).sort((a, b) => a - b);
+  }, [context, kind, subjectId]);
+
+  const subject = useMemo((): PrintSubject | null => {
+    if (subjects) {
+      const chosen = subjects.find((other) => other.id === subjectId);
+      return chosen
+        ? {
+            ...chosen,
+            ...(chosen.kind === "course" && {
+              semester: semester ? Number(semester) : undefined,
+            }),
+          }
+        : null;
+    }
+    if (!directory || !subjectId) return null;
+    switch (kind) {
+      case "course": {
+        const course = courses.find((other) => other.id === subjectId);
+        return course
+          ? {
+              kind,
+              id: course.id,
+              label: `${course.code ? `${course.code} ` : ""}${course.title}`,
+              ...(semester && { semester: Number(semester) }),
+            }
+          : null;
+      }
+      case "lecturer": {
+        const lecturer = directory.lecturers.find(
+          (other) => other.id === subjectId
+        );
+        return lecturer
+          ? { kind, id: lecturer.id, label: lecturer.name }
+          : null;
+      }
+      default: {
+        const classroom = directory.classroomsById.get(subjectId);
+        return classroom
+          ? { kind, id: classroom.id, label: describeClassroom(classroom) }
+          : null;
+      }
+    }
+  }, [subjects, directory, courses, kind, subjectId, semester]);
+
+  const rangeError =
+    !from || !to
+      ? "Choose the dates to print."
+      : to < from
+      ? "The end date must be after the start date."
+      : to > addDays(from, MAX_PRINT_WEEKS * 7 - 1)
+      ? `Print at most ${MAX_PRINT_WEEKS} weeks at a time.`
+      : "";
+
+  const buildTimetable = (): PrintTimetable | null => {
+    if (!context || !subject || rangeError) return null;
+    return buildPrintTimetable(
+      subject,
+      from,
+      to,
+      collectPrintEntries(subject, from, to, context)
+    );
+  };
+
+  const handlePrint = () => {
+    const timetable = buildTimetable();
+    if (timetable && !openPrintableTimetable(timetable)) {
+      showNotification("Allow pop-ups for this site to print the timetable");
+    }
+  };
+
+  const handleDownload = () => {
+    const timetable = buildTimetable();
+    if (!timetable) return;
+    try {
+      downloadTimetablePdf(timetable);
+    } catch (err) {
+      console.error("Error creating timetable PDF:", err);
+      showNotification("Failed to create the PDF. Please try again.");
+    }
+  };
+
+  const renderSubjectPicker = () => {
+    if (subjects) {
+      return (
+        subjects.length > 1 && (
+          <div className="col-12">
+            <label className="form-label">Timetable</label>
+            <select
+              className="form-select"
+              value={subjectId}
+              onChange={(e) => {
+                const chosen = subjects.find(
+                  (other) => other.id === e.target.value
+                );
+                if (!chosen) return;
+                setKind(chosen.kind);
+                setSubjectId(chosen.id);
+                setSemester(chosen.semester ? String(chosen.semester) : "");
+              }}
+            >
+              {subjects.map((other) => (
+                <option key={other.id} value={other.id}>
+                  {describeSubject(other)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )
+      );
+    }
+
+    return (
+      <>
+        <div className="col-md-4">
+          <label className="form-label">Timetable for</label>
+          <select
+            className="form-select"
+            value={kind}
+            onChange={(e) => {
+              setKind(e.target.value as PrintSubjectKind);
+              setSubjectId("");
+              setSemester("");
+            }}
+          >
+            {Object.entries(SUBJECT_KINDS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-md-8">
+          <label className="form-label">{SUBJECT_KINDS[kind]}</label>
+          <select
+            className="form-select"
+            value={subjectId}
+            onChange={(e) => {
+              setSubjectId(e.target.value);
+              setSemester("");
+            }}
+          >
+            <option value="">Choose...</option>
+            {kind === "course"
+              ? courses.map((course) => (
+                  <option key={course.id} value={course.id}>
+                    {course.code ? `${course.code} - ` : ""}
+                    {course.title}
+                  </option>
+                ))
+              : kind === "lecturer"
+              ? directory?.lecturers.map((lecturer) => (
+                  <option key={lecturer.id} value={lecturer.id}>
+                    {lecturer.name}
+                  </option>
+                ))
+              : directory?.classrooms.map((classroom) => (
+                  <option key={classroom.id} value={classroom.id}>
+                    {describeClassroom(classroom)}
+                  </option>
+                ))}
+          </select>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div
+      className="modal d-block"
+      tabIndex={-1}
+      role="dialog"
+      style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+    >
+      <div className="modal-dialog modal-lg" role="document">
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Print Timetable</h5>
+            <button
+              type="button"
+              className="btn-close"
+              onClick={onClose}
+              aria-label="Close"
+            ></button>
+          </div>
+          <div className="modal-body">
+            {loading ? (
+              <div className="text-center py-4">
+                <div className="spinner-border text-primary" role="status">
+                  <span className="visually-hidden">Loading...</span>
+                </div>
+              </div>
+            ) : (
+              <div className="row g-3">
+                {renderSubjectPicker()}
+                {kind === "course" && courseSemesters.length > 0 && (
+                  <div className="col-md-4">
+                    <label className="form-label">Semester</label>
+                    <select
+                      className="form-select"
+                      value={semester}
+                      onChange={(e) => setSemester(e.target.value)}
+                    >
+                      <option value="">All semesters</option>
+                      {courseSemesters.map((number) => (
+                        <option key={number} value={number}>
+                          Semester {number}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {academicYears.some((year) => year.semesters?.length) && (
+                  <div
+                    className={
+                      kind === "course" && courseSemesters.length > 0
+                        ? "col-md-8"
+                        : "col-12"
+                    }
+                  >
+                    <label className="form-label">Dates</label>
+                    <select
+                      className="form-select"
+                      value=""
+                      onChange={(e) => {
+                        const term = academicYears
+                          .flatMap((year) => year.semesters || [])
+                          .find((other) => other.id === e.target.value);
+                        if (term) {
+                          setFrom(term.startDate);
+                          setTo(term.endDate);
+                        }
+                      }}
+                    >
+                      <option value="">Use a semester's dates...</option>
+                      {academicYears.map((year) =>
+                        (year.semesters || []).map((term) => (
+                          <option key={term.id} value={term.id}>
+                            {year.name} - {term.name}
+                          </option>
+                        ))
+                      )}
+                    </select>
+                  </div>
+                )}
+                <div className="col-md-6">
+                  <label className="form-label">From</label>
+                  <input
+                    type="date"
+                    className="form-control"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                  />
+                </div>
+                <div className="col-md-6">
+                  <label className="form-label">To</label>
+                  <input
+                    type="date"
+                    className="form-control"
+                    value={to}
+                    min={from}
+                    onChange={(e) => setTo(e.target.value)}
+                  />
+                </div>
+                {rangeError && (
+                  <div className="col-12">
+                    <small className="text-danger">{rangeError}</small>
+                  </div>
+                )}
+                <div className="col-12">
+                  <small className="text-muted">
+                    Each week with classes prints on its own A4 landscape page.
+                    Cancelled classes are shown struck through.
+                  </small>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="modal-footer">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={onClose}
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-primary"
+              onClick={handleDownload}
+              disabled={loading || !subject || !!rangeError}
+            >
+              <i className="bi bi-file-earmark-pdf me-1"></i>
+              Download PDF
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handlePrint}
+              disabled={loading || !subject || !!rangeError}
+            >
+              <i className="bi bi-printer me-1"></i>
+              Print
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimetablePrintDialog;
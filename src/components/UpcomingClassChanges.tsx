@@ -0,0 +1,73 @@
+import React from "react";
+import {
+  RecurringSchedule,
+  addDays,
+  expandOccurrences,
+  formatDateKey,
+  toDateKey,
+} from "../utils/recurrence";
+
+interface UpcomingClassChangesProps {
+  schedule: RecurringSchedule;
+}
+
+// How far ahead cancelled and moved classes are listed
+const LOOKAHEAD_DAYS = 8 * 7;
+
+// Cancelled, moved and covered classes in the coming weeks, struck through
+// where they no longer take place
+const UpcomingClassChanges: React.FC<UpcomingClassChangesProps> = ({
+  schedule,
+}) => {
+  const today = toDateKey(new Date());
+  const changes = expandOccurrences(
+    schedule,
+    today,
+    addDays(today, LOOKAHEAD_DAYS),
+    { includeCancelled: true }
+  ).filter(
+    (occurrence) =>
+      occurrence.isCancelled ||
+      occurrence.date !== occurrence.originalDate ||
+      occurrence.substituteFor
+  );
+
+  if (changes.length === 0) return null;
+
+  return (
+    <ul className="list-unstyled small mb-0 mt-1">
+      {changes.map((occurrence) => (
+        <li key={occurrence.originalDate}>
+          {occurrence.isCancelled ||
+          occurrence.date !== occurrence.originalDate ? (
+            <span className="text-decoration-line-through text-muted">
+              {formatDateKey(occurrence.originalDate)}
+            </span>
+          ) : (
+            formatDateKey(occurrence.date)
+          )}{" "}
+          {occurrence.isCancelled ? (
+            <span className="badge bg-danger">Cancelled</span>
+          ) : (
+            occurrence.date !== occurrence.originalDate && (
+              <>
+                <i className="bi bi-arrow-right"></i>{" "}
+                {formatDateKey(occurrence.date)}, {occurrence.startTime}{" "}
+              </>
+            )
+          )}
+          {!occurrence.isCancelled && occurrence.substituteFor && (
+            <span className="badge bg-info text-dark">
+              Cover: {occurrence.lecturerName}
+            </span>
+          )}
+          {occurrence.reason && (
+            <span className="text-muted"> ({occurrence.reason})</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default UpcomingClassChanges;
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "../firebase";
+import { useAuth } from "../contexts/AuthContext";
+import { useNotification } from "../contexts/NotificationContext";
+import { BookingWaitlistEntry } from "../interfaces/Booking";
+import { Classroom } from "../interfaces/Classroom";
+import { WAITLIST_STATUSES, respondToWaitlistOffer } from "../utils/bookings";
+import { formatDateKey } from "../utils/recurrence";
+import { describeClassroom } from "../utils/scheduleRefs";
+import NavBar from "./NavBar";
+
+// Where a "Room available" notification leads: the freed room can be
+// accepted, which requests it like any other booking, or declined so the
+// next person in line is offered it. Offers close after a few hours.
+export default function WaitlistOffer() {
+  const { entryId = "" } = useParams<{ entryId: string }>();
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const [entry, setEntry] = useState<BookingWaitlistEntry | null>(null);
+  const [classroom, setClassroom] = useState<Classroom | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+
+  const userId = currentUser?.uid || "";
+
+  useEffect(() => {
+    if (!userId || !entryId) return;
+    const fetchOffer = async () => {
+      try {
+        const entryDoc = await getDoc(doc(db, "bookingWaitlist", entryId));
+        if (!entryDoc.exists() || entryDoc.data().userId !== userId) return;
+        const found = {
+          id: entryDoc.id,
+          ...entryDoc.data(),
+        } as BookingWaitlistEntry;
+        setEntry(found);
+        const classroomDoc = await getDoc(
+          doc(db, "classrooms", found.classroomId)
+        );
+        if (classroomDoc.exists()) {
+          setClassroom({
+            id: classroomDoc.id,
+            ...classroomDoc.data(),
+          } as Classroom);
+        }
+      } catch (err) {
+        console.error("Error fetching waitlist offer:", err);
+        showNotification("Failed to load the offer");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchOffer();
+  }, [userId, entryId, showNotification]);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!entry) return;
+    setResponding(true);
+    try {
+      const { status, bookingId } = await respondToWaitlistOffer(
+        entry.id,
+        accept
+      );
+      setEntry({
+        ...entry,
+        status,
+        respondedAt: new Date().toISOString(),
+        ...(bookingId && { bookingId }),
+      });
+      showNotification(
+        status === "accepted"
+          ? "Offer accepted. The room has been requested for you."
+          : "Offer declined"
+      );
+    } catch (err) {
+      console.error("Error answering waitlist offer:", err);
+      showNotification(
+        (err as { message?: string }).message ||
+          "Failed to answer the offer. Please try again."
+      );
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const expiresAt = entry?.offerExpiresAt
+    ? new Date(entry.offerExpiresAt)
+    : null;
+  const isOpen =
+    entry?.status === "offered" && !!expiresAt && expiresAt > new Date();
+  const status = entry && WAITLIST_STATUSES[entry.status];
+
+  return (
+    <div className="dashboard-container">
+      <NavBar />
+      <div className="container py-4">
+        <div className="row justify-content-center">
+          <div className="col-12 col-md-8 col-lg-6">
+            <div className="card shadow-sm border-0 rounded-3 fade-in">
+              <div className="card-header bg-white py-3 border-bottom">
+                <h3 className="mb-1 fs-4">Room Available</h3>
+                <p className="text-muted mb-0 small">
+                  A room you were waiting for has become free
+                </p>
+              </div>
+              <div className="card-body">
+                {loading && userId && entryId ? (
+                  <div className="text-center py-4">
+                    <div className="spinner-border text-primary" role="status">
+                      <span className="visually-hidden">Loading...</span>
+                    </div>
+                  </div>
+                ) : !entry ? (
+                  <p className="text-muted mb-0">
+                    This offer doesn't exist or isn't yours.
+                  </p>
+                ) : (
+                  <>
+                    <h5 className="mb-1">{entry.title}</h5>
+                    <p className="mb-3">
+                      <i className="bi bi-door-open me-1"></i>
+                      {classroom
+                        ? describeClassroom(classroom)
+                        : "Unknown room"}
+                      , {formatDateKey(entry.date)}, {entry.startTime} -{" "}
+                      {entry.endTime}
+                    </p>
+
+                    {isOpen && expiresAt ? (
+                      <>
+                        <p className="small text-muted">
+                          The room is held for you until{" "}
+                          {expiresAt.toLocaleString([], {
+                            month: "short",
+                            day: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                          . If you don't answer by then, it's offered to the
+                          next person in line.
+                        </p>
+                        <div className="d-flex gap-2">
+                          <button
+                            type="button"
+                            className="btn btn-success"
+                            disabled={responding}
+                            onClick={() => handleRespond(true)}
+                          >
+                            <i className="bi bi-check-circle me-1"></i>
+                            {responding ? "Booking..." : "Accept"}
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-outline-secondary"
+                            disabled={responding}
+                            onClick={() => handleRespond(false)}
+                          >
+                            Decline
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="mb-0">
+                        <span
+                          className={`badge ${status?.badge || "bg-light"} me-2`}
+                        >
+                          {entry.status === "offered"
+                            ? "Expired"
+                            : status?.label || entry.status}
+                        </span>
+                        {entry.status === "accepted"
+                          ? "The room has been requested for you."
+                          : "This offer is no longer open."}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="card-footer bg-white border-top">
+                <Link to="/dashboard" className="small">
+                  <i className="bi bi-arrow-left me-1"></i>
+                  Back to dashboard
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
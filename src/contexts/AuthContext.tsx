@@ -10,10 +10,11 @@ import {
   signInWithEmailAndPassword,
   signOut,
   onAuthStateChanged,
+  sendEmailVerification,
+  sendPasswordResetEmail,
   User,
   updateProfile,
   UserCredential,
-  sendEmailVerification,
   fetchSignInMethodsForEmail,
   setPersistence,
   browserSessionPersistence,
@@ -33,6 +34,8 @@ import {
   addDoc,
 } from "firebase/firestore";
 import { auth, db } from "../firebase";
+import { NotificationPreferences } from "../interfaces/Notification";
+import { requestAuthEmail } from "../utils/outbox";
 
 // Global variable to ensure admin setup runs only once per app lifecycle
 let adminSetupComplete = false;
@@ -61,6 +64,7 @@ interface AuthContextProps {
   logout: () => Promise<void>;
   loading: boolean;
   sendVerificationEmail: (user: User) => Promise<void>;
+  resetPassword: (email: string) => Promise<void>;
   setSessionTimeout: (minutes: number) => Promise<void>;
   getSessionTimeout: () => Promise<number>;
   updateSecuritySettings: (
@@ -76,6 +80,9 @@ interface AuthContextProps {
     address: string,
     age: string
   ) => Promise<void>;
+  updateNotificationPreferences: (
+    preferences: NotificationPreferences
+  ) => Promise<void>;
   isStrongPasswordRequired: () => Promise<boolean>;
   validatePasswordStrength: (password: string) => { isValid: boolean; message: string };
   getUserRole: () => string;
@@ -99,9 +106,43 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     null
   );
 
-  // Function to send verification email
+  // Asks the functions to queue an auth email through the delivery outbox,
+  // where the server generates the link. False when they can't: no mail
+  // transport is set up, or the call failed (e.g. functions not deployed).
+  async function queueAuthEmail(
+    template: "emailVerification" | "passwordReset",
+    email?: string
+  ) {
+    try {
+      return await requestAuthEmail(template, email);
+    } catch (error) {
+      console.error(`Error queueing ${template} email:`, error);
+      return false;
+    }
+  }
+
+  // Function to send verification email, falling back to Firebase's own
   async function sendVerificationEmail(user: User) {
-    return sendEmailVerification(user);
+    if (!user.email) return;
+
+    if (!(await queueAuthEmail("emailVerification"))) {
+      await sendEmailVerification(user);
+    }
+  }
+
+  // Function to send a password reset email, falling back to Firebase's own
+  async function resetPassword(email: string) {
+    const address = email.trim().toLowerCase();
+    if (await queueAuthEmail("passwordReset", address)) return;
+
+    try {
+      await sendPasswordResetEmail(auth, address);
+    } catch (error) {
+      // Answer the same either way, as the functions do
+      if ((error as { code?: string }).code !== "auth/user-not-found") {
+        throw error;
+      }
+    }
   }
 
   // Function to set the session timeout in minutes
@@ -305,9 +346,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         displayName: name,
       });
 
-      // Send verification email
-      await sendEmailVerification(userCredential.user);
-
       // Store additional user data in Firestore
       await setDoc(doc(db, "users", userCredential.user.uid), {
         name,
@@ -316,6 +354,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         emailVerified: false,
         createdAt: serverTimestamp(),
       });
+
+      // Send verification email; the account is usable without it, and the
+      // login page offers to send it again
+      try {
+        await sendVerificationEmail(userCredential.user);
+      } catch (error) {
+        console.error("Error sending verification email:", error);
+      }
     }
 
     return userCredential;
@@ -601,6 +647,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  // Function to update the current user's notification preferences
+  async function updateNotificationPreferences(
+    preferences: NotificationPreferences
+  ) {
+    if (!currentUser) {
+      throw new Error("User must be logged in to update preferences");
+    }
+
+    try {
+      const userDocRef = doc(db, "users", currentUser.uid);
+      await updateDoc(userDocRef, {
+        notificationPreferences: preferences,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      throw error;
+    }
+  }
+
   // Function to check if strong password is required based on admin settings
   async function isStrongPasswordRequired() {
     try {
@@ -679,10 +745,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     logout,
     loading,
     sendVerificationEmail,
+    resetPassword,
     setSessionTimeout,
     getSessionTimeout,
     updateSecuritySettings,
     updateUserProfile,
+    updateNotificationPreferences,
     isStrongPasswordRequired,
     validatePasswordStrength,
     getUserRole,
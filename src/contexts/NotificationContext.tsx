@@ -7,7 +7,32 @@ import React, {
   useRef,
   useEffect,
 } from "react";
-import { auth } from "../firebase";
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  updateDoc,
+  deleteDoc,
+  doc,
+  getDocs,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { auth, db } from "../firebase";
+import {
+  InboxNotification,
+  NotificationPayload,
+} from "../interfaces/Notification";
+import { sendNotification } from "../utils/outbox";
+
+// Number of inbox notifications loaded per page
+const INBOX_PAGE_SIZE = 10;
+
+// Firestore allows 500 writes per batch
+const MARK_READ_BATCH_SIZE = 500;
 
 // Define the notification structure
 export interface Notification {
@@ -22,6 +47,15 @@ interface NotificationContextType {
   showNotification: (message: string) => void;
   dismissNotification: (id: string) => void;
   clearAllNotifications: () => void;
+  inbox: InboxNotification[];
+  unreadCount: number;
+  inboxLoading: boolean;
+  hasMoreInbox: boolean;
+  loadMoreInbox: () => void;
+  notifyUser: (userId: string, payload: NotificationPayload) => Promise<void>;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  deleteNotification: (id: string) => Promise<void>;
 }
 
 // Create the context
@@ -56,6 +90,13 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
   // Track message history to prevent duplicates even after dismissal
   const recentMessages = useRef<Map<string, number>>(new Map());
 
+  // Persistent inbox state backed by the "notifications" collection
+  const [userId, setUserId] = useState<string | null>(null);
+  const [inbox, setInbox] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [inboxLoading, setInboxLoading] = useState<boolean>(false);
+  const [inboxLimit, setInboxLimit] = useState<number>(INBOX_PAGE_SIZE);
+
   // Function to clear all notifications
   const clearAllNotifications = useCallback(() => {
     // Clear all timeouts
@@ -72,9 +113,13 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
   // Listen for authentication state changes
   useEffect(() => {
     const unsubscribe = auth.onAuthStateChanged((user) => {
+      setUserId(user ? user.uid : null);
       if (!user) {
         // User has logged out, clear all notifications
         clearAllNotifications();
+        setInbox([]);
+        setUnreadCount(0);
+        setInboxLimit(INBOX_PAGE_SIZE);
       }
     });
 
@@ -172,11 +217,148 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
     [dismissNotification]
   );
 
+  // Subscribe to the current user's inbox in real time
+  useEffect(() => {
+    if (!userId) return;
+
+    setInboxLoading(true);
+    const inboxQuery = query(
+      collection(db, "notifications"),
+      where("userId", "==", userId),
+      orderBy("createdAt", "desc"),
+      limit(inboxLimit)
+    );
+
+    const unsubscribe = onSnapshot(
+      inboxQuery,
+      (snapshot) => {
+        const items = snapshot.docs.map((notificationDoc) => {
+          const data = notificationDoc.data();
+          return {
+            id: notificationDoc.id,
+            ...data,
+            category: data.category || "general",
+            createdAt: data.createdAt?.toDate
+              ? data.createdAt.toDate()
+              : new Date(),
+            readAt: data.readAt?.toDate ? data.readAt.toDate() : undefined,
+          } as InboxNotification;
+        });
+        setInbox(items);
+        setInboxLoading(false);
+      },
+      (error) => {
+        console.error("Error loading notifications:", error);
+        setInboxLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId, inboxLimit]);
+
+  // Keep the unread badge count in sync independently of the loaded page
+  useEffect(() => {
+    if (!userId) return;
+
+    const unreadQuery = query(
+      collection(db, "notifications"),
+      where("userId", "==", userId),
+      where("isRead", "==", false)
+    );
+
+    const unsubscribe = onSnapshot(
+      unreadQuery,
+      (snapshot) => setUnreadCount(snapshot.size),
+      (error) => console.error("Error counting unread notifications:", error)
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Fewer results than requested means we've reached the end of the inbox
+  const hasMoreInbox = inbox.length >= inboxLimit;
+
+  const loadMoreInbox = useCallback(() => {
+    setInboxLimit((prevLimit) => prevLimit + INBOX_PAGE_SIZE);
+  }, []);
+
+  // Notify a user on the channels they chose; every module should go through
+  // this. The server applies the recipient's notification preferences and
+  // queues any email or push, since only Cloud Functions write to the outbox.
+  const notifyUser = useCallback(
+    async (recipientId: string, payload: NotificationPayload) => {
+      if (!recipientId) return;
+      await sendNotification(recipientId, payload);
+    },
+    []
+  );
+
+  const markAsRead = useCallback(async (id: string) => {
+    try {
+      await updateDoc(doc(db, "notifications", id), {
+        isRead: true,
+        readAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+    }
+  }, []);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const unreadSnapshot = await getDocs(
+        query(
+          collection(db, "notifications"),
+          where("userId", "==", userId),
+          where("isRead", "==", false)
+        )
+      );
+
+      for (
+        let i = 0;
+        i < unreadSnapshot.docs.length;
+        i += MARK_READ_BATCH_SIZE
+      ) {
+        const batch = writeBatch(db);
+        unreadSnapshot.docs
+          .slice(i, i + MARK_READ_BATCH_SIZE)
+          .forEach((notificationDoc) => {
+            batch.update(notificationDoc.ref, {
+              isRead: true,
+              readAt: Timestamp.now(),
+            });
+          });
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error("Error marking all notifications as read:", error);
+    }
+  }, [userId]);
+
+  const deleteNotification = useCallback(async (id: string) => {
+    try {
+      await deleteDoc(doc(db, "notifications", id));
+    } catch (error) {
+      console.error("Error deleting notification:", error);
+    }
+  }, []);
+
   const value = {
     notifications,
     showNotification,
     dismissNotification,
     clearAllNotifications,
+    inbox,
+    unreadCount,
+    inboxLoading,
+    hasMoreInbox,
+    loadMoreInbox,
+    notifyUser,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
   };
 
   return (
@@ -1,8 +1,9 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
-import { getDatabase } from 'firebase/database';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 
 // Your web app's Firebase configuration
 // Replace with your actual Firebase configuration
@@ -22,6 +23,15 @@ const auth = getAuth(app);
 const db = getFirestore(app);
 const storage = getStorage(app);
 const realtimeDb = getDatabase(app);
+const functions = getFunctions(app);
 
-export { auth, db, storage, realtimeDb };
+// Use the local Firebase emulators (see functions/) when VITE_USE_EMULATORS=true
+if (import.meta.env.VITE_USE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, 'http://localhost:9099');
+  connectFirestoreEmulator(db, 'localhost', 8080);
+  connectDatabaseEmulator(realtimeDb, 'localhost', 9000);
+  connectFunctionsEmulator(functions, 'localhost', 5001);
+}
+
+export { auth, db, storage, realtimeDb, functions };
 export default app; 
\ No newline at end of file
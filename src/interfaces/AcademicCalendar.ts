@@ -0,0 +1,29 @@
+// Days without classes. Recurring schedules skip them automatically.
+export type NonTeachingKind = "holiday" | "readingWeek" | "examPeriod";
+
+export interface Semester {
+  id: string;
+  name: string; // e.g. "Semester 1"
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+export interface NonTeachingPeriod {
+  id: string;
+  kind: NonTeachingKind;
+  name: string; // e.g. "Sinhala and Tamil New Year"
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, the same as startDate for a single day
+}
+
+// A document in `academicYears`; the current one is set on the settings page
+export interface AcademicYear {
+  id: string;
+  name: string; // e.g. "2025-2026"
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  semesters: Semester[];
+  nonTeachingPeriods: NonTeachingPeriod[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,46 @@
+export type AnnouncementPriority = "normal" | "important" | "urgent";
+
+// "sending" until the announcements function has notified every recipient
+export type AnnouncementStatus = "sending" | "sent" | "archived";
+
+export interface AnnouncementAttachment {
+  name: string;
+  url: string;
+  type: string;
+  size: number;
+}
+
+// Who an announcement is for. Values within a dimension are alternatives;
+// dimensions are combined, so { roles: ["student"], branches: ["Kandy"] } is
+// students at the Kandy branch. Empty dimensions don't restrict the audience.
+export interface AnnouncementAudience {
+  roles: string[];
+  departments: string[]; // Matched against User.department
+  courseIds: string[]; // Students with an active enrollment in these courses
+  branches: string[]; // Lecturers and students of classes held at these branches
+}
+
+// Counters written by the announcements function once delivery finishes
+export interface AnnouncementStats {
+  recipients: number;
+  inApp: number;
+  email: number;
+  push: number;
+}
+
+export interface Announcement {
+  id: string;
+  title: string;
+  body: string; // Sanitized HTML
+  summary: string; // Plain-text body, used for inbox, email and push messages
+  attachments: AnnouncementAttachment[];
+  priority: AnnouncementPriority;
+  audience: AnnouncementAudience;
+  expiresAt?: Date; // Hidden from dashboards after this time
+  status: AnnouncementStatus;
+  stats?: AnnouncementStats;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  sentAt?: Date;
+}
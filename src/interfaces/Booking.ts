@@ -1,3 +1,5 @@
+import { ConflictOverride } from './Conflict';
+
 export interface Booking {
   id: string;
   classroomId: string;
@@ -10,7 +12,48 @@ export interface Booking {
   bookedBy: string; // User ID who booked the classroom
   bookedFor: string; // User ID (lecturer) for whom the room is booked, if applicable
   attendees?: string[]; // Array of user IDs if tracking attendees
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'completed' | 'no-show'; // Lecturers' requests stay pending until an admin decides
   createdAt: Date;
   updatedAt: Date;
-} 
\ No newline at end of file
+  conflictOverride?: ConflictOverride;
+  decisionComment?: string; // Admin's note when approving or rejecting a request
+  decidedBy?: string; // Admin user ID
+  decidedAt?: string; // ISO timestamp
+  seriesId?: string; // Shared by the occurrences of a recurring booking; the first one's ID
+  cancelledBy?: string; // User ID of whoever cancelled it; cancelled bookings are kept as history
+  cancelledAt?: string; // ISO timestamp
+  cancellationReason?: string;
+  completedAt?: string; // ISO timestamp, set once a confirmed booking has ended
+  checkedInAt?: string; // ISO timestamp of the QR check-in; unchecked bookings are released as no-shows
+  checkedInBy?: string; // User ID
+  releasedAt?: string; // ISO timestamp, when a no-show released the room
+}
+
+// How a recurring booking repeats from its first date, on the same weekday
+export interface BookingRepeat {
+  interval: number; // 1 for weekly, 2 for every other week
+  until?: string; // YYYY-MM-DD, last possible occurrence
+  count?: number; // Or the number of occurrences, when there's no end date
+  exceptionDates: string[]; // YYYY-MM-DD occurrences left out, e.g. because the room is taken
+}
+
+// An entry in `bookingWaitlist`: someone waiting for a room that was booked
+// at the time they wanted. The first in line is offered the room when the
+// booking is cancelled, and the offer holds it until it's answered or expires.
+export interface BookingWaitlistEntry {
+  id: string;
+  classroomId: string;
+  title: string;
+  description: string;
+  bookingType: Booking['bookingType'];
+  date: string; // YYYY-MM-DD
+  startTime: string; // Format: HH:MM
+  endTime: string; // Format: HH:MM
+  userId: string; // Who is waiting
+  status: 'waiting' | 'offered' | 'accepted' | 'declined' | 'expired' | 'withdrawn';
+  createdAt: Date;
+  offeredAt?: string; // ISO timestamp
+  offerExpiresAt?: string; // ISO timestamp
+  respondedAt?: string; // ISO timestamp
+  bookingId?: string; // The booking made when the offer was accepted
+}
\ No newline at end of file
@@ -4,6 +4,7 @@ export interface Classroom {
   building: string;
   floor: number;
   roomNumber: string;
+  branch?: string; // Campus branch; rooms added before branches were recorded have none
   capacity: number;
   resources: string[]; // List of available resources (projector, whiteboard, etc.)
   isActive: boolean;
@@ -0,0 +1,19 @@
+export type ConflictKind = "lecturer" | "room" | "cohort";
+
+// An existing schedule or booking that clashes with one being saved
+export interface ScheduleConflict {
+  kind: ConflictKind;
+  source: "schedule" | "booking";
+  id: string;
+  title: string;
+  when: string; // e.g. "Every Monday, 09:00 - 11:00"
+  detail: string; // Why the two clash
+}
+
+// Recorded on a schedule or booking an admin saved despite conflicts
+export interface ConflictOverride {
+  reason: string;
+  conflicts: string[]; // Descriptions of the conflicts at the time of saving
+  overriddenBy: string; // Admin user ID
+  overriddenAt: string; // ISO timestamp
+}
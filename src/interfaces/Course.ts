@@ -7,6 +7,7 @@ export interface Module {
   semester: number;
   prerequisites: string[];
   lecturers: string[];
+  requiredResources?: string[]; // Classroom resources the timetable generator must provide
   assessmentMethods: {
     type: string;
     weight: number;
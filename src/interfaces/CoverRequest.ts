@@ -0,0 +1,26 @@
+export type CoverStatus = "open" | "covered" | "withdrawn";
+
+// A lecturer's absence from one class, kept in `coverRequests` until an
+// admin assigns a substitute. The substitute is recorded as an override on
+// the schedule, so only that occurrence changes.
+export interface CoverRequest {
+  id: string;
+  scheduleId: string;
+  occurrenceDate: string; // YYYY-MM-DD of the occurrence in the rule, as on overrides
+  date: string; // YYYY-MM-DD the class takes place
+  startTime: string;
+  endTime: string;
+  moduleId?: string;
+  moduleTitle: string;
+  classroomNumber: string;
+  branch: string;
+  lecturerId: string;
+  lecturerName: string;
+  reason: string;
+  status: CoverStatus;
+  substituteId?: string;
+  substituteName?: string;
+  assignedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -6,7 +6,9 @@ export interface Enrollment {
   courseId: string;
   enrollmentDate: Date;
   status: 'Active' | 'Completed' | 'Withdrawn' | 'On Hold';
-  academicYear: string; // e.g., "2023-2024"
+  academicYear: string; // e.g., "2023-2024", the name of academicYearId
+  academicYearId?: string; // Document in `academicYears`
+  semesterId?: string; // Semester of the academic year, unlike `semester`
   semester: number; // Current semester in the course
   grade?: {
     semester: number;
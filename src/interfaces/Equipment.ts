@@ -0,0 +1,37 @@
+// An item in `equipment`, the inventory of equipment that can be lent out
+export interface Equipment {
+  id: string;
+  assetTag: string; // The label on the item, e.g. "PRJ-014"; unique
+  name: string;
+  category: string; // e.g. "Projector", "Laptop"
+  homeClassroomId?: string; // The room it's kept in, if it has one
+  location?: string; // Where it's kept otherwise, e.g. "IT store, Block B"
+  condition: 'good' | 'fair' | 'damaged' | 'retired'; // Damaged and retired items aren't lent
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An entry in `equipmentLoans`. Items requested with a booking are reserved
+// for its time until an admin hands them over and checks them out; items
+// lent at the desk are checked out straight away. Reserved and checked-out
+// loans hold the item, and a checked-out one holds it until it's returned.
+export interface EquipmentLoan {
+  id: string;
+  equipmentId: string;
+  borrowerId: string; // User ID
+  bookingId?: string; // The booking it was requested with
+  startAt: string; // ISO timestamp
+  dueAt: string; // ISO timestamp
+  status: 'reserved' | 'checked-out' | 'returned' | 'cancelled';
+  requestedBy: string; // User ID
+  createdAt: Date;
+  checkedOutAt?: string; // ISO timestamp
+  checkedOutBy?: string; // Admin user ID
+  returnedAt?: string; // ISO timestamp
+  returnedBy?: string; // Admin user ID
+  returnCondition?: Equipment['condition'];
+  returnNotes?: string;
+  cancelledAt?: string; // ISO timestamp
+  cancelledBy?: string; // User ID; missing when the booking was cancelled
+}
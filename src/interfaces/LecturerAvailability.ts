@@ -0,0 +1,36 @@
+// A time a lecturer can't teach every week, e.g. a research afternoon
+export interface UnavailableBlock {
+  id: string;
+  day: string; // e.g. "Monday"
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  note?: string;
+}
+
+// Days off, e.g. conference travel or annual leave
+export interface LeavePeriod {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, the same as startDate for a single day
+  note?: string;
+}
+
+// A document in `lecturerAvailability`, keyed by the lecturer's user ID.
+// Admins are warned when they schedule a lecturer outside it.
+export interface LecturerAvailability {
+  lecturerId: string;
+  unavailableBlocks: UnavailableBlock[];
+  preferredBranches: string[]; // Empty when the lecturer teaches anywhere
+  maxHoursPerDay?: number;
+  maxHoursPerWeek?: number;
+  leave: LeavePeriod[];
+  updatedAt: string;
+}
+
+export type AvailabilityIssueKind =
+  "unavailable" | "leave" | "branch" | "dailyHours" | "weeklyHours";
+
+export interface AvailabilityIssue {
+  kind: AvailabilityIssueKind;
+  detail: string;
+}
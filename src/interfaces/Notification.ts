@@ -0,0 +1,58 @@
+import { DeliveryTemplate } from "./Outbox";
+
+export type NotificationCategory =
+  | "general"
+  | "events"
+  | "schedule"
+  | "bookings"
+  | "chatMentions"
+  | "grades"
+  | "fees"
+  | "announcements";
+
+export interface InboxNotification {
+  id: string;
+  userId: string; // Recipient user ID
+  title: string;
+  message: string;
+  category: NotificationCategory;
+  link?: string; // Optional in-app route to open when the notification is clicked
+  isRead: boolean;
+  createdAt: Date;
+  readAt?: Date;
+  announcementId?: string; // Set on notifications delivering an announcement
+}
+
+// Fields a producer supplies when notifying a user; the rest is filled in by NotificationContext
+export interface NotificationPayload {
+  title: string;
+  message: string;
+  category?: NotificationCategory;
+  link?: string;
+  template?: DeliveryTemplate; // Email template, defaults to "notification"
+  templateData?: Record<string, string>; // Extra values for the email template
+}
+
+export type NotificationChannel = "inApp" | "email" | "push";
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // Format: HH:MM
+  end: string; // Format: HH:MM (may be earlier than start to span midnight)
+}
+
+// A browser's Web Push subscription, stored per device on the user document
+// as `pushSubscriptions.<deviceId>`
+export interface PushDevice {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  userAgent: string;
+  createdAt: Date;
+}
+
+// Stored on the user document as `notificationPreferences`
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, Record<NotificationChannel, boolean>>;
+  quietHours: QuietHours;
+  reminderLeadMinutes: number; // How long before a class/event to send the reminder
+}
@@ -0,0 +1,29 @@
+export type DeliveryChannel = "email" | "sms" | "webhook" | "push";
+
+// Templates rendered by the delivery functions (see functions/src/delivery/templates.ts)
+export type DeliveryTemplate =
+  | "notification"
+  | "bookingConfirmation"
+  | "scheduleChange"
+  | "feeReminder"
+  | "emailVerification"
+  | "passwordReset";
+
+export type DeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+// A message waiting in (or processed from) the `outbox` collection
+export interface OutboxMessage {
+  id: string;
+  channel: DeliveryChannel;
+  to: string; // Email address, phone number, webhook URL or user ID (push) depending on channel
+  template: DeliveryTemplate;
+  data: Record<string, string>; // Values substituted into the template
+  userId?: string; // Recipient user ID, when the message is for a known user
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  nextAttemptAt: Date; // Not delivered before this time (retry backoff, quiet hours)
+  createdAt: Date;
+  sentAt?: Date;
+}
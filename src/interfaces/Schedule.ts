@@ -1,5 +1,39 @@
+import { ConflictOverride } from './Conflict';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Modelled on the RFC 5545 RRULE: FREQ, INTERVAL, BYDAY, DTSTART, UNTIL and EXDATE
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every n days/weeks/months
+  byDay: string[]; // Weekly rules: e.g. ["Monday", "Wednesday"]; defaults to the start date's weekday
+  startDate: string; // YYYY-MM-DD, first possible occurrence
+  until?: string; // YYYY-MM-DD, last possible occurrence (e.g. term end)
+  exceptionDates: string[]; // YYYY-MM-DD occurrences that don't take place (holidays)
+  nonTeachingDates?: string[]; // Occurrences on non-teaching days, kept in step with the academic calendar
+}
+
+// Changes to a single occurrence of a recurring schedule
+export interface OccurrenceOverride {
+  date: string; // YYYY-MM-DD of the occurrence being changed
+  newDate?: string; // Moved to another day
+  startTime?: string;
+  endTime?: string;
+  classroomNumber?: string;
+  floorNumber?: string;
+  branch?: string;
+  lecturerName?: string;
+  lecturerId?: string; // A substitute covering the class, named by lecturerName
+  cancelled?: boolean; // The class doesn't take place (one-off classes too)
+  reason?: string; // Why it was cancelled or changed, shown to students
+}
+
 export interface Schedule {
   id: string;
+  moduleId?: string; // Unset only on schedules saved before the migration
+  lecturerId?: string;
+  classroomId?: string;
+  // Copies of the referenced names, refreshed on read (see utils/scheduleRefs)
   moduleTitle: string;
   lecturerName: string;
   classroomNumber: string;
@@ -7,9 +41,48 @@ export interface Schedule {
   branch: string;
   startTime: string;
   endTime: string;
-  isRecurring: boolean;
-  dayOfWeek: string;
-  date: string;
+  date: string; // One-off classes only
+  recurrence?: RecurrenceRule | null; // Unset for one-off classes
+  overrides?: OccurrenceOverride[];
   createdAt: string;
   updatedAt: string;
-} 
\ No newline at end of file
+  conflictOverride?: ConflictOverride;
+  // Set when "all future occurrences" of a series are rescheduled: the series
+  // ends and a new schedule carries on from the moved occurrence
+  splitFrom?: string;
+  continuedBy?: string;
+}
+
+// A single expanded occurrence of a schedule, with any override applied
+export interface ScheduleOccurrence {
+  scheduleId: string;
+  date: string; // YYYY-MM-DD the class actually takes place
+  originalDate: string; // YYYY-MM-DD of the occurrence in the rule
+  startTime: string;
+  endTime: string;
+  classroomNumber: string;
+  floorNumber: string;
+  branch: string;
+  lecturerName: string;
+  lecturerId?: string; // Only set for a substitute
+  substituteFor?: string; // The regular lecturer, when someone else teaches
+  isOverridden: boolean;
+  isCancelled: boolean;
+  reason?: string;
+}
+
+// An announced change to a class, kept in the schedule's `history`
+// subcollection by the onScheduleWritten function
+export interface ScheduleChange {
+  id: string;
+  change: 'scheduled' | 'updated' | 'cancelled';
+  when: string; // e.g. "Every Monday until Jun 27, 2025" or "Mar 3, 2025 only"
+  startTime: string;
+  endTime: string;
+  classroom: string;
+  branch: string;
+  reason: string; // Empty unless a single class was cancelled or changed with one
+  occurrenceDate?: string; // YYYY-MM-DD, when only one occurrence changed
+  notified: number; // Lecturer and students told about it
+  createdAt: string;
+}
@@ -1,9 +1,13 @@
+import { NotificationPreferences, PushDevice } from './Notification';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   role: 'admin' | 'student' | 'teacher';
   department?: string;
+  notificationPreferences?: NotificationPreferences;
+  pushSubscriptions?: Record<string, PushDevice>; // Keyed by device ID
   createdAt: Date;
   updatedAt: Date;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { collection, doc, getDoc, getDocs } from "firebase/firestore";
+import { db } from "../firebase";
+import {
+  AcademicYear,
+  NonTeachingKind,
+  NonTeachingPeriod,
+} from "../interfaces/AcademicCalendar";
+import { RecurrenceRule } from "../interfaces/Schedule";
+import { addDays, matchesRule } from "./recurrence";
+
+// Mirrored in functions/src/academicCalendar.ts, which brings existing
+// schedules in step whenever the calendar changes
+
+export const NON_TEACHING_KINDS: Record<NonTeachingKind, string> = {
+  holiday: "Public holiday",
+  readingWeek: "Reading week",
+  examPeriod: "Exam period",
+};
+
+// Holds the ID of the current academic year, chosen on the settings page
+export const academicCalendarSettingsRef = () =>
+  doc(db, "settings", "academicCalendar");
+
+export const loadAcademicYears = async (): Promise<AcademicYear[]> => {
+  const snapshot = await getDocs(collection(db, "academicYears"));
+  return snapshot.docs
+    .map((yearDoc) => ({ id: yearDoc.id, ...yearDoc.data() } as AcademicYear))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+export const loadCurrentAcademicYearId = async (): Promise<string> => {
+  const settings = await getDoc(academicCalendarSettingsRef());
+  return settings.data()?.currentAcademicYearId || "";
+};
+
+// The non-teaching period `date` falls in, if any
+export const nonTeachingPeriodOn = (
+  years: AcademicYear[],
+  date: string
+): NonTeachingPeriod | undefined =>
+  years
+    .flatMap((year) => year.nonTeachingPeriods || [])
+    .find((period) => period.startDate <= date && date <= period.endDate);
+
+// Occurrences of `rule` on non-teaching days, which the rule then skips.
+// Manual exceptions are left alone, so they survive calendar changes.
+export const withNonTeachingDates = (
+  rule: RecurrenceRule,
+  years: AcademicYear[]
+): RecurrenceRule => {
+  const teachingRule = { ...rule, nonTeachingDates: [] };
+  const dates = new Set<string>();
+
+  years
+    .flatMap((year) => year.nonTeachingPeriods || [])
+    .forEach((period) => {
+      for (
+        let date = period.startDate;
+        date <= period.endDate;
+        date = addDays(date, 1)
+      ) {
+        if (matchesRule(teachingRule, date)) dates.add(date);
+      }
+    });
+
+  return { ...rule, nonTeachingDates: Array.from(dates).sort() };
+};
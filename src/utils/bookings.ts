@@ -0,0 +1,406 @@
+import {
+  Timestamp,
+  collection,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { FunctionsError, httpsCallable } from "firebase/functions";
+import { db, functions } from "../firebase";
+import { AcademicYear } from "../interfaces/AcademicCalendar";
+import {
+  Booking,
+  BookingRepeat,
+  BookingWaitlistEntry,
+} from "../interfaces/Booking";
+import { Classroom } from "../interfaces/Classroom";
+import { ScheduleConflict } from "../interfaces/Conflict";
+import {
+  ConflictContext,
+  bookingToSlot,
+  findConflicts,
+} from "./scheduleConflicts";
+import { nonTeachingPeriodOn } from "./academicCalendar";
+import { campusTimeToDate, toCampusTime } from "./campusTime";
+import { addDays } from "./recurrence";
+import { describeClassroom } from "./scheduleRefs";
+
+export const BOOKING_STATUSES: Record<
+  Booking["status"],
+  { label: string; badge: string }
+> = {
+  pending: { label: "Pending approval", badge: "bg-warning text-dark" },
+  confirmed: { label: "Confirmed", badge: "bg-success" },
+  rejected: { label: "Rejected", badge: "bg-danger" },
+  cancelled: { label: "Cancelled", badge: "bg-secondary" },
+  completed: { label: "Completed", badge: "bg-info text-dark" },
+  "no-show": { label: "No-show", badge: "bg-dark" },
+};
+
+// Cancelling less than this long before the start is a late cancellation
+export const LATE_CANCELLATION_HOURS = 24;
+
+// What cancelling a booking writes: bookings are never deleted, so reports
+// can tell who cancelled what and how close to the start
+export const cancellationOf = (
+  cancelledBy: string,
+  reason: string
+): Partial<Booking> => ({
+  status: "cancelled",
+  cancelledBy,
+  cancelledAt: new Date().toISOString(),
+  ...(reason.trim() && { cancellationReason: reason.trim() }),
+});
+
+// Mirrored in functions/src/bookings/checkIn.ts. Check-in opens this long
+// before the start and closes this long after it; confirmed bookings nobody
+// checked in to are then released.
+export const CHECK_IN_GRACE_MINUTES = 15;
+
+// Booking policy: people with this many no-shows in the window can't book
+// until older ones drop out of it. Mirrored in functions/src/bookings/create.ts.
+export const NO_SHOW_LIMIT = 3;
+export const NO_SHOW_WINDOW_DAYS = 30;
+
+// The user's no-shows within the policy window
+export const recentNoShows = (bookings: Booking[], userId: string): number => {
+  const since = addDays(toCampusTime(new Date()).dateKey, -NO_SHOW_WINDOW_DAYS);
+  return bookings.filter(
+    (booking) =>
+      booking.status === "no-show" &&
+      booking.bookedFor === userId &&
+      booking.date >= since
+  ).length;
+};
+
+export const isLateCancellation = (
+  booking: Pick<Booking, "date" | "startTime" | "cancelledAt">
+): boolean =>
+  !!booking.cancelledAt &&
+  campusTimeToDate(booking.date, booking.startTime).getTime() -
+    new Date(booking.cancelledAt).getTime() <
+    LATE_CANCELLATION_HOURS * 60 * 60 * 1000;
+
+export const WAITLIST_STATUSES: Record<
+  BookingWaitlistEntry["status"],
+  { label: string; badge: string }
+> = {
+  waiting: { label: "Waiting", badge: "bg-secondary" },
+  offered: { label: "Offered to you", badge: "bg-success" },
+  accepted: { label: "Accepted", badge: "bg-primary" },
+  declined: { label: "Declined", badge: "bg-light text-dark" },
+  expired: { label: "Expired", badge: "bg-light text-dark" },
+  withdrawn: { label: "Left", badge: "bg-light text-dark" },
+};
+
+export interface RoomSearch {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  bookedFor: string;
+  minCapacity: number;
+  resources: string[]; // The room must have all of these
+  building: string; // Empty for any
+  floor: string; // Empty for any
+  branch: string; // Empty for any
+}
+
+export interface RoomMatch {
+  classroom: Classroom;
+  spareSeats: number;
+  extraResources: string[]; // Resources the search didn't ask for
+}
+
+const sameText = (a: string | number | undefined, b: string): boolean =>
+  String(a ?? "")
+    .trim()
+    .toLowerCase() === b.trim().toLowerCase();
+
+const meetsSearch = (classroom: Classroom, search: RoomSearch): boolean =>
+  classroom.isActive !== false &&
+  (classroom.capacity || 0) >= search.minCapacity &&
+  search.resources.every((resource) =>
+    (classroom.resources || []).some((other) => sameText(other, resource))
+  ) &&
+  (!search.building || sameText(classroom.building, search.building)) &&
+  (!search.floor || sameText(classroom.floor, search.floor)) &&
+  (!search.branch || sameText(classroom.branch, search.branch));
+
+const roomConflicts = (
+  classroom: Classroom,
+  search: RoomSearch,
+  context: ConflictContext
+): ScheduleConflict[] =>
+  findConflicts(
+    bookingToSlot(
+      {
+        classroomId: classroom.id,
+        title: "",
+        date: search.date,
+        startTime: search.startTime,
+        endTime: search.endTime,
+        bookedFor: search.bookedFor,
+      },
+      context
+    ),
+    context
+  ).filter((conflict) => conflict.kind === "room");
+
+// The closest fit comes first - fewest empty seats, then fewest resources
+// nobody asked for - so big, well-equipped rooms stay free for the groups
+// that need them
+const rankByFit = (classrooms: Classroom[], search: RoomSearch): RoomMatch[] =>
+  classrooms
+    .map((classroom) => ({
+      classroom,
+      spareSeats: (classroom.capacity || 0) - search.minCapacity,
+      extraResources: (classroom.resources || []).filter(
+        (resource) =>
+          !search.resources.some((other) => sameText(resource, other))
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        a.spareSeats - b.spareSeats ||
+        a.extraResources.length - b.extraResources.length ||
+        describeClassroom(a.classroom).localeCompare(
+          describeClassroom(b.classroom)
+        )
+    );
+
+// Active classrooms that meet the search and have no class or booking in them
+// at the time, closest fit first
+export const findFreeRooms = (
+  search: RoomSearch,
+  classrooms: Classroom[],
+  context: ConflictContext
+): RoomMatch[] =>
+  rankByFit(
+    classrooms.filter(
+      (classroom) =>
+        meetsSearch(classroom, search) &&
+        roomConflicts(classroom, search, context).length === 0
+    ),
+    search
+  );
+
+// Classrooms that meet the search but are booked at the time, closest fit
+// first. A cancellation could free them, so they're worth a waitlist; rooms
+// taken by a class aren't.
+export const findBookedRooms = (
+  search: RoomSearch,
+  classrooms: Classroom[],
+  context: ConflictContext
+): RoomMatch[] =>
+  rankByFit(
+    classrooms.filter((classroom) => {
+      if (!meetsSearch(classroom, search)) return false;
+      const conflicts = roomConflicts(classroom, search, context);
+      return (
+        conflicts.length > 0 &&
+        conflicts.every((conflict) => conflict.source === "booking")
+      );
+    }),
+    search
+  );
+
+export type NewBooking = Pick<
+  Booking,
+  | "classroomId"
+  | "title"
+  | "description"
+  | "bookingType"
+  | "date"
+  | "startTime"
+  | "endTime"
+> & {
+  bookedFor?: string; // Admins only
+  repeat?: BookingRepeat; // Books every occurrence of a series, or none
+  equipmentIds?: string[]; // Reserved for the booking's time on every date
+  // Admins only: book despite the conflicts they were shown
+  conflictOverride?: {
+    reason: string;
+    conflicts: string[]; // Descriptions, recorded with the booking
+    acknowledged: string[]; // conflictKey() of each conflict shown
+  };
+};
+
+export interface CreatedBooking {
+  id: string; // The first occurrence, for a series
+  status: Booking["status"];
+  seriesId?: string;
+  occurrences: { id: string; date: string }[];
+}
+
+// Bookings are created by the `createBooking` function, which checks the
+// room and saves the booking in one transaction so it can't be double-booked.
+// Admins' bookings are confirmed, everyone else's are pending requests.
+export const createBooking = async (
+  booking: NewBooking
+): Promise<CreatedBooking> => {
+  const create = httpsCallable<NewBooking, CreatedBooking>(
+    functions,
+    "createBooking"
+  );
+  const { data } = await create(booking);
+  return data;
+};
+
+// The room conflicts that stopped `createBooking`, or null for other errors
+export const bookingConflictsFrom = (
+  err: unknown
+): ScheduleConflict[] | null => {
+  if (
+    err instanceof FunctionsError &&
+    err.code === "functions/failed-precondition"
+  ) {
+    const details = err.details as { conflicts?: ScheduleConflict[] };
+    return details?.conflicts || [];
+  }
+  return null;
+};
+
+// The reason a booking was refused under the no-show policy, if it was
+export const bookingPolicyError = (err: unknown): string | null =>
+  err instanceof FunctionsError && err.code === "functions/permission-denied"
+    ? err.message
+    : null;
+
+// Accepting an offer books the room through the same checks as
+// `createBooking`; declining passes it to the next in line
+export const respondToWaitlistOffer = async (
+  entryId: string,
+  accept: boolean
+): Promise<{ status: BookingWaitlistEntry["status"]; bookingId?: string }> => {
+  const respond = httpsCallable<
+    { entryId: string; accept: boolean },
+    { status: BookingWaitlistEntry["status"]; bookingId?: string }
+  >(functions, "respondToWaitlistOffer");
+  const { data } = await respond({ entryId, accept });
+  return data;
+};
+
+export interface CheckIn {
+  bookingId: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+}
+
+// Checks the signed-in user in to their booking in a room, from the code in
+// the room's QR code
+export const checkInToRoom = async (
+  classroomId: string,
+  code: string
+): Promise<CheckIn> => {
+  const checkIn = httpsCallable<{ classroomId: string; code: string }, CheckIn>(
+    functions,
+    "checkInToRoom"
+  );
+  const { data } = await checkIn({ classroomId, code });
+  return data;
+};
+
+// A classroom's check-in code, which only admins may see; null until one is
+// created
+export const getCheckInCode = async (
+  classroomId: string
+): Promise<string | null> => {
+  const get = httpsCallable<{ classroomId: string }, { code: string | null }>(
+    functions,
+    "getCheckInCode"
+  );
+  const { data } = await get({ classroomId });
+  return data.code;
+};
+
+// Give a classroom a new check-in code, retiring printed copies of the old one
+export const replaceCheckInCode = async (
+  classroomId: string
+): Promise<string> => {
+  const replace = httpsCallable<{ classroomId: string }, { code: string }>(
+    functions,
+    "replaceCheckInCode"
+  );
+  const { data } = await replace({ classroomId });
+  return data.code;
+};
+
+// The link a classroom's QR code opens
+export const checkInUrl = (classroomId: string, code: string): string =>
+  `${window.location.origin}/check-in/${classroomId}?code=${encodeURIComponent(
+    code
+  )}`;
+
+// Mirrored in functions/src/bookings/create.ts
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export interface SeriesOccurrence {
+  date: string;
+  nonTeaching?: string; // The non-teaching period it falls in; never booked
+  excluded: boolean; // Left out by the user
+}
+
+// The occurrences of a recurring booking: the first date's weekday every
+// `interval` weeks. Non-teaching days are skipped and don't count towards
+// `count`; dates the user left out do. Mirrored in the `createBooking`
+// function, which books them.
+export const bookingSeriesDates = (
+  date: string,
+  repeat: BookingRepeat,
+  years: AcademicYear[]
+): SeriesOccurrence[] => {
+  const occurrences: SeriesOccurrence[] = [];
+  let counted = 0;
+  for (
+    let day = date, steps = 0;
+    steps < MAX_SERIES_OCCURRENCES * 2;
+    day = addDays(day, 7 * repeat.interval), steps++
+  ) {
+    if (repeat.until ? day > repeat.until : counted >= (repeat.count || 1)) {
+      break;
+    }
+    const period = nonTeachingPeriodOn(years, day);
+    if (period) {
+      occurrences.push({ date: day, nonTeaching: period.name, excluded: true });
+      continue;
+    }
+    counted++;
+    occurrences.push({
+      date: day,
+      excluded: repeat.exceptionDates.includes(day),
+    });
+    if (counted >= MAX_SERIES_OCCURRENCES) break;
+  }
+  return occurrences;
+};
+
+// Occurrences of a series from `fromDate` on that still hold their room
+const activeSeriesBookings = async (seriesId: string, fromDate: string) => {
+  const snapshot = await getDocs(
+    query(collection(db, "bookings"), where("seriesId", "==", seriesId))
+  );
+  return snapshot.docs.filter(
+    (bookingDoc) =>
+      bookingDoc.data().date >= fromDate &&
+      (bookingDoc.data().status === "pending" ||
+        bookingDoc.data().status === "confirmed")
+  );
+};
+
+// Applies `changes` to the series' upcoming occurrences, returning the IDs
+// of the bookings changed. Past occurrences are left as they were.
+export const updateBookingSeries = async (
+  seriesId: string,
+  fromDate: string,
+  changes: Partial<Booking>
+): Promise<string[]> => {
+  const bookingDocs = await activeSeriesBookings(seriesId, fromDate);
+  const batch = writeBatch(db);
+  bookingDocs.forEach((bookingDoc) =>
+    batch.update(bookingDoc.ref, { ...changes, updatedAt: Timestamp.now() })
+  );
+  await batch.commit();
+  return bookingDocs.map((bookingDoc) => bookingDoc.id);
+};
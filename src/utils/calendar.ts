@@ -0,0 +1,63 @@
+import { httpsCallable } from "firebase/functions";
+import app, { functions } from "../firebase";
+
+// Cloud Functions region; the feed is served by the `calendarFeed` function
+const FUNCTIONS_REGION = "us-central1";
+
+const calendarFeedBaseUrl = (): string => {
+  const projectId = app.options.projectId;
+  return import.meta.env.VITE_USE_EMULATORS === "true"
+    ? `http://localhost:5001/${projectId}/${FUNCTIONS_REGION}/calendarFeed`
+    : `https://${FUNCTIONS_REGION}-${projectId}.cloudfunctions.net/calendarFeed`;
+};
+
+export const calendarFeedUrl = (token: string): string =>
+  `${calendarFeedBaseUrl()}?token=${encodeURIComponent(token)}`;
+
+// webcal:// links open the subscribe dialog of the user's calendar app
+export const calendarSubscribeUrl = (token: string): string =>
+  calendarFeedUrl(token).replace(/^https?:/, "webcal:");
+
+// Download the signed-in user's timetable as an .ics file
+export const downloadTimetable = async () => {
+  const exportCalendar = httpsCallable<void, { ics: string }>(
+    functions,
+    "exportCalendar"
+  );
+  const { data } = await exportCalendar();
+
+  const url = URL.createObjectURL(
+    new Blob([data.ics], { type: "text/calendar;charset=utf-8" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "vertex-timetable.ics";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// The signed-in user's subscription token, or null when they have no link
+export const getCalendarFeed = async (): Promise<string | null> => {
+  const get = httpsCallable<void, { token: string | null }>(
+    functions,
+    "getCalendarFeed"
+  );
+  const { data } = await get();
+  return data.token;
+};
+
+// Creates a new subscription link; any previous link stops working
+export const createCalendarFeed = async (): Promise<string> => {
+  const create = httpsCallable<void, { token: string }>(
+    functions,
+    "createCalendarFeed"
+  );
+  const { data } = await create();
+  return data.token;
+};
+
+export const revokeCalendarFeed = async () => {
+  await httpsCallable(functions, "revokeCalendarFeed")();
+};
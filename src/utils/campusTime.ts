@@ -0,0 +1,60 @@
+// Schedules, events and bookings store wall-clock times for the campus, which
+// may not be the browser's time zone. Mirrors functions/src/campusTime.ts.
+export const CAMPUS_TIME_ZONE = "Asia/Colombo";
+
+const formatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: CAMPUS_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = (time || "").split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export interface CampusTime {
+  dateKey: string; // YYYY-MM-DD
+  minutes: number; // Minutes since local midnight
+}
+
+// The campus date and time at an instant
+export const toCampusTime = (date: Date): CampusTime => {
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || "";
+
+  return {
+    dateKey: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+};
+
+// Minutes the campus clock is ahead of UTC at `date`
+const campusUtcOffset = (date: Date): number => {
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value || 0);
+  const localAsUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+  // The formatter drops seconds, so compare against the start of the minute
+  const minuteStart = date.getTime() - (date.getTime() % 60000);
+  return (localAsUtc - minuteStart) / 60000;
+};
+
+// The instant a campus wall-clock date and "HH:MM" time refer to
+export const campusTimeToDate = (dateKey: string, time: string): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const asUtc =
+    Date.UTC(year, month - 1, day) + timeToMinutes(time) * 60 * 1000;
+  return new Date(asUtc - campusUtcOffset(new Date(asUtc)) * 60 * 1000);
+};
@@ -0,0 +1,90 @@
+import { CoverRequest } from "../interfaces/CoverRequest";
+import {
+  AvailabilityIssueKind,
+  LecturerAvailability,
+} from "../interfaces/LecturerAvailability";
+import { findAvailabilityIssues } from "./lecturerAvailability";
+import { ConflictContext } from "./scheduleConflicts";
+import { occurrencesOn } from "./recurrence";
+import { ScheduleLecturer } from "./scheduleRefs";
+
+// How far ahead lecturers can report an absence
+export const COVER_LOOKAHEAD_DAYS = 8 * 7;
+
+const normalize = (value?: string): string =>
+  (value || "").trim().toLowerCase();
+
+// Availability that rules a lecturer out of covering. A preferred branch is
+// only a preference, so it doesn't.
+const UNAVAILABLE_KINDS: AvailabilityIssueKind[] = [
+  "unavailable",
+  "leave",
+  "dailyHours",
+  "weeklyHours",
+];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+// The module's other lecturers (`Module.lecturers`, listed by name) who have
+// no class or booking overlapping the one that needs cover, and whose
+// availability (weekly blocks, leave and hour limits) allows it
+export const findSubstitutes = (
+  request: CoverRequest,
+  lecturers: ScheduleLecturer[],
+  context: ConflictContext,
+  availabilityById: Map<string, LecturerAvailability>
+): ScheduleLecturer[] => {
+  const module = request.moduleId
+    ? context.modulesById.get(request.moduleId)
+    : Array.from(context.modulesById.values()).find(
+        (other) => normalize(other.title) === normalize(request.moduleTitle)
+      );
+  const qualified = new Set((module?.lecturers || []).map(normalize));
+
+  const busy = new Set(
+    context.slots
+      .flatMap((slot) => occurrencesOn(slot.dates, request.date))
+      .filter(
+        (occurrence) =>
+          !(
+            occurrence.scheduleId === request.scheduleId &&
+            occurrence.originalDate === request.occurrenceDate
+          ) &&
+          toMinutes(occurrence.startTime) < toMinutes(request.endTime) &&
+          toMinutes(request.startTime) < toMinutes(occurrence.endTime)
+      )
+      .map((occurrence) => normalize(occurrence.lecturerName))
+  );
+
+  const others = context.slots.map((slot) => slot.dates);
+  const isAvailable = (lecturer: ScheduleLecturer): boolean => {
+    const availability = availabilityById.get(lecturer.id);
+    if (!availability) return true;
+    return !findAvailabilityIssues(
+      {
+        date: request.date,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        recurrence: null,
+        classroomNumber: request.classroomNumber,
+        floorNumber: "",
+        branch: request.branch,
+        lecturerName: lecturer.name,
+      },
+      availability,
+      lecturer.name,
+      others
+    ).some((issue) => UNAVAILABLE_KINDS.includes(issue.kind));
+  };
+
+  return lecturers.filter(
+    (lecturer) =>
+      lecturer.id !== request.lecturerId &&
+      qualified.has(normalize(lecturer.name)) &&
+      !busy.has(normalize(lecturer.name)) &&
+      isAvailable(lecturer)
+  );
+};
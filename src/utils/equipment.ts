@@ -0,0 +1,116 @@
+import { FunctionsError, httpsCallable } from "firebase/functions";
+import { functions } from "../firebase";
+import { Equipment, EquipmentLoan } from "../interfaces/Equipment";
+
+export const EQUIPMENT_CONDITIONS: Record<
+  Equipment["condition"],
+  { label: string; badge: string }
+> = {
+  good: { label: "Good", badge: "bg-success" },
+  fair: { label: "Fair", badge: "bg-info text-dark" },
+  damaged: { label: "Damaged", badge: "bg-danger" },
+  retired: { label: "Retired", badge: "bg-secondary" },
+};
+
+export const LOAN_STATUSES: Record<
+  EquipmentLoan["status"],
+  { label: string; badge: string }
+> = {
+  reserved: { label: "Reserved", badge: "bg-warning text-dark" },
+  "checked-out": { label: "On loan", badge: "bg-primary" },
+  returned: { label: "Returned", badge: "bg-success" },
+  cancelled: { label: "Cancelled", badge: "bg-secondary" },
+};
+
+// Mirrored in functions/src/equipment/loans.ts
+export const MAX_EQUIPMENT_PER_BOOKING = 10;
+
+// Damaged and retired items aren't lent
+export const isLendable = (item: Equipment): boolean =>
+  item.condition === "good" || item.condition === "fair";
+
+// Reserved and checked-out loans hold their item
+export const isHolding = (loan: EquipmentLoan): boolean =>
+  loan.status === "reserved" || loan.status === "checked-out";
+
+export const isOverdue = (loan: EquipmentLoan, now = new Date()): boolean =>
+  loan.status === "checked-out" && new Date(loan.dueAt) < now;
+
+// An overdue item is held until it comes back, whenever that is
+const heldUntil = (loan: EquipmentLoan, now: Date): number =>
+  isOverdue(loan, now) ? now.getTime() : new Date(loan.dueAt).getTime();
+
+// The loan holding the item at some point between `startAt` and `endAt`
+export const loanHolding = (
+  item: Equipment,
+  loans: EquipmentLoan[],
+  startAt: Date,
+  endAt: Date,
+  now = new Date()
+): EquipmentLoan | undefined =>
+  loans.find(
+    (loan) =>
+      loan.equipmentId === item.id &&
+      isHolding(loan) &&
+      new Date(loan.startAt) < endAt &&
+      startAt.getTime() < heldUntil(loan, now)
+  );
+
+// Lendable items nobody has reserved or borrowed for the time, by category
+// and asset tag. The `createBooking` function checks again as it reserves them.
+export const freeEquipment = (
+  equipment: Equipment[],
+  loans: EquipmentLoan[],
+  startAt: Date,
+  endAt: Date
+): Equipment[] =>
+  equipment
+    .filter(
+      (item) => isLendable(item) && !loanHolding(item, loans, startAt, endAt)
+    )
+    .sort(
+      (a, b) =>
+        a.category.localeCompare(b.category) ||
+        a.assetTag.localeCompare(b.assetTag)
+    );
+
+export const describeEquipment = (item: Equipment): string =>
+  `${item.name} (${item.assetTag})`;
+
+// An item that couldn't be reserved or lent, and why
+export interface EquipmentClash {
+  equipmentId: string;
+  name: string;
+  assetTag: string;
+  detail: string;
+}
+
+// The equipment that stopped a booking or loan, or null for other errors
+export const equipmentClashesFrom = (err: unknown): EquipmentClash[] | null => {
+  if (
+    err instanceof FunctionsError &&
+    err.code === "functions/failed-precondition"
+  ) {
+    const details = err.details as { equipment?: EquipmentClash[] };
+    return details?.equipment || null;
+  }
+  return null;
+};
+
+export type CheckOutRequest =
+  | { loanId: string } // A reservation being handed over
+  | { equipmentId: string; borrowerId: string; dueAt: string }; // Lent at the desk
+
+// Loans are checked out by the `checkOutEquipment` function, which makes sure
+// the item is free until it's due. Returns and cancellations are saved
+// directly.
+export const checkOutEquipment = async (
+  request: CheckOutRequest
+): Promise<{ id: string; dueAt: string }> => {
+  const checkOut = httpsCallable<
+    CheckOutRequest,
+    { id: string; dueAt: string }
+  >(functions, "checkOutEquipment");
+  const { data } = await checkOut(request);
+  return data;
+};
@@ -0,0 +1,205 @@
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "../firebase";
+import {
+  AvailabilityIssue,
+  LecturerAvailability,
+} from "../interfaces/LecturerAvailability";
+import { ScheduleOccurrence } from "../interfaces/Schedule";
+import {
+  RecurringSchedule,
+  WEEKDAYS,
+  addDays,
+  expandOccurrences,
+  formatDateKey,
+  resolveRecurrence,
+  toDateKey,
+  weekdayOf,
+} from "./recurrence";
+
+// How far ahead recurring classes are checked, as for conflicts
+const AVAILABILITY_HORIZON_DAYS = 365;
+
+export const lecturerAvailabilityRef = (lecturerId: string) =>
+  doc(db, "lecturerAvailability", lecturerId);
+
+export const emptyAvailability = (
+  lecturerId: string
+): LecturerAvailability => ({
+  lecturerId,
+  unavailableBlocks: [],
+  preferredBranches: [],
+  leave: [],
+  updatedAt: "",
+});
+
+export const loadLecturerAvailability = async (
+  lecturerId: string
+): Promise<LecturerAvailability | null> => {
+  const snapshot = await getDoc(lecturerAvailabilityRef(lecturerId));
+  return snapshot.exists()
+    ? { ...emptyAvailability(lecturerId), ...snapshot.data() }
+    : null;
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+const lengthInHours = (occurrence: ScheduleOccurrence): number =>
+  Math.max(0, toMinutes(occurrence.endTime) - toMinutes(occurrence.startTime)) /
+  60;
+
+const formatHours = (hours: number): string =>
+  `${Math.round(hours * 10) / 10} hour${hours === 1 ? "" : "s"}`;
+
+// Weeks start on Monday, as on the calendar
+const weekOf = (date: string): string =>
+  addDays(date, -((WEEKDAYS.indexOf(weekdayOf(date)) + 6) % 7));
+
+const normalize = (value?: string): string =>
+  (value || "").trim().toLowerCase();
+
+// Where a class for `lecturerName` falls outside their availability: weekly
+// blocks they can't teach, leave, branches they'd rather not travel to and
+// their daily and weekly hour limits, counting `others` (their other classes
+// and bookings). Each kind of issue is reported once, with the first date.
+export const findAvailabilityIssues = (
+  dates: RecurringSchedule,
+  availability: LecturerAvailability,
+  lecturerName: string,
+  others: RecurringSchedule[]
+): AvailabilityIssue[] => {
+  const today = toDateKey(new Date());
+  const rule = resolveRecurrence(dates);
+  const from = rule ? rule.startDate : dates.date;
+  const start = from && from > today ? from : today;
+  const occurrences = expandOccurrences(
+    dates,
+    start,
+    addDays(start, AVAILABILITY_HORIZON_DAYS)
+  ).filter(
+    (occurrence) =>
+      normalize(occurrence.lecturerName) === normalize(lecturerName)
+  );
+  if (occurrences.length === 0) return [];
+
+  const issues: AvailabilityIssue[] = [];
+  const report = (issue: AvailabilityIssue) => {
+    if (!issues.some((other) => other.kind === issue.kind)) issues.push(issue);
+  };
+
+  occurrences.forEach((occurrence) => {
+    const block = availability.unavailableBlocks.find(
+      (block) =>
+        block.day === weekdayOf(occurrence.date) &&
+        toMinutes(block.startTime) < toMinutes(occurrence.endTime) &&
+        toMinutes(occurrence.startTime) < toMinutes(block.endTime)
+    );
+    if (block) {
+      report({
+        kind: "unavailable",
+        detail: `${lecturerName} can't teach on ${block.day}s ${
+          block.startTime
+        } - ${block.endTime}${block.note ? ` (${block.note})` : ""}, from ${formatDateKey(
+          occurrence.date
+        )}`,
+      });
+    }
+
+    const leave = availability.leave.find(
+      (period) =>
+        period.startDate <= occurrence.date && occurrence.date <= period.endDate
+    );
+    if (leave) {
+      report({
+        kind: "leave",
+        detail: `${lecturerName} is on leave on ${formatDateKey(
+          occurrence.date
+        )}${leave.note ? ` (${leave.note})` : ""}`,
+      });
+    }
+
+    const branches = availability.preferredBranches;
+    if (
+      occurrence.branch &&
+      branches.length > 0 &&
+      !branches.some(
+        (branch) => normalize(branch) === normalize(occurrence.branch)
+      )
+    ) {
+      report({
+        kind: "branch",
+        detail: `${lecturerName} prefers to teach at ${branches.join(
+          ", "
+        )}, not ${occurrence.branch}`,
+      });
+    }
+  });
+
+  const { maxHoursPerDay, maxHoursPerWeek } = availability;
+  if (!maxHoursPerDay && !maxHoursPerWeek) return issues;
+
+  // Hours already taught on each day the new class takes place
+  const first = occurrences[0].date;
+  const last = occurrences[occurrences.length - 1].date;
+  const hoursByDate = new Map<string, number>();
+  const addHours = (occurrence: ScheduleOccurrence) =>
+    hoursByDate.set(
+      occurrence.date,
+      (hoursByDate.get(occurrence.date) || 0) + lengthInHours(occurrence)
+    );
+  others
+    .flatMap((other) =>
+      expandOccurrences(other, weekOf(first), addDays(weekOf(last), 6))
+    )
+    .filter(
+      (occurrence) =>
+        normalize(occurrence.lecturerName) === normalize(lecturerName)
+    )
+    .forEach(addHours);
+  occurrences.forEach(addHours);
+
+  if (maxHoursPerDay) {
+    const busiest = occurrences.find(
+      (occurrence) => (hoursByDate.get(occurrence.date) || 0) > maxHoursPerDay
+    );
+    if (busiest) {
+      report({
+        kind: "dailyHours",
+        detail: `${lecturerName} would teach ${formatHours(
+          hoursByDate.get(busiest.date) || 0
+        )} on ${formatDateKey(busiest.date)}, over their limit of ${formatHours(
+          maxHoursPerDay
+        )} a day`,
+      });
+    }
+  }
+
+  if (maxHoursPerWeek) {
+    const hoursByWeek = new Map<string, number>();
+    hoursByDate.forEach((hours, date) =>
+      hoursByWeek.set(
+        weekOf(date),
+        (hoursByWeek.get(weekOf(date)) || 0) + hours
+      )
+    );
+    const busiest = occurrences.find(
+      (occurrence) =>
+        (hoursByWeek.get(weekOf(occurrence.date)) || 0) > maxHoursPerWeek
+    );
+    if (busiest) {
+      const week = weekOf(busiest.date);
+      report({
+        kind: "weeklyHours",
+        detail: `${lecturerName} would teach ${formatHours(
+          hoursByWeek.get(week) || 0
+        )} in the week of ${formatDateKey(week)}, over their limit of ${formatHours(
+          maxHoursPerWeek
+        )} a week`,
+      });
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,154 @@
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+} from "../interfaces/Notification";
+import { toCampusTime } from "./campusTime";
+
+// Categories shown on the preferences page, in display order
+export const NOTIFICATION_CATEGORIES: {
+  key: NotificationCategory;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "events",
+    label: "Campus events",
+    description: "Upcoming and newly published events",
+  },
+  {
+    key: "schedule",
+    label: "Schedule reminders",
+    description: "Class reminders and timetable changes",
+  },
+  {
+    key: "bookings",
+    label: "Bookings",
+    description: "Classroom booking confirmations and updates",
+  },
+  {
+    key: "chatMentions",
+    label: "Chat mentions",
+    description: "When someone mentions you in a course chat",
+  },
+  {
+    key: "grades",
+    label: "Grades",
+    description: "New or updated grades",
+  },
+  {
+    key: "fees",
+    label: "Fee reminders",
+    description: "Upcoming and overdue fee payments",
+  },
+  {
+    key: "announcements",
+    label: "Announcements",
+    description: "Campus announcements from the administration",
+  },
+  {
+    key: "general",
+    label: "Course & system updates",
+    description: "Course changes and other announcements",
+  },
+];
+
+export const NOTIFICATION_CHANNELS: {
+  key: NotificationChannel;
+  label: string;
+}[] = [
+  { key: "inApp", label: "In-app" },
+  { key: "email", label: "Email" },
+  { key: "push", label: "Push" },
+];
+
+export const DEFAULT_REMINDER_LEAD_MINUTES = 30;
+
+// Channels that can't be switched off. Announcements are pinned to dashboards
+// from their inbox entries, so those are always written.
+export const REQUIRED_CHANNELS: Partial<
+  Record<NotificationCategory, NotificationChannel[]>
+> = {
+  announcements: ["inApp"],
+};
+
+const defaultChannels = (): Record<NotificationChannel, boolean> => ({
+  inApp: true,
+  email: false,
+  push: false,
+});
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    general: defaultChannels(),
+    events: defaultChannels(),
+    schedule: { inApp: true, email: false, push: true },
+    bookings: { inApp: true, email: true, push: true },
+    chatMentions: { inApp: true, email: false, push: true },
+    grades: { inApp: true, email: true, push: false },
+    fees: { inApp: true, email: true, push: false },
+    announcements: { inApp: true, email: false, push: true },
+  },
+  quietHours: {
+    enabled: false,
+    start: "22:00",
+    end: "07:00",
+  },
+  reminderLeadMinutes: DEFAULT_REMINDER_LEAD_MINUTES,
+};
+
+// Merge stored (possibly partial or missing) preferences over the defaults
+export const resolveNotificationPreferences = (
+  stored?: Partial<NotificationPreferences> | null
+): NotificationPreferences => {
+  const categories = { ...DEFAULT_NOTIFICATION_PREFERENCES.categories };
+  NOTIFICATION_CATEGORIES.forEach(({ key }) => {
+    categories[key] = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.categories[key],
+      ...(stored?.categories?.[key] || {}),
+    };
+  });
+
+  return {
+    categories,
+    quietHours: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours,
+      ...(stored?.quietHours || {}),
+    },
+    reminderLeadMinutes:
+      stored?.reminderLeadMinutes ??
+      DEFAULT_NOTIFICATION_PREFERENCES.reminderLeadMinutes,
+  };
+};
+
+export const isChannelEnabled = (
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  channel: NotificationChannel
+): boolean =>
+  !!REQUIRED_CHANNELS[category]?.includes(channel) ||
+  preferences.categories[category]?.[channel] !== false;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+// Quiet hours are campus times and may wrap past midnight (e.g. 22:00 - 07:00)
+export const isWithinQuietHours = (
+  preferences: NotificationPreferences,
+  at: Date = new Date()
+): boolean => {
+  const { enabled, start, end } = preferences.quietHours;
+  if (!enabled || !start || !end) return false;
+
+  const now = toCampusTime(at).minutes;
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+
+  if (startMinutes === endMinutes) return false;
+  if (startMinutes < endMinutes) {
+    return now >= startMinutes && now < endMinutes;
+  }
+  return now >= startMinutes || now < endMinutes;
+};
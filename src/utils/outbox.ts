@@ -0,0 +1,42 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "../firebase";
+import { NotificationPayload } from "../interfaces/Notification";
+
+// Only Cloud Functions write to the outbox; the app asks for its deliveries
+// through these callables, which pick the address and template themselves
+
+// Queue a verification email to the signed-in user or a password reset email
+// to an account. False means no mail transport is set up on the server.
+export const requestAuthEmail = async (
+  template: "emailVerification" | "passwordReset",
+  email?: string
+): Promise<boolean> => {
+  const send = httpsCallable<
+    { template: string; email?: string },
+    { queued: boolean }
+  >(functions, "sendAuthEmail");
+  const { data } = await send({ template, ...(email && { email }) });
+  return data.queued;
+};
+
+// Notify a user on the channels they chose: inbox, email and push
+export const sendNotification = async (
+  recipientId: string,
+  payload: NotificationPayload
+): Promise<void> => {
+  const send = httpsCallable<
+    { recipientId: string; payload: NotificationPayload },
+    { sent: boolean }
+  >(functions, "sendNotification");
+  await send({ recipientId, payload });
+};
+
+// Send a push to the signed-in user's devices; returns the outbox message ID
+export const sendTestPush = async (): Promise<string> => {
+  const send = httpsCallable<void, { messageId: string }>(
+    functions,
+    "sendTestPush"
+  );
+  const { data } = await send();
+  return data.messageId;
+};
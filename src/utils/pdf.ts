@@ -0,0 +1,173 @@
+// Just enough of PDF 1.4 to draw text, lines and boxes in Helvetica, which
+// every PDF viewer has built in, so no font or library has to be shipped.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfColor = [number, number, number]; // RGB, 0-255
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  content: string[]; // Drawing operators
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  strike?: boolean;
+}
+
+// A4 landscape
+export const PAGE_WIDTH = 842;
+export const PAGE_HEIGHT = 595;
+
+// Average glyph widths, as a share of the font size, for fitting text
+const AVERAGE_WIDTH = 0.52;
+const AVERAGE_BOLD_WIDTH = 0.56;
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+const rgb = ([r, g, b]: PdfColor): string =>
+  [r, g, b].map((value) => num(value / 255)).join(" ");
+
+// Helvetica is drawn in WinAnsiEncoding, which covers Latin-1; anything
+// else is replaced
+const escapeText = (text: string): string =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (char === "\\" || char === "(" || char === ")") return `\\${char}`;
+      if (code >= 0x20 && code < 0x7f) return char;
+      if (code >= 0xa0 && code <= 0xff) return `\\${code.toString(8)}`;
+      return "?";
+    })
+    .join("");
+
+export const createPage = (
+  width = PAGE_WIDTH,
+  height = PAGE_HEIGHT
+): PdfPage => ({ width, height, content: [] });
+
+export const textWidth = (text: string, size: number, bold = false): number =>
+  text.length * size * (bold ? AVERAGE_BOLD_WIDTH : AVERAGE_WIDTH);
+
+// Shorten text with an ellipsis so it fits `width`
+export const fitText = (
+  text: string,
+  width: number,
+  size: number,
+  bold = false
+): string => {
+  if (textWidth(text, size, bold) <= width) return text;
+  const chars = Math.floor(
+    width / (size * (bold ? AVERAGE_BOLD_WIDTH : AVERAGE_WIDTH))
+  );
+  return chars > 3 ? `${text.slice(0, chars - 3).trimEnd()}...` : "";
+};
+
+// `y` is the text's baseline
+export const drawText = (
+  page: PdfPage,
+  x: number,
+  y: number,
+  text: string,
+  {
+    size = 10,
+    bold = false,
+    color = [0, 0, 0],
+    strike = false,
+  }: PdfTextOptions = {}
+) => {
+  if (!text) return;
+  const baseline = page.height - y;
+  page.content.push(
+    `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(
+      baseline
+    )} Td (${escapeText(text)}) Tj ET`
+  );
+  if (strike) {
+    const middle = baseline + size * 0.3;
+    page.content.push(
+      `${rgb(color)} RG 0.6 w ${num(x)} ${num(middle)} m ${num(
+        x + textWidth(text, size, bold)
+      )} ${num(middle)} l S`
+    );
+  }
+};
+
+export const drawRect = (
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  { fill, stroke }: { fill?: PdfColor; stroke?: PdfColor }
+) => {
+  const box = `${num(x)} ${num(page.height - y - height)} ${num(width)} ${num(
+    height
+  )} re`;
+  if (fill && stroke) {
+    page.content.push(`${rgb(fill)} rg ${rgb(stroke)} RG 0.5 w ${box} B`);
+  } else if (fill) {
+    page.content.push(`${rgb(fill)} rg ${box} f`);
+  } else if (stroke) {
+    page.content.push(`${rgb(stroke)} RG 0.5 w ${box} S`);
+  }
+};
+
+export const drawLine = (
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  color: PdfColor,
+  width = 0.5
+) =>
+  page.content.push(
+    `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(
+      page.height - y1
+    )} m ${num(x2)} ${num(page.height - y2)} l S`
+  );
+
+// Objects 1-4 are the catalog, page tree and the two fonts; each page is
+// followed by its content stream. Everything written is ASCII, so string
+// lengths are byte offsets.
+export const toPdfBlob = (pages: PdfPage[]): Blob => {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, i) => `${5 + i * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((page, i) => {
+    const stream = page.content.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${
+        page.height
+      }] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+        6 + i * 2
+      } 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  output += `trailer\n<< /Size ${
+    objects.length + 1
+  } /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([output], { type: "application/pdf" });
+};
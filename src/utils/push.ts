@@ -0,0 +1,93 @@
+import { doc, updateDoc, deleteField, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { v4 as uuidv4 } from "uuid";
+import { db, functions } from "../firebase";
+
+const SERVICE_WORKER_URL = "/sw.js";
+const DEVICE_ID_KEY = "push_device_id";
+
+export const isPushSupported = (): boolean =>
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window;
+
+// Stable ID for this browser; subscriptions are stored on the user document
+// under `pushSubscriptions.<deviceId>` so each device can be managed separately
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = uuidv4();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+// VAPID keys are base64url encoded; the Push API wants raw bytes
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+export const getPushSubscription =
+  async (): Promise<PushSubscription | null> => {
+    if (!isPushSupported()) return null;
+
+    const registration =
+      await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return registration ? registration.pushManager.getSubscription() : null;
+  };
+
+// Ask for permission, subscribe this browser and store the subscription
+export const enablePushOnDevice = async (userId: string) => {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications are not supported in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+
+  const getPushConfig = httpsCallable<void, { publicKey: string }>(
+    functions,
+    "getPushConfig"
+  );
+  const { data } = await getPushConfig();
+
+  // Start from a fresh subscription in case the server's VAPID key changed
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) {
+    await existing.unsubscribe();
+  }
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(data.publicKey),
+  });
+  const { endpoint, keys } = subscription.toJSON();
+
+  await updateDoc(doc(db, "users", userId), {
+    [`pushSubscriptions.${getDeviceId()}`]: {
+      endpoint,
+      keys,
+      userAgent: navigator.userAgent,
+      createdAt: Timestamp.now(),
+    },
+  });
+};
+
+export const disablePushOnDevice = async (userId: string) => {
+  const subscription = await getPushSubscription();
+  if (subscription) {
+    await subscription.unsubscribe();
+  }
+
+  await updateDoc(doc(db, "users", userId), {
+    [`pushSubscriptions.${getDeviceId()}`]: deleteField(),
+  });
+};
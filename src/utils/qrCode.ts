@@ -0,0 +1,320 @@
+// Just enough of the QR code standard (ISO/IEC 18004) to encode a link:
+// byte mode, medium error correction and versions 1 to 10, which hold up to
+// 213 bytes. Like the PDF writer, it saves shipping a library for one use.
+
+// Error correction codewords per block and number of blocks, by version,
+// at level M
+const ECC_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ECC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+const sizeOf = (version: number): number => version * 4 + 17;
+
+// Modules left for data and error correction once the fixed patterns are
+// drawn
+const rawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number): number =>
+  Math.floor(rawDataModules(version) / 8) -
+  ECC_PER_BLOCK[version] * ECC_BLOCKS[version];
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = sizeOf(version) - 7; result.length < count; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+// Splits the data into blocks, adds each block's error correction and
+// interleaves them
+const withErrorCorrection = (data: number[], version: number): number[] => {
+  const blockCount = ECC_BLOCKS[version];
+  const eccLength = ECC_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const length = shortLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(k, k + length);
+    k += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks are padded so every block lines up when interleaved
+    if (i < shortBlocks) block.push(-1);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// A simplified penalty: long runs, 2x2 blocks and an uneven balance of dark
+// and light. Any mask scans; a low penalty just scans more reliably.
+const penalty = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let score = 0;
+  let dark = 0;
+  for (let a = 0; a < size; a++) {
+    let rowRun = 1;
+    let columnRun = 1;
+    for (let b = 0; b < size; b++) {
+      if (modules[a][b]) dark++;
+      if (b === 0) continue;
+      rowRun = modules[a][b] === modules[a][b - 1] ? rowRun + 1 : 1;
+      columnRun = modules[b][a] === modules[b - 1][a] ? columnRun + 1 : 1;
+      if (rowRun === 5 || columnRun === 5) score += 3;
+      if (rowRun > 5) score++;
+      if (columnRun > 5) score++;
+      if (
+        a > 0 &&
+        modules[a][b] === modules[a][b - 1] &&
+        modules[a][b] === modules[a - 1][b] &&
+        modules[a][b] === modules[a - 1][b - 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+  return score;
+};
+
+// Encodes `text` as UTF-8 and returns the modules row by row, true for dark,
+// without the quiet zone around them
+export const encodeQrCode = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  const bitsNeeded = (v: number) => 4 + (v < 10 ? 8 : 16) + bytes.length * 8;
+  while (bitsNeeded(version) > dataCodewords(version) * 8) {
+    version++;
+    if (version > MAX_VERSION) {
+      throw new Error("Text is too long for a QR code");
+    }
+  }
+
+  // Byte mode indicator, length, the bytes, then padding
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  const capacity = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  }
+  const codewords = withErrorCorrection(data, version);
+
+  const size = sizeOf(version);
+  const modules = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const reserved = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const setFixed = (x: number, y: number, isDark: boolean) => {
+    modules[y][x] = isDark;
+    reserved[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFixed(6, i, i % 2 === 0);
+    setFixed(i, 6, i % 2 === 0);
+  }
+  // Finder patterns with their separators
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFixed(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  // Alignment patterns, except where they would overlap a finder
+  const positions = alignmentPositions(version);
+  positions.forEach((cy, i) =>
+    positions.forEach((cx, j) => {
+      const last = positions.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last)) return;
+      if (i === last && j === 0) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFixed(
+            cx + dx,
+            cy + dy,
+            Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+          );
+        }
+      }
+    })
+  );
+
+  const drawFormat = (mask: number) => {
+    // Level M is 00
+    const format = mask;
+    let remainder = format;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const formatBits = ((format << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((formatBits >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) setFixed(8, i, bit(i));
+    setFixed(8, 7, bit(6));
+    setFixed(8, 8, bit(7));
+    setFixed(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFixed(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFixed(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFixed(8, size - 15 + i, bit(i));
+    setFixed(8, size - 8, true);
+  };
+  // Reserve the format areas before placing data
+  drawFormat(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const versionBits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const isDark = ((versionBits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFixed(a, b, isDark);
+      setFixed(b, a, isDark);
+    }
+  }
+
+  // Data goes up and down two-module columns from the bottom right
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] =
+          ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        bitIndex++;
+      }
+    }
+  }
+
+  const masked = (mask: number): boolean[][] => {
+    drawFormat(mask);
+    return modules.map((row, y) =>
+      row.map((isDark, x) =>
+        reserved[y][x] ? isDark : isDark !== MASKS[mask](x, y)
+      )
+    );
+  };
+  let best = 0;
+  let bestPenalty = Infinity;
+  MASKS.forEach((_, mask) => {
+    const score = penalty(masked(mask));
+    if (score < bestPenalty) {
+      best = mask;
+      bestPenalty = score;
+    }
+  });
+  return masked(best);
+};
+
+// The code as a standalone SVG image with a four-module quiet zone
+export const qrCodeSvg = (text: string): string => {
+  const modules = encodeQrCode(text);
+  const size = modules.length + 8;
+  const path = modules
+    .flatMap((row, y) =>
+      row.map((isDark, x) => (isDark ? `M${x + 4} ${y + 4}h1v1h-1z` : ""))
+    )
+    .join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
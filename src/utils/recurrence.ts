@@ -0,0 +1,279 @@
+import {
+  OccurrenceOverride,
+  RecurrenceRule,
+  Schedule,
+  ScheduleOccurrence,
+} from "../interfaces/Schedule";
+
+// Mirrored in functions/src/recurrence.ts so reminders expand schedules the
+// same way the web app does. Dates are YYYY-MM-DD strings in campus time and
+// are handled as UTC day numbers, so the browser's time zone never shifts them.
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Schedules saved before recurrence rules existed repeated every week from
+// the day they were created; see functions/src/migrations/scheduleRecurrence.ts
+interface LegacyRecurrence {
+  isRecurring?: boolean;
+  dayOfWeek?: string;
+}
+
+// The parts of a schedule needed to expand its occurrences
+export type RecurringSchedule = Pick<
+  Schedule,
+  | "date"
+  | "startTime"
+  | "endTime"
+  | "classroomNumber"
+  | "floorNumber"
+  | "branch"
+  | "lecturerName"
+> &
+  Partial<Pick<Schedule, "id" | "recurrence" | "overrides" | "createdAt">> &
+  LegacyRecurrence;
+
+const toDayNumber = (date: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+};
+
+const fromDayNumber = (dayNumber: number): string =>
+  new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+
+const weekdayIndex = (dayNumber: number): number =>
+  new Date(dayNumber * MS_PER_DAY).getUTCDay();
+
+// Weeks start on Monday, the RFC 5545 default (WKST=MO)
+const weekStart = (dayNumber: number): number =>
+  dayNumber - ((weekdayIndex(dayNumber) + 6) % 7);
+
+export const isDateKey = (value?: string): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const addDays = (date: string, days: number): string =>
+  fromDayNumber(toDayNumber(date) + days);
+
+export const weekdayOf = (date: string): string =>
+  WEEKDAYS[weekdayIndex(toDayNumber(date))];
+
+// A local Date as YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const formatDateKey = (date: string): string =>
+  new Date(toDayNumber(date) * MS_PER_DAY).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+// The schedule's rule, or one derived from the legacy isRecurring/dayOfWeek
+// fields; null for one-off classes
+export const resolveRecurrence = (
+  schedule: RecurringSchedule
+): RecurrenceRule | null => {
+  if (schedule.recurrence !== undefined) return schedule.recurrence;
+  if (!schedule.isRecurring) return null;
+
+  const createdOn = (schedule.createdAt || "").slice(0, 10);
+  return {
+    frequency: "weekly",
+    interval: 1,
+    byDay: schedule.dayOfWeek ? [schedule.dayOfWeek.trim()] : [],
+    startDate: isDateKey(createdOn) ? createdOn : "1970-01-01",
+    exceptionDates: [],
+  };
+};
+
+// Whether the rule produces an occurrence on `date`, ignoring overrides
+export const matchesRule = (rule: RecurrenceRule, date: string): boolean => {
+  const day = toDayNumber(date);
+  const start = toDayNumber(rule.startDate);
+  if (day < start) return false;
+  if (rule.until && day > toDayNumber(rule.until)) return false;
+  if ((rule.exceptionDates || []).includes(date)) return false;
+  if ((rule.nonTeachingDates || []).includes(date)) return false;
+
+  const interval = Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case "daily":
+      return (day - start) % interval === 0;
+    case "weekly": {
+      const byDay = rule.byDay?.length
+        ? rule.byDay
+        : [weekdayOf(rule.startDate)];
+      if (!byDay.includes(weekdayOf(date))) return false;
+      return ((weekStart(day) - weekStart(start)) / 7) % interval === 0;
+    }
+    case "monthly": {
+      const [startYear, startMonth, startDay] = rule.startDate
+        .split("-")
+        .map(Number);
+      const [year, month, dayOfMonth] = date.split("-").map(Number);
+      if (dayOfMonth !== startDay) return false;
+      return ((year - startYear) * 12 + (month - startMonth)) % interval === 0;
+    }
+    default:
+      return false;
+  }
+};
+
+export interface ExpandOptions {
+  includeCancelled?: boolean; // e.g. to show them struck through
+}
+
+const toOccurrence = (
+  schedule: RecurringSchedule,
+  originalDate: string,
+  override?: OccurrenceOverride
+): ScheduleOccurrence => ({
+  scheduleId: schedule.id || "",
+  // A cancelled occurrence stays on its own day
+  date: (!override?.cancelled && override?.newDate) || originalDate,
+  originalDate,
+  startTime: override?.startTime || schedule.startTime,
+  endTime: override?.endTime || schedule.endTime,
+  classroomNumber: override?.classroomNumber || schedule.classroomNumber,
+  floorNumber: override?.floorNumber || schedule.floorNumber,
+  branch: override?.branch || schedule.branch,
+  lecturerName: override?.lecturerName || schedule.lecturerName,
+  ...(override?.lecturerId && { lecturerId: override.lecturerId }),
+  ...(override?.lecturerName &&
+    override.lecturerName !== schedule.lecturerName && {
+      substituteFor: schedule.lecturerName,
+    }),
+  isOverridden: !!override,
+  isCancelled: !!override?.cancelled,
+  ...(override?.reason && { reason: override.reason }),
+});
+
+// Occurrences taking place between `from` and `to` (inclusive), in date order.
+// An occurrence moved by an override appears on the day it was moved to.
+// Cancelled occurrences are left out unless the timetable shows them.
+export const expandOccurrences = (
+  schedule: RecurringSchedule,
+  from: string,
+  to: string,
+  options: ExpandOptions = {}
+): ScheduleOccurrence[] => {
+  const first = toDayNumber(from);
+  const last = toDayNumber(to);
+  const inRange = (date: string) =>
+    toDayNumber(date) >= first && toDayNumber(date) <= last;
+
+  const overrides = new Map(
+    (schedule.overrides || []).map((override) => [override.date, override])
+  );
+  const isShown = (override?: OccurrenceOverride) =>
+    !override?.cancelled || !!options.includeCancelled;
+
+  const rule = resolveRecurrence(schedule);
+  if (!rule) {
+    // One-off classes are moved by changing their date, but can be cancelled
+    const override = overrides.get(schedule.date || "");
+    return isDateKey(schedule.date) &&
+      inRange(schedule.date) &&
+      isShown(override)
+      ? [toOccurrence(schedule, schedule.date, override)]
+      : [];
+  }
+
+  const occurrences: ScheduleOccurrence[] = [];
+
+  const end = rule.until ? Math.min(last, toDayNumber(rule.until)) : last;
+  for (
+    let day = Math.max(first, toDayNumber(rule.startDate));
+    day <= end;
+    day++
+  ) {
+    const date = fromDayNumber(day);
+    if (!matchesRule(rule, date)) continue;
+
+    const override = overrides.get(date);
+    if (!isShown(override)) continue;
+    const movedAway =
+      !override?.cancelled && override?.newDate && override.newDate !== date;
+    if (movedAway) continue;
+    occurrences.push(toOccurrence(schedule, date, override));
+  }
+
+  // Occurrences moved here from another day, possibly outside the range
+  overrides.forEach((override) => {
+    if (
+      !override.cancelled &&
+      override.newDate &&
+      override.newDate !== override.date &&
+      inRange(override.newDate) &&
+      matchesRule(rule, override.date)
+    ) {
+      occurrences.push(toOccurrence(schedule, override.date, override));
+    }
+  });
+
+  return occurrences.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)
+  );
+};
+
+export const occurrencesOn = (
+  schedule: RecurringSchedule,
+  date: string,
+  options: ExpandOptions = {}
+): ScheduleOccurrence[] => expandOccurrences(schedule, date, date, options);
+
+// e.g. "Every 2 weeks on Monday, Wednesday until Jun 27, 2025"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let text: string;
+
+  switch (rule.frequency) {
+    case "daily":
+      text = interval === 1 ? "Every day" : `Every ${interval} days`;
+      break;
+    case "weekly": {
+      const byDay = rule.byDay?.length
+        ? rule.byDay
+        : [weekdayOf(rule.startDate)];
+      text = `${
+        interval === 1 ? "Every" : `Every ${interval} weeks on`
+      } ${byDay.join(", ")}`;
+      break;
+    }
+    case "monthly":
+      text = `${
+        interval === 1 ? "Monthly" : `Every ${interval} months`
+      } on day ${Number(rule.startDate.slice(8, 10))}`;
+      break;
+    default:
+      text = "Recurring";
+  }
+
+  if (rule.until) text += ` until ${formatDateKey(rule.until)}`;
+  const exceptions = (rule.exceptionDates || []).length;
+  if (exceptions > 0) {
+    text += ` (${exceptions} exception${exceptions === 1 ? "" : "s"})`;
+  }
+  return text;
+};
+
+export const describeScheduleDates = (schedule: RecurringSchedule): string => {
+  const rule = resolveRecurrence(schedule);
+  if (rule) return describeRecurrence(rule);
+  return isDateKey(schedule.date) ? formatDateKey(schedule.date) : "";
+};
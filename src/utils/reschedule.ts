@@ -0,0 +1,332 @@
+import {
+  OccurrenceOverride,
+  RecurrenceRule,
+  Schedule,
+  ScheduleOccurrence,
+} from "../interfaces/Schedule";
+import {
+  WEEKDAYS,
+  addDays,
+  expandOccurrences,
+  resolveRecurrence,
+} from "./recurrence";
+
+// Where a class was dragged to on the calendar
+export interface RescheduleTarget {
+  date: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+}
+
+// How much of a recurring schedule a change applies to
+export type RescheduleScope = "occurrence" | "future";
+
+type TimingField =
+  | "date"
+  | "startTime"
+  | "endTime"
+  | "recurrence"
+  | "overrides";
+
+// The fields of the existing schedule that change, and for "all future
+// occurrences" of a series that already started, the schedule continuing it
+export interface RescheduleResult {
+  update: Partial<Pick<Schedule, TimingField>>;
+  continuation: Pick<Schedule, TimingField> | null;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+const fromMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      (MINUTES_PER_DAY * 60 * 1000)
+  );
+
+// Moving a class keeps its length, ending at midnight at the latest
+export const moveTo = (
+  occurrence: Pick<ScheduleOccurrence, "startTime" | "endTime">,
+  date: string,
+  startTime: string
+): RescheduleTarget => {
+  const length =
+    toMinutes(occurrence.endTime) - toMinutes(occurrence.startTime);
+  return {
+    date,
+    startTime,
+    endTime: fromMinutes(
+      Math.min(toMinutes(startTime) + length, MINUTES_PER_DAY - 1)
+    ),
+  };
+};
+
+// Resizing keeps the start, lasting at least `minimum` minutes
+export const resizeTo = (
+  occurrence: Pick<ScheduleOccurrence, "date" | "startTime">,
+  endTime: string,
+  minimum: number
+): RescheduleTarget => ({
+  date: occurrence.date,
+  startTime: occurrence.startTime,
+  endTime: fromMinutes(
+    Math.min(
+      Math.max(toMinutes(endTime), toMinutes(occurrence.startTime) + minimum),
+      MINUTES_PER_DAY - 1
+    )
+  ),
+});
+
+// The dragged occurrence alone, as a one-off class, for checking clashes
+export const occurrenceCandidate = (
+  schedule: Schedule,
+  occurrence: ScheduleOccurrence,
+  target: RescheduleTarget
+): Schedule => ({
+  ...schedule,
+  ...target,
+  classroomNumber: occurrence.classroomNumber,
+  floorNumber: occurrence.floorNumber,
+  branch: occurrence.branch,
+  lecturerName: occurrence.lecturerName,
+  recurrence: null,
+  overrides: [],
+});
+
+export const isUnchanged = (
+  occurrence: ScheduleOccurrence,
+  target: RescheduleTarget
+): boolean =>
+  occurrence.date === target.date &&
+  occurrence.startTime === target.startTime &&
+  occurrence.endTime === target.endTime;
+
+// Firestore rejects undefined values, so unchanged fields are left out
+const withoutTiming = (override: OccurrenceOverride): OccurrenceOverride => {
+  const rest: OccurrenceOverride = { ...override };
+  delete rest.newDate;
+  delete rest.startTime;
+  delete rest.endTime;
+  return rest;
+};
+
+const hasChanges = (override: OccurrenceOverride): boolean =>
+  Object.keys(override).some((key) => key !== "date");
+
+// Move one occurrence through an override, keeping any room or lecturer
+// change already made to it
+const rescheduleOccurrence = (
+  schedule: Schedule,
+  occurrence: ScheduleOccurrence,
+  target: RescheduleTarget
+): OccurrenceOverride[] => {
+  const overrides = schedule.overrides || [];
+  const existing = overrides.find(
+    (override) => override.date === occurrence.originalDate
+  );
+  const override: OccurrenceOverride = {
+    ...withoutTiming(existing || { date: occurrence.originalDate }),
+    ...(target.date !== occurrence.originalDate && { newDate: target.date }),
+    ...(target.startTime !== schedule.startTime && {
+      startTime: target.startTime,
+    }),
+    ...(target.endTime !== schedule.endTime && { endTime: target.endTime }),
+  };
+
+  return [
+    ...overrides.filter((other) => other.date !== occurrence.originalDate),
+    ...(hasChanges(override) ? [override] : []),
+  ];
+};
+
+// Move a rule `days` later (or earlier), weekdays included. The series
+// still ends with the term, however far it moves.
+const shiftRule = (
+  rule: RecurrenceRule,
+  startDate: string,
+  days: number
+): RecurrenceRule => {
+  const shift = ((days % 7) + 7) % 7;
+  return {
+    ...rule,
+    byDay: rule.byDay.map(
+      (day) => WEEKDAYS[(WEEKDAYS.indexOf(day) + shift) % 7]
+    ),
+    startDate,
+    ...(rule.until &&
+      rule.until < startDate && {
+        until: startDate,
+      }),
+    exceptionDates: (rule.exceptionDates || []).map((date) =>
+      addDays(date, days)
+    ),
+  };
+};
+
+// Per-occurrence changes move with the series; the dragged occurrence keeps
+// only its room or lecturer change, since it now takes the series' timing
+const shiftOverrides = (
+  overrides: OccurrenceOverride[],
+  occurrence: ScheduleOccurrence,
+  days: number
+): OccurrenceOverride[] =>
+  overrides
+    .map((override) =>
+      override.date === occurrence.originalDate
+        ? withoutTiming(override)
+        : {
+            ...override,
+            ...(override.newDate && {
+              newDate: addDays(override.newDate, days),
+            }),
+          }
+    )
+    .map((override) => ({ ...override, date: addDays(override.date, days) }))
+    .filter(hasChanges);
+
+// Move the occurrence and every later one. A series that already had
+// occurrences ends the day before, and a new schedule carries on from the
+// moved occurrence; otherwise the whole series moves.
+const rescheduleFuture = (
+  schedule: Schedule,
+  rule: RecurrenceRule,
+  occurrence: ScheduleOccurrence,
+  target: RescheduleTarget
+): RescheduleResult => {
+  const days = daysBetween(occurrence.originalDate, target.date);
+  const overrides = schedule.overrides || [];
+  const earlier =
+    occurrence.originalDate > rule.startDate &&
+    expandOccurrences(
+      { ...schedule, overrides: [] },
+      rule.startDate,
+      addDays(occurrence.originalDate, -1)
+    ).length > 0;
+
+  const timing = { startTime: target.startTime, endTime: target.endTime };
+  const futureRule = shiftRule(
+    {
+      ...rule,
+      startDate: occurrence.originalDate,
+      exceptionDates: (rule.exceptionDates || []).filter(
+        (date) => date >= occurrence.originalDate
+      ),
+    },
+    target.date,
+    days
+  );
+  const futureOverrides = shiftOverrides(
+    overrides.filter((override) => override.date >= occurrence.originalDate),
+    occurrence,
+    days
+  );
+
+  if (!earlier) {
+    return {
+      update: { ...timing, recurrence: futureRule, overrides: futureOverrides },
+      continuation: null,
+    };
+  }
+
+  return {
+    update: {
+      recurrence: {
+        ...rule,
+        until: addDays(occurrence.originalDate, -1),
+        exceptionDates: (rule.exceptionDates || []).filter(
+          (date) => date < occurrence.originalDate
+        ),
+      },
+      overrides: overrides.filter(
+        (override) => override.date < occurrence.originalDate
+      ),
+    },
+    continuation: {
+      ...timing,
+      date: "",
+      recurrence: futureRule,
+      overrides: futureOverrides,
+    },
+  };
+};
+
+export const reschedule = (
+  schedule: Schedule,
+  occurrence: ScheduleOccurrence,
+  target: RescheduleTarget,
+  scope: RescheduleScope
+): RescheduleResult => {
+  const rule = resolveRecurrence(schedule);
+  if (!rule) {
+    return { update: { ...target }, continuation: null };
+  }
+  if (scope === "occurrence") {
+    return {
+      update: { overrides: rescheduleOccurrence(schedule, occurrence, target) },
+      continuation: null,
+    };
+  }
+  return rescheduleFuture(schedule, rule, occurrence, target);
+};
+
+// Cancel one occurrence, keeping any other change made to it so restoring
+// the class brings it back as it was
+export const cancelOccurrence = (
+  schedule: Schedule,
+  occurrence: ScheduleOccurrence,
+  reason: string
+): OccurrenceOverride[] => {
+  const overrides = schedule.overrides || [];
+  const existing = overrides.find(
+    (override) => override.date === occurrence.originalDate
+  );
+  return [
+    ...overrides.filter((other) => other.date !== occurrence.originalDate),
+    {
+      ...(existing || { date: occurrence.originalDate }),
+      cancelled: true,
+      reason,
+    },
+  ];
+};
+
+export const restoreOccurrence = (
+  schedule: Schedule,
+  occurrence: ScheduleOccurrence
+): OccurrenceOverride[] =>
+  (schedule.overrides || []).flatMap((override) => {
+    if (override.date !== occurrence.originalDate) return [override];
+    const rest: OccurrenceOverride = { ...override };
+    delete rest.cancelled;
+    delete rest.reason;
+    return hasChanges(rest) ? [rest] : [];
+  });
+
+// Have a substitute teach one occurrence, keeping any other change made to it
+export const assignCover = (
+  schedule: Schedule,
+  occurrence: Pick<ScheduleOccurrence, "originalDate">,
+  substitute: { id: string; name: string }
+): OccurrenceOverride[] => {
+  const overrides = schedule.overrides || [];
+  const existing = overrides.find(
+    (override) => override.date === occurrence.originalDate
+  );
+  return [
+    ...overrides.filter((other) => other.date !== occurrence.originalDate),
+    {
+      ...(existing || { date: occurrence.originalDate }),
+      lecturerId: substitute.id,
+      lecturerName: substitute.name,
+    },
+  ];
+};
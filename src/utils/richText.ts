@@ -0,0 +1,91 @@
+// Tags the announcement editor can produce; anything else is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  "P",
+  "DIV",
+  "BR",
+  "B",
+  "STRONG",
+  "I",
+  "EM",
+  "U",
+  "S",
+  "UL",
+  "OL",
+  "LI",
+  "H4",
+  "H5",
+  "BLOCKQUOTE",
+  "A",
+]);
+
+// Elements dropped together with their content
+const DROPPED_TAGS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "IFRAME",
+  "OBJECT",
+  "EMBED",
+  "TEMPLATE",
+]);
+
+const isSafeUrl = (url: string): boolean =>
+  /^(https?:|mailto:|\/)/i.test(url.trim());
+
+const cleanNode = (node: Node, output: Document): Node | null => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return output.createTextNode(node.textContent || "");
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const element = node as Element;
+  if (DROPPED_TAGS.has(element.tagName)) return null;
+
+  const children = Array.from(element.childNodes)
+    .map((child) => cleanNode(child, output))
+    .filter((child): child is Node => child !== null);
+
+  if (!ALLOWED_TAGS.has(element.tagName)) {
+    const fragment = output.createDocumentFragment();
+    children.forEach((child) => fragment.appendChild(child));
+    return fragment;
+  }
+
+  // Attributes are stripped, except a safe href on links
+  const cleaned = output.createElement(element.tagName.toLowerCase());
+  if (element.tagName === "A") {
+    const href = element.getAttribute("href") || "";
+    if (isSafeUrl(href)) {
+      cleaned.setAttribute("href", href);
+      cleaned.setAttribute("target", "_blank");
+      cleaned.setAttribute("rel", "noopener noreferrer");
+    }
+  }
+  children.forEach((child) => cleaned.appendChild(child));
+  return cleaned;
+};
+
+// Reduce editor HTML to a small whitelist of formatting tags. Used both before
+// saving and before rendering, so stored content is never trusted as-is.
+export const sanitizeHtml = (html: string): string => {
+  const source = new DOMParser().parseFromString(html, "text/html");
+  const output = document.implementation.createHTMLDocument("");
+  const container = output.createElement("div");
+
+  Array.from(source.body.childNodes).forEach((child) => {
+    const cleaned = cleanNode(child, output);
+    if (cleaned) container.appendChild(cleaned);
+  });
+  return container.innerHTML;
+};
+
+// Plain-text version for inbox messages, email and push notifications
+export const htmlToText = (html: string): string => {
+  const source = new DOMParser().parseFromString(
+    html.replace(/<\/(p|div|li|h4|h5|blockquote)>|<br\s*\/?>/gi, "$&\n"),
+    "text/html"
+  );
+  return (source.body.textContent || "")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n")
+    .trim();
+};
@@ -0,0 +1,304 @@
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "../firebase";
+import { Booking } from "../interfaces/Booking";
+import { Classroom } from "../interfaces/Classroom";
+import { Module } from "../interfaces/Course";
+import { ScheduleConflict, ConflictKind } from "../interfaces/Conflict";
+import { Schedule, ScheduleOccurrence } from "../interfaces/Schedule";
+import {
+  RecurringSchedule,
+  addDays,
+  describeScheduleDates,
+  expandOccurrences,
+  formatDateKey,
+  resolveRecurrence,
+  toDateKey,
+} from "./recurrence";
+import { resolveScheduleRefs } from "./scheduleRefs";
+
+// How far ahead recurring entries are compared
+const CONFLICT_HORIZON_DAYS = 365;
+
+// Bookings in these states occupy their room. Mirrors OCCUPYING_STATUSES in
+// functions/src/bookings/create.ts, so a room released as a no-show or whose
+// booking has finished is free again.
+export const OCCUPYING_STATUSES: Booking["status"][] = ["pending", "confirmed"];
+
+// A schedule or booking reduced to what matters for clash detection. Room and
+// lecturer come from each occurrence, since overrides can change them.
+export interface TimetableSlot {
+  source: "schedule" | "booking";
+  id?: string; // Unset for entries that haven't been saved yet
+  title: string;
+  moduleId?: string; // Schedules only, unset on those saved before the migration
+  dates: RecurringSchedule; // Bookings are one-off; an empty branch matches any
+  courseIds: string[]; // Courses whose students attend
+}
+
+// Everything already on the timetable, plus the lookups needed to describe
+// new entries the same way
+export interface ConflictContext {
+  slots: TimetableSlot[];
+  classroomsById: Map<string, Classroom>;
+  userNamesById: Map<string, string>;
+  modulesById: Map<string, Module>;
+  courseIdsByModuleId: Map<string, string[]>;
+  courseIdsByModuleTitle: Map<string, string[]>; // For schedules without a moduleId
+}
+
+const normalize = (value?: string | number): string =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+export const scheduleToSlot = (
+  schedule: Omit<Schedule, "id" | "createdAt" | "updatedAt"> & {
+    id?: string;
+  },
+  context: ConflictContext
+): TimetableSlot => {
+  const resolved = resolveScheduleRefs(schedule, context);
+  return {
+    source: "schedule",
+    id: resolved.id,
+    title: resolved.moduleTitle,
+    ...(resolved.moduleId && { moduleId: resolved.moduleId }),
+    dates: resolved,
+    courseIds:
+      (resolved.moduleId
+        ? context.courseIdsByModuleId.get(resolved.moduleId)
+        : context.courseIdsByModuleTitle.get(
+            normalize(resolved.moduleTitle)
+          )) || [],
+  };
+};
+
+// Bookings of rooms without a branch match schedules on room and floor alone
+export const bookingToSlot = (
+  booking: Pick<
+    Booking,
+    "classroomId" | "title" | "date" | "startTime" | "endTime" | "bookedFor"
+  > & { id?: string },
+  context: ConflictContext
+): TimetableSlot => {
+  const classroom = context.classroomsById.get(booking.classroomId);
+  return {
+    source: "booking",
+    id: booking.id,
+    title: booking.title,
+    dates: {
+      date: booking.date,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      recurrence: null,
+      classroomNumber: classroom?.roomNumber || "",
+      floorNumber: classroom ? String(classroom.floor) : "",
+      branch: classroom?.branch || "",
+      lecturerName: context.userNamesById.get(booking.bookedFor) || "",
+    },
+    courseIds: [],
+  };
+};
+
+// Load the current timetable. Only pending and confirmed bookings occupy
+// anything; pending requests hold their room until an admin decides.
+export const loadConflictContext = async (): Promise<ConflictContext> => {
+  const [schedules, bookings, classrooms, users, modules, courses] =
+    await Promise.all(
+      [
+        "schedules",
+        "bookings",
+        "classrooms",
+        "users",
+        "modules",
+        "courses",
+      ].map((name) => getDocs(collection(db, name)))
+    );
+
+  const classroomsById = new Map(
+    classrooms.docs.map((doc) => [
+      doc.id,
+      { id: doc.id, ...doc.data() } as Classroom,
+    ])
+  );
+  const userNamesById = new Map(
+    users.docs.map((doc) => [doc.id, doc.data().name as string])
+  );
+
+  const modulesById = new Map(
+    modules.docs.map((doc) => [
+      doc.id,
+      { id: doc.id, ...doc.data() } as Module,
+    ])
+  );
+
+  // Modules belong to a course directly or are listed in a course's `modules`
+  // array. Legacy schedules only name their module, hence the title lookup.
+  const courseIdsByModuleId = new Map<string, string[]>();
+  const courseIdsByModuleTitle = new Map<string, string[]>();
+  modules.docs.forEach((moduleDoc) => {
+    const data = moduleDoc.data();
+    const courseIds = courses.docs
+      .filter((courseDoc) =>
+        (courseDoc.data().modules || []).includes(moduleDoc.id)
+      )
+      .map((courseDoc) => courseDoc.id);
+    if (data.courseId) courseIds.push(data.courseId);
+    courseIdsByModuleId.set(moduleDoc.id, Array.from(new Set(courseIds)));
+
+    const key = normalize(data.title);
+    courseIdsByModuleTitle.set(
+      key,
+      Array.from(
+        new Set([...(courseIdsByModuleTitle.get(key) || []), ...courseIds])
+      )
+    );
+  });
+
+  const context: ConflictContext = {
+    slots: [],
+    classroomsById,
+    userNamesById,
+    modulesById,
+    courseIdsByModuleId,
+    courseIdsByModuleTitle,
+  };
+  context.slots = [
+    ...schedules.docs.map((doc) =>
+      scheduleToSlot({ id: doc.id, ...doc.data() } as Schedule, context)
+    ),
+    ...bookings.docs
+      .filter((doc) => OCCUPYING_STATUSES.includes(doc.data().status))
+      .map((doc) =>
+        bookingToSlot({ id: doc.id, ...doc.data() } as Booking, context)
+      ),
+  ];
+  return context;
+};
+
+const timesOverlap = (a: ScheduleOccurrence, b: ScheduleOccurrence): boolean =>
+  toMinutes(a.startTime) < toMinutes(b.endTime) &&
+  toMinutes(b.startTime) < toMinutes(a.endTime);
+
+const sameRoom = (a: ScheduleOccurrence, b: ScheduleOccurrence): boolean =>
+  !!normalize(a.classroomNumber) &&
+  normalize(a.classroomNumber) === normalize(b.classroomNumber) &&
+  normalize(a.floorNumber) === normalize(b.floorNumber) &&
+  (!a.branch || !b.branch || normalize(a.branch) === normalize(b.branch));
+
+export const describeSlotTime = (slot: TimetableSlot): string =>
+  `${describeScheduleDates(slot.dates)}, ${slot.dates.startTime} - ${
+    slot.dates.endTime
+  }`;
+
+// The window in which `candidate` is compared with the rest of the timetable
+const comparisonWindow = (candidate: TimetableSlot): [string, string] => {
+  const today = toDateKey(new Date());
+  const rule = resolveRecurrence(candidate.dates);
+  const from = rule ? rule.startDate : candidate.dates.date;
+  const start = from && from > today ? from : today;
+  return [start, addDays(start, CONFLICT_HORIZON_DAYS)];
+};
+
+const conflictDetail = (
+  kind: ConflictKind,
+  slot: TimetableSlot,
+  clash: ScheduleOccurrence
+): string => {
+  switch (kind) {
+    case "lecturer":
+      return `${clash.lecturerName} is already ${
+        slot.source === "schedule" ? "teaching" : "booked"
+      } at this time`;
+    case "room":
+      return `Room ${clash.classroomNumber} (floor ${clash.floorNumber}${
+        clash.branch ? `, ${clash.branch}` : ""
+      }) is in use`;
+    case "cohort":
+      return "Students of the same course have another class";
+  }
+};
+
+// Existing entries with an occurrence that overlaps one of `candidate`'s and
+// shares its lecturer, room or students. Each clashing entry is reported once
+// per kind, with the first date the two meet.
+export const findConflicts = (
+  candidate: TimetableSlot,
+  context: ConflictContext
+): ScheduleConflict[] => {
+  const [from, to] = comparisonWindow(candidate);
+  const candidateOccurrences = expandOccurrences(candidate.dates, from, to);
+  if (candidateOccurrences.length === 0) return [];
+
+  const first = candidateOccurrences[0].date;
+  const last = candidateOccurrences[candidateOccurrences.length - 1].date;
+  const conflicts: ScheduleConflict[] = [];
+
+  context.slots.forEach((slot) => {
+    if (slot.source === candidate.source && slot.id === candidate.id) return;
+
+    const slotOccurrences = expandOccurrences(slot.dates, first, last);
+    const found = new Map<ConflictKind, ScheduleOccurrence>();
+
+    candidateOccurrences.forEach((mine) => {
+      slotOccurrences
+        .filter((theirs) => theirs.date === mine.date)
+        .filter((theirs) => timesOverlap(mine, theirs))
+        .forEach((theirs) => {
+          const kinds: ConflictKind[] = [];
+          if (
+            mine.lecturerName &&
+            normalize(mine.lecturerName) === normalize(theirs.lecturerName)
+          ) {
+            kinds.push("lecturer");
+          }
+          if (sameRoom(mine, theirs)) {
+            kinds.push("room");
+          }
+          if (candidate.courseIds.some((id) => slot.courseIds.includes(id))) {
+            kinds.push("cohort");
+          }
+          kinds.forEach((kind) => {
+            if (!found.has(kind)) found.set(kind, theirs);
+          });
+        });
+    });
+
+    found.forEach((clash, kind) =>
+      conflicts.push({
+        kind,
+        source: slot.source,
+        id: slot.id || "",
+        title: slot.title,
+        when: resolveRecurrence(slot.dates)
+          ? `${describeSlotTime(slot)}, first clash ${formatDateKey(
+              clash.date
+            )}`
+          : describeSlotTime(slot),
+        detail: conflictDetail(kind, slot, clash),
+      })
+    );
+  });
+
+  return conflicts;
+};
+
+export const conflictKey = (conflict: ScheduleConflict): string =>
+  `${conflict.kind}:${conflict.source}:${conflict.id}`;
+
+// An override only covers the conflicts the admin was shown
+export const isOverrideAcknowledged = (
+  found: ScheduleConflict[],
+  shown: ScheduleConflict[]
+): boolean => {
+  const shownKeys = new Set(shown.map(conflictKey));
+  return found.every((conflict) => shownKeys.has(conflictKey(conflict)));
+};
+
+export const describeConflict = (conflict: ScheduleConflict): string =>
+  `${conflict.detail}: ${conflict.title} (${conflict.when})`;
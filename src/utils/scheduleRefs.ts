@@ -0,0 +1,117 @@
+import { collection, getDocs, QuerySnapshot } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "../firebase";
+import { Classroom } from "../interfaces/Classroom";
+import { Module } from "../interfaces/Course";
+import { Schedule } from "../interfaces/Schedule";
+
+// Schedules reference their module, lecturer and classroom by ID and keep a
+// copy of the names for display. The copies are refreshed from the referenced
+// documents when schedules are read, so renaming any of them is safe.
+
+type ScheduleRefs = Partial<
+  Pick<
+    Schedule,
+    | "moduleId"
+    | "lecturerId"
+    | "classroomId"
+    | "moduleTitle"
+    | "lecturerName"
+    | "classroomNumber"
+    | "floorNumber"
+  >
+>;
+
+export interface ScheduleLecturer {
+  id: string;
+  name: string;
+}
+
+export interface ScheduleDirectory {
+  modules: Module[]; // Sorted by title, for pickers
+  lecturers: ScheduleLecturer[]; // Users with the lecturer role, sorted by name
+  classrooms: Classroom[]; // Active classrooms, sorted by building and room
+  modulesById: Map<string, Module>;
+  userNamesById: Map<string, string>; // Lecturers; schedules of former lecturers keep their stored name
+  classroomsById: Map<string, Classroom>;
+}
+
+export const buildScheduleDirectory = (
+  modules: QuerySnapshot,
+  lecturers: ScheduleLecturer[],
+  classrooms: QuerySnapshot
+): ScheduleDirectory => {
+  const moduleList = modules.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as Module))
+    .sort((a, b) => (a.title || "").localeCompare(b.title || ""));
+  const classroomList = classrooms.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as Classroom))
+    .sort(
+      (a, b) =>
+        (a.building || "").localeCompare(b.building || "") ||
+        String(a.roomNumber).localeCompare(String(b.roomNumber))
+    );
+
+  return {
+    modules: moduleList,
+    lecturers: [...lecturers].sort((a, b) => a.name.localeCompare(b.name)),
+    classrooms: classroomList.filter((classroom) => classroom.isActive),
+    modulesById: new Map(moduleList.map((module) => [module.id, module])),
+    userNamesById: new Map(
+      lecturers.map((lecturer) => [lecturer.id, lecturer.name])
+    ),
+    classroomsById: new Map(
+      classroomList.map((classroom) => [classroom.id, classroom])
+    ),
+  };
+};
+
+// Lecturers come from a callable, since user docs hold contact details that
+// students and other lecturers shouldn't read
+export const loadScheduleDirectory = async (): Promise<ScheduleDirectory> => {
+  const listLecturers = httpsCallable<void, { lecturers: ScheduleLecturer[] }>(
+    functions,
+    "listLecturers"
+  );
+  const [modules, classrooms, { data }] = await Promise.all([
+    getDocs(collection(db, "modules")),
+    getDocs(collection(db, "classrooms")),
+    listLecturers(),
+  ]);
+  return buildScheduleDirectory(modules, data.lecturers, classrooms);
+};
+
+// Replace the stored names with those of the referenced documents. Schedules
+// saved before references existed, or whose target was deleted, keep theirs.
+export const resolveScheduleRefs = <T extends ScheduleRefs>(
+  schedule: T,
+  directory: Pick<
+    ScheduleDirectory,
+    "modulesById" | "userNamesById" | "classroomsById"
+  >
+): T => {
+  const module = schedule.moduleId
+    ? directory.modulesById.get(schedule.moduleId)
+    : undefined;
+  const lecturerName = schedule.lecturerId
+    ? directory.userNamesById.get(schedule.lecturerId)
+    : undefined;
+  const classroom = schedule.classroomId
+    ? directory.classroomsById.get(schedule.classroomId)
+    : undefined;
+
+  return {
+    ...schedule,
+    ...(module && { moduleTitle: module.title }),
+    ...(lecturerName && { lecturerName }),
+    ...(classroom && {
+      classroomNumber: classroom.roomNumber,
+      floorNumber: String(classroom.floor),
+    }),
+  };
+};
+
+export const describeClassroom = (classroom: Classroom): string =>
+  `${classroom.building ? `${classroom.building} ` : ""}Room ${
+    classroom.roomNumber
+  } (Floor ${classroom.floor})`;
@@ -0,0 +1,600 @@
+import { ConflictContext } from "./scheduleConflicts";
+import { expandOccurrences, weekdayOf } from "./recurrence";
+
+// Builds a weekly timetable for a set of modules. Hard constraints (rooms big
+// enough and equipped, nobody double-booked, lecturers available) are never
+// broken; soft constraints are scored and the cheapest placement is chosen
+// for each session, hardest-to-place first.
+
+export interface GeneratorModule {
+  id: string;
+  title: string;
+  credits: number;
+  lecturers: string[]; // Names, as on schedules; the first free one teaches
+  requiredResources: string[];
+  courseIds: string[];
+  enrolled: number; // Active enrollments across its courses
+}
+
+export interface GeneratorRoom {
+  id: string;
+  building: string;
+  floor: number;
+  roomNumber: string;
+  capacity: number;
+  resources: string[];
+}
+
+export interface GeneratorOptions {
+  days: string[]; // Teaching days, e.g. ["Monday", ..., "Friday"]
+  dayStart: string; // HH:MM, earliest start
+  dayEnd: string; // HH:MM, latest end
+  sessionMinutes: number;
+  creditsPerSession: number; // A 20 credit module at 10 gets two sessions a week
+  maxLecturerHoursPerDay: number;
+  branch: string;
+  termStart: string; // YYYY-MM-DD
+  termEnd: string; // YYYY-MM-DD
+  isLecturerAvailable?: (
+    lecturerName: string,
+    day: string,
+    startTime: string,
+    endTime: string
+  ) => boolean;
+}
+
+export interface DraftSession {
+  key: string;
+  moduleId: string;
+  moduleTitle: string;
+  lecturerName: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+  roomId: string;
+  courseIds: string[];
+  enrolled: number;
+}
+
+export interface UnplacedSession {
+  moduleId: string;
+  moduleTitle: string;
+  reason: string;
+}
+
+export interface TimetableScore {
+  total: number;
+  gapMinutes: number; // Idle time between classes, for lecturers and cohorts
+  overtimeMinutes: number; // Teaching beyond the lecturer's daily maximum
+  buildingChanges: number; // Consecutive classes in different buildings
+  repeatedDays: number; // Extra sessions of a module on the same day
+}
+
+export interface GeneratedTimetable {
+  sessions: DraftSession[];
+  unplaced: UnplacedSession[];
+  score: TimetableScore;
+}
+
+// Penalty weights, in points per unit
+const WEIGHTS = {
+  gapHour: 2,
+  overtimeHour: 10,
+  buildingChange: 3,
+  repeatedDay: 4,
+  emptySeats: 0.01, // Tie-breaker preferring rooms that fit the class snugly
+};
+
+// Start times are offered on the hour and half hour
+const START_STEP_MINUTES = 30;
+
+// A class already on the timetable, reduced to the week day it repeats on
+interface BusySlot {
+  day: string;
+  start: number;
+  end: number;
+  lecturerName: string;
+  roomKey: string;
+  courseIds: string[];
+  title: string;
+}
+
+interface PlacedSlot {
+  day: string;
+  start: number;
+  end: number;
+  lecturerName: string;
+  building: string;
+  courseIds: string[];
+}
+
+const normalize = (value?: string | number): string =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+const roomKey = (roomNumber: string, floor: string | number): string =>
+  `${normalize(roomNumber)}|${normalize(floor)}`;
+
+const overlaps = (
+  a: { start: number; end: number },
+  b: { start: number; end: number }
+): boolean => a.start < b.end && b.start < a.end;
+
+export const sessionsPerWeek = (
+  module: GeneratorModule,
+  options: GeneratorOptions
+): number =>
+  Math.max(
+    1,
+    Math.round(module.credits / Math.max(1, options.creditsPerSession))
+  );
+
+export const roomSuits = (
+  room: GeneratorRoom,
+  module: GeneratorModule
+): boolean =>
+  room.capacity >= module.enrolled &&
+  module.requiredResources.every((resource) =>
+    room.resources.some((r) => normalize(r) === normalize(resource))
+  );
+
+// Existing schedules and bookings in the chosen branch during the term, as
+// the week days and times they occupy
+const busySlots = (
+  context: ConflictContext,
+  options: GeneratorOptions
+): BusySlot[] => {
+  const seen = new Map<string, BusySlot>();
+
+  context.slots.forEach((slot) => {
+    if (
+      slot.dates.branch &&
+      normalize(slot.dates.branch) !== normalize(options.branch)
+    ) {
+      return;
+    }
+
+    expandOccurrences(slot.dates, options.termStart, options.termEnd).forEach(
+      (occurrence) => {
+        const busy: BusySlot = {
+          day: weekdayOf(occurrence.date),
+          start: toMinutes(occurrence.startTime),
+          end: toMinutes(occurrence.endTime),
+          lecturerName: occurrence.lecturerName,
+          roomKey: roomKey(occurrence.classroomNumber, occurrence.floorNumber),
+          courseIds: slot.courseIds,
+          title: slot.title,
+        };
+        seen.set(
+          [slot.source, slot.id, busy.day, busy.start, busy.roomKey].join(":"),
+          busy
+        );
+      }
+    );
+  });
+
+  return Array.from(seen.values());
+};
+
+// Gaps and building changes within one person's or cohort's day
+const dayCost = (
+  slots: PlacedSlot[],
+  maxMinutes?: number
+): Omit<TimetableScore, "total" | "repeatedDays"> => {
+  const sorted = [...slots].sort((a, b) => a.start - b.start);
+  let gapMinutes = 0;
+  let buildingChanges = 0;
+  let taught = 0;
+
+  sorted.forEach((slot, index) => {
+    taught += slot.end - slot.start;
+    if (index === 0) return;
+    const previous = sorted[index - 1];
+    gapMinutes += Math.max(0, slot.start - previous.end);
+    if (normalize(slot.building) !== normalize(previous.building)) {
+      buildingChanges++;
+    }
+  });
+
+  return {
+    gapMinutes,
+    buildingChanges,
+    overtimeMinutes:
+      maxMinutes !== undefined ? Math.max(0, taught - maxMinutes) : 0,
+  };
+};
+
+const weigh = (score: Omit<TimetableScore, "total">): number =>
+  (score.gapMinutes / 60) * WEIGHTS.gapHour +
+  (score.overtimeMinutes / 60) * WEIGHTS.overtimeHour +
+  score.buildingChanges * WEIGHTS.buildingChange +
+  score.repeatedDays * WEIGHTS.repeatedDay;
+
+const toPlaced = (
+  session: DraftSession,
+  roomsById: Map<string, GeneratorRoom>
+): PlacedSlot => ({
+  day: session.day,
+  start: toMinutes(session.startTime),
+  end: toMinutes(session.endTime),
+  lecturerName: session.lecturerName,
+  building: roomsById.get(session.roomId)?.building || "",
+  courseIds: session.courseIds,
+});
+
+// Soft-constraint score of a whole timetable
+export const scoreTimetable = (
+  sessions: DraftSession[],
+  rooms: GeneratorRoom[],
+  options: GeneratorOptions
+): TimetableScore => {
+  const roomsById = new Map(rooms.map((room) => [room.id, room]));
+  const placed = sessions.map((session) => toPlaced(session, roomsById));
+  const score = {
+    gapMinutes: 0,
+    overtimeMinutes: 0,
+    buildingChanges: 0,
+    repeatedDays: 0,
+  };
+
+  const add = (part: Omit<TimetableScore, "total" | "repeatedDays">) => {
+    score.gapMinutes += part.gapMinutes;
+    score.overtimeMinutes += part.overtimeMinutes;
+    score.buildingChanges += part.buildingChanges;
+  };
+
+  options.days.forEach((day) => {
+    const onDay = placed.filter((slot) => slot.day === day);
+    new Set(onDay.map((slot) => normalize(slot.lecturerName))).forEach(
+      (lecturer) =>
+        add(
+          dayCost(
+            onDay.filter((slot) => normalize(slot.lecturerName) === lecturer),
+            options.maxLecturerHoursPerDay * 60
+          )
+        )
+    );
+    new Set(onDay.flatMap((slot) => slot.courseIds)).forEach((courseId) =>
+      add(dayCost(onDay.filter((slot) => slot.courseIds.includes(courseId))))
+    );
+  });
+
+  const perModuleDay = new Map<string, number>();
+  sessions.forEach((session) => {
+    const key = `${session.moduleId}:${session.day}`;
+    perModuleDay.set(key, (perModuleDay.get(key) || 0) + 1);
+  });
+  perModuleDay.forEach((count) => (score.repeatedDays += count - 1));
+
+  return { ...score, total: Math.round(weigh(score) * 10) / 10 };
+};
+
+// Hard constraint violations of each session, keyed by session key. Used to
+// re-check a draft after the admin has edited it.
+export const findDraftViolations = (
+  sessions: DraftSession[],
+  modules: GeneratorModule[],
+  rooms: GeneratorRoom[],
+  context: ConflictContext,
+  options: GeneratorOptions
+): Record<string, string[]> => {
+  const roomsById = new Map(rooms.map((room) => [room.id, room]));
+  const modulesById = new Map(modules.map((module) => [module.id, module]));
+  const busy = busySlots(context, options);
+  const violations: Record<string, string[]> = {};
+
+  const report = (session: DraftSession, message: string) => {
+    violations[session.key] = [...(violations[session.key] || []), message];
+  };
+
+  sessions.forEach((session, index) => {
+    const room = roomsById.get(session.roomId);
+    const module = modulesById.get(session.moduleId);
+    const time = {
+      start: toMinutes(session.startTime),
+      end: toMinutes(session.endTime),
+    };
+    const key = room ? roomKey(room.roomNumber, room.floor) : "";
+
+    if (!room) {
+      report(session, "No classroom");
+    } else if (module && !roomSuits(room, module)) {
+      report(
+        session,
+        `Room ${room.roomNumber} is too small or lacks equipment`
+      );
+    }
+    if (
+      options.isLecturerAvailable &&
+      !options.isLecturerAvailable(
+        session.lecturerName,
+        session.day,
+        session.startTime,
+        session.endTime
+      )
+    ) {
+      report(session, `${session.lecturerName} is not available`);
+    }
+
+    busy
+      .filter((slot) => slot.day === session.day && overlaps(slot, time))
+      .forEach((slot) => {
+        if (normalize(slot.lecturerName) === normalize(session.lecturerName)) {
+          report(session, `${session.lecturerName} teaches ${slot.title}`);
+        }
+        if (slot.roomKey === key) {
+          report(session, `Room is used by ${slot.title}`);
+        }
+        if (slot.courseIds.some((id) => session.courseIds.includes(id))) {
+          report(session, `Students have ${slot.title}`);
+        }
+      });
+
+    sessions.slice(index + 1).forEach((other) => {
+      if (
+        other.day !== session.day ||
+        !overlaps(time, {
+          start: toMinutes(other.startTime),
+          end: toMinutes(other.endTime),
+        })
+      ) {
+        return;
+      }
+      const otherRoom = roomsById.get(other.roomId);
+      const clashes: string[] = [];
+      if (normalize(other.lecturerName) === normalize(session.lecturerName)) {
+        clashes.push("lecturer");
+      }
+      if (otherRoom && room && otherRoom.id === room.id) {
+        clashes.push("room");
+      }
+      if (other.courseIds.some((id) => session.courseIds.includes(id))) {
+        clashes.push("students");
+      }
+      clashes.forEach((kind) => {
+        report(session, `Same ${kind} as ${other.moduleTitle}`);
+        report(other, `Same ${kind} as ${session.moduleTitle}`);
+      });
+    });
+  });
+
+  return violations;
+};
+
+export const generateTimetable = (
+  modules: GeneratorModule[],
+  rooms: GeneratorRoom[],
+  context: ConflictContext,
+  options: GeneratorOptions
+): GeneratedTimetable => {
+  const roomsById = new Map(rooms.map((room) => [room.id, room]));
+  const busy = busySlots(context, options);
+  const dayStart = toMinutes(options.dayStart);
+  const dayEnd = toMinutes(options.dayEnd);
+
+  const starts: number[] = [];
+  for (
+    let start = dayStart;
+    start + options.sessionMinutes <= dayEnd;
+    start += START_STEP_MINUTES
+  ) {
+    starts.push(start);
+  }
+
+  // Sessions with the fewest suitable rooms and lecturers go first
+  const suitableRooms = new Map(
+    modules.map((module) => [
+      module.id,
+      rooms.filter((room) => roomSuits(room, module)),
+    ])
+  );
+  const queue = modules
+    .flatMap((module) =>
+      Array.from({ length: sessionsPerWeek(module, options) }, (_, index) => ({
+        module,
+        index,
+      }))
+    )
+    .sort(
+      (a, b) =>
+        suitableRooms.get(a.module.id)!.length -
+          suitableRooms.get(b.module.id)!.length ||
+        a.module.lecturers.length - b.module.lecturers.length ||
+        b.module.enrolled - a.module.enrolled
+    );
+
+  const sessions: DraftSession[] = [];
+  const unplaced: UnplacedSession[] = [];
+
+  const isFree = (
+    module: GeneratorModule,
+    lecturerName: string,
+    room: GeneratorRoom,
+    day: string,
+    time: { start: number; end: number }
+  ): boolean => {
+    const key = roomKey(room.roomNumber, room.floor);
+    const lecturer = normalize(lecturerName);
+    const sharesStudents = (courseIds: string[]) =>
+      courseIds.some((id) => module.courseIds.includes(id));
+
+    return (
+      busy.every(
+        (slot) =>
+          slot.day !== day ||
+          !overlaps(slot, time) ||
+          (normalize(slot.lecturerName) !== lecturer &&
+            slot.roomKey !== key &&
+            !sharesStudents(slot.courseIds))
+      ) &&
+      sessions.every(
+        (session) =>
+          session.day !== day ||
+          !overlaps(time, {
+            start: toMinutes(session.startTime),
+            end: toMinutes(session.endTime),
+          }) ||
+          (normalize(session.lecturerName) !== lecturer &&
+            session.roomId !== room.id &&
+            !sharesStudents(session.courseIds))
+      )
+    );
+  };
+
+  // Change in soft-constraint cost from adding `candidate` to the draft
+  const costOf = (candidate: DraftSession, room: GeneratorRoom): number => {
+    const placed = sessions
+      .filter((session) => session.day === candidate.day)
+      .map((session) => toPlaced(session, roomsById));
+    const added = toPlaced(candidate, roomsById);
+    const lecturer = normalize(candidate.lecturerName);
+
+    const groups: { slots: PlacedSlot[]; max?: number }[] = [
+      {
+        slots: placed.filter(
+          (slot) => normalize(slot.lecturerName) === lecturer
+        ),
+        max: options.maxLecturerHoursPerDay * 60,
+      },
+      ...candidate.courseIds.map((courseId) => ({
+        slots: placed.filter((slot) => slot.courseIds.includes(courseId)),
+      })),
+    ];
+
+    let cost = 0;
+    groups.forEach(({ slots, max }) => {
+      const before = dayCost(slots, max);
+      const after = dayCost([...slots, added], max);
+      cost += weigh({
+        gapMinutes: after.gapMinutes - before.gapMinutes,
+        overtimeMinutes: after.overtimeMinutes - before.overtimeMinutes,
+        buildingChanges: after.buildingChanges - before.buildingChanges,
+        repeatedDays: 0,
+      });
+    });
+
+    if (
+      sessions.some(
+        (session) =>
+          session.moduleId === candidate.moduleId &&
+          session.day === candidate.day
+      )
+    ) {
+      cost += WEIGHTS.repeatedDay;
+    }
+    return cost + (room.capacity - candidate.enrolled) * WEIGHTS.emptySeats;
+  };
+
+  queue.forEach(({ module, index }) => {
+    const roomsForModule = suitableRooms.get(module.id)!;
+    if (module.lecturers.length === 0) {
+      unplaced.push({
+        moduleId: module.id,
+        moduleTitle: module.title,
+        reason: "No lecturer assigned",
+      });
+      return;
+    }
+    if (roomsForModule.length === 0) {
+      unplaced.push({
+        moduleId: module.id,
+        moduleTitle: module.title,
+        reason: `No room seats ${module.enrolled} students${
+          module.requiredResources.length
+            ? ` with ${module.requiredResources.join(", ")}`
+            : ""
+        }`,
+      });
+      return;
+    }
+
+    let best: DraftSession | null = null;
+    let bestCost = Infinity;
+    for (const day of options.days) {
+      for (const start of starts) {
+        const time = { start, end: start + options.sessionMinutes };
+        for (const lecturerName of module.lecturers) {
+          if (
+            options.isLecturerAvailable &&
+            !options.isLecturerAvailable(
+              lecturerName,
+              day,
+              toTime(time.start),
+              toTime(time.end)
+            )
+          ) {
+            continue;
+          }
+          for (const room of roomsForModule) {
+            if (!isFree(module, lecturerName, room, day, time)) continue;
+
+            const session: DraftSession = {
+              key: `${module.id}-${index}`,
+              moduleId: module.id,
+              moduleTitle: module.title,
+              lecturerName,
+              day,
+              startTime: toTime(time.start),
+              endTime: toTime(time.end),
+              roomId: room.id,
+              courseIds: module.courseIds,
+              enrolled: module.enrolled,
+            };
+            const cost = costOf(session, room);
+            if (cost < bestCost) {
+              best = session;
+              bestCost = cost;
+            }
+          }
+        }
+      }
+    }
+
+    if (best) {
+      sessions.push(best);
+    } else {
+      unplaced.push({
+        moduleId: module.id,
+        moduleTitle: module.title,
+        reason: "No free time for its lecturers, rooms and students",
+      });
+    }
+  });
+
+  sessions.sort(
+    (a, b) =>
+      options.days.indexOf(a.day) - options.days.indexOf(b.day) ||
+      a.startTime.localeCompare(b.startTime)
+  );
+
+  return {
+    sessions,
+    unplaced,
+    score: scoreTimetable(sessions, rooms, options),
+  };
+};
+
+// Move a draft session to another start time, keeping its length
+export const withStartTime = (
+  session: DraftSession,
+  startTime: string
+): DraftSession => ({
+  ...session,
+  startTime,
+  endTime: toTime(
+    toMinutes(startTime) +
+      toMinutes(session.endTime) -
+      toMinutes(session.startTime)
+  ),
+});
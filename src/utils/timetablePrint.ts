@@ -0,0 +1,574 @@
+import { ScheduleOccurrence } from "../interfaces/Schedule";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PdfColor,
+  createPage,
+  drawLine,
+  drawRect,
+  drawText,
+  fitText,
+  textWidth,
+  toPdfBlob,
+} from "./pdf";
+import {
+  WEEKDAYS,
+  addDays,
+  expandOccurrences,
+  formatDateKey,
+  toDateKey,
+  weekdayOf,
+} from "./recurrence";
+import { ConflictContext } from "./scheduleConflicts";
+
+export const INSTITUTION_NAME = "Vertex University";
+export const SYSTEM_NAME = "Smart Campus Management System";
+
+// Longest range printed at once, to keep documents a sensible size
+export const MAX_PRINT_WEEKS = 26;
+
+export type PrintSubjectKind = "course" | "lecturer" | "classroom";
+
+export interface PrintSubject {
+  kind: PrintSubjectKind;
+  id: string;
+  label: string; // e.g. the course title, shown in the heading
+  semester?: number; // Courses only: just the modules of this semester
+}
+
+export interface PrintEntry {
+  date: string;
+  startTime: string;
+  endTime: string;
+  title: string;
+  details: string[]; // Room, lecturer etc., whichever the subject doesn't fix
+  isCancelled: boolean;
+}
+
+export interface PrintBlock {
+  entry: PrintEntry;
+  day: number; // Column within the week
+  lane: number; // Side by side with overlapping entries
+  lanes: number;
+}
+
+export interface PrintWeek {
+  start: string; // Monday, YYYY-MM-DD
+  days: string[];
+  blocks: PrintBlock[];
+}
+
+export interface PrintTimetable {
+  subject: PrintSubject;
+  from: string;
+  to: string;
+  weeks: PrintWeek[]; // Weeks without classes are left out
+  firstHour: number;
+  lastHour: number;
+}
+
+const normalize = (value?: string | number): string =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((num) => parseInt(num, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+export const weekStartOf = (date: string): string =>
+  addDays(date, -((WEEKDAYS.indexOf(weekdayOf(date)) + 6) % 7));
+
+export const describeSubject = (subject: PrintSubject): string => {
+  switch (subject.kind) {
+    case "course":
+      return `${subject.label}${
+        subject.semester ? `, Semester ${subject.semester}` : ""
+      }`;
+    case "lecturer":
+      return `Lecturer: ${subject.label}`;
+    default:
+      return `Room: ${subject.label}`;
+  }
+};
+
+// The classes (and for rooms, bookings) of the subject between `from` and
+// `to`, cancelled ones included so the printout shows them struck through
+export const collectPrintEntries = (
+  subject: PrintSubject,
+  from: string,
+  to: string,
+  context: ConflictContext
+): PrintEntry[] => {
+  const lecturerName = normalize(context.userNamesById.get(subject.id));
+  const classroom = context.classroomsById.get(subject.id);
+
+  const belongs = (
+    slot: ConflictContext["slots"][number],
+    occurrence: ScheduleOccurrence
+  ): boolean => {
+    switch (subject.kind) {
+      case "course":
+        return (
+          slot.source === "schedule" &&
+          slot.courseIds.includes(subject.id) &&
+          (!subject.semester ||
+            Number(context.modulesById.get(slot.moduleId || "")?.semester) ===
+              subject.semester)
+        );
+      case "lecturer":
+        return (
+          slot.source === "schedule" &&
+          !!lecturerName &&
+          normalize(occurrence.lecturerName) === lecturerName
+        );
+      default:
+        return (
+          !!classroom &&
+          normalize(occurrence.classroomNumber) ===
+            normalize(classroom.roomNumber) &&
+          normalize(occurrence.floorNumber) === normalize(classroom.floor)
+        );
+    }
+  };
+
+  return context.slots
+    .flatMap((slot) =>
+      expandOccurrences(slot.dates, from, to, { includeCancelled: true })
+        .filter((occurrence) => belongs(slot, occurrence))
+        .map((occurrence) => ({
+          date: occurrence.date,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          title:
+            slot.source === "booking" ? `${slot.title} (booking)` : slot.title,
+          details: [
+            ...(subject.kind !== "classroom"
+              ? [
+                  `Room ${occurrence.classroomNumber}, Floor ${occurrence.floorNumber}`,
+                ]
+              : []),
+            ...(subject.kind !== "lecturer" && occurrence.lecturerName
+              ? [
+                  occurrence.substituteFor
+                    ? `${occurrence.lecturerName} (cover)`
+                    : occurrence.lecturerName,
+                ]
+              : []),
+            ...(subject.kind === "lecturer" && occurrence.substituteFor
+              ? [`Covering for ${occurrence.substituteFor}`]
+              : []),
+            ...(occurrence.branch ? [occurrence.branch] : []),
+          ],
+          isCancelled: occurrence.isCancelled,
+        }))
+    )
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)
+    );
+};
+
+// Overlapping entries on a day share its width, side by side
+const layoutDay = (entries: PrintEntry[], day: number): PrintBlock[] => {
+  const blocks: PrintBlock[] = [];
+  let group: PrintBlock[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach((block) => (block.lanes = laneEnds.length));
+    blocks.push(...group);
+    group = [];
+    laneEnds = [];
+  };
+
+  entries.forEach((entry) => {
+    const start = toMinutes(entry.startTime);
+    const end = toMinutes(entry.endTime);
+    if (start >= groupEnd) closeGroup();
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    groupEnd = Math.max(groupEnd, end);
+    group.push({ entry, day, lane, lanes: 1 });
+  });
+  closeGroup();
+
+  return blocks;
+};
+
+export const buildPrintTimetable = (
+  subject: PrintSubject,
+  from: string,
+  to: string,
+  entries: PrintEntry[]
+): PrintTimetable => {
+  const weekdays = entries.map((entry) => weekdayOf(entry.date));
+  const dayCount = weekdays.includes("Sunday")
+    ? 7
+    : weekdays.includes("Saturday")
+    ? 6
+    : 5;
+
+  const weeks: PrintWeek[] = [];
+  for (let start = weekStartOf(from); start <= to; start = addDays(start, 7)) {
+    const days = Array.from({ length: dayCount }, (_, i) => addDays(start, i));
+    const blocks = days.flatMap((date, day) =>
+      layoutDay(
+        entries.filter((entry) => entry.date === date),
+        day
+      )
+    );
+    if (blocks.length > 0) weeks.push({ start, days, blocks });
+  }
+
+  // Office hours, stretched to fit early and late classes
+  const firstHour = Math.min(
+    8,
+    ...entries.map((entry) => Math.floor(toMinutes(entry.startTime) / 60))
+  );
+  const lastHour = Math.max(
+    18,
+    ...entries.map((entry) => Math.ceil(toMinutes(entry.endTime) / 60))
+  );
+
+  return { subject, from, to, weeks, firstHour, lastHour };
+};
+
+const hoursOf = (timetable: PrintTimetable): number[] =>
+  Array.from(
+    { length: timetable.lastHour - timetable.firstHour },
+    (_, i) => timetable.firstHour + i
+  );
+
+const formatHour = (hour: number): string =>
+  `${String(hour).padStart(2, "0")}:00`;
+
+const shortDay = (date: string): string =>
+  `${weekdayOf(date).slice(0, 3)} ${formatDateKey(date).replace(/, \d+$/, "")}`;
+
+const describeRange = (timetable: PrintTimetable): string =>
+  `${formatDateKey(timetable.from)} - ${formatDateKey(timetable.to)}`;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A self-contained page laid out for A4 landscape, one week per sheet, that
+// opens the print dialog once loaded
+export const timetableHtml = (timetable: PrintTimetable): string => {
+  const span = (timetable.lastHour - timetable.firstHour) * 60;
+  const position = (block: PrintBlock) => {
+    const top =
+      ((toMinutes(block.entry.startTime) - timetable.firstHour * 60) / span) *
+      100;
+    const height =
+      ((toMinutes(block.entry.endTime) - toMinutes(block.entry.startTime)) /
+        span) *
+      100;
+    const width = 100 / block.lanes;
+    return `top:${top}%;height:${height}%;left:${block.lane * width}%;width:${width}%`;
+  };
+
+  const weeks = timetable.weeks
+    .map(
+      (week) => `
+<section class="week">
+  <header>
+    <div>
+      <div class="brand">${escapeHtml(INSTITUTION_NAME)}</div>
+      <div class="muted">${escapeHtml(SYSTEM_NAME)}</div>
+    </div>
+    <div class="heading">
+      <h1>${escapeHtml(describeSubject(timetable.subject))}</h1>
+      <div class="muted">Week of ${formatDateKey(week.start)} &middot; ${describeRange(
+        timetable
+      )}</div>
+    </div>
+  </header>
+  <div class="grid" style="grid-template-columns:3.5em repeat(${
+    week.days.length
+  },1fr)">
+    <div></div>
+    ${week.days
+      .map((date) => `<div class="day-name">${shortDay(date)}</div>`)
+      .join("")}
+    <div class="hours">
+      ${hoursOf(timetable)
+        .map((hour) => `<div class="hour">${formatHour(hour)}</div>`)
+        .join("")}
+    </div>
+    ${week.days
+      .map(
+        (_, day) => `<div class="day">
+      ${hoursOf(timetable)
+        .map(() => '<div class="hour"></div>')
+        .join("")}
+      ${week.blocks
+        .filter((block) => block.day === day)
+        .map(
+          (block) => `<div class="entry${
+            block.entry.isCancelled ? " cancelled" : ""
+          }" style="${position(block)}">
+        <strong>${escapeHtml(block.entry.title)}</strong>
+        <div>${block.entry.startTime} - ${block.entry.endTime}${
+          block.entry.isCancelled ? " &middot; Cancelled" : ""
+        }</div>
+        ${block.entry.details
+          .map((detail) => `<div>${escapeHtml(detail)}</div>`)
+          .join("")}
+      </div>`
+        )
+        .join("")}
+    </div>`
+      )
+      .join("")}
+  </div>
+  <footer class="muted">Printed ${formatDateKey(toDateKey(new Date()))}</footer>
+</section>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(describeSubject(timetable.subject))} - Timetable</title>
+<style>
+  @page { size: A4 landscape; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 9pt; color: #212529; margin: 0; }
+  .week { height: 188mm; display: flex; flex-direction: column; page-break-after: always; }
+  .week:last-child { page-break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #0d6efd; padding-bottom: 4px; margin-bottom: 6px; }
+  .brand { font-size: 14pt; font-weight: bold; color: #0d6efd; }
+  .heading { text-align: right; }
+  h1 { font-size: 13pt; margin: 0; }
+  .muted { color: #6c757d; font-size: 8pt; }
+  .grid { flex: 1; display: grid; grid-template-rows: auto 1fr; border: 1px solid #dee2e6; }
+  .day-name { text-align: center; font-weight: bold; padding: 3px; background: #f8f9fa; border-left: 1px solid #dee2e6; }
+  .hours, .day { display: flex; flex-direction: column; position: relative; }
+  .day { border-left: 1px solid #dee2e6; }
+  .hour { flex: 1; border-top: 1px solid #eee; padding: 1px 3px; color: #6c757d; font-size: 7pt; }
+  .entry { position: absolute; padding: 2px 3px; overflow: hidden; background: #e7f1ff; border: 1px solid #0d6efd; border-left-width: 3px; border-radius: 2px; font-size: 7.5pt; line-height: 1.25; }
+  .entry.cancelled { background: #f1f3f5; border-color: #adb5bd; color: #6c757d; text-decoration: line-through; }
+  footer { text-align: right; margin-top: 3px; }
+  .empty { text-align: center; margin-top: 40mm; color: #6c757d; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+${
+  weeks ||
+  `<p class="empty">No classes between ${describeRange(timetable)}.</p>`
+}
+<script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`;
+};
+
+const BRAND: PdfColor = [13, 110, 253];
+const MUTED: PdfColor = [108, 117, 125];
+const GRID: PdfColor = [222, 226, 230];
+const ENTRY: PdfColor = [231, 241, 255];
+const CANCELLED: PdfColor = [241, 243, 245];
+
+// The same weekly grids as a PDF, one A4 landscape page per week
+export const timetablePdf = (timetable: PrintTimetable): Blob => {
+  const margin = 28;
+  const hourColumn = 36;
+  const gridTop = 84;
+  const dayHeader = 16;
+  const gridBottom = PAGE_HEIGHT - margin - 12;
+  const hours = hoursOf(timetable);
+  const hourHeight = (gridBottom - gridTop - dayHeader) / hours.length;
+  const printed = `Printed ${formatDateKey(toDateKey(new Date()))}`;
+
+  const pages = (timetable.weeks.length > 0 ? timetable.weeks : [null]).map(
+    (week) => {
+      const page = createPage();
+      drawText(page, margin, margin + 14, INSTITUTION_NAME, {
+        size: 16,
+        bold: true,
+        color: BRAND,
+      });
+      drawText(page, margin, margin + 28, SYSTEM_NAME, {
+        size: 8,
+        color: MUTED,
+      });
+      const heading = fitText(
+        describeSubject(timetable.subject),
+        360,
+        13,
+        true
+      );
+      drawText(
+        page,
+        PAGE_WIDTH - margin - textWidth(heading, 13, true),
+        margin + 14,
+        heading,
+        { size: 13, bold: true }
+      );
+      const subheading = `${
+        week ? `Week of ${formatDateKey(week.start)}  |  ` : ""
+      }${describeRange(timetable)}`;
+      drawText(
+        page,
+        PAGE_WIDTH - margin - textWidth(subheading, 8),
+        margin + 28,
+        subheading,
+        { size: 8, color: MUTED }
+      );
+      drawLine(
+        page,
+        margin,
+        margin + 36,
+        PAGE_WIDTH - margin,
+        margin + 36,
+        BRAND,
+        1.5
+      );
+
+      if (!week) {
+        drawText(
+          page,
+          margin,
+          gridTop + 40,
+          `No classes between ${describeRange(timetable)}.`,
+          { size: 11, color: MUTED }
+        );
+        return page;
+      }
+
+      const dayWidth =
+        (PAGE_WIDTH - margin * 2 - hourColumn) / week.days.length;
+      const left = margin + hourColumn;
+      const top = gridTop + dayHeader;
+
+      drawRect(
+        page,
+        margin,
+        gridTop,
+        PAGE_WIDTH - margin * 2,
+        gridBottom - gridTop,
+        {
+          stroke: GRID,
+        }
+      );
+      week.days.forEach((date, day) => {
+        const x = left + day * dayWidth;
+        drawRect(page, x, gridTop, dayWidth, dayHeader, {
+          fill: [248, 249, 250],
+        });
+        drawLine(page, x, gridTop, x, gridBottom, GRID);
+        drawText(page, x + 4, gridTop + 11, shortDay(date), {
+          size: 8,
+          bold: true,
+        });
+      });
+      hours.forEach((hour, i) => {
+        const y = top + i * hourHeight;
+        drawLine(page, margin, y, PAGE_WIDTH - margin, y, GRID);
+        drawText(page, margin + 3, y + 9, formatHour(hour), {
+          size: 7,
+          color: MUTED,
+        });
+      });
+
+      week.blocks.forEach((block) => {
+        const { entry } = block;
+        const width = dayWidth / block.lanes;
+        const x = left + block.day * dayWidth + block.lane * width + 1;
+        const y =
+          top +
+          ((toMinutes(entry.startTime) - timetable.firstHour * 60) / 60) *
+            hourHeight +
+          1;
+        const height = Math.max(
+          10,
+          ((toMinutes(entry.endTime) - toMinutes(entry.startTime)) / 60) *
+            hourHeight -
+            2
+        );
+        const color = entry.isCancelled ? MUTED : BRAND;
+        drawRect(page, x, y, width - 2, height, {
+          fill: entry.isCancelled ? CANCELLED : ENTRY,
+          stroke: color,
+        });
+        drawRect(page, x, y, 2.5, height, { fill: color });
+
+        const lines = [
+          { text: entry.title, bold: true },
+          {
+            text: `${entry.startTime} - ${entry.endTime}${
+              entry.isCancelled ? " (Cancelled)" : ""
+            }`,
+            bold: false,
+          },
+          ...entry.details.map((text) => ({ text, bold: false })),
+        ];
+        lines
+          .slice(0, Math.max(1, Math.floor((height - 3) / 8.5)))
+          .forEach((line, i) =>
+            drawText(
+              page,
+              x + 5,
+              y + 8 + i * 8.5,
+              fitText(line.text, width - 9, 7, line.bold),
+              {
+                size: 7,
+                bold: line.bold,
+                color: entry.isCancelled ? MUTED : [33, 37, 41],
+                strike: entry.isCancelled && i === 0,
+              }
+            )
+          );
+      });
+
+      drawText(
+        page,
+        PAGE_WIDTH - margin - textWidth(printed, 7),
+        PAGE_HEIGHT - margin + 2,
+        printed,
+        { size: 7, color: MUTED }
+      );
+      return page;
+    }
+  );
+
+  return toPdfBlob(pages);
+};
+
+const fileName = (timetable: PrintTimetable): string =>
+  `vertex-timetable-${describeSubject(timetable.subject)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}.pdf`;
+
+// Opens the print page in a new tab. Returns false if a pop-up blocker
+// stopped it.
+export const openPrintableTimetable = (timetable: PrintTimetable): boolean => {
+  const url = URL.createObjectURL(
+    new Blob([timetableHtml(timetable)], { type: "text/html;charset=utf-8" })
+  );
+  const opened = window.open(url, "_blank");
+  // The new tab has loaded the page long before this
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+  return !!opened;
+};
+
+export const downloadTimetablePdf = (timetable: PrintTimetable) => {
+  const url = URL.createObjectURL(timetablePdf(timetable));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName(timetable);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};